@@ -8,7 +8,9 @@ import * as generatorModule from "../spec/generator.js";
 vi.mock("../spec/generator.js");
 vi.mock("../config/env.js", () => ({
   getEnv: () => ({
+    LLM_PROVIDER: "openai",
     OPENAI_API_KEY: "test-key",
+    OPENAI_MODEL: "gpt-5-nano",
     PORT: 3000,
     LOG_LEVEL: "info",
     LOG_HASH_SECRET: "test-secret",
@@ -16,6 +18,7 @@ vi.mock("../config/env.js", () => ({
     OPENAI_TIMEOUT_MS: 30000,
     OPENAI_RETRY_MAX: 2,
     OPENAI_RETRY_BASE_MS: 1000,
+    SPEC_REPAIR_MAX_ROUNDS: 2,
     BUDGET_MAX_TOKENS: 8000,
     BUDGET_MAX_DURATION_MS: 8000,
     BUDGET_MAX_COMPLETION_RATIO: 3.0,
@@ -54,15 +57,24 @@ describe("Observability Integration Tests", () => {
     app = createServer();
 
     mockGenerateDesignSpec.mockResolvedValue({
-      page: "Test Page",
-      frame: {
-        name: "Test Frame",
-        width: 400,
-        layout: "vertical" as const,
-        gap: 16,
-        padding: 24,
+      spec: {
+        page: "Test Page",
+        frame: {
+          name: "Test Frame",
+          width: 400,
+          layout: "vertical" as const,
+          gap: 16,
+          padding: 24,
+        },
+        nodes: [{ type: "text" as const, content: "Test content" }],
+      },
+      warnings: [],
+      analysis: { nodes_count: 1, depth: 1, surface_nodes_count: 0 },
+      usage: {
+        tokens: { prompt: 100, completion: 50, total: 150 },
+        model: "gpt-5-nano",
+        durationMs: 0,
       },
-      nodes: [{ type: "text" as const, content: "Test content" }],
     });
   });
 
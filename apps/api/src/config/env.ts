@@ -1,24 +1,70 @@
 import { z } from "zod";
 
-const envSchema = z.object({
-  OPENAI_API_KEY: z.string().min(1, "OPENAI_API_KEY is required"),
-  PORT: z.coerce.number().int().positive().default(3000),
-  LOG_LEVEL: z.enum(["fatal", "error", "warn", "info", "debug", "trace"]).default("info"),
-  // Logging and security
-  LOG_HASH_SECRET: z
-    .string()
-    .min(1, "LOG_HASH_SECRET is required")
-    .default("change-me-in-production"),
-  LOG_DEBUG_PAYLOADS: z.coerce.boolean().default(false),
-  // OpenAI configuration
-  OPENAI_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
-  OPENAI_RETRY_MAX: z.coerce.number().int().nonnegative().default(2),
-  OPENAI_RETRY_BASE_MS: z.coerce.number().int().positive().default(1000),
-  // Budget alerts
-  BUDGET_MAX_TOKENS: z.coerce.number().int().positive().default(8000),
-  BUDGET_MAX_DURATION_MS: z.coerce.number().int().positive().default(8000),
-  BUDGET_MAX_COMPLETION_RATIO: z.coerce.number().positive().default(3.0),
-});
+const envSchema = z
+  .object({
+    // Model backend: the OpenAI API, an OpenAI-compatible server at LLM_BASE_URL (Ollama,
+    // llama.cpp server, vLLM), or responses recorded in LLM_FIXTURES_DIR
+    LLM_PROVIDER: z.enum(["openai", "openai-compatible", "fixture"]).default("openai"),
+    LLM_BASE_URL: z.string().url().optional(),
+    LLM_FIXTURES_DIR: z.string().min(1).optional(),
+    // Records every response of the openai or openai-compatible backend into this directory
+    LLM_RECORD_DIR: z.string().min(1).optional(),
+    OPENAI_API_KEY: z.string().min(1).optional(),
+    // Default model; requests may select another model from the allowlist, or a quality tier
+    // mapped to a model in spec-rules/models.json
+    OPENAI_MODEL: z.string().min(1).default("gpt-5-nano"),
+    // Comma-separated; every model in spec-rules/models.json when unset
+    OPENAI_MODEL_ALLOWLIST: z
+      .string()
+      .optional()
+      .transform((value) =>
+        value
+          ?.split(",")
+          .map((model) => model.trim())
+          .filter(Boolean),
+      ),
+    PORT: z.coerce.number().int().positive().default(3000),
+    LOG_LEVEL: z.enum(["fatal", "error", "warn", "info", "debug", "trace"]).default("info"),
+    // Logging and security
+    LOG_HASH_SECRET: z
+      .string()
+      .min(1, "LOG_HASH_SECRET is required")
+      .default("change-me-in-production"),
+    LOG_DEBUG_PAYLOADS: z.coerce.boolean().default(false),
+    // OpenAI configuration
+    OPENAI_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
+    OPENAI_RETRY_MAX: z.coerce.number().int().nonnegative().default(2),
+    OPENAI_RETRY_BASE_MS: z.coerce.number().int().positive().default(1000),
+    // Model correction rounds for invalid specs, after local repairs
+    SPEC_REPAIR_MAX_ROUNDS: z.coerce.number().int().nonnegative().default(2),
+    // Budget alerts
+    BUDGET_MAX_TOKENS: z.coerce.number().int().positive().default(8000),
+    BUDGET_MAX_DURATION_MS: z.coerce.number().int().positive().default(8000),
+    BUDGET_MAX_COMPLETION_RATIO: z.coerce.number().positive().default(3.0),
+  })
+  .superRefine((env, ctx) => {
+    if (env.LLM_PROVIDER === "openai" && !env.OPENAI_API_KEY) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["OPENAI_API_KEY"],
+        message: "OPENAI_API_KEY is required",
+      });
+    }
+    if (env.LLM_PROVIDER === "openai-compatible" && !env.LLM_BASE_URL) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["LLM_BASE_URL"],
+        message: "LLM_BASE_URL is required for the openai-compatible provider",
+      });
+    }
+    if (env.LLM_PROVIDER === "fixture" && !env.LLM_FIXTURES_DIR) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["LLM_FIXTURES_DIR"],
+        message: "LLM_FIXTURES_DIR is required for the fixture provider",
+      });
+    }
+  });
 
 export type Env = z.infer<typeof envSchema>;
 
@@ -0,0 +1,81 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFixtureProvider, createRecordingProvider, fixtureKey } from "../fixtureProvider.js";
+import type { ChatCompletionRequest, LlmProvider } from "../types.js";
+
+const request: ChatCompletionRequest = {
+  model: "gpt-5-nano",
+  messages: [
+    { role: "system", content: "You generate DesignSpecs." },
+    { role: "user", content: "Create a login form" },
+  ],
+  responseSchema: { name: "DesignSpec", schema: { type: "object" } },
+};
+
+describe("fixture provider", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "eskiz-fixtures-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("replays the response recorded for the request", async () => {
+    const recorded = {
+      content: '{"page":"Login"}',
+      usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+      requestId: "chatcmpl-1",
+    };
+    writeFileSync(join(dir, `${fixtureKey(request)}.json`), JSON.stringify(recorded));
+
+    const response = await createFixtureProvider(dir).complete(request);
+
+    expect(response).toEqual(recorded);
+  });
+
+  it("keys requests by messages and schema, not by model", () => {
+    expect(fixtureKey({ ...request, model: "llama3.1" })).toBe(fixtureKey(request));
+    expect(
+      fixtureKey({ ...request, messages: [{ role: "user", content: "Create a signup form" }] }),
+    ).not.toBe(fixtureKey(request));
+  });
+
+  it("falls back to the fixture named after the response schema", async () => {
+    writeFileSync(join(dir, "DesignSpec.json"), JSON.stringify({ content: { page: "Any" } }));
+
+    const response = await createFixtureProvider(dir).complete(request);
+
+    expect(response).toEqual({
+      content: '{"page":"Any"}',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      requestId: null,
+    });
+  });
+
+  it("fails when no response is recorded", async () => {
+    await expect(createFixtureProvider(dir).complete(request)).rejects.toThrow(
+      `No recorded response for request ${fixtureKey(request)}`,
+    );
+  });
+
+  it("records responses for replay", async () => {
+    const response = {
+      content: '{"page":"Login"}',
+      usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+      requestId: "chatcmpl-1",
+    };
+    const live: LlmProvider = { name: "openai", complete: vi.fn().mockResolvedValue(response) };
+    const recordDir = join(dir, "recorded");
+
+    await createRecordingProvider(live, recordDir).complete(request);
+
+    const written = readFileSync(join(recordDir, `${fixtureKey(request)}.json`), "utf-8");
+    expect(JSON.parse(written)).toEqual(response);
+    await expect(createFixtureProvider(recordDir).complete(request)).resolves.toEqual(response);
+  });
+});
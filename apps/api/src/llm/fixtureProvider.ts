@@ -0,0 +1,132 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+import { computeObjectHash } from "../utils/hash.js";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  CompletionOptions,
+  LlmProvider,
+} from "./types.js";
+
+/**
+ * A recorded response. Hand-written fixtures may give the content as a JSON object
+ * instead of the string the model returned.
+ */
+const fixtureSchema = z.object({
+  content: z.union([z.string(), z.record(z.unknown())]).nullable(),
+  usage: z
+    .object({
+      promptTokens: z.number().int().nonnegative(),
+      completionTokens: z.number().int().nonnegative(),
+      totalTokens: z.number().int().nonnegative(),
+    })
+    .default({ promptTokens: 0, completionTokens: 0, totalTokens: 0 }),
+  requestId: z.string().nullable().default(null),
+});
+
+/**
+ * Recorded content is streamed in chunks of this many characters
+ */
+const STREAM_CHUNK_CHARS = 64;
+
+/**
+ * Identifies a request by its messages and response schema. The model is left out, so
+ * responses recorded with one model replay under any other.
+ */
+export function fixtureKey(request: ChatCompletionRequest): string {
+  return computeObjectHash({
+    messages: request.messages,
+    responseSchema: request.responseSchema?.name ?? null,
+  });
+}
+
+async function readFixture(path: string): Promise<ChatCompletionResponse | undefined> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+
+  const result = fixtureSchema.safeParse(JSON.parse(text));
+  if (!result.success) {
+    throw new Error(`Invalid fixture ${path}: ${result.error.message}`);
+  }
+  const { content, usage, requestId } = result.data;
+  return {
+    content: typeof content === "string" || content === null ? content : JSON.stringify(content),
+    usage,
+    requestId,
+  };
+}
+
+async function findFixture(
+  dir: string,
+  request: ChatCompletionRequest,
+): Promise<ChatCompletionResponse> {
+  const key = fixtureKey(request);
+  const recorded = await readFixture(join(dir, `${key}.json`));
+  if (recorded) {
+    return recorded;
+  }
+
+  const schemaName = request.responseSchema?.name;
+  const fallback = schemaName && (await readFixture(join(dir, `${schemaName}.json`)));
+  if (fallback) {
+    return fallback;
+  }
+
+  throw new Error(`No recorded response for request ${key} in ${dir}`);
+}
+
+/**
+ * Serves recorded responses from a directory, without any network access. A request is
+ * answered from `<key>.json` (see fixtureKey), or else from `<response schema name>.json`
+ * (e.g., "DesignSpec.json"), which answers every request for that document.
+ */
+export function createFixtureProvider(dir: string): LlmProvider {
+  return {
+    name: "fixture",
+    async complete(
+      request: ChatCompletionRequest,
+      { onContent, signal }: CompletionOptions = {},
+    ): Promise<ChatCompletionResponse> {
+      signal?.throwIfAborted();
+      const response = await findFixture(dir, request);
+      const content = response.content ?? "";
+      if (onContent) {
+        for (let end = STREAM_CHUNK_CHARS; end < content.length; end += STREAM_CHUNK_CHARS) {
+          onContent(content.slice(0, end));
+        }
+        onContent(content);
+      }
+      return response;
+    },
+  };
+}
+
+/**
+ * Passes requests through to a provider and writes each response to `<key>.json` in the
+ * directory, for the fixture provider to replay
+ */
+export function createRecordingProvider(provider: LlmProvider, dir: string): LlmProvider {
+  return {
+    name: provider.name,
+    async complete(
+      request: ChatCompletionRequest,
+      options?: CompletionOptions,
+    ): Promise<ChatCompletionResponse> {
+      const response = await provider.complete(request, options);
+      await mkdir(dir, { recursive: true });
+      await writeFile(
+        join(dir, `${fixtureKey(request)}.json`),
+        `${JSON.stringify(response, null, 2)}\n`,
+      );
+      return response;
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { resolve } from "node:path";
+import { getEnv } from "../config/env.js";
+import { createFixtureProvider, createRecordingProvider } from "./fixtureProvider.js";
+import { createOpenAIProvider } from "./openaiProvider.js";
+import type { LlmProvider } from "./types.js";
+
+export { createFixtureProvider, createRecordingProvider, fixtureKey } from "./fixtureProvider.js";
+export {
+  checkModelAllowed,
+  getAllowedModels,
+  getModelCapabilities,
+  selectModel,
+} from "./models.js";
+export { createOpenAIProvider } from "./openaiProvider.js";
+export type * from "./types.js";
+
+let provider: LlmProvider | null = null;
+
+function createProvider(): LlmProvider {
+  const env = getEnv();
+
+  if (env.LLM_PROVIDER === "fixture") {
+    return createFixtureProvider(resolve(env.LLM_FIXTURES_DIR ?? ""));
+  }
+
+  const live =
+    env.LLM_PROVIDER === "openai-compatible"
+      ? createOpenAIProvider({
+          name: "openai-compatible",
+          // Local servers usually ignore the key, but the client requires one
+          apiKey: env.OPENAI_API_KEY ?? "not-needed",
+          baseURL: env.LLM_BASE_URL,
+        })
+      : createOpenAIProvider({ name: "openai", apiKey: env.OPENAI_API_KEY ?? "" });
+
+  return env.LLM_RECORD_DIR ? createRecordingProvider(live, resolve(env.LLM_RECORD_DIR)) : live;
+}
+
+/**
+ * Returns the chat completion backend selected by LLM_PROVIDER, created on first use
+ */
+export function getLlmProvider(): LlmProvider {
+  if (provider === null) {
+    provider = createProvider();
+  }
+  return provider;
+}
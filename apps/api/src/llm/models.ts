@@ -0,0 +1,63 @@
+import type { PromptRequest } from "@eskiz/spec";
+import { getEnv } from "../config/env.js";
+import { loadModelConfig } from "../spec/prompt/loadRules.js";
+import type { ModelCapabilities, ModelConfig } from "./types.js";
+
+/**
+ * Assumed for models missing from models.json, such as local models
+ */
+const DEFAULT_CAPABILITIES: ModelCapabilities = { temperature: true, jsonSchema: true };
+
+/**
+ * Loaded lazily to work with test mocks
+ */
+let modelConfig: ModelConfig | null = null;
+
+function getModelConfig(): ModelConfig {
+  if (modelConfig === null) {
+    modelConfig = loadModelConfig();
+  }
+  return modelConfig;
+}
+
+export function getModelCapabilities(model: string): ModelCapabilities {
+  return getModelConfig().models[model] ?? DEFAULT_CAPABILITIES;
+}
+
+/**
+ * Models a request may select: OPENAI_MODEL_ALLOWLIST, or every model in models.json when
+ * it is unset. OPENAI_MODEL is always allowed.
+ */
+export function getAllowedModels(): string[] {
+  const env = getEnv();
+  const allowlist = env.OPENAI_MODEL_ALLOWLIST ?? Object.keys(getModelConfig().models);
+  return [...new Set([env.OPENAI_MODEL, ...allowlist])];
+}
+
+/**
+ * Picks the requested model, else the model behind the requested quality tier, else
+ * OPENAI_MODEL
+ */
+export function selectModel(request: Pick<PromptRequest, "model" | "quality">): string {
+  if (request.model) {
+    return request.model;
+  }
+  if (request.quality) {
+    return getModelConfig().quality[request.quality];
+  }
+  return getEnv().OPENAI_MODEL;
+}
+
+/**
+ * Returns why the model selected by a request may not be used, or undefined if it may
+ */
+export function checkModelAllowed(
+  request: Pick<PromptRequest, "model" | "quality">,
+): string | undefined {
+  const model = selectModel(request);
+  const allowed = getAllowedModels();
+  if (allowed.includes(model)) {
+    return undefined;
+  }
+  return `Model "${model}" is not allowed; allowed models: ${allowed.join(", ")}`;
+}
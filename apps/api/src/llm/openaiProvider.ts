@@ -0,0 +1,114 @@
+import OpenAI from "openai";
+import type { ChatCompletion, ChatCompletionChunk } from "openai/resources/chat/completions";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  CompletionOptions,
+  LlmProvider,
+} from "./types.js";
+
+export interface OpenAIProviderOptions {
+  name: string;
+  apiKey: string;
+  /**
+   * Base URL of an OpenAI-compatible server (e.g., "http://localhost:11434/v1" for Ollama);
+   * the OpenAI API when unset
+   */
+  baseURL?: string;
+}
+
+/**
+ * Reads the request id from the response headers, falling back to the completion id
+ */
+function getRequestId(completion: ChatCompletion): string | null {
+  const response = (
+    completion as unknown as {
+      _response?: { headers?: Headers | Record<string, string> };
+    }
+  )._response;
+
+  if (response?.headers instanceof Headers) {
+    const requestId = response.headers.get("openai-request-id");
+    if (requestId) {
+      return requestId;
+    }
+  } else if (response?.headers?.["openai-request-id"]) {
+    return response.headers["openai-request-id"];
+  }
+
+  return completion.id ? String(completion.id) : null;
+}
+
+/**
+ * Chat completions from the OpenAI API, or from any server implementing its
+ * `/chat/completions` endpoint (Ollama, llama.cpp server, vLLM)
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LlmProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+  return {
+    name: options.name,
+    async complete(
+      request: ChatCompletionRequest,
+      { onContent, signal }: CompletionOptions = {},
+    ): Promise<ChatCompletionResponse> {
+      const params = {
+        model: request.model,
+        messages: request.messages,
+        // Not strict: strict mode requires every property, while most spec fields are optional.
+        // The zod schema still validates the response.
+        ...(request.responseSchema && {
+          response_format:
+            request.structuredOutput === false
+              ? { type: "json_object" as const }
+              : {
+                  type: "json_schema" as const,
+                  json_schema: { ...request.responseSchema, strict: false },
+                },
+        }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+      };
+
+      if (!onContent) {
+        const completion = await client.chat.completions.create(params, { signal });
+        return {
+          content: completion.choices[0]?.message?.content ?? null,
+          usage: {
+            promptTokens: completion.usage?.prompt_tokens ?? 0,
+            completionTokens: completion.usage?.completion_tokens ?? 0,
+            totalTokens: completion.usage?.total_tokens ?? 0,
+          },
+          requestId: getRequestId(completion),
+        };
+      }
+
+      // Usage arrives in a last chunk without choices
+      const stream = await client.chat.completions.create(
+        { ...params, stream: true, stream_options: { include_usage: true } },
+        { signal },
+      );
+      let content = "";
+      let usage: ChatCompletionChunk["usage"];
+      let requestId: string | null = null;
+      for await (const chunk of stream) {
+        requestId ??= chunk.id || null;
+        usage = chunk.usage ?? usage;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onContent(content);
+        }
+      }
+
+      return {
+        content: content || null,
+        usage: {
+          promptTokens: usage?.prompt_tokens ?? 0,
+          completionTokens: usage?.completion_tokens ?? 0,
+          totalTokens: usage?.total_tokens ?? 0,
+        },
+        requestId,
+      };
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import type { JsonSchema, ModelQuality } from "@eskiz/spec";
+
+export interface ChatMessage {
+  role: "system" | "assistant" | "user";
+  content: string;
+}
+
+/**
+ * JSON Schema sent as the `json_schema` structured-output format
+ */
+export interface ResponseSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  responseSchema?: ResponseSchema;
+  /**
+   * Sends responseSchema as the `json_schema` response format; when false, only a JSON
+   * object is requested and the schema is left to the prompt
+   */
+  structuredOutput?: boolean;
+  /**
+   * Left unset for models that only support their default temperature
+   */
+  temperature?: number;
+}
+
+export interface ChatCompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResponse {
+  content: string | null;
+  usage: ChatCompletionUsage;
+  /**
+   * Request id reported by the backend, for correlating logs
+   */
+  requestId: string | null;
+}
+
+export interface CompletionOptions {
+  /**
+   * Streams the response: called with the content received so far after every chunk
+   */
+  onContent?: (content: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend for chat completions. Errors are thrown as they come from the backend; an
+ * error with a numeric `status` of 429 or 5xx is retried by makeOpenAIRequestWithRetry.
+ */
+export interface LlmProvider {
+  name: string;
+  complete(
+    request: ChatCompletionRequest,
+    options?: CompletionOptions,
+  ): Promise<ChatCompletionResponse>;
+}
+
+/**
+ * Budget thresholds for a model's requests; unset thresholds fall back to the BUDGET_* env
+ */
+export interface ModelBudget {
+  maxTokens?: number;
+  maxDurationMs?: number;
+  maxCompletionRatio?: number;
+}
+
+export interface ModelCapabilities {
+  /**
+   * Accepts a custom temperature; some models (like gpt-5-nano) only support their default
+   */
+  temperature: boolean;
+  /**
+   * Supports the `json_schema` response format
+   */
+  jsonSchema: boolean;
+  /**
+   * Context window in tokens; longer prompts fail before they are sent
+   */
+  contextTokens?: number;
+  budget?: ModelBudget;
+}
+
+/**
+ * Model capability table, with the model behind each quality tier
+ */
+export interface ModelConfig {
+  name: string;
+  description: string;
+  quality: Record<ModelQuality, string>;
+  models: Record<string, ModelCapabilities>;
+}
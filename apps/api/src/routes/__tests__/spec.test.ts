@@ -6,7 +6,9 @@ import * as generatorModule from "../../spec/generator.js";
 vi.mock("../../spec/generator.js");
 vi.mock("../../config/env.js", () => ({
   getEnv: () => ({
+    LLM_PROVIDER: "openai",
     OPENAI_API_KEY: "test-key",
+    OPENAI_MODEL: "gpt-5-nano",
     PORT: 3000,
     LOG_LEVEL: "info",
     LOG_HASH_SECRET: "test-secret",
@@ -14,6 +16,7 @@ vi.mock("../../config/env.js", () => ({
     OPENAI_TIMEOUT_MS: 30000,
     OPENAI_RETRY_MAX: 2,
     OPENAI_RETRY_BASE_MS: 1000,
+    SPEC_REPAIR_MAX_ROUNDS: 2,
     BUDGET_MAX_TOKENS: 8000,
     BUDGET_MAX_DURATION_MS: 8000,
     BUDGET_MAX_COMPLETION_RATIO: 3.0,
@@ -86,6 +89,31 @@ vi.mock("../../utils/logger.js", () => ({
 }));
 
 const mockGenerateDesignSpec = vi.mocked(generatorModule.generateDesignSpec);
+const mockGenerateFlowSpec = vi.mocked(generatorModule.generateFlowSpec);
+const mockRefineDesignSpec = vi.mocked(generatorModule.refineDesignSpec);
+const mockGenerateCandidates = vi.mocked(generatorModule.generateDesignSpecCandidates);
+
+/**
+ * Wraps a spec in the result the generator returns
+ */
+function generationResult<T>(spec: T) {
+  return {
+    spec,
+    warnings: [],
+    analysis: {
+      nodes_count: 1,
+      depth: 1,
+      surface_nodes_count: 0,
+      screens_count: 1,
+      edges_count: 0,
+    },
+    usage: {
+      tokens: { prompt: 100, completion: 50, total: 150 },
+      model: "gpt-5-nano",
+      durationMs: 1200,
+    },
+  };
+}
 
 describe("POST /spec", () => {
   let app: ReturnType<typeof createServer>;
@@ -108,7 +136,7 @@ describe("POST /spec", () => {
       nodes: [{ type: "text" as const, content: "Test content" }],
     };
 
-    mockGenerateDesignSpec.mockResolvedValue(mockSpec);
+    mockGenerateDesignSpec.mockResolvedValue(generationResult(mockSpec));
 
     const response = await request(app)
       .post("/spec")
@@ -119,6 +147,71 @@ describe("POST /spec", () => {
     expect(mockGenerateDesignSpec).toHaveBeenCalledWith({ prompt: "Create a login form" }, false);
   });
 
+  it("returns accessibility findings only with the envelope warnings", async () => {
+    const warning = {
+      ruleId: "a11y",
+      severity: "warn" as const,
+      type: "a11y_missing_label",
+      path: "nodes[1]",
+      message: "Input has no label",
+    };
+    mockGenerateDesignSpec.mockResolvedValue({
+      ...generationResult({
+        page: "Search",
+        frame: { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+        nodes: [
+          { type: "text" as const, content: "Search", headingLevel: 1 },
+          { type: "input" as const, placeholder: "Search…" },
+        ],
+      }),
+      warnings: [warning],
+    });
+
+    const response = await request(app)
+      .post("/spec?envelope=true")
+      .send({ prompt: "Search" })
+      .expect(200);
+
+    expect(response.body.warnings).toEqual([warning]);
+    expect(response.headers["x-a11y-warnings"]).toBeUndefined();
+  });
+
+  it("returns the spec with warnings, analysis, usage and trace id with ?envelope=true", async () => {
+    const mockSpec = {
+      page: "Test Page",
+      frame: { name: "Test Frame", width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+      nodes: [{ type: "text" as const, content: "Test content" }],
+    };
+    const warning = {
+      ruleId: "scale",
+      severity: "info" as const,
+      type: "off_scale_gap",
+      path: "frame",
+      message: "gap 15 is off the 4px spacing grid; the nearest value on it is 16.",
+    };
+    mockGenerateDesignSpec.mockResolvedValue({
+      ...generationResult(mockSpec),
+      warnings: [warning],
+    });
+
+    const response = await request(app)
+      .post("/spec?envelope=true")
+      .send({ prompt: "Create a login form" })
+      .expect(200);
+
+    expect(response.body).toEqual({
+      spec: mockSpec,
+      warnings: [warning],
+      analysis: expect.objectContaining({ nodes_count: 1 }),
+      usage: {
+        tokens: { prompt: 100, completion: 50, total: 150 },
+        model: "gpt-5-nano",
+        durationMs: 1200,
+      },
+      traceId: expect.any(String),
+    });
+  });
+
   it("returns 400 for missing prompt", async () => {
     const response = await request(app).post("/spec").send({}).expect(400);
 
@@ -148,7 +241,7 @@ describe("POST /spec", () => {
       nodes: [{ type: "text" as const, content: "Mock content" }],
     };
 
-    mockGenerateDesignSpec.mockResolvedValue(mockSpec);
+    mockGenerateDesignSpec.mockResolvedValue(generationResult(mockSpec));
 
     const response = await request(app)
       .post("/spec?dryRun=true")
@@ -190,7 +283,7 @@ describe("POST /spec", () => {
       nodes: [{ type: "text" as const, content: "Test content" }],
     };
 
-    mockGenerateDesignSpec.mockResolvedValue(mockSpec);
+    mockGenerateDesignSpec.mockResolvedValue(generationResult(mockSpec));
 
     const response = await request(app)
       .post("/spec")
@@ -273,4 +366,447 @@ describe("POST /spec", () => {
     expect(response.body).toHaveProperty("error", "Invalid request");
     expect(mockGenerateDesignSpec).not.toHaveBeenCalled();
   });
+
+  it("passes an allowed model or quality tier to the generator", async () => {
+    mockGenerateDesignSpec.mockResolvedValue(
+      generationResult({
+        page: "Form",
+        frame: { name: "Form", width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+        nodes: [],
+      }),
+    );
+
+    await request(app).post("/spec").send({ prompt: "Create a form", model: "gpt-5" }).expect(200);
+    await request(app).post("/spec").send({ prompt: "Create a form", quality: "best" }).expect(200);
+
+    expect(mockGenerateDesignSpec).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ model: "gpt-5" }),
+      false,
+    );
+    expect(mockGenerateDesignSpec).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ quality: "best" }),
+      false,
+    );
+  });
+
+  it("returns ranked candidates with ?envelope=true when several are requested", async () => {
+    const mockSpec = {
+      page: "Form",
+      frame: { name: "Form", width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+      nodes: [],
+    };
+    const score = { total: 90, penalties: { findings: 10, rules: 0, structure: 0 } };
+    const { usage, ...candidate } = generationResult(mockSpec);
+    mockGenerateCandidates.mockResolvedValue({
+      candidates: [
+        { ...candidate, usage, rank: 1, score },
+        { ...candidate, usage, rank: 2, score: { ...score, total: 80 } },
+      ],
+      usage,
+    });
+
+    const response = await request(app)
+      .post("/spec?envelope=true")
+      .send({ prompt: "Create a form", candidates: 2 })
+      .expect(200);
+
+    expect(response.body.candidates.map((ranked: { rank: number }) => ranked.rank)).toEqual([1, 2]);
+    expect(response.body).toMatchObject({ usage, traceId: expect.any(String) });
+    expect(mockGenerateCandidates).toHaveBeenCalledWith(
+      { prompt: "Create a form", candidates: 2 },
+      false,
+    );
+    expect(mockGenerateDesignSpec).not.toHaveBeenCalled();
+  });
+
+  it("returns the bare candidate specs best first without ?envelope", async () => {
+    const spec = (page: string) => ({
+      page,
+      frame: { name: page, width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+      nodes: [],
+    });
+    const score = { total: 90, penalties: { findings: 10, rules: 0, structure: 0 } };
+    const { usage } = generationResult(spec("Form"));
+    mockGenerateCandidates.mockResolvedValue({
+      candidates: [
+        { ...generationResult(spec("Best")), rank: 1, score },
+        { ...generationResult(spec("Second")), rank: 2, score: { ...score, total: 80 } },
+      ],
+      usage,
+    });
+
+    const response = await request(app)
+      .post("/spec")
+      .send({ prompt: "Create a form", candidates: 2 })
+      .expect(200);
+
+    expect(response.body).toEqual([spec("Best"), spec("Second")]);
+  });
+
+  it("returns 400 for more candidates than allowed", async () => {
+    await request(app).post("/spec").send({ prompt: "Create a form", candidates: 5 }).expect(400);
+
+    expect(mockGenerateCandidates).not.toHaveBeenCalled();
+  });
+
+  it("rejects models that are not on the allowlist", async () => {
+    const response = await request(app)
+      .post("/spec")
+      .send({ prompt: "Create a form", model: "o1-pro" })
+      .expect(400);
+
+    expect(response.body).toMatchObject({
+      error: "Invalid request",
+      details: [{ path: ["model"], message: expect.stringContaining('Model "o1-pro"') }],
+    });
+    expect(mockGenerateDesignSpec).not.toHaveBeenCalled();
+  });
+});
+
+/**
+ * Splits a Server-Sent Events body into its events
+ */
+function parseEvents(body: string) {
+  return body
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return {
+        event: eventLine.replace("event: ", ""),
+        data: JSON.parse(dataLine.replace("data: ", "")),
+      };
+    });
+}
+
+describe("POST /spec/stream", () => {
+  let app: ReturnType<typeof createServer>;
+
+  const mockSpec = {
+    page: "Login",
+    frame: { name: "Login", width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+    nodes: [{ type: "text" as const, content: "Welcome back" }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createServer();
+  });
+
+  it("streams progress, partial nodes, warnings and the final spec", async () => {
+    mockGenerateDesignSpec.mockImplementation(async (_request, _dryRun, options) => {
+      options?.onEvent?.({ type: "progress", stage: "requesting", round: 0 });
+      options?.onEvent?.({ type: "partial", round: 0, nodes: mockSpec.nodes });
+      options?.onEvent?.({ type: "progress", stage: "linting" });
+      return generationResult(mockSpec);
+    });
+
+    const response = await request(app)
+      .post("/spec/stream")
+      .send({ prompt: "Create a login form" })
+      .expect(200)
+      .expect("Content-Type", /text\/event-stream/);
+
+    expect(parseEvents(response.text)).toEqual([
+      { event: "progress", data: { stage: "requesting", round: 0 } },
+      { event: "partial", data: { round: 0, nodes: mockSpec.nodes } },
+      { event: "progress", data: { stage: "linting" } },
+      { event: "warnings", data: [] },
+      {
+        event: "spec",
+        data: expect.objectContaining({ spec: mockSpec, traceId: expect.any(String) }),
+      },
+    ]);
+    expect(mockGenerateDesignSpec).toHaveBeenCalledWith(
+      { prompt: "Create a login form" },
+      false,
+      expect.objectContaining({ signal: expect.any(AbortSignal) }),
+    );
+  });
+
+  it("sends an error event when generation fails", async () => {
+    mockGenerateDesignSpec.mockRejectedValue(new Error("OpenAI request failed: timeout"));
+
+    const response = await request(app)
+      .post("/spec/stream")
+      .send({ prompt: "Create a login form" })
+      .expect(200);
+
+    expect(parseEvents(response.text)).toEqual([
+      {
+        event: "error",
+        data: { error: "Internal server error", message: "OpenAI request failed: timeout" },
+      },
+    ]);
+  });
+
+  it("returns 400 before streaming for invalid requests", async () => {
+    const response = await request(app).post("/spec/stream").send({}).expect(400);
+
+    expect(response.body).toHaveProperty("error", "Invalid request");
+    expect(mockGenerateDesignSpec).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for several candidates, which only POST /spec generates", async () => {
+    const response = await request(app)
+      .post("/spec/stream")
+      .send({ prompt: "Login", candidates: 2 })
+      .expect(400);
+
+    expect(response.body.details[0]).toHaveProperty("path", ["candidates"]);
+    expect(mockGenerateDesignSpec).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /spec/refine", () => {
+  let app: ReturnType<typeof createServer>;
+
+  const spec = {
+    specVersion: 1 as const,
+    page: "Login",
+    frame: { name: "Login", width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+    nodes: [
+      { type: "button" as const, id: "sign-in", label: "Sign in", variant: "primary" as const },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createServer();
+  });
+
+  it("returns the refined spec with the patch and migration in the envelope", async () => {
+    const refined = { ...spec, nodes: [{ ...spec.nodes[0], variant: "secondary" as const }] };
+    const patch = [{ op: "replace" as const, path: "/nodes/0/variant", value: "secondary" }];
+    mockRefineDesignSpec.mockResolvedValue({ ...generationResult(refined), patch });
+
+    const response = await request(app)
+      .post("/spec/refine")
+      .send({ spec, instruction: "Make the button secondary" })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      spec: refined,
+      patch,
+      traceId: expect.any(String),
+      migration: { migrated: false, fromVersion: 1, toVersion: 1, applied: [] },
+    });
+    expect(mockRefineDesignSpec).toHaveBeenCalledWith(
+      { spec, instruction: "Make the button secondary" },
+      false,
+    );
+  });
+
+  it("upgrades a spec from an older specVersion before refining it", async () => {
+    const { specVersion, ...legacySpec } = spec;
+    mockRefineDesignSpec.mockResolvedValue({ ...generationResult(spec), patch: [] });
+
+    const response = await request(app)
+      .post("/spec/refine")
+      .send({ spec: legacySpec, instruction: "Add a link" })
+      .expect(200);
+
+    expect(response.body.migration).toMatchObject({ migrated: true, fromVersion: 0, toVersion: 1 });
+    expect(mockRefineDesignSpec).toHaveBeenCalledWith(
+      { spec: { ...legacySpec, specVersion }, instruction: "Add a link" },
+      false,
+    );
+  });
+
+  it("returns 400 for a spec from a newer specVersion", async () => {
+    const response = await request(app)
+      .post("/spec/refine")
+      .send({ spec: { ...spec, specVersion: 99 }, instruction: "Add a link" })
+      .expect(400);
+
+    expect(response.body).toHaveProperty("error", "Unsupported spec version");
+    expect(mockRefineDesignSpec).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 without an instruction or a valid spec", async () => {
+    await request(app).post("/spec/refine").send({ spec }).expect(400);
+    const response = await request(app)
+      .post("/spec/refine")
+      .send({ spec: { page: "Login" }, instruction: "Add a link" })
+      .expect(400);
+
+    expect(response.body).toHaveProperty("error", "Invalid request");
+    expect(mockRefineDesignSpec).not.toHaveBeenCalled();
+  });
+
+  it("returns 500 when refinement fails", async () => {
+    mockRefineDesignSpec.mockRejectedValue(new Error("Invalid DesignSpec"));
+
+    const response = await request(app)
+      .post("/spec/refine")
+      .send({ spec, instruction: "Add a link" })
+      .expect(500);
+
+    expect(response.body).toHaveProperty("message", "Invalid DesignSpec");
+  });
+});
+
+describe("POST /spec/flow", () => {
+  let app: ReturnType<typeof createServer>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createServer();
+  });
+
+  it("returns 200 with FlowSpec for valid prompt", async () => {
+    const frame = {
+      name: "Screen",
+      width: 400,
+      layout: "vertical" as const,
+      gap: 16,
+      padding: 24,
+    };
+    const mockFlow = {
+      page: "Signup flow",
+      screens: [
+        {
+          id: "signup",
+          frame,
+          nodes: [{ type: "button" as const, id: "next", label: "Next" }],
+        },
+        { id: "done", frame, nodes: [{ type: "text" as const, content: "Done" }] },
+      ],
+      edges: [{ from: "signup", trigger: "next", to: "done" }],
+    };
+
+    mockGenerateFlowSpec.mockResolvedValue(generationResult(mockFlow));
+
+    const response = await request(app)
+      .post("/spec/flow?dryRun=true")
+      .send({ prompt: "Signup then done" })
+      .expect(200);
+
+    expect(response.body).toEqual(mockFlow);
+    expect(mockGenerateFlowSpec).toHaveBeenCalledWith({ prompt: "Signup then done" }, true);
+    expect(mockGenerateDesignSpec).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for missing prompt", async () => {
+    const response = await request(app).post("/spec/flow").send({}).expect(400);
+
+    expect(response.body).toHaveProperty("error", "Invalid request");
+    expect(mockGenerateFlowSpec).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for several candidates", async () => {
+    const response = await request(app)
+      .post("/spec/flow")
+      .send({ prompt: "Onboarding", candidates: 3 })
+      .expect(400);
+
+    expect(response.body.details[0]).toHaveProperty("path", ["candidates"]);
+    expect(mockGenerateFlowSpec).not.toHaveBeenCalled();
+  });
+
+  it("returns 500 when generator throws error", async () => {
+    mockGenerateFlowSpec.mockRejectedValue(new Error("Invalid FlowSpec"));
+
+    const response = await request(app)
+      .post("/spec/flow")
+      .send({ prompt: "Test prompt" })
+      .expect(500);
+
+    expect(response.body).toHaveProperty("message", "Invalid FlowSpec");
+  });
+});
+
+describe("POST /spec/migrate", () => {
+  let app: ReturnType<typeof createServer>;
+
+  const frame = { name: "Login", width: 375, layout: "vertical", gap: 16, padding: 24 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createServer();
+  });
+
+  it("upgrades an unversioned spec and reports the migration", async () => {
+    const response = await request(app)
+      .post("/spec/migrate")
+      .send({
+        page: "Login",
+        frame,
+        nodes: [
+          {
+            type: "container",
+            layout: "vertical",
+            gap: 0,
+            padding: 12,
+            border: { color: "#D1D5DB", width: 1 },
+            children: [{ type: "text", content: "Enter your email" }],
+          },
+        ],
+      })
+      .expect(200);
+
+    expect(response.body.spec.specVersion).toBe(1);
+    expect(response.body.spec.nodes[0]).toMatchObject({
+      type: "input",
+      placeholder: "Enter your email",
+    });
+    expect(response.body.migration).toMatchObject({ migrated: true, fromVersion: 0, toVersion: 1 });
+    expect(response.body.migration.applied).toHaveLength(1);
+  });
+
+  it("returns current specs unchanged", async () => {
+    const spec = { specVersion: 1, page: "Login", frame, nodes: [{ type: "text", content: "Hi" }] };
+
+    const response = await request(app).post("/spec/migrate").send(spec).expect(200);
+
+    expect(response.body.spec).toEqual(spec);
+    expect(response.body.migration).toMatchObject({ migrated: false, applied: [] });
+  });
+
+  it("validates flows after migration", async () => {
+    const response = await request(app)
+      .post("/spec/migrate")
+      .send({ page: "Flow", screens: [], edges: [] })
+      .expect(400);
+
+    expect(response.body).toHaveProperty("error", "Invalid FlowSpec");
+  });
+
+  it("returns 400 for specs newer than the supported version", async () => {
+    const response = await request(app)
+      .post("/spec/migrate")
+      .send({ specVersion: 99, page: "Login", frame, nodes: [] })
+      .expect(400);
+
+    expect(response.body).toHaveProperty("error", "Unsupported spec version");
+    expect(mockGenerateDesignSpec).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /spec/schema", () => {
+  let app: ReturnType<typeof createServer>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createServer();
+  });
+
+  it("serves the DesignSpec JSON Schema", async () => {
+    const response = await request(app).get("/spec/schema").expect(200);
+
+    expect(response.headers["content-type"]).toContain("application/schema+json");
+    const schema = JSON.parse(response.text);
+    expect(schema.required).toEqual(["page", "frame", "nodes"]);
+    expect(schema.properties.nodes.items).toEqual({ $ref: "#/$defs/Node" });
+    expect(Object.keys(schema.$defs)).toEqual(expect.arrayContaining(["Frame", "Node", "Color"]));
+  });
+
+  it("serves the FlowSpec JSON Schema", async () => {
+    const response = await request(app).get("/spec/flow/schema").expect(200);
+
+    const schema = JSON.parse(response.text);
+    expect(schema.required).toEqual(["page", "screens", "edges"]);
+  });
 });
@@ -1,8 +1,147 @@
-import { promptRequestSchema } from "@eskiz/spec";
+import {
+  designSpecJsonSchema,
+  designSpecSchema,
+  flowSpecJsonSchema,
+  flowSpecSchema,
+  migrateSpec,
+  promptRequestSchema,
+  refineRequestSchema,
+} from "@eskiz/spec";
+import type { PromptRequest, SpecMigrationResult } from "@eskiz/spec";
 import type { Request, Response } from "express";
-import { generateDesignSpec } from "../spec/generator.js";
+import type pino from "pino";
+import { getTracingContext } from "../context/tracing.js";
+import { checkModelAllowed } from "../llm/index.js";
+import {
+  generateDesignSpec,
+  generateDesignSpecCandidates,
+  generateFlowSpec,
+  refineDesignSpec,
+} from "../spec/generator.js";
+import type { CandidatesResult, GenerationResult } from "../spec/generator.js";
 import { getContextLogger } from "../utils/logger.js";
 
+/**
+ * Response body for `?envelope=true`: the spec with its lint findings, structure metrics,
+ * model usage and the trace id its logs are filed under
+ */
+export interface SpecEnvelope<T, A> extends GenerationResult<T, A> {
+  traceId: string | null;
+}
+
+/**
+ * Sends the bare spec, or the envelope when the request asks for it
+ */
+function sendGenerationResult<T, A>(
+  req: Request,
+  res: Response,
+  result: GenerationResult<T, A>,
+): void {
+  if (req.query.envelope !== "true") {
+    res.json(result.spec);
+    return;
+  }
+  res.json(toEnvelope(result));
+}
+
+/**
+ * Sends the ranked specs alone, best first, or with their envelope fields, scores and the
+ * summed usage when the request asks for the envelope
+ */
+function sendCandidatesResult(req: Request, res: Response, result: CandidatesResult): void {
+  if (req.query.envelope !== "true") {
+    res.json(result.candidates.map((candidate) => candidate.spec));
+    return;
+  }
+  res.json({ ...result, traceId: getTracingContext()?.traceId ?? null });
+}
+
+function toEnvelope<T, A>(result: GenerationResult<T, A>): SpecEnvelope<T, A> {
+  return {
+    ...result,
+    traceId: getTracingContext()?.traceId ?? null,
+  };
+}
+
+/**
+ * Summarizes a spec migration for the response, logging it when any migration ran
+ */
+function describeMigration(result: SpecMigrationResult, log: pino.Logger) {
+  const migrated = result.fromVersion !== result.toVersion;
+  if (migrated) {
+    log.info(
+      {
+        event: "spec.migration.applied",
+        from_version: result.fromVersion,
+        to_version: result.toVersion,
+        migrations: result.applied,
+      },
+      "Spec migrated",
+    );
+  }
+  return {
+    migrated,
+    fromVersion: result.fromVersion,
+    toVersion: result.toVersion,
+    applied: result.applied,
+  };
+}
+
+/**
+ * Writes one Server-Sent Event with a JSON payload, unless the stream has already ended
+ */
+function sendEvent(res: Response, event: string, data: unknown): void {
+  if (res.writableEnded) {
+    return;
+  }
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Rejects `candidates` above 1 on endpoints that generate a single spec.
+ * Returns true when the response has been sent.
+ */
+function rejectCandidates(
+  request: Pick<PromptRequest, "candidates">,
+  res: Response,
+  log: pino.Logger,
+): boolean {
+  if ((request.candidates ?? 1) <= 1) {
+    return false;
+  }
+  const errors = [
+    { path: ["candidates"], message: "Several candidates are only generated by POST /spec" },
+  ];
+  log.warn({ event: "request.validation.fail", errors }, "Invalid request body");
+  res.status(400).json({ error: "Invalid request", details: errors });
+  return true;
+}
+
+/**
+ * Rejects a request whose model, or the model behind its quality tier, is not on the
+ * allowlist. Returns true when the response has been sent.
+ */
+function rejectDisallowedModel(
+  request: Pick<PromptRequest, "model" | "quality">,
+  res: Response,
+  log: pino.Logger,
+): boolean {
+  const message = checkModelAllowed(request);
+  if (!message) {
+    return false;
+  }
+  const errors = [{ path: [request.model ? "model" : "quality"], message }];
+  log.warn({ event: "request.validation.fail", errors }, "Invalid request body");
+  res.status(400).json({ error: "Invalid request", details: errors });
+  return true;
+}
+
+/**
+ * Generates a DesignSpec. Responds with the bare spec, or with `?envelope=true` the
+ * envelope. With `candidates` above 1, responds with the specs ranked best first, or with
+ * `?envelope=true` `{ candidates, usage, traceId }`, each candidate carrying its envelope
+ * fields, `rank` and `score`.
+ */
 export async function handleSpecRequest(req: Request, res: Response): Promise<void> {
   const log = getContextLogger();
   const dryRun = req.query.dryRun === "true";
@@ -23,10 +162,18 @@ export async function handleSpecRequest(req: Request, res: Response): Promise<vo
       });
       return;
     }
+    if (rejectDisallowedModel(validationResult.data, res, log)) {
+      return;
+    }
 
-    const spec = await generateDesignSpec(validationResult.data, dryRun);
+    if ((validationResult.data.candidates ?? 1) > 1) {
+      const ranked = await generateDesignSpecCandidates(validationResult.data, dryRun);
+      sendCandidatesResult(req, res, ranked);
+      return;
+    }
 
-    res.json(spec);
+    const result = await generateDesignSpec(validationResult.data, dryRun);
+    sendGenerationResult(req, res, result);
   } catch (error) {
     log.error(
       {
@@ -42,3 +189,235 @@ export async function handleSpecRequest(req: Request, res: Response): Promise<vo
     });
   }
 }
+
+/**
+ * Streams a DesignSpec generation as Server-Sent Events: `progress` for each model request
+ * and the lint step, `partial` with the top-level nodes received so far, then `warnings`
+ * and the final envelope as `spec`, or `error`. Closing the connection cancels the
+ * generation.
+ */
+export async function handleSpecStreamRequest(req: Request, res: Response): Promise<void> {
+  const log = getContextLogger();
+  const dryRun = req.query.dryRun === "true";
+
+  const validationResult = promptRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    log.warn(
+      {
+        event: "request.validation.fail",
+        errors: validationResult.error.errors,
+      },
+      "Invalid request body",
+    );
+    res.status(400).json({
+      error: "Invalid request",
+      details: validationResult.error.errors,
+    });
+    return;
+  }
+  if (
+    rejectCandidates(validationResult.data, res, log) ||
+    rejectDisallowedModel(validationResult.data, res, log)
+  ) {
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  try {
+    const result = await generateDesignSpec(validationResult.data, dryRun, {
+      onEvent: ({ type, ...data }) => sendEvent(res, type, data),
+      signal: controller.signal,
+    });
+    sendEvent(res, "warnings", result.warnings);
+    sendEvent(res, "spec", toEnvelope(result));
+  } catch (error) {
+    if (controller.signal.aborted) {
+      log.info({ event: "request.cancelled" }, "Spec stream closed by the client");
+      return;
+    }
+    log.error(
+      {
+        event: "request.error",
+        error_message: error instanceof Error ? error.message : String(error),
+        error_type: error instanceof Error ? error.constructor.name : "UnknownError",
+      },
+      "Error handling spec stream request",
+    );
+    sendEvent(res, "error", {
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+  res.end();
+}
+
+/**
+ * Changes an existing DesignSpec as an instruction asks. The spec is first upgraded to the
+ * current specVersion, as in `POST /spec/migrate`. Always responds with the envelope, plus
+ * `patch`: the JSON Patch from the upgraded spec to the refined one, and `migration`.
+ */
+export async function handleSpecRefineRequest(req: Request, res: Response): Promise<void> {
+  const log = getContextLogger();
+  const dryRun = req.query.dryRun === "true";
+
+  let migrationResult: SpecMigrationResult | undefined;
+  if (req.body?.spec !== undefined) {
+    try {
+      migrationResult = migrateSpec(req.body.spec);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn({ event: "spec.migration.fail", error_message: message }, "Spec migration failed");
+      res.status(400).json({ error: "Unsupported spec version", message });
+      return;
+    }
+  }
+
+  try {
+    const validationResult = refineRequestSchema.safeParse(
+      migrationResult ? { ...req.body, spec: migrationResult.spec } : req.body,
+    );
+    if (!validationResult.success) {
+      log.warn(
+        {
+          event: "request.validation.fail",
+          errors: validationResult.error.errors,
+        },
+        "Invalid request body",
+      );
+      res.status(400).json({
+        error: "Invalid request",
+        details: validationResult.error.errors,
+      });
+      return;
+    }
+    if (rejectDisallowedModel(validationResult.data, res, log)) {
+      return;
+    }
+
+    const result = await refineDesignSpec(validationResult.data, dryRun);
+    res.json({
+      ...toEnvelope(result),
+      migration: migrationResult && describeMigration(migrationResult, log),
+    });
+  } catch (error) {
+    log.error(
+      {
+        event: "request.error",
+        error_message: error instanceof Error ? error.message : String(error),
+        error_type: error instanceof Error ? error.constructor.name : "UnknownError",
+      },
+      "Error handling spec refine request",
+    );
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+export async function handleFlowSpecRequest(req: Request, res: Response): Promise<void> {
+  const log = getContextLogger();
+  const dryRun = req.query.dryRun === "true";
+
+  try {
+    const validationResult = promptRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      log.warn(
+        {
+          event: "request.validation.fail",
+          errors: validationResult.error.errors,
+        },
+        "Invalid request body",
+      );
+      res.status(400).json({
+        error: "Invalid request",
+        details: validationResult.error.errors,
+      });
+      return;
+    }
+    if (
+      rejectCandidates(validationResult.data, res, log) ||
+      rejectDisallowedModel(validationResult.data, res, log)
+    ) {
+      return;
+    }
+
+    const result = await generateFlowSpec(validationResult.data, dryRun);
+    sendGenerationResult(req, res, result);
+  } catch (error) {
+    log.error(
+      {
+        event: "request.error",
+        error_message: error instanceof Error ? error.message : String(error),
+        error_type: error instanceof Error ? error.constructor.name : "UnknownError",
+      },
+      "Error handling flow spec request",
+    );
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Upgrades a saved DesignSpec or FlowSpec to the current specVersion and validates it.
+ * The response reports which migrations ran so clients can tell the user.
+ */
+export async function handleMigrateRequest(req: Request, res: Response): Promise<void> {
+  const log = getContextLogger();
+
+  let result: SpecMigrationResult;
+  try {
+    result = migrateSpec(req.body);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn({ event: "spec.migration.fail", error_message: message }, "Spec migration failed");
+    res.status(400).json({ error: "Unsupported spec version", message });
+    return;
+  }
+
+  const isFlow = "screens" in result.spec;
+  const validationResult = (isFlow ? flowSpecSchema : designSpecSchema).safeParse(result.spec);
+  if (!validationResult.success) {
+    log.warn(
+      {
+        event: "request.validation.fail",
+        errors: validationResult.error.errors,
+      },
+      "Invalid spec after migration",
+    );
+    res.status(400).json({
+      error: isFlow ? "Invalid FlowSpec" : "Invalid DesignSpec",
+      details: validationResult.error.errors,
+    });
+    return;
+  }
+
+  res.json({ spec: validationResult.data, migration: describeMigration(result, log) });
+}
+
+/**
+ * Serves the DesignSpec JSON Schema, generated from the same zod schema the API validates with
+ */
+export function handleSchemaRequest(_req: Request, res: Response): void {
+  res.type("application/schema+json").send(JSON.stringify(designSpecJsonSchema));
+}
+
+/**
+ * Serves the FlowSpec JSON Schema
+ */
+export function handleFlowSchemaRequest(_req: Request, res: Response): void {
+  res.type("application/schema+json").send(JSON.stringify(flowSpecJsonSchema));
+}
@@ -3,7 +3,15 @@ import pinoHttp from "pino-http";
 import { getEnv } from "./config/env.js";
 import { logger } from "./logger.js";
 import { tracingMiddleware } from "./middleware/tracing.js";
-import { handleSpecRequest } from "./routes/spec.js";
+import {
+  handleFlowSchemaRequest,
+  handleFlowSpecRequest,
+  handleMigrateRequest,
+  handleSchemaRequest,
+  handleSpecRefineRequest,
+  handleSpecRequest,
+  handleSpecStreamRequest,
+} from "./routes/spec.js";
 
 export function createServer(): express.Application {
   const app = express();
@@ -63,6 +71,12 @@ export function createServer(): express.Application {
   );
 
   app.post("/spec", handleSpecRequest);
+  app.post("/spec/stream", handleSpecStreamRequest);
+  app.post("/spec/refine", handleSpecRefineRequest);
+  app.post("/spec/flow", handleFlowSpecRequest);
+  app.post("/spec/migrate", handleMigrateRequest);
+  app.get("/spec/schema", handleSchemaRequest);
+  app.get("/spec/flow/schema", handleFlowSchemaRequest);
 
   app.get("/health", (_req, res) => {
     res.json({ status: "ok" });
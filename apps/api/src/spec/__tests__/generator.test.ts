@@ -1,7 +1,13 @@
-import type { DesignSpec } from "@eskiz/spec";
+import { designSpecJsonSchema, flowSpecJsonSchema } from "@eskiz/spec";
+import type { DesignSpec, FlowSpec } from "@eskiz/spec";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { createTracingContext, runWithTracingContext } from "../../context/tracing.js";
-import { generateDesignSpec } from "../generator.js";
+import {
+  generateDesignSpec,
+  generateDesignSpecCandidates,
+  generateFlowSpec,
+  refineDesignSpec,
+} from "../generator.js";
 
 vi.mock("../../context/tracing.js", async () => {
   const actual = await vi.importActual<typeof import("../../context/tracing.js")>(
@@ -28,7 +34,9 @@ vi.mock("openai", () => {
 
 vi.mock("../../config/env.js", () => ({
   getEnv: () => ({
+    LLM_PROVIDER: "openai",
     OPENAI_API_KEY: "test-key",
+    OPENAI_MODEL: "gpt-5-nano",
     PORT: 3000,
     LOG_LEVEL: "info",
     LOG_HASH_SECRET: "test-secret",
@@ -36,6 +44,7 @@ vi.mock("../../config/env.js", () => ({
     OPENAI_TIMEOUT_MS: 30000,
     OPENAI_RETRY_MAX: 2,
     OPENAI_RETRY_BASE_MS: 1000,
+    SPEC_REPAIR_MAX_ROUNDS: 2,
     BUDGET_MAX_TOKENS: 8000,
     BUDGET_MAX_DURATION_MS: 8000,
     BUDGET_MAX_COMPLETION_RATIO: 3.0,
@@ -93,7 +102,7 @@ describe("generateDesignSpec", () => {
   });
 
   it("returns mock spec when dryRun is true", async () => {
-    const result = await runWithTracingContext(tracingContext, async () => {
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
       return generateDesignSpec({ prompt: "Test" }, true);
     });
 
@@ -176,7 +185,7 @@ describe("generateDesignSpec", () => {
       },
     });
 
-    const result = await runWithTracingContext(tracingContext, async () => {
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
       return generateDesignSpec({ prompt: "Create a welcome page" }, false);
     });
 
@@ -203,11 +212,764 @@ describe("generateDesignSpec", () => {
         { role: "assistant", content: expect.stringContaining("DesignSpec JSON structure") },
         { role: "user", content: "Create a welcome page" },
       ],
-      response_format: { type: "json_object" },
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "DesignSpec", schema: designSpecJsonSchema, strict: false },
+      },
     } as unknown);
     expect(callArgs).not.toHaveProperty("temperature");
   });
 
+  it("requests the selected model with the options its capabilities allow", async () => {
+    const spec: DesignSpec = {
+      page: "Home",
+      frame: { name: "Home", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [{ type: "text", content: "Welcome" }],
+    };
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const result = await runWithTracingContext(tracingContext, async () => {
+      await generateDesignSpec({ prompt: "Create a page", quality: "best" }, false);
+      await generateDesignSpec({ prompt: "Create a page", model: "gpt-4o-mini" }, false);
+      return generateDesignSpec({ prompt: "Create a page", model: "llama3.1:8b" }, false);
+    });
+
+    const [best, withTemperature, local] = mockChatCompletionsCreate.mock.calls.map(
+      ([params]) => params,
+    );
+    expect(best.model).toBe("gpt-5");
+    expect(best).not.toHaveProperty("temperature");
+    expect(withTemperature).toMatchObject({ model: "gpt-4o-mini", temperature: 0.3 });
+    // Models missing from models.json get the default capabilities
+    expect(local).toMatchObject({
+      model: "llama3.1:8b",
+      temperature: 0.3,
+      response_format: { type: "json_schema" },
+    });
+    expect(result.usage.model).toBe("llama3.1:8b");
+  });
+
+  it("streams the model response and reports progress and partial nodes", async () => {
+    const spec: DesignSpec = {
+      page: "Login",
+      frame: { name: "Login", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [
+        { type: "text", content: "Welcome back" },
+        { type: "button", label: "Sign in" },
+      ],
+    };
+    const content = JSON.stringify(spec);
+    mockChatCompletionsCreate.mockImplementation(async function* () {
+      for (let start = 0; start < content.length; start += 20) {
+        yield {
+          id: "chatcmpl-1",
+          choices: [{ delta: { content: content.slice(start, start + 20) } }],
+        };
+      }
+      yield {
+        id: "chatcmpl-1",
+        choices: [],
+        usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+      };
+    });
+    const onEvent = vi.fn();
+
+    const result = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Create a login form" }, false, { onEvent });
+    });
+
+    expect(mockChatCompletionsCreate.mock.calls[0]?.[0]).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+      { type: "progress", stage: "requesting", round: 0 },
+      { type: "partial", round: 0, nodes: [spec.nodes[0]] },
+      { type: "partial", round: 0, nodes: spec.nodes },
+      { type: "progress", stage: "linting" },
+    ]);
+    expect(result.spec.nodes).toHaveLength(2);
+    expect(result.usage.tokens.total).toBe(150);
+  });
+
+  it("aborts a model request that times out instead of letting it run on", async () => {
+    vi.useFakeTimers();
+    let requestSignal: AbortSignal | undefined;
+    mockChatCompletionsCreate.mockImplementation(
+      (_params: unknown, { signal }: { signal: AbortSignal }) => {
+        requestSignal = signal;
+        return new Promise((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(new Error("Request was aborted.")));
+        });
+      },
+    );
+
+    try {
+      const generation = runWithTracingContext(tracingContext, async () => {
+        return generateDesignSpec({ prompt: "Create a login form" }, false);
+      });
+      const assertion = expect(generation).rejects.toThrow("OpenAI request failed: timeout");
+      await vi.advanceTimersByTimeAsync(30000);
+      await assertion;
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(requestSignal?.aborted).toBe(true);
+    expect(mockChatCompletionsCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives models with a long duration budget time to run over it before timing out", async () => {
+    vi.useFakeTimers();
+    let requestSignal: AbortSignal | undefined;
+    mockChatCompletionsCreate.mockImplementation(
+      (_params: unknown, { signal }: { signal: AbortSignal }) => {
+        requestSignal = signal;
+        return new Promise((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(new Error("Request was aborted.")));
+        });
+      },
+    );
+
+    try {
+      const generation = runWithTracingContext(tracingContext, async () => {
+        return generateDesignSpec({ prompt: "Create a login form", model: "gpt-5" }, false);
+      });
+      const assertion = expect(generation).rejects.toThrow("OpenAI request failed: timeout");
+      // gpt-5 has a 45s duration budget in spec-rules/models.json
+      await vi.advanceTimersByTimeAsync(45000);
+      expect(requestSignal?.aborted).toBe(false);
+      await vi.advanceTimersByTimeAsync(45000);
+      await assertion;
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it("returns lint findings, analysis and usage with the spec", async () => {
+    const spec: DesignSpec = {
+      page: "Home",
+      frame: { name: "Home", width: 400, layout: "vertical", gap: 15, padding: 24 },
+      nodes: [{ type: "text", content: "Welcome" }],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const result = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Create a page" }, false);
+    });
+
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ ruleId: "scale", type: "off_scale_gap", path: "frame" }),
+    ]);
+    expect(result.analysis).toMatchObject({ nodes_count: 1 });
+    expect(result.usage).toMatchObject({
+      tokens: { prompt: 100, completion: 50, total: 150 },
+      model: "gpt-5-nano",
+    });
+  });
+
+  it("applies visual defaults to image and icon nodes", async () => {
+    const spec: DesignSpec = {
+      page: "Profile",
+      frame: {
+        name: "Profile",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        { type: "image", alt: "User avatar", aspectRatio: 1 },
+        { type: "icon", name: "settings" },
+      ],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Create a profile page" }, false);
+    });
+
+    expect(result.nodes).toEqual([
+      {
+        type: "image",
+        id: "user-avatar-image",
+        alt: "User avatar",
+        aspectRatio: 1,
+        fit: "fill",
+        background: "#E5E7EB",
+      },
+      { type: "icon", id: "settings-icon", name: "settings", size: 24, color: "#111111" },
+    ]);
+  });
+
+  it("applies visual defaults to form control nodes", async () => {
+    const spec: DesignSpec = {
+      page: "Login",
+      frame: {
+        name: "Login",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        { type: "input", label: "Email", placeholder: "Enter your email" },
+        { type: "checkbox", label: "Remember me" },
+      ],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Create a login form" }, false);
+    });
+
+    expect(result.nodes).toEqual([
+      {
+        type: "input",
+        id: "email-input",
+        label: "Email",
+        placeholder: "Enter your email",
+        width: "fill",
+        background: "#FFFFFF",
+        borderRadius: 8,
+        border: { color: "#D1D5DB", width: 1 },
+      },
+      {
+        type: "checkbox",
+        id: "remember-me-checkbox",
+        label: "Remember me",
+        checked: false,
+        color: "#2563EB",
+      },
+    ]);
+  });
+
+  it("makes buttons full width and tall enough to tap on mobile only", async () => {
+    const spec: DesignSpec = {
+      page: "Home",
+      frame: {
+        name: "Home",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        { type: "button", label: "Continue" },
+        { type: "button", label: "Skip", width: "hug" },
+      ],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const generationContext = {
+      uiStrictness: "strict" as const,
+      uxPatterns: { groupElements: true, formContainer: true, helperText: false },
+    };
+    const [{ spec: mobile }, { spec: desktop }] = await runWithTracingContext(
+      tracingContext,
+      async () => {
+        return Promise.all([
+          generateDesignSpec(
+            {
+              prompt: "Create a page",
+              generationContext: { ...generationContext, targetLayout: "mobile" },
+            },
+            false,
+          ),
+          generateDesignSpec(
+            {
+              prompt: "Create a page",
+              generationContext: { ...generationContext, targetLayout: "desktop" },
+            },
+            false,
+          ),
+        ]);
+      },
+    );
+
+    expect(mobile.nodes[0]).toMatchObject({ type: "button", width: "fill", height: 44 });
+    expect(mobile.nodes[1]).toMatchObject({ type: "button", width: "hug" });
+    expect(desktop.nodes[0]).not.toHaveProperty("width", "fill");
+    expect(desktop.nodes[0].type === "button" && desktop.nodes[0].height).toBeUndefined();
+  });
+
+  it("snaps off-scale values only when snapToScale is set", async () => {
+    const spec: DesignSpec = {
+      page: "Home",
+      frame: {
+        name: "Home",
+        width: 400,
+        layout: "vertical",
+        gap: 15,
+        padding: 24,
+      },
+      nodes: [{ type: "text", content: "Welcome", fontSize: 22 }],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const generationContext = {
+      targetLayout: "desktop" as const,
+      uiStrictness: "balanced" as const,
+      uxPatterns: { groupElements: true, formContainer: true, helperText: false },
+    };
+    const [{ spec: snapped }, { spec: unchanged }] = await runWithTracingContext(
+      tracingContext,
+      async () => {
+        return Promise.all([
+          generateDesignSpec(
+            {
+              prompt: "Create a page",
+              generationContext: { ...generationContext, snapToScale: true },
+            },
+            false,
+          ),
+          generateDesignSpec({ prompt: "Create a page", generationContext }, false),
+        ]);
+      },
+    );
+
+    expect(snapped.frame.gap).toBe(16);
+    expect(snapped.nodes[0]).toMatchObject({ type: "text", fontSize: 24 });
+    expect(unchanged.frame.gap).toBe(15);
+    expect(unchanged.nodes[0]).toMatchObject({ type: "text", fontSize: 22 });
+  });
+
+  it("applies typography defaults from the text variant", async () => {
+    const spec: DesignSpec = {
+      page: "Home",
+      frame: {
+        name: "Home",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        { type: "text", content: "Welcome", variant: "heading" },
+        { type: "text", content: "Terms apply", variant: "caption", fontSize: 11 },
+      ],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Create a welcome page" }, false);
+    });
+
+    expect(result.nodes).toEqual([
+      {
+        type: "text",
+        id: "welcome-title",
+        role: "title",
+        content: "Welcome",
+        variant: "heading",
+        fontSize: 24,
+        fontWeight: 600,
+        color: "#111111",
+      },
+      {
+        type: "text",
+        id: "terms-apply-text",
+        content: "Terms apply",
+        variant: "caption",
+        fontSize: 11,
+        fontWeight: 400,
+        color: "#6B7280",
+      },
+    ]);
+  });
+
+  it("applies defaults from the design tokens and keeps token references", async () => {
+    const themedSpec = {
+      page: "Themed",
+      tokens: { color: { primary: "#7C3AED" } },
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical",
+        gap: { $token: "spacing.lg" },
+        padding: 24,
+      },
+      nodes: [
+        { type: "button", label: "Continue" },
+        { type: "text", content: "Title", variant: "heading", color: { $token: "color.text" } },
+      ],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(themedSpec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Themed screen" }, false);
+    });
+
+    // Spec tokens override the defaults from spec-rules/tokens.json
+    expect(result.tokens?.color?.primary).toBe("#7C3AED");
+    expect(result.tokens?.spacing?.lg).toBe(16);
+    expect(result.frame.gap).toEqual({ $token: "spacing.lg" });
+    expect(result.nodes[0]).toMatchObject({ background: "#7C3AED", borderRadius: 8 });
+    expect(result.nodes[1]).toMatchObject({
+      color: { $token: "color.text" },
+      fontSize: 24,
+      fontWeight: 600,
+    });
+  });
+
+  it("applies visual defaults inside component definitions", async () => {
+    const spec = {
+      page: "Dashboard",
+      components: {
+        "stat-card": {
+          params: { title: "Title" },
+          node: {
+            type: "container",
+            layout: "vertical",
+            gap: 4,
+            padding: 16,
+            children: [{ type: "text", content: "{{title}}", variant: "caption" }],
+          },
+        },
+      },
+      frame: { name: "Main", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [{ type: "instance", component: "stat-card", overrides: { title: "Revenue" } }],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Dashboard" }, false);
+    });
+
+    expect(result.nodes[0]).toEqual({ ...spec.nodes[0], id: "stat-card-instance" });
+    expect(result.components?.["stat-card"]?.node).toMatchObject({
+      background: "#FFFFFF",
+      borderRadius: 12,
+      children: [{ content: "{{title}}", fontSize: 12, color: "#6B7280" }],
+    });
+  });
+
+  it("fills in missing node ids and roles", async () => {
+    const spec = {
+      page: "Login",
+      frame: { name: "Login", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [
+        { type: "text", content: "Sign in to your account", variant: "heading" },
+        {
+          type: "container",
+          layout: "vertical",
+          gap: 16,
+          padding: 24,
+          children: [
+            {
+              type: "container",
+              layout: "vertical",
+              gap: 8,
+              padding: 0,
+              children: [
+                { type: "input", label: "Email" },
+                { type: "input", label: "Email" },
+              ],
+            },
+            {
+              type: "container",
+              layout: "horizontal",
+              gap: 8,
+              padding: 0,
+              children: [
+                { type: "button", id: "submit", label: "Sign in" },
+                { type: "button", label: "Cancel", role: "secondary-action" },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Login" }, false);
+    });
+
+    expect(result.nodes[0]).toMatchObject({ id: "sign-in-to-title", role: "title" });
+    const card = result.nodes[1];
+    expect(card).toMatchObject({ id: "form-card", role: "form-card", background: "#FFFFFF" });
+    if (card.type !== "container") throw new Error("expected a container");
+
+    const [fields, actions] = card.children;
+    expect(fields).toMatchObject({ id: "field-group", role: "field-group" });
+    expect(fields).not.toHaveProperty("background");
+    expect(fields.type === "container" && fields.children.map((field) => field.id)).toEqual([
+      "email-input",
+      "email-input-2",
+    ]);
+    expect(actions).toMatchObject({ id: "actions", role: "actions" });
+    expect(actions.type === "container" && actions.children).toMatchObject([
+      { id: "submit", label: "Sign in" },
+      { id: "cancel-secondary-action", role: "secondary-action" },
+    ]);
+  });
+
+  it("keeps gradients and per-side padding and gives cards a default shadow", async () => {
+    const header = {
+      type: "container",
+      role: "header",
+      layout: "horizontal",
+      gap: 8,
+      padding: { top: 48, right: 16, bottom: 12, left: 16 },
+      background: {
+        type: "linear-gradient",
+        angle: 90,
+        stops: [
+          { position: 0, color: "#2563EB" },
+          { position: 1, color: { $token: "color.primary" } },
+        ],
+      },
+      children: [{ type: "text", content: "Inbox", variant: "heading" }],
+    };
+    const spec = {
+      page: "Inbox",
+      frame: { name: "Inbox", width: 400, layout: "vertical", gap: 16, padding: 0 },
+      nodes: [
+        header,
+        {
+          type: "container",
+          layout: "vertical",
+          gap: 8,
+          padding: { top: 16, right: 16, bottom: 16, left: 16 },
+          borderRadius: { topLeft: 12, topRight: 12, bottomRight: 0, bottomLeft: 0 },
+          opacity: 0.9,
+          children: [
+            { type: "text", content: "Message" },
+            { type: "text", content: "Preview" },
+          ],
+        },
+      ],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Inbox" }, false);
+    });
+
+    expect(result.nodes[0]).toMatchObject({
+      role: "header",
+      padding: header.padding,
+      background: header.background,
+    });
+    expect(result.nodes[0]).not.toHaveProperty("shadows");
+    expect(result.nodes[1]).toMatchObject({
+      role: "card",
+      opacity: 0.9,
+      background: "#FFFFFF",
+      borderRadius: { topLeft: 12, topRight: 12, bottomRight: 0, bottomLeft: 0 },
+      shadows: [{ x: 0, y: 1, blur: 3, color: "#000000", opacity: 0.1 }],
+    });
+  });
+
+  it("styles buttons and fields by variant and state", async () => {
+    const spec = {
+      page: "Account",
+      frame: { name: "Account", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [
+        { type: "input", label: "Email", state: "focus" },
+        { type: "input", label: "Password", error: "Too short" },
+        { type: "select", label: "Country", options: ["Spain"], state: "disabled" },
+        { type: "button", label: "Save" },
+        { type: "button", label: "Save draft", variant: "secondary", state: "pressed" },
+        { type: "button", label: "Skip", variant: "ghost" },
+        { type: "button", label: "Delete", variant: "destructive", state: "focus" },
+        { type: "button", label: "Continue", state: "disabled", textColor: "#111111" },
+      ],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Account" }, false);
+    });
+
+    const [email, password, country, save, draft, skip, remove, next] = result.nodes;
+    expect(email).toMatchObject({ border: { color: "#2563EB", width: 2 } });
+    expect(password).toMatchObject({ border: { color: "#DC2626", width: 1 } });
+    expect(country).toMatchObject({ background: "#F3F4F6", border: { color: "#D1D5DB" } });
+    expect(save).toMatchObject({
+      variant: "primary",
+      background: "#2563EB",
+      textColor: "#FFFFFF",
+    });
+    expect(save.type === "button" && save.border).toBeUndefined();
+    expect(draft).toMatchObject({
+      background: "#E5E7EB",
+      textColor: "#2563EB",
+      border: { color: "#2563EB", width: 1 },
+    });
+    expect(skip).toMatchObject({ variant: "ghost", textColor: "#2563EB" });
+    expect(skip.type === "button" && skip.background).toBeUndefined();
+    expect(remove).toMatchObject({
+      background: "#DC2626",
+      border: { color: "#93C5FD", width: 2 },
+    });
+    expect(next).toMatchObject({ background: "#F3F4F6", textColor: "#111111" });
+  });
+
+  it("fills in ids and defaults for bars, lists, tables and dividers", async () => {
+    const spec = {
+      page: "Settings",
+      frame: { name: "Settings", width: 400, layout: "vertical", gap: 0, padding: 0 },
+      nodes: [
+        { type: "navBar", title: "Settings", leadingIcon: "arrow-left" },
+        {
+          type: "list",
+          items: [
+            { type: "listItem", title: "Dark mode", control: "toggle" },
+            { type: "listItem", title: "Language", trailingText: "English" },
+          ],
+        },
+        { type: "divider" },
+        { type: "table", columns: [{ header: "Device" }], rows: [["Phone"]] },
+        { type: "tabBar", tabs: [{ label: "Home" }, { label: "Settings" }] },
+      ],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Settings" }, false);
+    });
+
+    const [navBar, list, divider, table, tabBar] = result.nodes;
+    expect(navBar).toMatchObject({ id: "settings-nav-bar", background: "#FFFFFF" });
+    expect(list).toMatchObject({
+      id: "list",
+      width: "fill",
+      dividers: true,
+      borderRadius: 12,
+      items: [
+        { id: "dark-mode-list-item", checked: false },
+        { id: "language-list-item", trailingText: "English" },
+      ],
+    });
+    expect(list.type === "list" && list.items[1]).not.toHaveProperty("checked");
+    expect(divider).toMatchObject({ orientation: "horizontal", color: "#D1D5DB", thickness: 1 });
+    expect(table).toMatchObject({ width: "fill", borderColor: "#D1D5DB" });
+    expect(tabBar).toMatchObject({ activeIndex: 0, color: "#6B7280", activeColor: "#2563EB" });
+  });
+
+  it("gives overlay nodes ids from the screen namespace and visual defaults", async () => {
+    const spec = {
+      page: "Settings",
+      frame: {
+        name: "Settings",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+        overlays: [
+          {
+            name: "Delete confirmation",
+            backdrop: "#000000",
+            backdropOpacity: 0.4,
+            nodes: [
+              {
+                type: "container",
+                layout: "vertical",
+                gap: 12,
+                padding: 24,
+                children: [
+                  { type: "text", content: "" },
+                  { type: "button", label: "Delete" },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      nodes: [{ type: "button", label: "Delete", absolute: { x: 16, y: 16 } }],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Settings" }, false);
+    });
+
+    expect(result.nodes[0]).toMatchObject({ id: "delete-button", absolute: { x: 16, y: 16 } });
+    const [dialog] = result.frame.overlays?.[0]?.nodes ?? [];
+    expect(dialog).toMatchObject({ role: "card", background: "#FFFFFF" });
+    if (dialog?.type !== "container") throw new Error("expected a container");
+    expect(dialog.children[0]).toMatchObject({ content: "Enter your email" });
+    expect(dialog.children[1]).toMatchObject({ id: "delete-button-2", background: "#2563EB" });
+  });
+
+  it("throws error when a token reference is unknown", async () => {
+    const spec = {
+      page: "Themed",
+      frame: { name: "Main", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [{ type: "button", label: "Go", background: { $token: "color.brand" } }],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    await expect(
+      runWithTracingContext(tracingContext, async () => {
+        return generateDesignSpec({ prompt: "Test prompt" }, false);
+      }),
+    ).rejects.toThrow("Unknown token");
+  });
+
   it("throws error when OpenAI returns empty content", async () => {
     mockChatCompletionsCreate.mockResolvedValue({
       choices: [{ message: {} }],
@@ -246,6 +1008,65 @@ describe("generateDesignSpec", () => {
         return generateDesignSpec({ prompt: "Test prompt" }, false);
       }),
     ).rejects.toThrow("Invalid JSON response from OpenAI");
+    // The first request plus SPEC_REPAIR_MAX_ROUNDS correction rounds
+    expect(mockChatCompletionsCreate).toHaveBeenCalledTimes(3);
+  });
+
+  it("repairs code fences and numeric strings without another request", async () => {
+    const spec = {
+      page: "Home",
+      frame: { name: "Home", width: "400", layout: "vertical", gap: 16, padding: 24 },
+      nodes: [{ type: "text", content: "Welcome", fontSize: "24px" }],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: `\`\`\`json\n${JSON.stringify(spec)}\n\`\`\`` } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Create a page" }, false);
+    });
+
+    expect(result.frame.width).toBe(400);
+    expect(result.nodes[0]).toMatchObject({ type: "text", fontSize: 24 });
+    expect(mockChatCompletionsCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends validation errors back to the model for a correction round", async () => {
+    const frame = { name: "Home", width: 400, layout: "vertical", gap: 16, padding: 24 };
+    const invalid = JSON.stringify({ page: "Home", frame: { ...frame, width: -100 }, nodes: [] });
+    const valid = JSON.stringify({
+      page: "Home",
+      frame,
+      nodes: [{ type: "text", content: "Welcome" }],
+    });
+
+    mockChatCompletionsCreate
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: invalid } }],
+        usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: valid } }],
+        usage: { prompt_tokens: 200, completion_tokens: 50, total_tokens: 250 },
+      });
+
+    const result = await runWithTracingContext(tracingContext, async () => {
+      return generateDesignSpec({ prompt: "Create a page" }, false);
+    });
+
+    expect(result.spec.nodes).toHaveLength(1);
+    expect(result.usage.tokens).toEqual({ prompt: 300, completion: 100, total: 400 });
+    expect(mockChatCompletionsCreate).toHaveBeenCalledTimes(2);
+    const correction = mockChatCompletionsCreate.mock.calls[1]?.[0].messages;
+    expect(correction.slice(-2)).toEqual([
+      { role: "assistant", content: invalid },
+      {
+        role: "user",
+        content: expect.stringMatching(/not a valid DesignSpec:\n- frame\.width: .*\n- nodes: /),
+      },
+    ]);
   });
 
   it("throws error when OpenAI response does not match schema", async () => {
@@ -293,3 +1114,247 @@ describe("generateDesignSpec", () => {
     ).rejects.toThrow();
   });
 });
+
+describe("generateDesignSpecCandidates", () => {
+  let mockChatCompletionsCreate: ReturnType<typeof vi.fn>;
+  let tracingContext: ReturnType<typeof createTracingContext>;
+
+  const frame = { name: "Login", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+  const completion = (content?: string) => ({
+    choices: [{ message: { content } }],
+    usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tracingContext = createTracingContext();
+    const openaiModule = await import("openai");
+    const createFnGetter = (
+      openaiModule as unknown as { __getCreateFn: () => ReturnType<typeof vi.fn> }
+    ).__getCreateFn;
+    mockChatCompletionsCreate = createFnGetter();
+  });
+
+  it("ranks the candidates by score and leaves out the ones that fail", async () => {
+    const sparse: DesignSpec = {
+      page: "Login",
+      frame,
+      nodes: [{ type: "text", content: "Login" }],
+    };
+    const complete: DesignSpec = {
+      page: "Login",
+      frame,
+      nodes: [
+        { type: "text", content: "Welcome back" },
+        { type: "input", label: "Email" },
+        { type: "input", label: "Password" },
+        { type: "button", label: "Sign in" },
+      ],
+    };
+    const responses = [JSON.stringify(sparse), JSON.stringify(complete), undefined];
+    mockChatCompletionsCreate.mockImplementation(async () => completion(responses.shift()));
+
+    const result = await runWithTracingContext(tracingContext, () =>
+      generateDesignSpecCandidates({ prompt: "Create a login form", candidates: 3 }, false),
+    );
+
+    expect(mockChatCompletionsCreate).toHaveBeenCalledTimes(3);
+    expect(result.candidates.map((candidate) => candidate.rank)).toEqual([1, 2]);
+    expect(result.candidates.map((candidate) => candidate.spec.nodes.length)).toEqual([4, 1]);
+    const [best, worst] = result.candidates;
+    expect(best.score.total).toBeGreaterThan(worst.score.total);
+    expect(worst.score.penalties.structure).toBeGreaterThan(0);
+    expect(result.usage.tokens.total).toBe(300);
+  });
+
+  it("fails when every candidate fails", async () => {
+    mockChatCompletionsCreate.mockResolvedValue(completion());
+
+    await expect(
+      runWithTracingContext(tracingContext, () =>
+        generateDesignSpecCandidates({ prompt: "Create a login form", candidates: 2 }, false),
+      ),
+    ).rejects.toThrow("Empty response from OpenAI");
+  });
+});
+
+describe("refineDesignSpec", () => {
+  let mockChatCompletionsCreate: ReturnType<typeof vi.fn>;
+  let tracingContext: ReturnType<typeof createTracingContext>;
+
+  const login: DesignSpec = {
+    page: "Login",
+    frame: { name: "Login", width: 400, layout: "vertical", gap: 16, padding: 24 },
+    nodes: [
+      { type: "input", label: "Email" },
+      { type: "button", label: "Sign in" },
+    ],
+  };
+
+  const respondWith = (spec: DesignSpec) =>
+    mockChatCompletionsCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(spec) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tracingContext = createTracingContext();
+    const openaiModule = await import("openai");
+    const createFnGetter = (
+      openaiModule as unknown as { __getCreateFn: () => ReturnType<typeof vi.fn> }
+    ).__getCreateFn;
+    mockChatCompletionsCreate = createFnGetter();
+  });
+
+  it("sends the spec with the instruction and returns the patch to the refined spec", async () => {
+    respondWith(login);
+    const { spec } = await runWithTracingContext(tracingContext, () =>
+      generateDesignSpec({ prompt: "Create a login form" }, false),
+    );
+    const [email, signIn] = spec.nodes;
+    const forgotPassword = {
+      type: "button" as const,
+      label: "Forgot password?",
+      variant: "ghost" as const,
+    };
+    respondWith({ ...spec, nodes: [email, forgotPassword, { ...signIn, variant: "secondary" }] });
+
+    const result = await runWithTracingContext(tracingContext, () =>
+      refineDesignSpec(
+        { spec, instruction: "Make the button secondary and add a forgot-password link" },
+        false,
+      ),
+    );
+
+    expect(result.spec.nodes.map((node) => node.id)).toEqual([
+      email.id,
+      expect.any(String),
+      signIn.id,
+    ]);
+    // The new node is added as a whole; the secondary variant also brings its default border
+    expect(result.patch).toEqual([
+      { op: "add", path: "/nodes/1", value: result.spec.nodes[1] },
+      { op: "replace", path: "/nodes/2/variant", value: "secondary" },
+      { op: "add", path: "/nodes/2/border", value: expect.any(Object) },
+    ]);
+    expect(result.usage.tokens.total).toBe(150);
+    const [, [{ messages }]] = mockChatCompletionsCreate.mock.calls;
+    expect(messages[2].content).toContain(JSON.stringify(spec));
+    expect(messages[2].content).toContain(
+      "Make the button secondary and add a forgot-password link",
+    );
+  });
+
+  it("appends the instruction as a text node when dryRun is true", async () => {
+    const result = await runWithTracingContext(tracingContext, () =>
+      refineDesignSpec({ spec: login, instruction: "Add a footer" }, true),
+    );
+
+    expect(result.spec.nodes.at(-1)).toMatchObject({ type: "text", content: "Add a footer" });
+    expect(result.patch).toContainEqual({
+      op: "add",
+      path: "/nodes/2",
+      value: result.spec.nodes[2],
+    });
+    expect(mockChatCompletionsCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe("generateFlowSpec", () => {
+  let mockChatCompletionsCreate: ReturnType<typeof vi.fn>;
+  let tracingContext: ReturnType<typeof createTracingContext>;
+
+  const frame = {
+    name: "Screen",
+    width: 400,
+    layout: "vertical" as const,
+    gap: 16,
+    padding: 24,
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tracingContext = createTracingContext();
+    const openaiModule = await import("openai");
+    const createFnGetter = (
+      openaiModule as unknown as { __getCreateFn: () => ReturnType<typeof vi.fn> }
+    ).__getCreateFn;
+    mockChatCompletionsCreate = createFnGetter();
+  });
+
+  it("returns mock flow when dryRun is true", async () => {
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateFlowSpec({ prompt: "Test" }, true);
+    });
+
+    expect(result.screens.map((screen) => screen.id)).toEqual(["mock-start", "mock-end"]);
+    expect(result.edges).toEqual([{ from: "mock-start", trigger: "mock-next", to: "mock-end" }]);
+    expect(result.screens[0]?.nodes[1]).toMatchObject({
+      type: "button",
+      id: "mock-next",
+      background: "#2563EB", // Added by applyVisualDefaults
+    });
+    expect(mockChatCompletionsCreate).not.toHaveBeenCalled();
+  });
+
+  it("returns FlowSpec with visual defaults applied to every screen", async () => {
+    const validFlow: FlowSpec = {
+      page: "Signup flow",
+      screens: [
+        {
+          id: "signup",
+          frame,
+          nodes: [{ type: "button", id: "signup-submit", label: "Continue" }],
+        },
+        { id: "verify", frame, nodes: [{ type: "text", content: "Check your inbox" }] },
+      ],
+      edges: [{ from: "signup", trigger: "signup-submit", to: "verify" }],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(validFlow) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    const { spec: result } = await runWithTracingContext(tracingContext, async () => {
+      return generateFlowSpec({ prompt: "Signup then verify" }, false);
+    });
+
+    expect(result.edges).toEqual(validFlow.edges);
+    for (const screen of result.screens) {
+      expect(screen.frame).toMatchObject({ height: 800, background: "#FFFFFF" });
+    }
+    const callArgs = mockChatCompletionsCreate.mock.calls[0]?.[0];
+    expect(callArgs).toMatchObject({
+      messages: [
+        { role: "system", content: expect.stringContaining("MULTI-SCREEN FLOW RULES") },
+        { role: "assistant", content: expect.stringContaining("FlowSpec JSON structure") },
+        { role: "user", content: "Signup then verify" },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "FlowSpec", schema: flowSpecJsonSchema, strict: false },
+      },
+    } as unknown);
+  });
+
+  it("throws error when an edge references an unknown screen", async () => {
+    const invalidFlow = {
+      page: "Flow",
+      screens: [{ id: "a", frame, nodes: [{ type: "button", id: "go", label: "Go" }] }],
+      edges: [{ from: "a", trigger: "go", to: "missing" }],
+    };
+
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(invalidFlow) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    });
+
+    await expect(
+      runWithTracingContext(tracingContext, async () => {
+        return generateFlowSpec({ prompt: "Test prompt" }, false);
+      }),
+    ).rejects.toThrow("Invalid FlowSpec");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { LintFinding } from "../../lint/types.js";
+import { scoreCandidate } from "../score.js";
+import type { ScoringConfig } from "../types.js";
+
+const CONFIG: ScoringConfig = {
+  name: "scoring",
+  description: "Test weights",
+  findings: { error: 20, warn: 5, info: 1 },
+  rules: { "visual-usage": 3 },
+  structure: {
+    maxDepth: 4,
+    perExtraLevel: 5,
+    minNodes: 3,
+    perMissingNode: 5,
+    maxSurfaceRatio: 0.5,
+    surfaceRatioPenalty: 10,
+  },
+};
+
+const ANALYSIS = { nodes_count: 6, depth: 2, surface_nodes_count: 1 };
+
+function finding(ruleId: string, severity: LintFinding["severity"]): LintFinding {
+  return { ruleId, severity, type: `${ruleId}_issue`, path: "nodes[0]", message: "Issue" };
+}
+
+describe("scoreCandidate", () => {
+  it("gives a clean spec full marks", () => {
+    expect(scoreCandidate([], ANALYSIS, CONFIG)).toEqual({
+      total: 100,
+      penalties: { findings: 0, rules: 0, structure: 0 },
+    });
+  });
+
+  it("takes points off per finding, with extra points for weighted rules", () => {
+    const findings = [
+      finding("visual-usage", "warn"),
+      finding("visual-usage", "warn"),
+      finding("a11y", "warn"),
+      finding("scale", "info"),
+    ];
+
+    expect(scoreCandidate(findings, ANALYSIS, CONFIG)).toEqual({
+      total: 78,
+      penalties: { findings: 16, rules: 6, structure: 0 },
+    });
+  });
+
+  it("takes points off for deep, sparse or cluttered structure", () => {
+    expect(scoreCandidate([], { ...ANALYSIS, depth: 6 }, CONFIG).penalties.structure).toBe(10);
+    expect(scoreCandidate([], { ...ANALYSIS, nodes_count: 1 }, CONFIG).penalties.structure).toBe(
+      20,
+    );
+    expect(
+      scoreCandidate([], { ...ANALYSIS, surface_nodes_count: 4 }, CONFIG).penalties.structure,
+    ).toBe(10);
+  });
+
+  it("does not go below 0", () => {
+    const findings = Array.from({ length: 10 }, () => finding("a11y", "error"));
+
+    expect(scoreCandidate(findings, ANALYSIS, CONFIG).total).toBe(0);
+  });
+});
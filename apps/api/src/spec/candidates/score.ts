@@ -0,0 +1,38 @@
+import type { SpecAnalysis } from "../../utils/specAnalysis.js";
+import type { LintFinding } from "../lint/types.js";
+import type { CandidateScore, ScoringConfig } from "./types.js";
+
+const MAX_SCORE = 100;
+
+function structurePenalty(analysis: SpecAnalysis, config: ScoringConfig["structure"]): number {
+  const extraLevels = Math.max(0, analysis.depth - config.maxDepth);
+  const missingNodes = Math.max(0, config.minNodes - analysis.nodes_count);
+  const surfaceRatio =
+    analysis.nodes_count > 0 ? analysis.surface_nodes_count / analysis.nodes_count : 0;
+  return (
+    extraLevels * config.perExtraLevel +
+    missingNodes * config.perMissingNode +
+    (surfaceRatio > config.maxSurfaceRatio ? config.surfaceRatioPenalty : 0)
+  );
+}
+
+/**
+ * Scores a generated spec from its lint findings and structure metrics: 100 minus points
+ * per finding, extra points for findings of weighted rules, and points for structure
+ * outside the configured range. Scores do not go below 0.
+ */
+export function scoreCandidate(
+  findings: LintFinding[],
+  analysis: SpecAnalysis,
+  config: ScoringConfig,
+): CandidateScore {
+  const penalties = {
+    findings: findings.reduce((sum, finding) => sum + config.findings[finding.severity], 0),
+    rules: findings.reduce((sum, finding) => sum + (config.rules[finding.ruleId] ?? 0), 0),
+    structure: structurePenalty(analysis, config.structure),
+  };
+  return {
+    total: Math.max(0, MAX_SCORE - penalties.findings - penalties.rules - penalties.structure),
+    penalties,
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Types for ranking candidate specs
+ */
+import type { LintSeverity } from "../lint/types.js";
+
+/**
+ * Scoring weights from spec-rules/scoring.json
+ */
+export interface ScoringConfig {
+  name: string;
+  description: string;
+  /**
+   * Points off per lint finding of each severity
+   */
+  findings: Record<LintSeverity, number>;
+  /**
+   * Extra points off per finding of a rule, on top of its severity (e.g., "visual-usage")
+   */
+  rules: Record<string, number>;
+  structure: {
+    maxDepth: number;
+    perExtraLevel: number;
+    minNodes: number;
+    perMissingNode: number;
+    /**
+     * Largest share of surface nodes before the spec counts as cluttered
+     */
+    maxSurfaceRatio: number;
+    surfaceRatioPenalty: number;
+  };
+}
+
+/**
+ * Score of a candidate out of 100, with the points it lost to each kind of problem
+ */
+export interface CandidateScore {
+  total: number;
+  penalties: {
+    findings: number;
+    rules: number;
+    structure: number;
+  };
+}
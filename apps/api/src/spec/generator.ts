@@ -1,21 +1,70 @@
-import { designSpecSchema } from "@eskiz/spec";
-import type { DesignSpec, GenerationContext, PromptRequest } from "@eskiz/spec";
-import OpenAI from "openai";
+import {
+  CURRENT_SPEC_VERSION,
+  FORM_CONTROL_TYPES,
+  SURFACE_ROLES,
+  designSpecJsonSchema,
+  designSpecSchema,
+  designTokensSchema,
+  flowSpecJsonSchema,
+  flowSpecSchema,
+  lookupToken,
+  mergeTokens,
+  resolvePadding,
+} from "@eskiz/spec";
+import type {
+  Border,
+  ButtonNode,
+  ButtonState,
+  ButtonVariant,
+  DesignSpec,
+  DesignTokens,
+  FlowSpec,
+  GenerationContext,
+  InputState,
+  JsonPatchOperation,
+  ListItemNode,
+  Node,
+  NodeRole,
+  PromptRequest,
+  RefineRequest,
+} from "@eskiz/spec";
+import type pino from "pino";
+import type { ZodIssue, z } from "zod";
 import { getEnv } from "../config/env.js";
 import { createChildSpan, getTracingContext } from "../context/tracing.js";
+import type { TracingContext } from "../context/tracing.js";
+import { getLlmProvider, getModelCapabilities, selectModel } from "../llm/index.js";
+import type { ChatMessage, CompletionOptions, ResponseSchema } from "../llm/index.js";
 import { checkBudgetAlerts } from "../utils/budgetAlerts.js";
 import { computeHash, computeObjectHash } from "../utils/hash.js";
 import { getContextLogger } from "../utils/logger.js";
 import { makeOpenAIRequestWithRetry } from "../utils/openaiRetry.js";
-import { analyzeSpec } from "../utils/specAnalysis.js";
+import { analyzeFlowSpec, analyzeSpec } from "../utils/specAnalysis.js";
+import type { FlowSpecAnalysis, SpecAnalysis } from "../utils/specAnalysis.js";
 import { aggregateWarnings } from "../utils/warningsAggregation.js";
+import type { AggregatedWarnings } from "../utils/warningsAggregation.js";
+import { scoreCandidate } from "./candidates/score.js";
+import type { CandidateScore } from "./candidates/types.js";
+import { lintDesignSpec, lintErrors, lintFlowSpec } from "./lint/engine.js";
+import type { LintOptions, LintResult } from "./lint/engine.js";
+import type { LintFinding } from "./lint/types.js";
 import { assembleSystemPrompt } from "./prompt/assembleSystemPrompt.js";
-import { validateVisualUsage } from "./validation/validateVisualUsage.js";
+import { describeJsonSchema } from "./prompt/describeSchema.js";
+import {
+  loadDesignTokens,
+  loadLintConfig,
+  loadScale,
+  loadScoringConfig,
+} from "./prompt/loadRules.js";
+import { diffJson } from "./refine/jsonPatch.js";
+import { parseModelJson, repairParsedSpec } from "./repair/localRepair.js";
+import { createNodeStream } from "./stream/partialNodes.js";
+import { MIN_TOUCH_TARGET } from "./validation/validateTouchTargets.js";
 
-const env = getEnv();
-const openai = new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-});
+const DEFAULT_TOKENS = loadDesignTokens();
+const SCALE = loadScale();
+const LINT_CONFIG = loadLintConfig();
+const SCORING = loadScoringConfig();
 
 const DEFAULT_GENERATION_CONTEXT: GenerationContext = {
   targetLayout: "mobile",
@@ -32,7 +81,7 @@ const DEFAULT_GENERATION_CONTEXT: GenerationContext = {
 /**
  * Builds the system prompt using the rule-based assembly system
  */
-function buildSystemPrompt(context: GenerationContext, userPrompt: string): string {
+function buildSystemPrompt(context: GenerationContext, userPrompt: string, flow = false): string {
   return assembleSystemPrompt({
     userPrompt,
     targetLayout: context.targetLayout,
@@ -40,39 +89,207 @@ function buildSystemPrompt(context: GenerationContext, userPrompt: string): stri
     visualBaseline: context.visualBaseline ?? true,
     strictLayout: context.strictLayout ?? false,
     uxPatterns: context.uxPatterns,
+    flow,
   });
 }
 
 /**
- * Visual defaults for wireframe-level presentation
+ * Visual defaults for wireframe-level presentation.
+ * Colors and radii are token paths into the spec tokens (spec-rules/tokens.json by default).
  */
 const VISUAL_DEFAULTS = {
-  containerBackground: "#FFFFFF",
-  containerBorderRadius: 12,
-  inputBorder: { color: "#D1D5DB", width: 1 },
-  buttonBackground: "#2563EB",
-  buttonTextColor: "#FFFFFF",
-  buttonBorderRadius: 8,
-  primaryTextColor: "#111111",
-  placeholderTextColor: "#6B7280",
+  containerBackground: "color.surface",
+  containerBorderRadius: "radius.lg",
+  // Subtle elevation for card surfaces
+  cardShadow: { x: 0, y: 1, blur: 3, color: "#000000", opacity: 0.1 },
+  inputBackground: "color.surface",
+  inputBorderRadius: "radius.md",
+  disabledBackground: "color.disabled",
+  controlAccentColor: "color.primary",
+  buttonBorderRadius: "radius.md",
+  primaryTextColor: "color.text",
+  placeholderTextColor: "color.text-muted",
+  imagePlaceholderBackground: "color.placeholder",
+  imageAspectRatio: 16 / 9,
+  imageFit: "fill",
+  iconSize: 24,
+  iconColor: "color.text",
+  dividerColor: "color.border",
+  dividerThickness: 1,
 } as const;
 
 /**
- * Determines if a container represents an input field based on its structure.
- * Input containers typically have border and contain placeholder text.
+ * Button colors per variant as token paths, with the backgrounds used while hovered and
+ * pressed. Ghost buttons only get a background while hovered or pressed.
+ */
+const BUTTON_VARIANT_DEFAULTS: Record<
+  ButtonVariant,
+  { background?: string; textColor: string; borderColor?: string; hover: string; pressed: string }
+> = {
+  primary: {
+    background: "color.primary",
+    textColor: "color.on-primary",
+    hover: "color.primary-hover",
+    pressed: "color.primary-pressed",
+  },
+  secondary: {
+    background: "color.surface",
+    textColor: "color.primary",
+    borderColor: "color.primary",
+    hover: "color.surface-hover",
+    pressed: "color.surface-pressed",
+  },
+  ghost: {
+    textColor: "color.primary",
+    hover: "color.surface-hover",
+    pressed: "color.surface-pressed",
+  },
+  destructive: {
+    background: "color.danger",
+    textColor: "color.on-primary",
+    hover: "color.danger-hover",
+    pressed: "color.danger-pressed",
+  },
+};
+
+/**
+ * Field border per state as token paths
+ */
+const INPUT_STATE_BORDERS: Record<InputState, { color: string; width: number }> = {
+  default: { color: "color.border", width: 1 },
+  hover: { color: "color.text-muted", width: 1 },
+  focus: { color: "color.primary", width: 2 },
+  disabled: { color: "color.border", width: 1 },
+  error: { color: "color.danger", width: 1 },
+};
+
+const FOCUS_RING = { color: "color.focus", width: 2 };
+
+/**
+ * Resolves a default token path to its literal value
+ */
+function tokenDefault<T extends string | number>(tokens: DesignTokens, path: string): T {
+  const value = lookupToken(tokens, path);
+  if (value === undefined) {
+    throw new Error(`Default token "${path}" is not defined`);
+  }
+  return value as T;
+}
+
+/**
+ * Resolves VISUAL_DEFAULTS against the spec tokens
+ */
+function resolveVisualDefaults(tokens: DesignTokens) {
+  return {
+    ...VISUAL_DEFAULTS,
+    containerBackground: tokenDefault<string>(tokens, VISUAL_DEFAULTS.containerBackground),
+    containerBorderRadius: tokenDefault<number>(tokens, VISUAL_DEFAULTS.containerBorderRadius),
+    inputBackground: tokenDefault<string>(tokens, VISUAL_DEFAULTS.inputBackground),
+    inputBorders: Object.fromEntries(
+      Object.entries(INPUT_STATE_BORDERS).map(([state, border]) => [
+        state,
+        { color: tokenDefault<string>(tokens, border.color), width: border.width },
+      ]),
+    ) as Record<InputState, Border>,
+    inputBorderRadius: tokenDefault<number>(tokens, VISUAL_DEFAULTS.inputBorderRadius),
+    disabledBackground: tokenDefault<string>(tokens, VISUAL_DEFAULTS.disabledBackground),
+    controlAccentColor: tokenDefault<string>(tokens, VISUAL_DEFAULTS.controlAccentColor),
+    buttonBorderRadius: tokenDefault<number>(tokens, VISUAL_DEFAULTS.buttonBorderRadius),
+    primaryTextColor: tokenDefault<string>(tokens, VISUAL_DEFAULTS.primaryTextColor),
+    placeholderTextColor: tokenDefault<string>(tokens, VISUAL_DEFAULTS.placeholderTextColor),
+    imagePlaceholderBackground: tokenDefault<string>(
+      tokens,
+      VISUAL_DEFAULTS.imagePlaceholderBackground,
+    ),
+    iconColor: tokenDefault<string>(tokens, VISUAL_DEFAULTS.iconColor),
+    dividerColor: tokenDefault<string>(tokens, VISUAL_DEFAULTS.dividerColor),
+  };
+}
+
+/**
+ * Resolves the default button colors for a variant in a state: hover and pressed swap the
+ * background, focus adds a focus ring and disabled greys the button out
+ */
+function resolveButtonStyle(
+  tokens: DesignTokens,
+  variant: ButtonVariant,
+  state: ButtonState,
+): Pick<ButtonNode, "background" | "textColor" | "border"> {
+  const style = BUTTON_VARIANT_DEFAULTS[variant];
+  const color = (path: string | undefined) =>
+    path === undefined ? undefined : tokenDefault<string>(tokens, path);
+  const border = (path: string | undefined, width = 1) =>
+    path === undefined ? undefined : { color: tokenDefault<string>(tokens, path), width };
+
+  switch (state) {
+    case "hover":
+    case "pressed":
+      return {
+        background: color(style[state]),
+        textColor: color(style.textColor),
+        border: border(style.borderColor),
+      };
+    case "focus":
+      return {
+        background: color(style.background),
+        textColor: color(style.textColor),
+        border: border(FOCUS_RING.color, FOCUS_RING.width),
+      };
+    case "disabled":
+      return {
+        background: color(style.background && VISUAL_DEFAULTS.disabledBackground),
+        textColor: color("color.text-disabled"),
+        border: border(style.borderColor && "color.border"),
+      };
+    default:
+      return {
+        background: color(style.background),
+        textColor: color(style.textColor),
+        border: border(style.borderColor),
+      };
+  }
+}
+
+/**
+ * Lists color, spacing and radius tokens for the prompt, e.g. "- color.primary: #2563EB"
+ */
+function formatTokensForPrompt(tokens: DesignTokens): string {
+  const groups = { color: tokens.color, spacing: tokens.spacing, radius: tokens.radius };
+  return Object.entries(groups)
+    .flatMap(([category, values]) =>
+      Object.entries(values ?? {}).map(([name, value]) => `- ${category}.${name}: ${value}`),
+    )
+    .join("\n");
+}
+
+/**
+ * Adds the default tokens to a raw model response so token references resolve.
+ * Tokens defined by the model override the defaults; invalid tokens are left for the schema to report.
+ */
+function withDefaultTokens(parsed: unknown): unknown {
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return parsed;
+  }
+  const raw = parsed as Record<string, unknown>;
+  const specTokens = designTokensSchema.safeParse(raw.tokens ?? {});
+  if (!specTokens.success) {
+    return parsed;
+  }
+  return { ...raw, tokens: mergeTokens(DEFAULT_TOKENS, specTokens.data) };
+}
+
+/**
+ * Determines if a container is a bordered field wrapper around a form control
+ * (e.g. a search bar with a leading icon). Inputs themselves are `input` nodes.
  */
 function isInputContainer(node: DesignSpec["nodes"][number]): boolean {
   if (node.type !== "container") return false;
-  // Check if container has border (indicates input)
-  if (node.border) return true;
-  // Check if container has placeholder-like text children
-  const hasPlaceholderText = node.children.some(
-    (child: DesignSpec["nodes"][number]) =>
-      child.type === "text" &&
-      (child.content.toLowerCase().includes("enter") ||
-        child.content.toLowerCase().includes("placeholder")),
+  return (
+    !!node.border &&
+    node.children.some((child: DesignSpec["nodes"][number]) =>
+      (FORM_CONTROL_TYPES as readonly string[]).includes(child.type),
+    )
   );
-  return hasPlaceholderText;
 }
 
 /**
@@ -89,6 +306,39 @@ function isPlaceholderText(node: DesignSpec["nodes"][number]): boolean {
   );
 }
 
+/**
+ * Applies a node transform to the root node of every component definition
+ */
+function mapComponents(
+  components: DesignSpec["components"],
+  transform: (node: DesignSpec["nodes"][number]) => DesignSpec["nodes"][number],
+): DesignSpec["components"] {
+  if (!components) return undefined;
+  return Object.fromEntries(
+    Object.entries(components).map(([name, definition]) => [
+      name,
+      { ...definition, node: transform(definition.node) },
+    ]),
+  );
+}
+
+/**
+ * Applies a node transform to the root nodes of every frame overlay
+ */
+function mapOverlays(
+  frame: DesignSpec["frame"],
+  transform: (node: DesignSpec["nodes"][number]) => DesignSpec["nodes"][number],
+): DesignSpec["frame"] {
+  if (!frame.overlays) return frame;
+  return {
+    ...frame,
+    overlays: frame.overlays.map((overlay) => ({
+      ...overlay,
+      nodes: overlay.nodes.map(transform),
+    })),
+  };
+}
+
 /**
  * Ensures all text nodes have non-empty content.
  * Replaces empty text content with placeholder text to prevent Auto Layout collapse.
@@ -124,8 +374,146 @@ function ensureNonEmptyTextContent(spec: DesignSpec): DesignSpec {
 
   return {
     ...spec,
+    components: mapComponents(spec.components, fixNode),
     nodes: spec.nodes.map(fixNode),
+    frame: mapOverlays(spec.frame, fixNode),
+  };
+}
+
+/**
+ * Padding from which a container reads as a card surface rather than a layout group
+ */
+const CARD_PADDING = 16;
+
+// Words of the label or content kept in generated node ids
+const ID_WORDS = 3;
+
+function isFormControl(node: DesignSpec["nodes"][number]): boolean {
+  return (FORM_CONTROL_TYPES as readonly string[]).includes(node.type);
+}
+
+function containsFormControl(node: DesignSpec["nodes"][number]): boolean {
+  if (node.type !== "container") return isFormControl(node);
+  return node.children.some(containsFormControl);
+}
+
+/**
+ * Infers the role of a node the model left without one.
+ * Padded containers are cards (form cards when they hold a form control),
+ * rows of buttons are actions and containers around form controls are field groups.
+ */
+function inferRole(node: DesignSpec["nodes"][number], tokens: DesignTokens): NodeRole | undefined {
+  if (node.type === "text") {
+    return node.variant === "heading" ? "title" : undefined;
+  }
+  if (node.type !== "container" || isInputContainer(node)) {
+    return undefined;
+  }
+  // Cards are padded on every side, so the smallest side decides
+  const padding = Math.min(...Object.values(resolvePadding(node.padding, tokens)));
+  if (padding >= CARD_PADDING || (padding > 0 && node.children.length >= 2)) {
+    return containsFormControl(node) ? "form-card" : "card";
+  }
+  if (node.children.every((child) => child.type === "button")) {
+    return "actions";
+  }
+  if (node.children.some(isFormControl)) {
+    return "field-group";
+  }
+  return undefined;
+}
+
+/**
+ * Human-readable text of a node, used to derive its id
+ */
+function identityText(node: DesignSpec["nodes"][number]): string | undefined {
+  switch (node.type) {
+    case "text":
+      return node.content;
+    case "button":
+    case "checkbox":
+    case "radio":
+    case "toggle":
+      return node.label;
+    case "input":
+    case "select":
+      return node.label ?? node.placeholder;
+    case "image":
+      return node.alt;
+    case "icon":
+      return node.name;
+    case "navBar":
+    case "listItem":
+      return node.title;
+    case "instance":
+      return node.component;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Builds an id such as "sign-in-button" or "form-card" from a node's text and role or type
+ */
+function defaultNodeId(node: DesignSpec["nodes"][number], role: NodeRole | undefined): string {
+  // Node types are camelCase ("navBar"), ids are kebab-case
+  const kind = role ?? node.type.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+  const slug = (identityText(node) ?? "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .slice(0, ID_WORDS)
+    .join("-");
+  return slug && slug !== kind ? `${slug}-${kind}` : kind;
+}
+
+/**
+ * Fills in missing ids and roles so nodes can be referenced across regenerations,
+ * diffs and the Figma canvas. Ids set by the model are kept; generated ids are made
+ * unique across the given trees with a numeric suffix, so a screen and its overlays
+ * share one id namespace.
+ */
+function createIdentityAssigner(
+  trees: DesignSpec["nodes"][],
+  tokens: DesignTokens,
+): (node: DesignSpec["nodes"][number]) => DesignSpec["nodes"][number] {
+  const usedIds = new Set<string>();
+  const reserveIds = (node: DesignSpec["nodes"][number]): void => {
+    if (node.id) usedIds.add(node.id);
+    if (node.type === "container") node.children.forEach(reserveIds);
+    if (node.type === "list") node.items.forEach(reserveIds);
+  };
+  for (const nodes of trees) nodes.forEach(reserveIds);
+
+  const uniqueId = (base: string): string => {
+    let id = base;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    usedIds.add(id);
+    return id;
   };
+
+  function assignNode(node: DesignSpec["nodes"][number]): DesignSpec["nodes"][number] {
+    const role = node.role ?? inferRole(node, tokens);
+    const identified = {
+      ...node,
+      id: node.id ?? uniqueId(defaultNodeId(node, role)),
+      ...(role ? { role } : {}),
+    };
+    if (identified.type === "container") {
+      return { ...identified, children: identified.children.map(assignNode) };
+    }
+    if (identified.type === "list") {
+      return {
+        ...identified,
+        items: identified.items.map((item) => assignNode(item) as ListItemNode),
+      };
+    }
+    return identified;
+  }
+
+  return assignNode;
 }
 
 /**
@@ -146,45 +534,179 @@ function applyVisualDefaults(
     desktop: { width: 1200, height: 900 },
   };
   const dimensions = defaultDimensions[targetLayout];
+  const tokens = mergeTokens(DEFAULT_TOKENS, spec.tokens);
+  const defaults = resolveVisualDefaults(tokens);
+  // Mobile rules require full-width inputs and buttons, and buttons tall enough to tap
+  const controlWidth = targetLayout === "mobile" ? "fill" : undefined;
+  const buttonHeight = targetLayout === "mobile" ? MIN_TOUCH_TARGET : undefined;
 
-  // Apply defaults to root frame
-  const frame: DesignSpec["frame"] = {
-    ...spec.frame,
-    height: spec.frame.height ?? dimensions.height,
-    background: spec.frame.background ?? VISUAL_DEFAULTS.containerBackground,
-    borderRadius: spec.frame.borderRadius ?? VISUAL_DEFAULTS.containerBorderRadius,
-  };
+  // Apply defaults to root frame and the nodes of its overlays
+  const frame: DesignSpec["frame"] = mapOverlays(
+    {
+      ...spec.frame,
+      height: spec.frame.height ?? dimensions.height,
+      background: spec.frame.background ?? defaults.containerBackground,
+      borderRadius: spec.frame.borderRadius ?? defaults.containerBorderRadius,
+    },
+    applyNodeDefaults,
+  );
+
+  function applyListItemDefaults(item: ListItemNode): ListItemNode {
+    return item.control ? { ...item, checked: item.checked ?? false } : item;
+  }
 
   function applyNodeDefaults(node: DesignSpec["nodes"][number]): DesignSpec["nodes"][number] {
     if (node.type === "text") {
       // Apply text color defaults
       const color =
         node.color ??
-        (isPlaceholderText(node)
-          ? VISUAL_DEFAULTS.placeholderTextColor
-          : VISUAL_DEFAULTS.primaryTextColor);
-      return { ...node, color };
+        (isPlaceholderText(node) || node.variant === "caption"
+          ? defaults.placeholderTextColor
+          : defaults.primaryTextColor);
+      if (!node.variant) {
+        return { ...node, color };
+      }
+      // Apply variant typography defaults from the typography tokens
+      const typography = tokens.typography?.[node.variant];
+      return {
+        ...node,
+        color,
+        fontSize: node.fontSize ?? typography?.fontSize,
+        fontWeight: node.fontWeight ?? typography?.fontWeight,
+        lineHeight: node.lineHeight ?? typography?.lineHeight,
+        fontFamily: node.fontFamily ?? typography?.fontFamily,
+      };
     }
 
     if (node.type === "button") {
-      // Apply button defaults
+      // Apply button defaults for the variant and state
+      const variant = node.variant ?? "primary";
+      const style = resolveButtonStyle(tokens, variant, node.state ?? "default");
+      return {
+        ...node,
+        variant,
+        width: node.width ?? controlWidth,
+        height: node.height ?? buttonHeight,
+        background: node.background ?? style.background,
+        textColor: node.textColor ?? style.textColor,
+        borderRadius: node.borderRadius ?? defaults.buttonBorderRadius,
+        border: node.border ?? style.border,
+      };
+    }
+
+    if (node.type === "image") {
+      // Apply image placeholder defaults
+      return {
+        ...node,
+        aspectRatio: node.aspectRatio ?? defaults.imageAspectRatio,
+        fit: node.fit ?? defaults.imageFit,
+        background: node.background ?? defaults.imagePlaceholderBackground,
+      };
+    }
+
+    if (node.type === "icon") {
+      // Apply icon defaults
+      return {
+        ...node,
+        size: node.size ?? defaults.iconSize,
+        color: node.color ?? defaults.iconColor,
+      };
+    }
+
+    if (node.type === "input" || node.type === "select") {
+      // Apply input field defaults; an error message implies the error state
+      const state = node.state ?? (node.error ? "error" : "default");
+      return {
+        ...node,
+        width: node.width ?? controlWidth,
+        background:
+          node.background ??
+          (state === "disabled" ? defaults.disabledBackground : defaults.inputBackground),
+        borderRadius: node.borderRadius ?? defaults.inputBorderRadius,
+        border: node.border ?? defaults.inputBorders[state],
+      };
+    }
+
+    if (node.type === "navBar") {
+      // Apply app bar defaults
+      return {
+        ...node,
+        background: node.background ?? defaults.containerBackground,
+        color: node.color ?? defaults.primaryTextColor,
+      };
+    }
+
+    if (node.type === "tabBar") {
+      // Apply tab bar defaults: muted tabs, the selected one in the accent color
+      return {
+        ...node,
+        activeIndex: node.activeIndex ?? 0,
+        background: node.background ?? defaults.containerBackground,
+        color: node.color ?? defaults.placeholderTextColor,
+        activeColor: node.activeColor ?? defaults.controlAccentColor,
+      };
+    }
+
+    if (node.type === "list") {
+      // Lists are surfaces: background, radius and dividers between the rows
+      return {
+        ...node,
+        width: node.width ?? "fill",
+        dividers: node.dividers ?? true,
+        background: node.background ?? defaults.containerBackground,
+        borderRadius: node.borderRadius ?? defaults.containerBorderRadius,
+        items: node.items.map(applyListItemDefaults),
+      };
+    }
+
+    if (node.type === "listItem") {
+      return applyListItemDefaults(node);
+    }
+
+    if (node.type === "table") {
+      // Apply table defaults
+      return {
+        ...node,
+        width: node.width ?? "fill",
+        background: node.background ?? defaults.containerBackground,
+        borderColor: node.borderColor ?? defaults.dividerColor,
+      };
+    }
+
+    if (node.type === "divider") {
+      // Apply divider defaults
+      return {
+        ...node,
+        orientation: node.orientation ?? "horizontal",
+        color: node.color ?? defaults.dividerColor,
+        thickness: node.thickness ?? defaults.dividerThickness,
+      };
+    }
+
+    if (node.type === "checkbox" || node.type === "radio" || node.type === "toggle") {
+      // Apply selection control defaults
       return {
         ...node,
-        background: node.background ?? VISUAL_DEFAULTS.buttonBackground,
-        textColor: node.textColor ?? VISUAL_DEFAULTS.buttonTextColor,
-        borderRadius: node.borderRadius ?? VISUAL_DEFAULTS.buttonBorderRadius,
+        checked: node.checked ?? false,
+        color: node.color ?? defaults.controlAccentColor,
       };
     }
 
     if (node.type === "container") {
       const isInput = isInputContainer(node);
+      const isSurface = isInput || (!!node.role && SURFACE_ROLES.includes(node.role));
+      // Layout containers stay unstyled; only surfaces get a background, radius and cards a shadow
+      if (!isSurface) {
+        return { ...node, children: node.children.map(applyNodeDefaults) };
+      }
       // Apply container defaults
       const container: DesignSpec["nodes"][number] = {
         ...node,
-        background: node.background ?? VISUAL_DEFAULTS.containerBackground,
+        background: node.background ?? defaults.containerBackground,
         borderRadius:
-          node.borderRadius ?? (isInput ? undefined : VISUAL_DEFAULTS.containerBorderRadius),
-        border: node.border ?? (isInput ? VISUAL_DEFAULTS.inputBorder : undefined),
+          node.borderRadius ??
+          (isInput ? defaults.inputBorderRadius : defaults.containerBorderRadius),
+        ...(isInput ? {} : { shadows: node.shadows ?? [{ ...defaults.cardShadow }] }),
         children: node.children.map(applyNodeDefaults),
       };
       return container;
@@ -194,7 +716,10 @@ function applyVisualDefaults(
   }
 
   return {
+    specVersion: CURRENT_SPEC_VERSION,
     ...spec,
+    tokens,
+    components: mapComponents(spec.components, applyNodeDefaults),
     frame,
     nodes: spec.nodes.map(applyNodeDefaults),
   };
@@ -202,45 +727,29 @@ function applyVisualDefaults(
 
 const ASSISTANT_PROMPT = `The DesignSpec JSON structure:
 
-{
-  "page": "string (page name)",
-  "frame": {
-    "name": "string (frame name)",
-    "width": number (positive integer, typically 360-400 for mobile-first),
-    "height": number (positive integer, REQUIRED - 800 for mobile, 900 for tablet/desktop),
-    "layout": "vertical" | "horizontal",
-    "gap": number (non-negative integer, spacing between nodes, typically 12-16),
-    "padding": number (non-negative integer, internal padding, typically 16-24),
-    "background": "string (hex color, optional, default: "#FFFFFF" for containers)",
-    "borderRadius": number (non-negative integer, optional, default: 12 for containers)",
-    "border": { "color": "string (hex color)", "width": number } (optional, for input containers)
-  },
-  "nodes": [
-    {
-      "type": "text",
-      "content": "string",
-      "fontSize": number (optional, typically 14-20),
-      "color": "string (hex color, optional, default: "#111111" for primary, "#6B7280" for placeholder)"
-    },
-    {
-      "type": "button",
-      "label": "string",
-      "background": "string (hex color, optional, default: "#2563EB")",
-      "textColor": "string (hex color, optional, default: "#FFFFFF")",
-      "borderRadius": number (optional, default: 8)
-    },
-    {
-      "type": "container",
-      "layout": "vertical" | "horizontal",
-      "gap": number (spacing between children),
-      "padding": number (internal padding),
-      "background": "string (hex color, optional, default: "#FFFFFF")",
-      "borderRadius": number (optional, default: 12 for form/card containers)",
-      "border": { "color": "string (hex color)", "width": number } (optional, for input containers: color "#D1D5DB", width 1),
-      "children": [Node...] (array of child nodes, can be nested)
-    }
-  ]
+${describeJsonSchema(designSpecJsonSchema)}
+
+Design tokens:
+Any color (background, textColor, color, border.color), borderRadius, gap or padding may be a token reference instead of a literal, e.g. { "$token": "color.primary" }.
+Prefer token references for theme colors and radii so the design stays consistent.
+Available tokens:
+${formatTokensForPrompt(DEFAULT_TOKENS)}
+Text variants take their typography from the typography tokens.
+
+Components:
+Define repeated structures (field groups, cards, list rows) once in "components" and place them with "instance" nodes.
+Any string field of a definition whose whole value is "{{param}}" is a slot; declare every slot in "params" with a default value.
+Definitions cannot contain instances. Example:
+"components": {
+  "stat-card": {
+    "params": { "title": "Title", "value": "0" },
+    "node": { "type": "container", "layout": "vertical", "gap": 4, "padding": 16, "background": "#FFFFFF", "borderRadius": 12, "children": [
+      { "type": "text", "content": "{{title}}", "variant": "caption" },
+      { "type": "text", "content": "{{value}}", "variant": "heading" }
+    ] }
+  }
 }
+and in nodes: { "type": "instance", "component": "stat-card", "overrides": { "title": "Revenue", "value": "$12,400" } }
 
 Example for a login form (centered layout with proper rhythm):
 {
@@ -257,77 +766,67 @@ Example for a login form (centered layout with proper rhythm):
   "nodes": [
     {
       "type": "container",
+      "role": "section",
       "layout": "vertical",
       "gap": 0,
       "padding": 24,
-      "background": "#F9FAFB",
+      "width": "fill",
+      "counterAxisAlign": "center",
       "children": [
         {
           "type": "container",
+          "id": "login-card",
+          "role": "form-card",
           "layout": "vertical",
           "gap": 32,
           "padding": 24,
           "background": "#FFFFFF",
           "borderRadius": 12,
+          "width": "fill",
           "children": [
-            { "type": "text", "content": "Login", "fontSize": 24, "color": "#111111" },
+            { "type": "text", "role": "title", "content": "Login", "variant": "heading", "fontSize": 24, "fontWeight": 600, "color": "#111111" },
             {
               "type": "container",
+              "role": "field-group",
               "layout": "vertical",
               "gap": 20,
               "padding": 0,
+              "width": "fill",
               "children": [
                 {
-                  "type": "container",
-                  "layout": "vertical",
-                  "gap": 8,
-                  "padding": 0,
-                  "children": [
-                    { "type": "text", "content": "Email", "fontSize": 14, "color": "#111111" },
-                    {
-                      "type": "container",
-                      "layout": "vertical",
-                      "gap": 0,
-                      "padding": 12,
-                      "background": "#FFFFFF",
-                      "border": { "color": "#D1D5DB", "width": 1 },
-                      "borderRadius": 8,
-                      "children": [
-                        { "type": "text", "content": "Enter your email", "fontSize": 14, "color": "#6B7280" }
-                      ]
-                    }
-                  ]
+                  "type": "input",
+                  "id": "email-input",
+                  "label": "Email",
+                  "placeholder": "Enter your email",
+                  "inputType": "email",
+                  "width": "fill",
+                  "background": "#FFFFFF",
+                  "border": { "color": "#D1D5DB", "width": 1 },
+                  "borderRadius": 8
                 },
                 {
-                  "type": "container",
-                  "layout": "vertical",
-                  "gap": 8,
-                  "padding": 0,
-                  "children": [
-                    { "type": "text", "content": "Password", "fontSize": 14, "color": "#111111" },
-                    {
-                      "type": "container",
-                      "layout": "vertical",
-                      "gap": 0,
-                      "padding": 12,
-                      "background": "#FFFFFF",
-                      "border": { "color": "#D1D5DB", "width": 1 },
-                      "borderRadius": 8,
-                      "children": [
-                        { "type": "text", "content": "Enter password", "fontSize": 14, "color": "#6B7280" }
-                      ]
-                    }
-                  ]
-                }
+                  "type": "input",
+                  "id": "password-input",
+                  "label": "Password",
+                  "placeholder": "Enter password",
+                  "inputType": "password",
+                  "width": "fill",
+                  "background": "#FFFFFF",
+                  "border": { "color": "#D1D5DB", "width": 1 },
+                  "borderRadius": 8
+                },
+                { "type": "checkbox", "label": "Remember me", "checked": false, "color": "#2563EB" }
               ]
             },
             {
               "type": "container",
+              "role": "actions",
               "layout": "vertical",
               "gap": 0,
               "padding": 0,
+              "width": "fill",
               "children": [
-                { "type": "button", "label": "Sign In", "background": "#2563EB", "textColor": "#FFFFFF", "borderRadius": 8 }
+                { "type": "button", "id": "sign-in-button", "role": "primary-action", "label": "Sign In", "background": { "$token": "color.primary" }, "textColor": { "$token": "color.on-primary" }, "borderRadius": { "$token": "radius.md" }, "width": "fill" }
               ]
             }
           ]
@@ -338,334 +837,1100 @@ Example for a login form (centered layout with proper rhythm):
 }
 
 Note: This example shows:
-- Root frame with light background (#F9FAFB)
-- Centered form card (white background, rounded corners)
-- Title with larger fontSize (24) and spacing (32px gap after title)
-- Field group with consistent rhythm (label→input gap: 8px, between fields: 20px)
+- Root frame with light background (#F9FAFB); the centering wrapper stays unstyled
+- Centered form card (role "form-card", white background, rounded corners)
+- Title with the heading variant, larger fontSize (24), fontWeight 600 and spacing (32px gap after title)
+- Field group with consistent rhythm (between fields: 20px)
+- Inputs use the "input" node type with label and placeholder, not bordered containers with text
 - Actions container separated from fields (32px gap before actions)
-- Inputs fill the form width
-- Button in separate actions container`;
+- Form card, field group, inputs, actions container and button fill the available width ("width": "fill")
+- Button in separate actions container, styled with token references
+- Roles mark the title, form card, field group and actions; ids name the fields and the button`;
 
-export async function generateDesignSpec(
-  request: PromptRequest,
-  dryRun: boolean,
-): Promise<DesignSpec> {
-  const context = getTracingContext();
-  if (!context) {
-    throw new Error("Tracing context not found");
-  }
+const FLOW_ASSISTANT_PROMPT = `For multi-screen flows, output a FlowSpec instead of a single DesignSpec.
 
-  // Create span for generation
-  const generationSpan = createChildSpan(context);
-  const log = getContextLogger().child({ spanId: generationSpan.spanId });
+The FlowSpec JSON structure (Frame and Node as defined for the DesignSpec):
 
-  const generationContext = request.generationContext ?? DEFAULT_GENERATION_CONTEXT;
-  const promptLength = request.prompt.length;
-  const promptHash = computeHash(request.prompt);
+${describeJsonSchema(flowSpecJsonSchema, { definitions: false })}
 
-  log.info(
+Example for "signup, then verify email":
+{
+  "page": "Signup flow",
+  "screens": [
     {
-      event: "designspec.generation.start",
-      spanId: generationSpan.spanId,
-      prompt_length_chars: promptLength,
-      prompt_hash: promptHash,
-      generationContext,
-      dryRun,
+      "id": "signup",
+      "frame": { "name": "Sign up", "width": 400, "height": 800, "layout": "vertical", "gap": 24, "padding": 24, "background": "#F9FAFB" },
+      "nodes": [
+        { "type": "text", "role": "title", "content": "Create account", "variant": "heading", "fontSize": 24, "fontWeight": 600 },
+        { "type": "input", "label": "Email", "placeholder": "Enter your email", "inputType": "email", "width": "fill" },
+        { "type": "button", "id": "signup-submit", "label": "Continue", "width": "fill" }
+      ]
     },
-    "Generating DesignSpec",
-  );
+    {
+      "id": "verify-email",
+      "frame": { "name": "Verify email", "width": 400, "height": 800, "layout": "vertical", "gap": 24, "padding": 24, "background": "#F9FAFB" },
+      "nodes": [
+        { "type": "text", "role": "title", "content": "Check your inbox", "variant": "heading", "fontSize": 24, "fontWeight": 600 },
+        { "type": "text", "content": "We sent a verification link to your email", "variant": "body" }
+      ]
+    }
+  ],
+  "edges": [{ "from": "signup", "trigger": "signup-submit", "to": "verify-email" }]
+}`;
 
-  if (dryRun) {
-    log.info({ spanId: generationSpan.spanId }, "Dry run mode - returning mock spec");
-    const mockSpec: DesignSpec = {
-      page: "Mock Page",
-      frame: {
-        name: "Mock Frame",
-        width: 400,
-        height: 800,
-        layout: "vertical",
-        gap: 16,
-        padding: 24,
-        background: "#FFFFFF",
-        borderRadius: 12,
-      },
-      nodes: [
-        { type: "text", content: "Mock content", fontSize: 16, color: "#111111" },
-        {
-          type: "container",
-          layout: "vertical",
-          gap: 12,
-          padding: 16,
-          background: "#FFFFFF",
-          borderRadius: 12,
-          children: [{ type: "text", content: "Nested text", fontSize: 14, color: "#111111" }],
-        },
-        {
-          type: "button",
-          label: "Mock Button",
-          background: "#2563EB",
-          textColor: "#FFFFFF",
-          borderRadius: 8,
-        },
-      ],
-    };
-    const finalMockSpec = applyVisualDefaults(mockSpec, generationContext.targetLayout);
-    const specHash = computeObjectHash(finalMockSpec);
-    const analysis = analyzeSpec(finalMockSpec);
+const DESIGN_SPEC_RESPONSE: ResponseSchema = { name: "DesignSpec", schema: designSpecJsonSchema };
 
-    log.info(
-      {
-        event: "designspec.generation.success",
-        spanId: generationSpan.spanId,
-        spec_hash: specHash,
-        spec_length_chars: JSON.stringify(finalMockSpec).length,
-        ...analysis,
-        dryRun: true,
-      },
-      "DesignSpec generated successfully (dry run)",
-    );
+const FLOW_SPEC_RESPONSE: ResponseSchema = { name: "FlowSpec", schema: flowSpecJsonSchema };
 
-    return finalMockSpec;
-  }
+/**
+ * Result of a model request for a JSON document, with metrics for logging and budget alerts
+ */
+interface ModelJsonResult {
+  content: string;
+  model: string;
+  durationMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  retryCount: number;
+  openaiRequestId: string | null;
+  finalPromptHash: string;
+  totalPromptLength: number;
+}
 
-  try {
-    const systemPrompt = buildSystemPrompt(generationContext, request.prompt);
-    const model = "gpt-5-nano";
+/**
+ * Token usage, model and duration of the model request behind a generated spec
+ */
+export interface GenerationUsage {
+  tokens: { prompt: number; completion: number; total: number };
+  model: string;
+  durationMs: number;
+}
 
-    // Compute final prompt hash (system + assistant + user)
-    const finalPrompt = [systemPrompt, ASSISTANT_PROMPT, request.prompt].join("\n");
-    const finalPromptHash = computeHash(finalPrompt);
+/**
+ * A generated spec with its lint findings, structure metrics and model usage
+ */
+export interface GenerationResult<T, A> {
+  spec: T;
+  warnings: LintFinding[];
+  analysis: A;
+  usage: GenerationUsage;
+}
 
-    // Some models (like gpt-5-nano) don't support custom temperature values
-    // Only include temperature if the model supports it
-    const modelsWithoutTemperature = ["gpt-5-nano"];
-    const modelSupportsTemperature = !modelsWithoutTemperature.includes(model);
+export type GenerationStage = "requesting" | "repairing" | "linting";
 
-    const baseRequestOptions = {
-      model,
-      messages: [
-        { role: "system" as const, content: systemPrompt },
-        { role: "assistant" as const, content: ASSISTANT_PROMPT },
-        { role: "user" as const, content: request.prompt },
-      ],
-      response_format: { type: "json_object" as const },
-    };
+/**
+ * Reported while a spec is generated: each model request (round 0, then correction
+ * rounds), the lint step, and the top-level nodes of the response so far
+ */
+export type GenerationEvent =
+  | { type: "progress"; stage: GenerationStage; round?: number }
+  | { type: "partial"; round: number; nodes: Node[] };
 
-    // Only add temperature if model supports it
-    const requestOptions = modelSupportsTemperature
-      ? { ...baseRequestOptions, temperature: 0.3 }
-      : baseRequestOptions;
+export interface GenerationOptions {
+  /**
+   * Streams the model response and reports its progress
+   */
+  onEvent?: (event: GenerationEvent) => void;
+  /**
+   * Cancels the model request
+   */
+  signal?: AbortSignal;
+}
 
-    // Calculate request characteristics for logging
-    const messages = requestOptions.messages;
-    const totalPromptLength = messages.reduce(
-      (sum, msg) => sum + (typeof msg.content === "string" ? msg.content.length : 0),
-      0,
-    );
-    const requestStartTime = Date.now();
+/**
+ * Streaming callbacks and cancellation for the model requests of one generation
+ */
+interface ModelRequestOptions extends CompletionOptions {
+  /**
+   * Called before each model request with its round, 0 for the first request
+   */
+  onRound?: (round: number) => void;
+}
 
-    // Create span for OpenAI request
-    const openaiSpan = createChildSpan(generationSpan);
-    const openaiLog = log.child({ spanId: openaiSpan.spanId });
+/**
+ * Reports each model request of a DesignSpec generation and the nodes of its response
+ */
+function streamDesignSpec({ onEvent, signal }: GenerationOptions): ModelRequestOptions {
+  if (!onEvent) {
+    return { signal };
+  }
+  let onContent: (content: string) => void = () => {};
+  return {
+    signal,
+    onRound: (round) => {
+      onEvent({ type: "progress", stage: round === 0 ? "requesting" : "repairing", round });
+      onContent = createNodeStream((nodes) => onEvent({ type: "partial", round, nodes }));
+    },
+    onContent: (content) => onContent(content),
+  };
+}
 
-    // Make request with retry logic
-    const retryResult = await makeOpenAIRequestWithRetry(openai, requestOptions);
-    const requestEndTime = Date.now();
-    const durationMs = requestEndTime - requestStartTime;
+/**
+ * Dry runs make no model request
+ */
+const DRY_RUN_USAGE: GenerationUsage = {
+  tokens: { prompt: 0, completion: 0, total: 0 },
+  model: "dry-run",
+  durationMs: 0,
+};
 
-    if (retryResult.outcome !== "success" || !retryResult.completion) {
-      openaiLog.error(
-        {
-          event: "openai.request",
-          spanId: openaiSpan.spanId,
-          model: requestOptions.model,
-          duration_ms: durationMs,
-          retry_count: retryResult.retryCount,
-          outcome: retryResult.outcome,
-          openai_request_id: retryResult.openaiRequestId,
-          prompt_hash: finalPromptHash,
-          prompt_length_chars: totalPromptLength,
-        },
-        "OpenAI request failed",
-      );
-      throw new Error(`OpenAI request failed: ${retryResult.outcome}`);
-    }
+function toGenerationUsage(result: ModelJsonResult): GenerationUsage {
+  return {
+    tokens: {
+      prompt: result.promptTokens,
+      completion: result.completionTokens,
+      total: result.totalTokens,
+    },
+    model: result.model,
+    durationMs: result.durationMs,
+  };
+}
+
+/**
+ * Rough token estimate for English prompts, used against context windows
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Sends the messages to the model through the configured provider and returns the
+ * response content.
+ * The request is logged under its own child span of the generation span.
+ */
+async function requestModelJson(
+  model: string,
+  messages: ChatMessage[],
+  responseSchema: ResponseSchema,
+  generationSpan: TracingContext,
+  log: pino.Logger,
+  options: CompletionOptions = {},
+): Promise<ModelJsonResult> {
+  const provider = getLlmProvider();
+  const capabilities = getModelCapabilities(model);
 
-    const completion = retryResult.completion;
+  // Compute final prompt hash (system + assistant + user, plus any correction round)
+  const finalPrompt = messages.map((message) => message.content).join("\n");
+  const finalPromptHash = computeHash(finalPrompt);
+
+  const requestOptions = {
+    model,
+    messages,
+    responseSchema,
+    structuredOutput: capabilities.jsonSchema,
+    // Only include temperature if the model supports it
+    ...(capabilities.temperature && { temperature: 0.3 }),
+  };
 
-    // Extract token usage from response
-    const usage = completion.usage;
-    const promptTokens = usage?.prompt_tokens ?? 0;
-    const completionTokens = usage?.completion_tokens ?? 0;
-    const totalTokens = usage?.total_tokens ?? 0;
+  // Calculate request characteristics for logging
+  const totalPromptLength = messages.reduce((sum, message) => sum + message.content.length, 0);
+  const requestStartTime = Date.now();
 
-    // Log successful request
-    openaiLog.info(
+  // Create span for OpenAI request
+  const openaiSpan = createChildSpan(generationSpan);
+  const openaiLog = log.child({ spanId: openaiSpan.spanId });
+
+  // A prompt longer than the context window would be cut off, or rejected, by the backend
+  const estimatedPromptTokens = Math.ceil(totalPromptLength / CHARS_PER_TOKEN);
+  if (capabilities.contextTokens && estimatedPromptTokens > capabilities.contextTokens) {
+    openaiLog.error(
+      {
+        event: "openai.request.context_exceeded",
+        spanId: openaiSpan.spanId,
+        provider: provider.name,
+        model,
+        estimated_prompt_tokens: estimatedPromptTokens,
+        context_tokens: capabilities.contextTokens,
+      },
+      "Prompt exceeds the model context window",
+    );
+    throw new Error(
+      `Prompt of about ${estimatedPromptTokens} tokens exceeds the ${capabilities.contextTokens}-token context window of ${model}`,
+    );
+  }
+
+  // Make request with retry logic
+  const retryResult = await makeOpenAIRequestWithRetry(provider, requestOptions, options);
+  const requestEndTime = Date.now();
+  const durationMs = requestEndTime - requestStartTime;
+
+  if (retryResult.outcome !== "success") {
+    openaiLog.error(
       {
         event: "openai.request",
         spanId: openaiSpan.spanId,
+        provider: provider.name,
         model: requestOptions.model,
         duration_ms: durationMs,
         retry_count: retryResult.retryCount,
         outcome: retryResult.outcome,
+        error: retryResult.errorMessage,
         openai_request_id: retryResult.openaiRequestId,
-        prompt_tokens: promptTokens,
-        completion_tokens: completionTokens,
-        total_tokens: totalTokens,
         prompt_hash: finalPromptHash,
         prompt_length_chars: totalPromptLength,
       },
-      "OpenAI request completed",
+      "OpenAI request failed",
     );
+    throw new Error(`OpenAI request failed: ${retryResult.outcome}`);
+  }
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      openaiLog.error(
-        {
-          event: "openai.response.empty",
-          spanId: openaiSpan.spanId,
-          model: requestOptions.model,
-          duration_ms: durationMs,
-        },
-        "Empty response from OpenAI",
-      );
-      throw new Error("Empty response from OpenAI");
-    }
+  const { content, usage } = retryResult.response;
+  const { promptTokens, completionTokens, totalTokens } = usage;
 
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(content);
-    } catch (error) {
-      openaiLog.error(
-        {
-          event: "openai.response.parse_error",
-          spanId: openaiSpan.spanId,
-          error_message: error instanceof Error ? error.message : String(error),
-          response_length_chars: content.length,
-        },
-        "Failed to parse JSON from OpenAI",
-      );
-      throw new Error("Invalid JSON response from OpenAI");
+  // Log successful request
+  openaiLog.info(
+    {
+      event: "openai.request",
+      spanId: openaiSpan.spanId,
+      provider: provider.name,
+      model: requestOptions.model,
+      duration_ms: durationMs,
+      retry_count: retryResult.retryCount,
+      outcome: retryResult.outcome,
+      openai_request_id: retryResult.openaiRequestId,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: totalTokens,
+      prompt_hash: finalPromptHash,
+      prompt_length_chars: totalPromptLength,
+    },
+    "OpenAI request completed",
+  );
+
+  if (!content) {
+    openaiLog.error(
+      {
+        event: "openai.response.empty",
+        spanId: openaiSpan.spanId,
+        model: requestOptions.model,
+        duration_ms: durationMs,
+      },
+      "Empty response from OpenAI",
+    );
+    throw new Error("Empty response from OpenAI");
+  }
+
+  return {
+    content,
+    model: requestOptions.model,
+    durationMs,
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    retryCount: retryResult.retryCount,
+    openaiRequestId: retryResult.openaiRequestId,
+    finalPromptHash,
+    totalPromptLength,
+  };
+}
+
+/**
+ * Adds up the usage of the requests made for one spec; prompt hash and length stay those of
+ * the first request
+ */
+function addModelUsage(total: ModelJsonResult, next: ModelJsonResult): ModelJsonResult {
+  return {
+    ...total,
+    content: next.content,
+    model: next.model,
+    durationMs: total.durationMs + next.durationMs,
+    promptTokens: total.promptTokens + next.promptTokens,
+    completionTokens: total.completionTokens + next.completionTokens,
+    totalTokens: total.totalTokens + next.totalTokens,
+    retryCount: total.retryCount + next.retryCount,
+    openaiRequestId: next.openaiRequestId,
+  };
+}
+
+/**
+ * Writes validation issues for the model, one per line with the path
+ */
+function formatIssues(issues: ZodIssue[]): string {
+  return issues
+    .map(
+      (issue) => `- ${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`,
+    )
+    .join("\n");
+}
+
+/**
+ * Requests a spec from the model and validates it, repairing invalid responses. Local fixes
+ * (code fences, truncated JSON, numeric strings, unknown node types) run first; if the
+ * response is still invalid, the errors are sent back to the model for up to
+ * SPEC_REPAIR_MAX_ROUNDS correction rounds. Each repair attempt is logged under its own span.
+ */
+async function requestValidSpec<T>(
+  model: string,
+  messages: ChatMessage[],
+  responseSchema: ResponseSchema,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  generationSpan: TracingContext,
+  log: pino.Logger,
+  { onRound, ...completionOptions }: ModelRequestOptions = {},
+): Promise<{ data: T; result: ModelJsonResult }> {
+  const maxRounds = getEnv().SPEC_REPAIR_MAX_ROUNDS;
+  const specType = responseSchema.name;
+  const event = `${specType.toLowerCase()}.repair`;
+  let conversation = messages;
+  let total: ModelJsonResult | undefined;
+
+  for (let round = 0; ; round++) {
+    onRound?.(round);
+    const result = await requestModelJson(
+      model,
+      conversation,
+      responseSchema,
+      generationSpan,
+      log,
+      completionOptions,
+    );
+    total = total ? addModelUsage(total, result) : result;
+
+    const parsed = parseModelJson(result.content);
+    const repaired =
+      parsed &&
+      repairParsedSpec(parsed.value, (value) => schema.safeParse(withDefaultTokens(value)));
+    const validation = repaired?.result;
+    const fixes = [...(parsed?.fixes ?? []), ...(repaired?.fixes ?? [])];
+
+    const repairSpan = createChildSpan(generationSpan);
+    const repairLog = log.child({ spanId: repairSpan.spanId });
+    const attempt = { event, spanId: repairSpan.spanId, round, fixes };
+
+    if (validation?.success) {
+      if (round > 0 || fixes.length > 0) {
+        repairLog.info({ ...attempt, outcome: "repaired" }, `${specType} repaired`);
+      }
+      return { data: validation.data, result: total };
     }
 
-    const validationResult = designSpecSchema.safeParse(parsed);
-    if (!validationResult.success) {
+    const canRetry = round < maxRounds;
+    const errors = validation
+      ? formatIssues(validation.error.issues)
+      : "- (root): The response is not valid JSON.";
+    repairLog.warn(
+      {
+        ...attempt,
+        outcome: canRetry ? "retry" : "failed",
+        error_count: validation ? validation.error.issues.length : 1,
+      },
+      `${specType} repair attempt failed`,
+    );
+
+    if (!canRetry) {
+      if (!validation) {
+        log.error(
+          {
+            event: "openai.response.parse_error",
+            spanId: generationSpan.spanId,
+            response_length_chars: result.content.length,
+          },
+          "Failed to parse JSON from OpenAI",
+        );
+        throw new Error("Invalid JSON response from OpenAI");
+      }
+      const { error } = validation;
       log.error(
         {
-          event: "designspec.validation_error",
+          event: `${specType.toLowerCase()}.validation_error`,
           spanId: generationSpan.spanId,
-          error_count: validationResult.error.errors.length,
-          errors: validationResult.error.errors,
+          error_count: error.errors.length,
+          errors: error.errors,
         },
-        "DesignSpec validation failed",
+        `${specType} validation failed`,
       );
-      throw new Error(`Invalid DesignSpec: ${validationResult.error.message}`);
+      throw new Error(`Invalid ${specType}: ${error.message}`);
     }
 
-    // Ensure all text nodes have non-empty content to prevent Auto Layout collapse
-    let fixedSpec = ensureNonEmptyTextContent(validationResult.data);
+    // Correction rounds continue the original conversation with the last response and its errors
+    conversation = [
+      ...messages,
+      { role: "assistant", content: result.content },
+      {
+        role: "user",
+        content: `That is not a valid ${specType}:\n${errors}\nReturn the complete corrected ${specType} JSON.`,
+      },
+    ];
+  }
+}
 
-    // Apply visual defaults to ensure wireframe-level presentation
-    fixedSpec = applyVisualDefaults(fixedSpec, generationContext.targetLayout);
+/**
+ * Fixes empty text content, fills in node ids and roles and applies visual defaults
+ */
+function postProcessSpec(spec: DesignSpec, generationContext: GenerationContext): DesignSpec {
+  // Ensure all text nodes have non-empty content to prevent Auto Layout collapse
+  const textSpec = ensureNonEmptyTextContent(spec);
 
-    // Compute spec hash
-    const specHash = computeObjectHash(fixedSpec);
-    const specLength = JSON.stringify(fixedSpec).length;
+  // Give every node an id and infer missing roles before role-based defaults apply
+  const tokens = mergeTokens(DEFAULT_TOKENS, textSpec.tokens);
+  const assignIdentity = createIdentityAssigner(
+    [textSpec.nodes, ...(textSpec.frame.overlays ?? []).map((overlay) => overlay.nodes)],
+    tokens,
+  );
+  const nodes = textSpec.nodes.map(assignIdentity);
+  const fixedSpec: DesignSpec = {
+    ...textSpec,
+    components: mapComponents(textSpec.components, (node) =>
+      createIdentityAssigner([[node]], tokens)(node),
+    ),
+    frame: mapOverlays(textSpec.frame, assignIdentity),
+    nodes,
+  };
 
-    // Analyze spec structure
-    const analysis = analyzeSpec(fixedSpec);
+  // Apply visual defaults to ensure wireframe-level presentation
+  return applyVisualDefaults(fixedSpec, generationContext.targetLayout);
+}
 
-    // Validate visual usage (layout vs surface containers)
-    const visualWarnings = validateVisualUsage(fixedSpec);
-    const warningsAggregated = aggregateWarnings(visualWarnings);
+/**
+ * Lint options for a request; `snapToScale` turns on the scale rule's fixer
+ */
+function buildLintOptions(generationContext: GenerationContext): LintOptions {
+  return {
+    config: LINT_CONFIG,
+    context: { targetLayout: generationContext.targetLayout, scale: SCALE },
+    fix: generationContext.snapToScale ? ["scale"] : [],
+  };
+}
 
-    // Create validation span
-    const validationSpan = createChildSpan(generationSpan);
-    const validationLog = log.child({ spanId: validationSpan.spanId });
+/**
+ * Logs lint findings under a validation span
+ */
+function logValidationWarnings(
+  lintResult: LintResult<unknown>,
+  generationSpan: TracingContext,
+  log: pino.Logger,
+): AggregatedWarnings {
+  const warnings = lintResult.findings;
+  const warningsAggregated = aggregateWarnings(warnings);
+  const repaired = lintResult.repaired.length > 0 ? { repaired_rules: lintResult.repaired } : {};
 
-    if (visualWarnings.length > 0) {
-      const env = getEnv();
-      if (env.LOG_DEBUG_PAYLOADS) {
-        // Log detailed warnings in debug mode
-        validationLog.warn(
-          {
-            event: "designspec.validation",
-            spanId: validationSpan.spanId,
-            warnings: visualWarnings,
-            ...warningsAggregated,
-          },
-          "Visual styling detected on layout containers",
-        );
-      } else {
-        // Log only aggregated warnings in production
-        validationLog.warn(
-          {
-            event: "designspec.validation",
-            spanId: validationSpan.spanId,
-            ...warningsAggregated,
-          },
-          "Visual styling detected on layout containers",
-        );
-      }
+  // Create validation span
+  const validationSpan = createChildSpan(generationSpan);
+  const validationLog = log.child({ spanId: validationSpan.spanId });
+
+  if (warnings.length > 0) {
+    const env = getEnv();
+    if (env.LOG_DEBUG_PAYLOADS) {
+      // Log detailed warnings in debug mode
+      validationLog.warn(
+        {
+          event: "designspec.validation",
+          spanId: validationSpan.spanId,
+          warnings,
+          ...warningsAggregated,
+          ...repaired,
+        },
+        "DesignSpec validation warnings",
+      );
     } else {
-      validationLog.info(
+      // Log only aggregated warnings in production
+      validationLog.warn(
         {
           event: "designspec.validation",
           spanId: validationSpan.spanId,
           ...warningsAggregated,
+          ...repaired,
         },
-        "DesignSpec validation passed",
+        "DesignSpec validation warnings",
       );
     }
+  } else {
+    validationLog.info(
+      {
+        event: "designspec.validation",
+        spanId: validationSpan.spanId,
+        ...warningsAggregated,
+        ...repaired,
+      },
+      "DesignSpec validation passed",
+    );
+  }
+
+  return warningsAggregated;
+}
+
+/**
+ * Fails generation when lint findings with severity "error" are left after the repair
+ */
+function assertNoLintErrors(lintResult: LintResult<unknown>, specType: string): void {
+  const errors = lintErrors(lintResult.findings);
+  if (errors.length > 0) {
+    const details = errors.map((error) => `${error.path} (${error.ruleId}): ${error.message}`);
+    throw new Error(`${specType} failed lint: ${details.join(" ")}`);
+  }
+}
+
+/**
+ * Builds the success log payload shared by single-screen and flow generation
+ */
+function buildSuccessLogData(
+  generationSpan: TracingContext,
+  result: ModelJsonResult,
+  specHash: string,
+  specLength: number,
+  metrics: Record<string, unknown>,
+): Record<string, unknown> {
+  return {
+    event: "designspec.generation.success",
+    spanId: generationSpan.spanId,
+    spec_hash: specHash,
+    spec_length_chars: specLength,
+    prompt_hash: result.finalPromptHash,
+    prompt_length_chars: result.totalPromptLength,
+    ...metrics,
+    openai_request_id: result.openaiRequestId,
+    model: result.model,
+    duration_ms: result.durationMs,
+    prompt_tokens: result.promptTokens,
+    completion_tokens: result.completionTokens,
+    total_tokens: result.totalTokens,
+    retry_count: result.retryCount,
+  };
+}
+
+const MOCK_SPEC: DesignSpec = {
+  page: "Mock Page",
+  frame: {
+    name: "Mock Frame",
+    width: 400,
+    height: 800,
+    layout: "vertical",
+    gap: 16,
+    padding: 24,
+    background: "#FFFFFF",
+    borderRadius: 12,
+  },
+  nodes: [
+    { type: "text", content: "Mock content", fontSize: 16, color: "#111111" },
+    {
+      type: "container",
+      layout: "vertical",
+      gap: 12,
+      padding: 16,
+      background: "#FFFFFF",
+      borderRadius: 12,
+      children: [{ type: "text", content: "Nested text", fontSize: 14, color: "#111111" }],
+    },
+    {
+      type: "button",
+      label: "Mock Button",
+      background: "#2563EB",
+      textColor: "#FFFFFF",
+      borderRadius: 8,
+    },
+  ],
+};
+
+const MOCK_FLOW_SPEC: FlowSpec = {
+  page: "Mock Flow",
+  screens: [
+    {
+      id: "mock-start",
+      frame: { ...MOCK_SPEC.frame, name: "Mock Start" },
+      nodes: [
+        { type: "text", content: "Mock start", fontSize: 16, color: "#111111" },
+        { type: "button", id: "mock-next", label: "Next" },
+      ],
+    },
+    {
+      id: "mock-end",
+      frame: { ...MOCK_SPEC.frame, name: "Mock End" },
+      nodes: [{ type: "text", content: "Mock end", fontSize: 16, color: "#111111" }],
+    },
+  ],
+  edges: [{ from: "mock-start", trigger: "mock-next", to: "mock-end" }],
+};
+
+/**
+ * Post-processes and lints a validated model DesignSpec, then logs it with its metrics and
+ * checks the budget alerts. Refinements are logged as `designspec.refine.success`.
+ */
+function completeDesignSpec(
+  data: DesignSpec,
+  result: ModelJsonResult,
+  generationContext: GenerationContext,
+  generationSpan: TracingContext,
+  log: pino.Logger,
+  refine = false,
+): GenerationResult<DesignSpec, SpecAnalysis> {
+  const lintResult = lintDesignSpec(
+    postProcessSpec(data, generationContext),
+    buildLintOptions(generationContext),
+  );
+  const fixedSpec = lintResult.spec;
+
+  // Compute spec hash
+  const specHash = computeObjectHash(fixedSpec);
+  const specLength = JSON.stringify(fixedSpec).length;
+
+  // Analyze spec structure
+  const analysis = analyzeSpec(fixedSpec);
+
+  // Log lint findings (visual usage, accessibility, scale) and fail on errors
+  const warningsAggregated = logValidationWarnings(lintResult, generationSpan, log);
+  assertNoLintErrors(lintResult, "DesignSpec");
+
+  // Check budget alerts
+  checkBudgetAlerts({
+    total_tokens: result.totalTokens,
+    prompt_tokens: result.promptTokens,
+    completion_tokens: result.completionTokens,
+    duration_ms: result.durationMs,
+    model: result.model,
+    prompt_hash: result.finalPromptHash,
+    spec_hash: specHash,
+  });
+
+  // Log success with all metrics
+  const env = getEnv();
+  const successLogData = buildSuccessLogData(generationSpan, result, specHash, specLength, {
+    ...analysis,
+    ...warningsAggregated,
+  });
+  if (refine) {
+    successLogData.event = "designspec.refine.success";
+  }
+
+  // Include full spec only in debug mode
+  if (env.LOG_DEBUG_PAYLOADS) {
+    successLogData.spec = fixedSpec;
+  }
+
+  log.info(
+    successLogData,
+    refine ? "DesignSpec refined successfully" : "DesignSpec generated successfully",
+  );
+
+  return {
+    spec: fixedSpec,
+    warnings: lintResult.findings,
+    analysis,
+    usage: toGenerationUsage(result),
+  };
+}
+
+export async function generateDesignSpec(
+  request: PromptRequest,
+  dryRun: boolean,
+  options: GenerationOptions = {},
+): Promise<GenerationResult<DesignSpec, SpecAnalysis>> {
+  const context = getTracingContext();
+  if (!context) {
+    throw new Error("Tracing context not found");
+  }
+
+  // Create span for generation
+  const generationSpan = createChildSpan(context);
+  const log = getContextLogger().child({ spanId: generationSpan.spanId });
+
+  const generationContext = request.generationContext ?? DEFAULT_GENERATION_CONTEXT;
+  const promptLength = request.prompt.length;
+  const promptHash = computeHash(request.prompt);
+
+  log.info(
+    {
+      event: "designspec.generation.start",
+      spanId: generationSpan.spanId,
+      prompt_length_chars: promptLength,
+      prompt_hash: promptHash,
+      generationContext,
+      dryRun,
+    },
+    "Generating DesignSpec",
+  );
+
+  if (dryRun) {
+    log.info({ spanId: generationSpan.spanId }, "Dry run mode - returning mock spec");
+    const finalMockSpec = applyVisualDefaults(MOCK_SPEC, generationContext.targetLayout);
+    options.onEvent?.({ type: "partial", round: 0, nodes: finalMockSpec.nodes });
+    const specHash = computeObjectHash(finalMockSpec);
+    const analysis = analyzeSpec(finalMockSpec);
+
+    log.info(
+      {
+        event: "designspec.generation.success",
+        spanId: generationSpan.spanId,
+        spec_hash: specHash,
+        spec_length_chars: JSON.stringify(finalMockSpec).length,
+        ...analysis,
+        dryRun: true,
+      },
+      "DesignSpec generated successfully (dry run)",
+    );
+
+    return {
+      spec: finalMockSpec,
+      warnings: lintDesignSpec(finalMockSpec, buildLintOptions(generationContext)).findings,
+      analysis,
+      usage: DRY_RUN_USAGE,
+    };
+  }
+
+  try {
+    const systemPrompt = buildSystemPrompt(generationContext, request.prompt);
+    const { data, result } = await requestValidSpec(
+      selectModel(request),
+      [
+        { role: "system", content: systemPrompt },
+        { role: "assistant", content: ASSISTANT_PROMPT },
+        { role: "user", content: request.prompt },
+      ],
+      DESIGN_SPEC_RESPONSE,
+      designSpecSchema,
+      generationSpan,
+      log,
+      streamDesignSpec(options),
+    );
+
+    options.onEvent?.({ type: "progress", stage: "linting" });
+    return completeDesignSpec(data, result, generationContext, generationSpan, log);
+  } catch (error) {
+    log.error(
+      {
+        event: "designspec.generation.fail",
+        spanId: generationSpan.spanId,
+        error_message: error instanceof Error ? error.message : String(error),
+        error_type: error instanceof Error ? error.constructor.name : "UnknownError",
+      },
+      "Error generating DesignSpec",
+    );
+    throw error;
+  }
+}
+
+/**
+ * A generated spec with its score and its place among the candidates of a request
+ */
+export interface RankedCandidate extends GenerationResult<DesignSpec, SpecAnalysis> {
+  rank: number;
+  score: CandidateScore;
+}
+
+export interface CandidatesResult {
+  /**
+   * Best first
+   */
+  candidates: RankedCandidate[];
+  /**
+   * Tokens summed over the candidates; the duration is the time until all of them were done
+   */
+  usage: GenerationUsage;
+}
+
+/**
+ * Generates `request.candidates` DesignSpecs in parallel and ranks them by their score
+ * (see spec-rules/scoring.json). Candidates that fail are left out; the request fails only
+ * when every candidate does.
+ */
+export async function generateDesignSpecCandidates(
+  request: PromptRequest,
+  dryRun: boolean,
+): Promise<CandidatesResult> {
+  const log = getContextLogger();
+  const count = request.candidates ?? 1;
+  const startedAt = Date.now();
+
+  const settled = await Promise.allSettled(
+    Array.from({ length: count }, () => generateDesignSpec(request, dryRun)),
+  );
+  const generated = settled.flatMap((outcome) =>
+    outcome.status === "fulfilled" ? [outcome.value] : [],
+  );
+  if (generated.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  const candidates = generated
+    .map((result) => ({
+      ...result,
+      score: scoreCandidate(result.warnings, result.analysis, SCORING),
+    }))
+    .sort((a, b) => b.score.total - a.score.total)
+    .map((candidate, index) => ({ rank: index + 1, ...candidate }));
+
+  log.info(
+    {
+      event: "designspec.candidates",
+      candidates_requested: count,
+      candidates_generated: generated.length,
+      scores: candidates.map((candidate) => candidate.score.total),
+    },
+    "DesignSpec candidates ranked",
+  );
+
+  const tokens = { prompt: 0, completion: 0, total: 0 };
+  for (const { usage } of generated) {
+    tokens.prompt += usage.tokens.prompt;
+    tokens.completion += usage.tokens.completion;
+    tokens.total += usage.tokens.total;
+  }
+  return {
+    candidates,
+    usage: { tokens, model: generated[0].usage.model, durationMs: Date.now() - startedAt },
+  };
+}
+
+/**
+ * A refined spec with the JSON Patch that turns the given spec into it
+ */
+export interface RefinementResult extends GenerationResult<DesignSpec, SpecAnalysis> {
+  patch: JsonPatchOperation[];
+}
+
+function buildRefinePrompt(request: RefineRequest): string {
+  return `This is the current DesignSpec:
+${JSON.stringify(request.spec)}
+
+Change it as follows: ${request.instruction}
+
+Keep everything the instruction does not mention as it is, including node ids, and return the complete updated DesignSpec JSON.`;
+}
+
+/**
+ * Changes an existing DesignSpec as an instruction asks. The model returns the complete
+ * updated spec, which is repaired, post-processed and linted like a generated one.
+ */
+export async function refineDesignSpec(
+  request: RefineRequest,
+  dryRun: boolean,
+): Promise<RefinementResult> {
+  const context = getTracingContext();
+  if (!context) {
+    throw new Error("Tracing context not found");
+  }
+
+  const generationSpan = createChildSpan(context);
+  const log = getContextLogger().child({ spanId: generationSpan.spanId });
+
+  const generationContext = request.generationContext ?? DEFAULT_GENERATION_CONTEXT;
+
+  log.info(
+    {
+      event: "designspec.refine.start",
+      spanId: generationSpan.spanId,
+      instruction_length_chars: request.instruction.length,
+      instruction_hash: computeHash(request.instruction),
+      input_spec_hash: computeObjectHash(request.spec),
+      generationContext,
+      dryRun,
+    },
+    "Refining DesignSpec",
+  );
+
+  if (dryRun) {
+    log.info({ spanId: generationSpan.spanId }, "Dry run mode - appending the instruction");
+    // The instruction is added as a text node, so the patch has something to show
+    const mockSpec = postProcessSpec(
+      {
+        ...request.spec,
+        nodes: [...request.spec.nodes, { type: "text", content: request.instruction }],
+      },
+      generationContext,
+    );
+    const lintResult = lintDesignSpec(mockSpec, buildLintOptions(generationContext));
+    const analysis = analyzeSpec(lintResult.spec);
+
+    log.info(
+      {
+        event: "designspec.refine.success",
+        spanId: generationSpan.spanId,
+        spec_hash: computeObjectHash(lintResult.spec),
+        spec_length_chars: JSON.stringify(lintResult.spec).length,
+        ...analysis,
+        dryRun: true,
+      },
+      "DesignSpec refined successfully (dry run)",
+    );
+
+    return {
+      spec: lintResult.spec,
+      warnings: lintResult.findings,
+      analysis,
+      usage: DRY_RUN_USAGE,
+      patch: diffJson(request.spec, lintResult.spec),
+    };
+  }
+
+  try {
+    const { data, result } = await requestValidSpec(
+      selectModel(request),
+      [
+        { role: "system", content: buildSystemPrompt(generationContext, request.instruction) },
+        { role: "assistant", content: ASSISTANT_PROMPT },
+        { role: "user", content: buildRefinePrompt(request) },
+      ],
+      DESIGN_SPEC_RESPONSE,
+      designSpecSchema,
+      generationSpan,
+      log,
+    );
+
+    const refined = completeDesignSpec(data, result, generationContext, generationSpan, log, true);
+    return { ...refined, patch: diffJson(request.spec, refined.spec) };
+  } catch (error) {
+    log.error(
+      {
+        event: "designspec.refine.fail",
+        spanId: generationSpan.spanId,
+        error_message: error instanceof Error ? error.message : String(error),
+        error_type: error instanceof Error ? error.constructor.name : "UnknownError",
+      },
+      "Error refining DesignSpec",
+    );
+    throw error;
+  }
+}
+
+/**
+ * Applies the single-screen post-processing to every screen of a flow
+ */
+function postProcessFlowSpec(flow: FlowSpec, generationContext: GenerationContext): FlowSpec {
+  // Components are shared by all screens; every pass produces the same definitions
+  let components = flow.components;
+  const screens = flow.screens.map((screen) => {
+    const spec = postProcessSpec(
+      {
+        page: flow.page,
+        tokens: flow.tokens,
+        components: flow.components,
+        frame: screen.frame,
+        nodes: screen.nodes,
+      },
+      generationContext,
+    );
+    components = spec.components;
+    return { ...screen, frame: spec.frame, nodes: spec.nodes };
+  });
+
+  return {
+    specVersion: CURRENT_SPEC_VERSION,
+    ...flow,
+    tokens: mergeTokens(DEFAULT_TOKENS, flow.tokens),
+    components,
+    screens,
+  };
+}
+
+/**
+ * Generates a multi-screen FlowSpec (screens + navigation edges) from a single prompt
+ */
+export async function generateFlowSpec(
+  request: PromptRequest,
+  dryRun: boolean,
+): Promise<GenerationResult<FlowSpec, FlowSpecAnalysis>> {
+  const context = getTracingContext();
+  if (!context) {
+    throw new Error("Tracing context not found");
+  }
+
+  // Create span for generation
+  const generationSpan = createChildSpan(context);
+  const log = getContextLogger().child({ spanId: generationSpan.spanId });
+
+  const generationContext = request.generationContext ?? DEFAULT_GENERATION_CONTEXT;
+
+  log.info(
+    {
+      event: "flowspec.generation.start",
+      spanId: generationSpan.spanId,
+      prompt_length_chars: request.prompt.length,
+      prompt_hash: computeHash(request.prompt),
+      generationContext,
+      dryRun,
+    },
+    "Generating FlowSpec",
+  );
+
+  if (dryRun) {
+    log.info({ spanId: generationSpan.spanId }, "Dry run mode - returning mock flow");
+    const finalMockFlow = postProcessFlowSpec(MOCK_FLOW_SPEC, generationContext);
+    const analysis = analyzeFlowSpec(finalMockFlow);
+
+    log.info(
+      {
+        event: "flowspec.generation.success",
+        spanId: generationSpan.spanId,
+        spec_hash: computeObjectHash(finalMockFlow),
+        spec_length_chars: JSON.stringify(finalMockFlow).length,
+        ...analysis,
+        dryRun: true,
+      },
+      "FlowSpec generated successfully (dry run)",
+    );
+
+    return {
+      spec: finalMockFlow,
+      warnings: lintFlowSpec(finalMockFlow, buildLintOptions(generationContext)).findings,
+      analysis,
+      usage: DRY_RUN_USAGE,
+    };
+  }
+
+  try {
+    const systemPrompt = buildSystemPrompt(generationContext, request.prompt, true);
+    const { data, result } = await requestValidSpec(
+      selectModel(request),
+      [
+        { role: "system", content: systemPrompt },
+        { role: "assistant", content: `${ASSISTANT_PROMPT}\n\n${FLOW_ASSISTANT_PROMPT}` },
+        { role: "user", content: request.prompt },
+      ],
+      FLOW_SPEC_RESPONSE,
+      flowSpecSchema,
+      generationSpan,
+      log,
+    );
+
+    const lintResult = lintFlowSpec(
+      postProcessFlowSpec(data, generationContext),
+      buildLintOptions(generationContext),
+    );
+    const fixedFlow = lintResult.spec;
+
+    const specHash = computeObjectHash(fixedFlow);
+    const specLength = JSON.stringify(fixedFlow).length;
+    const analysis = analyzeFlowSpec(fixedFlow);
+    const warningsAggregated = logValidationWarnings(lintResult, generationSpan, log);
+    assertNoLintErrors(lintResult, "FlowSpec");
 
-    // Check budget alerts
     checkBudgetAlerts({
-      total_tokens: totalTokens,
-      prompt_tokens: promptTokens,
-      completion_tokens: completionTokens,
-      duration_ms: durationMs,
-      model: requestOptions.model,
-      prompt_hash: finalPromptHash,
+      total_tokens: result.totalTokens,
+      prompt_tokens: result.promptTokens,
+      completion_tokens: result.completionTokens,
+      duration_ms: result.durationMs,
+      model: result.model,
+      prompt_hash: result.finalPromptHash,
       spec_hash: specHash,
     });
 
-    // Log success with all metrics
     const env = getEnv();
-    const successLogData: Record<string, unknown> = {
-      event: "designspec.generation.success",
-      spanId: generationSpan.spanId,
-      spec_hash: specHash,
-      spec_length_chars: specLength,
-      prompt_hash: finalPromptHash,
-      prompt_length_chars: totalPromptLength,
+    const successLogData = buildSuccessLogData(generationSpan, result, specHash, specLength, {
       ...analysis,
       ...warningsAggregated,
-      openai_request_id: retryResult.openaiRequestId,
-      model: requestOptions.model,
-      duration_ms: durationMs,
-      prompt_tokens: promptTokens,
-      completion_tokens: completionTokens,
-      total_tokens: totalTokens,
-      retry_count: retryResult.retryCount,
-    };
+    });
+    successLogData.event = "flowspec.generation.success";
 
-    // Include full spec only in debug mode
+    // Include full flow only in debug mode
     if (env.LOG_DEBUG_PAYLOADS) {
-      successLogData.spec = fixedSpec;
+      successLogData.spec = fixedFlow;
     }
 
-    log.info(successLogData, "DesignSpec generated successfully");
+    log.info(successLogData, "FlowSpec generated successfully");
 
-    return fixedSpec;
+    return {
+      spec: fixedFlow,
+      warnings: lintResult.findings,
+      analysis,
+      usage: toGenerationUsage(result),
+    };
   } catch (error) {
     log.error(
       {
-        event: "designspec.generation.fail",
+        event: "flowspec.generation.fail",
         spanId: generationSpan.spanId,
         error_message: error instanceof Error ? error.message : String(error),
         error_type: error instanceof Error ? error.constructor.name : "UnknownError",
       },
-      "Error generating DesignSpec",
+      "Error generating FlowSpec",
     );
     throw error;
   }
@@ -0,0 +1,164 @@
+import type { DesignSpec, FlowSpec } from "@eskiz/spec";
+import { describe, expect, it } from "vitest";
+import { lintDesignSpec, lintErrors, lintFlowSpec } from "../engine.js";
+import type { LintOptions } from "../engine.js";
+import type { LintConfig, LintRule } from "../types.js";
+
+describe("lint engine", () => {
+  const config: LintConfig = {
+    name: "lint",
+    description: "Test config",
+    onError: "repair",
+    rules: { "visual-usage": "warn", a11y: "warn", scale: "info" },
+    fix: [],
+  };
+
+  const context: LintOptions["context"] = {
+    targetLayout: "desktop",
+    scale: {
+      name: "scale",
+      description: "Test scale",
+      spacingGrid: 4,
+      radiusGrid: 4,
+      pillRadius: 999,
+      fontSizes: [12, 14, 16, 20, 24],
+    },
+  };
+
+  const frame = { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+
+  // A styled layout container around an unlabeled input with an off-scale gap
+  const spec: DesignSpec = {
+    page: "Test",
+    frame,
+    nodes: [
+      {
+        type: "container",
+        layout: "vertical",
+        gap: 10,
+        background: "#F5F5F5",
+        children: [{ type: "input", placeholder: "Email" }],
+      },
+    ],
+  };
+
+  it("reports findings with their rule and configured severity", () => {
+    const result = lintDesignSpec(spec, { config, context });
+
+    expect(
+      result.findings.map(({ ruleId, severity, type, path }) => [ruleId, severity, type, path]),
+    ).toEqual([
+      ["visual-usage", "warn", "visual_styling_on_layout_container", "nodes[0]"],
+      ["a11y", "warn", "a11y_missing_label", "nodes[0].children[0]"],
+      ["scale", "info", "off_scale_gap", "nodes[0]"],
+    ]);
+    expect(result.spec).toBe(spec);
+    expect(result.repaired).toEqual([]);
+    expect(lintErrors(result.findings)).toEqual([]);
+  });
+
+  it("skips rules that are turned off and uses the default severity of unlisted ones", () => {
+    const result = lintDesignSpec(spec, {
+      config: { ...config, rules: { a11y: "off" } },
+      context,
+    });
+
+    expect(result.findings.map(({ ruleId, severity }) => `${ruleId}:${severity}`)).toEqual([
+      "visual-usage:warn",
+      "scale:info",
+    ]);
+  });
+
+  it("runs the configured fixers before linting", () => {
+    const result = lintDesignSpec(spec, {
+      config: { ...config, fix: ["visual-usage"] },
+      context,
+      fix: ["scale"],
+    });
+
+    expect(result.findings.map((finding) => finding.ruleId)).toEqual(["a11y"]);
+    expect(result.spec.nodes[0]).toMatchObject({ type: "container", gap: 12 });
+    expect(result.spec.nodes[0]).not.toHaveProperty("background");
+  });
+
+  it("repairs error findings with the rule's fixer", () => {
+    const result = lintDesignSpec(spec, {
+      config: { ...config, rules: { ...config.rules, "visual-usage": "error" } },
+      context,
+    });
+
+    expect(result.repaired).toEqual(["visual-usage"]);
+    expect(lintErrors(result.findings)).toEqual([]);
+    expect(result.spec.nodes[0]).not.toHaveProperty("background");
+  });
+
+  it("keeps error findings when the errors are set to fail or the rule has no fixer", () => {
+    const failing = lintDesignSpec(spec, {
+      config: { ...config, onError: "fail", rules: { ...config.rules, "visual-usage": "error" } },
+      context,
+    });
+    const unfixable = lintDesignSpec(spec, {
+      config: { ...config, rules: { ...config.rules, a11y: "error" } },
+      context,
+    });
+
+    expect(failing.repaired).toEqual([]);
+    expect(lintErrors(failing.findings).map((finding) => finding.ruleId)).toEqual(["visual-usage"]);
+    expect(unfixable.repaired).toEqual([]);
+    expect(lintErrors(unfixable.findings).map((finding) => finding.type)).toEqual([
+      "a11y_missing_label",
+    ]);
+  });
+
+  it("runs custom rules from the registry", () => {
+    const noImagesRule: LintRule = {
+      id: "no-images",
+      description: "Wireframes without images",
+      defaultSeverity: "error",
+      check: (checked) =>
+        checked.nodes.flatMap((node, index) =>
+          node.type === "image"
+            ? [{ type: "image_in_wireframe", path: `nodes[${index}]`, message: "No images." }]
+            : [],
+        ),
+      fix: (fixed) => ({ ...fixed, nodes: fixed.nodes.filter((node) => node.type !== "image") }),
+    };
+
+    const result = lintDesignSpec(
+      { ...spec, nodes: [{ type: "image", alt: "Logo" }, ...spec.nodes] },
+      { config, context, rules: [noImagesRule] },
+    );
+
+    expect(result.repaired).toEqual(["no-images"]);
+    expect(result.findings).toEqual([]);
+    expect(result.spec.nodes).toEqual(spec.nodes);
+  });
+
+  it("lints and fixes every screen of a flow and the shared components once", () => {
+    const flow: FlowSpec = {
+      page: "Flow",
+      components: {
+        chip: { node: { type: "container", layout: "horizontal", gap: 6, children: [] } },
+      },
+      screens: [
+        { id: "a", frame, nodes: [] },
+        { id: "b", frame: { ...frame, gap: 15 }, nodes: spec.nodes },
+      ],
+      edges: [],
+    };
+
+    const result = lintFlowSpec(flow, { config, context });
+    const fixed = lintFlowSpec(flow, { config, context, fix: ["scale"] });
+
+    expect(result.findings.map(({ type, path }) => `${type} ${path}`)).toEqual([
+      "visual_styling_on_layout_container screens[1].nodes[0]",
+      "a11y_missing_label screens[1].nodes[0].children[0]",
+      "off_scale_gap screens[1].frame",
+      "off_scale_gap screens[1].nodes[0]",
+      "off_scale_gap components.chip",
+    ]);
+    expect(fixed.findings.map((finding) => finding.ruleId)).toEqual(["visual-usage", "a11y"]);
+    expect(fixed.spec.screens[1].frame.gap).toBe(16);
+    expect(fixed.spec.components?.chip.node).toMatchObject({ gap: 8 });
+  });
+});
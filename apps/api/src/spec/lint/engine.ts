@@ -0,0 +1,164 @@
+import type { DesignSpec, FlowSpec } from "@eskiz/spec";
+import { LINT_RULES } from "./rules.js";
+import type {
+  LintConfig,
+  LintContext,
+  LintFinding,
+  LintRule,
+  LintRuleFinding,
+  LintSeverity,
+} from "./types.js";
+
+export interface LintOptions {
+  config: LintConfig;
+  context: LintContext;
+  /**
+   * Rules to fix before linting, in addition to the ones configured in `config.fix`
+   */
+  fix?: string[];
+  /**
+   * Rule registry; defaults to the built-in rules
+   */
+  rules?: LintRule[];
+}
+
+export interface LintResult<T> {
+  spec: T;
+  findings: LintFinding[];
+  /**
+   * Ids of the rules whose fixers ran to repair error findings
+   */
+  repaired: string[];
+}
+
+interface EnabledRule {
+  rule: LintRule;
+  severity: LintSeverity;
+}
+
+/**
+ * How rules are checked and fixed on one kind of document
+ */
+interface LintTarget<T> {
+  check(document: T, rule: LintRule, context: LintContext): LintRuleFinding[];
+  fix(document: T, fix: NonNullable<LintRule["fix"]>, context: LintContext): T;
+}
+
+const designSpecTarget: LintTarget<DesignSpec> = {
+  check: (spec, rule, context) => rule.check(spec, context),
+  fix: (spec, fix, context) => fix(spec, context),
+};
+
+function screenSpec(flow: FlowSpec, screen: FlowSpec["screens"][number]): DesignSpec {
+  return { page: flow.page, tokens: flow.tokens, frame: screen.frame, nodes: screen.nodes };
+}
+
+/**
+ * Wraps the shared component definitions of a flow in a spec without screen content
+ */
+function componentsSpec(flow: FlowSpec): DesignSpec {
+  return {
+    page: flow.page,
+    tokens: flow.tokens,
+    components: flow.components,
+    frame: { ...flow.screens[0].frame, overlays: undefined },
+    nodes: [],
+  };
+}
+
+/**
+ * Checks and fixes every screen of a flow on its own, prefixing paths with the screen index.
+ * Shared component definitions are checked and fixed once, not per screen.
+ */
+const flowSpecTarget: LintTarget<FlowSpec> = {
+  check: (flow, rule, context) => [
+    ...flow.screens.flatMap((screen, index) =>
+      rule
+        .check(screenSpec(flow, screen), context)
+        .map((finding) => ({ ...finding, path: `screens[${index}].${finding.path}` })),
+    ),
+    ...rule
+      .check(componentsSpec(flow), context)
+      .filter((finding) => finding.path.startsWith("components.")),
+  ],
+  fix: (flow, fix, context) => ({
+    ...flow,
+    components: flow.components && fix(componentsSpec(flow), context).components,
+    screens: flow.screens.map((screen) => {
+      const fixed = fix(screenSpec(flow, screen), context);
+      return { ...screen, frame: fixed.frame, nodes: fixed.nodes };
+    }),
+  }),
+};
+
+/**
+ * Lists the rules lint.json does not turn off, with their configured severity
+ */
+function enabledRules(options: LintOptions): EnabledRule[] {
+  return (options.rules ?? LINT_RULES).flatMap((rule) => {
+    const severity = options.config.rules[rule.id] ?? rule.defaultSeverity;
+    return severity === "off" ? [] : [{ rule, severity }];
+  });
+}
+
+/**
+ * Runs the configured fixers, lints, and with `onError: "repair"` runs the fixers of the
+ * rules that reported errors and lints again
+ */
+function runLint<T>(document: T, target: LintTarget<T>, options: LintOptions): LintResult<T> {
+  const rules = enabledRules(options);
+
+  function applyFixers(current: T, ruleIds: Set<string>): T {
+    return rules.reduce(
+      (fixed, { rule }) =>
+        rule.fix && ruleIds.has(rule.id) ? target.fix(fixed, rule.fix, options.context) : fixed,
+      current,
+    );
+  }
+
+  function lint(current: T): LintFinding[] {
+    return rules.flatMap(({ rule, severity }) =>
+      target
+        .check(current, rule, options.context)
+        .map((finding) => ({ ...finding, ruleId: rule.id, severity })),
+    );
+  }
+
+  let spec = applyFixers(document, new Set([...options.config.fix, ...(options.fix ?? [])]));
+  let findings = lint(spec);
+
+  let repaired: string[] = [];
+  if (options.config.onError === "repair") {
+    const failingRules = new Set(lintErrors(findings).map((finding) => finding.ruleId));
+    repaired = rules
+      .filter(({ rule }) => rule.fix && failingRules.has(rule.id))
+      .map(({ rule }) => rule.id);
+    if (repaired.length > 0) {
+      spec = applyFixers(spec, new Set(repaired));
+      findings = lint(spec);
+    }
+  }
+
+  return { spec, findings, repaired };
+}
+
+/**
+ * Lints a DesignSpec with the enabled rules, fixing what the config asks for
+ */
+export function lintDesignSpec(spec: DesignSpec, options: LintOptions): LintResult<DesignSpec> {
+  return runLint(spec, designSpecTarget, options);
+}
+
+/**
+ * Lints every screen of a FlowSpec with the enabled rules, fixing what the config asks for
+ */
+export function lintFlowSpec(flow: FlowSpec, options: LintOptions): LintResult<FlowSpec> {
+  return runLint(flow, flowSpecTarget, options);
+}
+
+/**
+ * Picks the findings that fail generation
+ */
+export function lintErrors(findings: LintFinding[]): LintFinding[] {
+  return findings.filter((finding) => finding.severity === "error");
+}
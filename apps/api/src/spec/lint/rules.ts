@@ -0,0 +1,59 @@
+import { validateA11y } from "../validation/validateA11y.js";
+import { snapToScale, validateScale } from "../validation/validateScale.js";
+import { stripLayoutStyling, validateVisualUsage } from "../validation/validateVisualUsage.js";
+import type { LintRule } from "./types.js";
+
+/**
+ * Layout containers (grouping/alignment) must not have visual styling; only surfaces do.
+ * The fixer strips the styling.
+ */
+export const visualUsageRule: LintRule = {
+  id: "visual-usage",
+  description: "Visual styling only on surface containers (cards, form cards, input wrappers)",
+  defaultSeverity: "warn",
+  check: (spec) =>
+    validateVisualUsage(spec).map((warning) => ({
+      type: "visual_styling_on_layout_container",
+      path: warning.path,
+      message: warning.reason,
+    })),
+  fix: (spec) => stripLayoutStyling(spec),
+};
+
+/**
+ * Labels, heading order, contrast and, on mobile, touch target sizes
+ */
+export const a11yRule: LintRule = {
+  id: "a11y",
+  description: "Accessible names, heading order, text contrast and mobile touch targets",
+  defaultSeverity: "warn",
+  check: (spec, context) =>
+    validateA11y(spec, context.targetLayout).map((warning) => ({
+      type: `a11y_${warning.type}`,
+      path: warning.path,
+      message: warning.reason,
+    })),
+};
+
+/**
+ * Gaps, paddings, spacer sizes, font sizes and radii on the configured scale.
+ * The fixer snaps them to the nearest value on it.
+ */
+export const scaleRule: LintRule = {
+  id: "scale",
+  description: "Spacing, radii and font sizes on the spacing, radius and type scale",
+  defaultSeverity: "info",
+  check: (spec, context) =>
+    validateScale(spec, context.scale).map((warning) => ({
+      // e.g. "off_scale_padding" for "padding.top"
+      type: `off_scale_${warning.property.split(".")[0]}`,
+      path: warning.path,
+      message: warning.reason,
+    })),
+  fix: (spec, context) => snapToScale(spec, context.scale),
+};
+
+/**
+ * Built-in rules, in the order they run and report
+ */
+export const LINT_RULES: LintRule[] = [visualUsageRule, a11yRule, scaleRule];
@@ -0,0 +1,83 @@
+/**
+ * Types for the spec lint engine
+ */
+import type { DesignSpec, TargetLayout } from "@eskiz/spec";
+import type { ScaleRule } from "../prompt/types.js";
+
+export const LINT_SEVERITIES = ["error", "warn", "info"] as const;
+export type LintSeverity = (typeof LINT_SEVERITIES)[number];
+
+/**
+ * What the rules are checked against besides the spec itself
+ */
+export interface LintContext {
+  targetLayout: TargetLayout;
+  scale: ScaleRule;
+}
+
+/**
+ * A single finding as reported by a rule
+ */
+export interface LintRuleFinding {
+  /**
+   * Finding type for metrics (e.g., "a11y_missing_label")
+   */
+  type: string;
+  /**
+   * Path to the problematic node (e.g., "nodes[0].children[2]")
+   */
+  path: string;
+  message: string;
+}
+
+/**
+ * A finding with the rule that reported it and the severity configured for that rule
+ */
+export interface LintFinding extends LintRuleFinding {
+  ruleId: string;
+  severity: LintSeverity;
+}
+
+/**
+ * A lint rule. Rules check a single screen (with its overlays and components); the engine
+ * runs them on every screen of a flow and prefixes the paths.
+ */
+export interface LintRule {
+  /**
+   * Rule id used in spec-rules/lint.json (e.g., "visual-usage")
+   */
+  id: string;
+  description: string;
+  /**
+   * Severity when lint.json does not configure the rule
+   */
+  defaultSeverity: LintSeverity;
+  check(spec: DesignSpec, context: LintContext): LintRuleFinding[];
+  /**
+   * Returns a copy of the spec with the rule's findings fixed, if the rule can fix them
+   */
+  fix?(spec: DesignSpec, context: LintContext): DesignSpec;
+}
+
+/**
+ * What to do when a finding has severity "error": "fail" fails generation, "repair" first
+ * applies the fixers of the rules that reported errors and fails only if errors remain
+ */
+export type LintErrorMode = "fail" | "repair";
+
+/**
+ * Lint configuration from spec-rules/lint.json
+ */
+export interface LintConfig {
+  name: string;
+  description: string;
+  onError: LintErrorMode;
+  /**
+   * Severity per rule id, or "off" to disable the rule; unlisted rules use their default
+   */
+  rules: Record<string, LintSeverity | "off">;
+  /**
+   * Rules whose fixers always run before linting
+   */
+  fix: string[];
+}
@@ -368,4 +368,49 @@ describe("assembleSystemPrompt", () => {
     expect(prompt).toContain("No explanations.");
     expect(prompt).toContain("No markdown.");
   });
+
+  it("includes flow rules and FlowSpec output format for multi-screen flows", () => {
+    vi.mocked(loadRulesModule.loadRules).mockReturnValue({
+      base: {
+        name: "base",
+        description: "Base",
+        rules: ["Base rule"],
+      },
+      layout: {
+        name: "layout",
+        description: "Layout",
+        rules: ["Layout rule"],
+      },
+      device: {
+        width: "400px",
+        height: "800px",
+        rules: ["Device rule"],
+      },
+      patterns: [],
+      flow: {
+        name: "flow",
+        description: "Flow",
+        rules: ["Flow rule 1"],
+      },
+    });
+
+    const prompt = assembleSystemPrompt({
+      userPrompt: "Signup, verify email, onboarding",
+      targetLayout: "mobile",
+      uiStrictness: "strict",
+      visualBaseline: false,
+      strictLayout: false,
+      uxPatterns: {
+        groupElements: false,
+        formContainer: false,
+        helperText: false,
+      },
+      flow: true,
+    });
+
+    expect(prompt).toContain("=== MULTI-SCREEN FLOW RULES ===");
+    expect(prompt).toContain("- Flow rule 1");
+    expect(prompt).toContain("Your output must be a valid FlowSpec JSON only.");
+    expect(prompt).not.toContain("Your output must be a valid DesignSpec JSON only.");
+  });
 });
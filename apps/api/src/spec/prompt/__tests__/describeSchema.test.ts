@@ -0,0 +1,54 @@
+import { designSpecJsonSchema, flowSpecJsonSchema } from "@eskiz/spec";
+import { describe, expect, it } from "vitest";
+import { describeJsonSchema } from "../describeSchema.js";
+
+describe("describeJsonSchema", () => {
+  it("renders the root outline with types, optionality and descriptions", () => {
+    const text = describeJsonSchema(designSpecJsonSchema);
+
+    expect(text).toContain('"page": string (page name)');
+    expect(text).toContain('"frame": Frame,');
+    expect(text).toContain('"nodes": [Node, ...] (at least 1)');
+    expect(text).toContain('"width": positive integer (typically 360-400 for mobile-first)');
+  });
+
+  it("lists every node type and the shared definitions", () => {
+    const text = describeJsonSchema(designSpecJsonSchema);
+
+    for (const type of ["text", "button", "image", "icon", "input", "select", "container"]) {
+      expect(text).toContain(`"type": "${type}"`);
+    }
+    expect(text).toContain("Node is one of:");
+    expect(text).toContain('"children": [Node, ...] (at least 1)');
+    expect(text).toMatch(/^Color: string \| \{ "\$token": string \}/m);
+    expect(text).toMatch(/^Sizing: "fill" \| "hug" \| positive integer/m);
+  });
+
+  it("names inlined copies of a definition", () => {
+    const text = describeJsonSchema(designSpecJsonSchema);
+
+    expect(text).toContain('"gap": Spacing (spacing between nodes, typically 12-16)');
+  });
+
+  it("omits the definitions when asked", () => {
+    const text = describeJsonSchema(flowSpecJsonSchema, { definitions: false });
+
+    expect(text).toContain('"trigger": string (id of a button on the source screen)');
+    expect(text).not.toContain("Node is one of:");
+  });
+
+  it("describes records and number ranges", () => {
+    const text = describeJsonSchema({
+      type: "object",
+      properties: {
+        weights: {
+          type: "object",
+          additionalProperties: { type: "integer", minimum: 100, maximum: 900, multipleOf: 100 },
+        },
+      },
+      required: ["weights"],
+    });
+
+    expect(text).toBe('{ "weights": { "string": integer 100-900 in steps of 100 } }');
+  });
+});
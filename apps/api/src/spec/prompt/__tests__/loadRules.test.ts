@@ -1,6 +1,14 @@
 import { readFileSync } from "node:fs";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { loadRules, resetSpecRulesDirCache } from "../loadRules.js";
+import {
+  loadDesignTokens,
+  loadLintConfig,
+  loadModelConfig,
+  loadRules,
+  loadScale,
+  loadScoringConfig,
+  resetSpecRulesDirCache,
+} from "../loadRules.js";
 
 vi.mock("node:fs", () => ({
   readFileSync: vi.fn(),
@@ -230,4 +238,139 @@ describe("loadRules", () => {
 
     expect(result.device.rules).toEqual(["Tablet"]);
   });
+
+  it("loads flow rules when a multi-screen flow is requested", () => {
+    const mockBase = { name: "base", description: "Base", rules: [] };
+    const mockLayout = { name: "layout", description: "Layout", rules: [] };
+    const mockDevices = {
+      name: "devices",
+      description: "Devices",
+      mobile: { width: "400px", height: "800px", rules: [] },
+      tablet: { width: "768px", height: "900px", rules: [] },
+      desktop: { width: "1200px", height: "900px", rules: [] },
+    };
+    const mockAuthForm = {
+      name: "auth-form",
+      description: "Auth form",
+      detectionKeywords: ["login"],
+      rules: [],
+    };
+    const mockFlow = { name: "flow", description: "Flow", rules: ["Flow rule 1"] };
+
+    vi.mocked(readFileSync)
+      .mockReturnValueOnce(JSON.stringify(mockBase)) // Loading base.json
+      .mockReturnValueOnce(JSON.stringify(mockLayout)) // Loading layout.json
+      .mockReturnValueOnce(JSON.stringify(mockDevices)) // Loading devices.json
+      .mockReturnValueOnce(JSON.stringify(mockAuthForm)) // Loading patterns/auth-form.json
+      .mockReturnValueOnce(JSON.stringify(mockFlow)); // Loading flow.json
+
+    const result = loadRules({
+      userPrompt: "Onboarding flow",
+      targetLayout: "mobile",
+      uiStrictness: "strict",
+      visualBaseline: false,
+      flow: true,
+    });
+
+    expect(result.flow).toEqual(mockFlow);
+    expect(result.patterns).toEqual([]);
+  });
+
+  it("loads and validates default design tokens", () => {
+    const mockTokens = { color: { primary: "#2563EB" }, radius: { md: 8 } };
+    vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify(mockTokens)); // Loading tokens.json
+
+    expect(loadDesignTokens()).toEqual(mockTokens);
+    expect(readFileSync).toHaveBeenCalledWith("/mock/spec-rules/tokens.json", "utf-8");
+  });
+
+  it("rejects invalid design tokens", () => {
+    vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify({ radius: { md: "8px" } }));
+
+    expect(() => loadDesignTokens()).toThrow();
+  });
+
+  it("loads and validates the spacing and typography scale", () => {
+    const mockScale = {
+      name: "scale",
+      description: "Scales",
+      spacingGrid: 8,
+      radiusGrid: 4,
+      pillRadius: 999,
+      fontSizes: [14, 16, 24],
+    };
+    vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify(mockScale)); // Loading scale.json
+
+    expect(loadScale()).toEqual(mockScale);
+    expect(readFileSync).toHaveBeenCalledWith("/mock/spec-rules/scale.json", "utf-8");
+
+    vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify({ ...mockScale, fontSizes: [] }));
+    expect(() => loadScale()).toThrow();
+  });
+
+  it("loads and validates the lint configuration", () => {
+    const mockLint = {
+      name: "lint",
+      description: "Lint rules",
+      onError: "fail",
+      rules: { "visual-usage": "error", scale: "off" },
+      fix: ["scale"],
+    };
+    vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify(mockLint)); // Loading lint.json
+
+    expect(loadLintConfig()).toEqual(mockLint);
+    expect(readFileSync).toHaveBeenCalledWith("/mock/spec-rules/lint.json", "utf-8");
+
+    vi.mocked(readFileSync).mockReturnValueOnce(
+      JSON.stringify({ ...mockLint, rules: { scale: "fatal" } }),
+    );
+    expect(() => loadLintConfig()).toThrow();
+  });
+
+  it("loads the model table and checks that quality tiers map to listed models", () => {
+    const mockModels = {
+      name: "models",
+      description: "Models",
+      quality: { fast: "small", balanced: "small", best: "large" },
+      models: {
+        small: { temperature: false, jsonSchema: true, contextTokens: 8192 },
+        large: { temperature: true, jsonSchema: false, budget: { maxDurationMs: 30000 } },
+      },
+    };
+    vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify(mockModels)); // Loading models.json
+
+    expect(loadModelConfig()).toEqual(mockModels);
+    expect(readFileSync).toHaveBeenCalledWith("/mock/spec-rules/models.json", "utf-8");
+
+    vi.mocked(readFileSync).mockReturnValueOnce(
+      JSON.stringify({ ...mockModels, quality: { ...mockModels.quality, best: "huge" } }),
+    );
+    expect(() => loadModelConfig()).toThrow();
+  });
+
+  it("loads the scoring weights and rejects negative ones", () => {
+    const mockScoring = {
+      name: "scoring",
+      description: "Scoring",
+      findings: { error: 20, warn: 5, info: 1 },
+      rules: { "visual-usage": 3 },
+      structure: {
+        maxDepth: 4,
+        perExtraLevel: 5,
+        minNodes: 3,
+        perMissingNode: 5,
+        maxSurfaceRatio: 0.5,
+        surfaceRatioPenalty: 10,
+      },
+    };
+    vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify(mockScoring)); // Loading scoring.json
+
+    expect(loadScoringConfig()).toEqual(mockScoring);
+    expect(readFileSync).toHaveBeenCalledWith("/mock/spec-rules/scoring.json", "utf-8");
+
+    vi.mocked(readFileSync).mockReturnValueOnce(
+      JSON.stringify({ ...mockScoring, rules: { a11y: -3 } }),
+    );
+    expect(() => loadScoringConfig()).toThrow();
+  });
 });
@@ -10,6 +10,7 @@ export function assembleSystemPrompt(options: PromptAssemblyOptions): string {
     targetLayout: options.targetLayout,
     uiStrictness: options.uiStrictness,
     visualBaseline: options.visualBaseline,
+    flow: options.flow,
   });
 
   const sections: string[] = [];
@@ -95,9 +96,20 @@ export function assembleSystemPrompt(options: PromptAssemblyOptions): string {
   }
   sections.push("");
 
+  // Multi-screen flow rules (if requested)
+  if (loadedRules.flow) {
+    sections.push("=== MULTI-SCREEN FLOW RULES ===");
+    sections.push(...loadedRules.flow.rules.map((rule) => `- ${rule}`));
+    sections.push("");
+  }
+
   // Output format reminder
   sections.push("=== OUTPUT FORMAT ===");
-  sections.push("Your output must be a valid DesignSpec JSON only.");
+  sections.push(
+    loadedRules.flow
+      ? "Your output must be a valid FlowSpec JSON only."
+      : "Your output must be a valid DesignSpec JSON only.",
+  );
   sections.push("No explanations.");
   sections.push("No markdown.");
 
@@ -0,0 +1,151 @@
+import type { JsonSchema } from "@eskiz/spec";
+
+/**
+ * The subset of JSON Schema emitted by zod-to-json-schema for the spec contract
+ */
+interface SchemaNode {
+  $ref?: string;
+  $defs?: Record<string, SchemaNode>;
+  type?: string;
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: SchemaNode[];
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: SchemaNode | boolean;
+  items?: SchemaNode;
+  minItems?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  multipleOf?: number;
+  description?: string;
+}
+
+export interface DescribeSchemaOptions {
+  /**
+   * Append the shared definitions (Frame, Node, Color, ...) after the root outline
+   */
+  definitions?: boolean;
+}
+
+const INDENT = "  ";
+
+// Objects with at most this many scalar properties are written on one line
+const MAX_INLINE_PROPERTIES = 2;
+
+/**
+ * Serializes a schema without its description, to recognize inlined copies of a definition
+ */
+function shapeKey(schema: SchemaNode): string {
+  return JSON.stringify(schema, (key, value) => (key === "description" ? undefined : value));
+}
+
+/**
+ * Renders a generated JSON Schema as the annotated JSON outline used in the assistant prompt,
+ * so the prose the model reads comes from the same source as the validation schema
+ */
+export function describeJsonSchema(
+  jsonSchema: JsonSchema,
+  options: DescribeSchemaOptions = {},
+): string {
+  const root = jsonSchema as SchemaNode;
+  const definitions = root.$defs ?? {};
+  const definitionKeys = new Map(
+    Object.entries(definitions).map(([name, schema]) => [shapeKey(schema), name]),
+  );
+
+  const describeType = (schema: SchemaNode, indent: string, asDefinition = false): string => {
+    if (schema.$ref) {
+      return schema.$ref.split("/").pop() ?? schema.$ref;
+    }
+    const definition = asDefinition ? undefined : definitionKeys.get(shapeKey(schema));
+    if (definition) {
+      return definition;
+    }
+    if (schema.const !== undefined) {
+      return JSON.stringify(schema.const);
+    }
+    if (schema.enum) {
+      return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+    }
+    if (schema.anyOf) {
+      return schema.anyOf.map((option) => describeType(option, indent)).join(" | ");
+    }
+    if (schema.type === "integer" || schema.type === "number") {
+      return describeNumber(schema);
+    }
+    if (schema.type === "array" && schema.items) {
+      return `[${describeType(schema.items, indent)}, ...]`;
+    }
+    if (schema.type === "object" && schema.properties) {
+      return describeObject(schema, indent);
+    }
+    if (schema.type === "object" && typeof schema.additionalProperties === "object") {
+      return `{ "string": ${describeType(schema.additionalProperties, indent)} }`;
+    }
+    return schema.type ?? "any";
+  };
+
+  const describeObject = (schema: SchemaNode, indent: string): string => {
+    const entries = Object.entries(schema.properties ?? {});
+    const required = new Set(schema.required ?? []);
+    const inline =
+      entries.length <= MAX_INLINE_PROPERTIES &&
+      entries.every(([, property]) => !property.properties && !property.anyOf?.[0]?.properties);
+
+    if (inline) {
+      const fields = entries.map(
+        ([key, property]) =>
+          `"${key}": ${describeType(property, indent)}${required.has(key) ? "" : " (optional)"}`,
+      );
+      return `{ ${fields.join(", ")} }`;
+    }
+
+    const inner = indent + INDENT;
+    const lines = entries.map(([key, property]) => {
+      const notes = [
+        required.has(key) ? undefined : "optional",
+        property.minItems ? `at least ${property.minItems}` : undefined,
+        property.description,
+      ].filter((note): note is string => note !== undefined);
+      const suffix = notes.length > 0 ? ` (${notes.join(", ")})` : "";
+      return `${inner}"${key}": ${describeType(property, inner)}${suffix}`;
+    });
+    return `{\n${lines.join(",\n")}\n${indent}}`;
+  };
+
+  const sections = [describeType({ ...root, $defs: undefined }, "")];
+
+  if (options.definitions !== false) {
+    for (const [name, schema] of Object.entries(definitions)) {
+      if (schema.anyOf?.every((option) => option.properties)) {
+        const variants = schema.anyOf.map((option) => describeObject(option, ""));
+        sections.push(`${name} is one of:\n${variants.join("\n")}`);
+      } else if (schema.properties) {
+        const body = describeObject(schema, "");
+        sections.push(body.includes("\n") ? `${name}:\n${body}` : `${name}: ${body}`);
+      } else {
+        const note = schema.description ? ` (${schema.description})` : "";
+        sections.push(`${name}: ${describeType(schema, "", true)}${note}`);
+      }
+    }
+  }
+
+  return sections.join("\n\n");
+}
+
+function describeNumber(schema: SchemaNode): string {
+  const kind = schema.type === "integer" ? "integer" : "number";
+  if (schema.minimum !== undefined && schema.maximum !== undefined) {
+    const step = schema.multipleOf ? ` in steps of ${schema.multipleOf}` : "";
+    return `${kind} ${schema.minimum}-${schema.maximum}${step}`;
+  }
+  if (schema.exclusiveMinimum === 0) {
+    return `positive ${kind}`;
+  }
+  if (schema.minimum === 0) {
+    return `non-negative ${kind}`;
+  }
+  return kind;
+}
@@ -1,6 +1,13 @@
 import { readFileSync } from "node:fs";
 import { join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
+import { designTokensSchema } from "@eskiz/spec";
+import type { DesignTokens } from "@eskiz/spec";
+import { z } from "zod";
+import type { ModelConfig } from "../../llm/types.js";
+import type { ScoringConfig } from "../candidates/types.js";
+import { LINT_SEVERITIES } from "../lint/types.js";
+import type { LintConfig } from "../lint/types.js";
 import type {
   BaseRule,
   DeviceRule,
@@ -8,6 +15,7 @@ import type {
   LayoutRule,
   LoadedRules,
   PatternRule,
+  ScaleRule,
 } from "./types.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
@@ -102,6 +110,7 @@ export function loadRules(options: {
   targetLayout: "mobile" | "tablet" | "desktop";
   uiStrictness: "strict" | "balanced";
   visualBaseline: boolean;
+  flow?: boolean;
 }): LoadedRules {
   // Always load base rules
   const base = loadRuleFile<BaseRule>("base.json");
@@ -131,11 +140,116 @@ export function loadRules(options: {
     // This allows the system to work even if patterns are missing
   }
 
+  // Load multi-screen flow rules if requested
+  let flow: BaseRule | undefined;
+  if (options.flow) {
+    flow = loadRuleFile<BaseRule>("flow.json");
+  }
+
   return {
     base,
     layout,
     visualBaseline,
     device,
     patterns,
+    flow,
   };
 }
+
+const scaleRuleSchema: z.ZodType<ScaleRule> = z.object({
+  name: z.string(),
+  description: z.string(),
+  spacingGrid: z.number().int().positive(),
+  radiusGrid: z.number().int().positive(),
+  pillRadius: z.number().int().positive(),
+  fontSizes: z.array(z.number().int().positive()).min(1),
+});
+
+/**
+ * Loads the spacing and typography scales that generated specs are linted against
+ */
+export function loadScale(): ScaleRule {
+  return scaleRuleSchema.parse(loadRuleFile<unknown>("scale.json"));
+}
+
+const lintConfigSchema: z.ZodType<LintConfig> = z.object({
+  name: z.string(),
+  description: z.string(),
+  onError: z.enum(["fail", "repair"]),
+  rules: z.record(z.enum([...LINT_SEVERITIES, "off"])),
+  fix: z.array(z.string()),
+});
+
+/**
+ * Loads the lint configuration: rule severities, error handling and fixers to run
+ */
+export function loadLintConfig(): LintConfig {
+  return lintConfigSchema.parse(loadRuleFile<unknown>("lint.json"));
+}
+
+const modelConfigSchema: z.ZodType<ModelConfig> = z
+  .object({
+    name: z.string(),
+    description: z.string(),
+    quality: z.object({
+      fast: z.string().min(1),
+      balanced: z.string().min(1),
+      best: z.string().min(1),
+    }),
+    models: z.record(
+      z.object({
+        temperature: z.boolean(),
+        jsonSchema: z.boolean(),
+        contextTokens: z.number().int().positive().optional(),
+        budget: z
+          .object({
+            maxTokens: z.number().int().positive().optional(),
+            maxDurationMs: z.number().int().positive().optional(),
+            maxCompletionRatio: z.number().positive().optional(),
+          })
+          .optional(),
+      }),
+    ),
+  })
+  .refine((config) => Object.values(config.quality).every((model) => model in config.models), {
+    message: "Every quality tier must map to a listed model",
+    path: ["quality"],
+  });
+
+/**
+ * Loads the model capability table and the model behind each quality tier
+ */
+export function loadModelConfig(): ModelConfig {
+  return modelConfigSchema.parse(loadRuleFile<unknown>("models.json"));
+}
+
+const points = z.number().nonnegative();
+
+const scoringConfigSchema: z.ZodType<ScoringConfig> = z.object({
+  name: z.string(),
+  description: z.string(),
+  findings: z.object({ error: points, warn: points, info: points }),
+  rules: z.record(points),
+  structure: z.object({
+    maxDepth: z.number().int().positive(),
+    perExtraLevel: points,
+    minNodes: z.number().int().nonnegative(),
+    perMissingNode: points,
+    maxSurfaceRatio: z.number().min(0).max(1),
+    surfaceRatioPenalty: points,
+  }),
+});
+
+/**
+ * Loads the weights candidate specs are ranked by
+ */
+export function loadScoringConfig(): ScoringConfig {
+  return scoringConfigSchema.parse(loadRuleFile<unknown>("scoring.json"));
+}
+
+/**
+ * Loads the default design tokens that visual defaults are taken from
+ */
+export function loadDesignTokens(): DesignTokens {
+  return designTokensSchema.parse(loadRuleFile<unknown>("tokens.json"));
+}
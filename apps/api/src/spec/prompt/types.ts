@@ -31,12 +31,37 @@ export interface PatternRule extends BaseRule {
   detectionKeywords?: string[];
 }
 
+/**
+ * Spacing and typography scales that generated specs are linted against
+ */
+export interface ScaleRule {
+  name: string;
+  description: string;
+  /**
+   * Gaps, paddings and spacer sizes must be multiples of this (px)
+   */
+  spacingGrid: number;
+  /**
+   * Corner radii must be multiples of this (px)
+   */
+  radiusGrid: number;
+  /**
+   * Radii at or above this value mean "fully rounded" and are always allowed
+   */
+  pillRadius: number;
+  /**
+   * Allowed font sizes (px)
+   */
+  fontSizes: number[];
+}
+
 export interface LoadedRules {
   base: BaseRule;
   layout: LayoutRule;
   visualBaseline?: BaseRule;
   device: DeviceRule;
   patterns: PatternRule[];
+  flow?: BaseRule;
 }
 
 export interface PromptAssemblyOptions {
@@ -45,6 +70,10 @@ export interface PromptAssemblyOptions {
   uiStrictness: "strict" | "balanced";
   visualBaseline: boolean;
   strictLayout: boolean;
+  /**
+   * Generate a multi-screen FlowSpec instead of a single DesignSpec
+   */
+  flow?: boolean;
   uxPatterns: {
     groupElements: boolean;
     formContainer: boolean;
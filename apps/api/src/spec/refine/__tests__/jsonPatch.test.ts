@@ -0,0 +1,93 @@
+import type { JsonPatchOperation } from "@eskiz/spec";
+import { describe, expect, it } from "vitest";
+import { diffJson } from "../jsonPatch.js";
+
+/**
+ * Applies a patch the way an RFC 6902 client would, to check the diff round-trips
+ */
+function applyPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let result = structuredClone(document);
+  for (const operation of operations) {
+    if (operation.path === "") {
+      result = operation.op === "remove" ? undefined : operation.value;
+      continue;
+    }
+    const keys = operation.path
+      .slice(1)
+      .split("/")
+      .map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"));
+    const last = keys.pop() as string;
+    const parent = keys.reduce<Record<string, unknown>>(
+      (value, key) => value[key] as Record<string, unknown>,
+      result as Record<string, unknown>,
+    );
+    if (Array.isArray(parent)) {
+      const index = Number(last);
+      if (operation.op === "add") parent.splice(index, 0, operation.value);
+      if (operation.op === "remove") parent.splice(index, 1);
+      if (operation.op === "replace") parent[index] = operation.value;
+    } else if (operation.op === "remove") {
+      delete parent[last];
+    } else {
+      parent[last] = operation.value;
+    }
+  }
+  return result;
+}
+
+const SPEC = {
+  page: "Login",
+  frame: { name: "Login", width: 400, layout: "vertical", gap: 16, padding: 24 },
+  nodes: [
+    { type: "text", id: "title", content: "Welcome back" },
+    { type: "input", id: "email", label: "Email" },
+    { type: "button", id: "sign-in", label: "Sign in", variant: "primary" },
+  ],
+};
+
+describe("diffJson", () => {
+  it("returns no operations for equal documents", () => {
+    expect(diffJson(SPEC, structuredClone(SPEC))).toEqual([]);
+  });
+
+  it("replaces changed values in place", () => {
+    const after = structuredClone(SPEC);
+    after.nodes[2].variant = "secondary";
+
+    expect(diffJson(SPEC, after)).toEqual([
+      { op: "replace", path: "/nodes/2/variant", value: "secondary" },
+    ]);
+  });
+
+  it("adds an inserted node without touching the nodes after it", () => {
+    const link = { type: "link", id: "forgot-password", label: "Forgot password?" };
+    const after = { ...SPEC, nodes: [SPEC.nodes[0], SPEC.nodes[1], link, SPEC.nodes[2]] };
+
+    expect(diffJson(SPEC, after)).toEqual([{ op: "add", path: "/nodes/2", value: link }]);
+  });
+
+  it("removes nodes and keys that are gone", () => {
+    const after = { ...SPEC, frame: { ...SPEC.frame, gap: undefined }, nodes: SPEC.nodes.slice(1) };
+
+    expect(diffJson(SPEC, after)).toEqual([
+      { op: "remove", path: "/frame/gap" },
+      { op: "remove", path: "/nodes/0" },
+    ]);
+  });
+
+  it("produces a patch that turns the document into the new one", () => {
+    const after = {
+      ...SPEC,
+      "tokens/v": { "~color": "#111111" },
+      nodes: [
+        { type: "text", content: "Sign in to continue" },
+        SPEC.nodes[2],
+        { ...SPEC.nodes[1], label: "Work email" },
+        { type: "container", id: "footer", children: [{ type: "text", content: "Help" }] },
+      ],
+    };
+    const before = { ...SPEC, nodes: [{ type: "text", content: "Welcome" }, ...SPEC.nodes] };
+
+    expect(applyPatch(before, diffJson(before, after))).toEqual(after);
+  });
+});
@@ -0,0 +1,152 @@
+import type { JsonPatchOperation } from "@eskiz/spec";
+
+type ArrayEdit = { kind: "keep" | "change"; from: number; to: number } | DeleteEdit | InsertEdit;
+type DeleteEdit = { kind: "delete"; from: number };
+type InsertEdit = { kind: "insert"; to: number };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Escapes a key for a JSON Pointer
+ */
+function pointerSegment(key: string | number): string {
+  return String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Identifies an array item across versions: nodes by their id, anything else by its content
+ */
+function itemKey(item: unknown): string {
+  if (isObject(item) && typeof item.id === "string") {
+    return `id:${item.id}`;
+  }
+  return `value:${JSON.stringify(item)}`;
+}
+
+/**
+ * Aligns two arrays on their longest common subsequence of item keys. Items without an id
+ * that were deleted and inserted at the same place are paired up as changes; a node with
+ * another id is another node.
+ */
+function alignArrays(before: unknown[], after: unknown[]): ArrayEdit[] {
+  const beforeKeys = before.map(itemKey);
+  const afterKeys = after.map(itemKey);
+
+  // lengths[i][j]: length of the common subsequence of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        beforeKeys[i] === afterKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const edits: ArrayEdit[] = [];
+  let deleted: DeleteEdit[] = [];
+  let inserted: InsertEdit[] = [];
+  const flush = () => {
+    const keys = [
+      ...deleted.map((edit) => beforeKeys[edit.from]),
+      ...inserted.map((edit) => afterKeys[edit.to]),
+    ];
+    const paired = keys.some((key) => key.startsWith("id:"))
+      ? 0
+      : Math.min(deleted.length, inserted.length);
+    for (let k = 0; k < paired; k++) {
+      edits.push({ kind: "change", from: deleted[k].from, to: inserted[k].to });
+    }
+    edits.push(...deleted.slice(paired), ...inserted.slice(paired));
+    deleted = [];
+    inserted = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && beforeKeys[i] === afterKeys[j]) {
+      flush();
+      edits.push({ kind: "keep", from: i++, to: j++ });
+    } else if (j >= after.length || (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      deleted.push({ kind: "delete", from: i++ });
+    } else {
+      inserted.push({ kind: "insert", to: j++ });
+    }
+  }
+  flush();
+  return edits;
+}
+
+function diffArrays(
+  before: unknown[],
+  after: unknown[],
+  path: string,
+  operations: JsonPatchOperation[],
+): void {
+  // Operations apply in order, so each one addresses the array as the previous ones left it
+  let index = 0;
+  for (const edit of alignArrays(before, after)) {
+    const itemPath = `${path}/${index}`;
+    if (edit.kind === "delete") {
+      operations.push({ op: "remove", path: itemPath });
+      continue;
+    }
+    if (edit.kind === "insert") {
+      operations.push({ op: "add", path: itemPath, value: after[edit.to] });
+    } else {
+      diffValues(before[edit.from], after[edit.to], itemPath, operations);
+    }
+    index++;
+  }
+}
+
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string,
+  operations: JsonPatchOperation[],
+): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, operations);
+    return;
+  }
+  if (isObject(before) && isObject(after)) {
+    // Keys set to undefined are absent from the JSON
+    for (const [key, value] of Object.entries(before)) {
+      if (value !== undefined && after[key] === undefined) {
+        operations.push({ op: "remove", path: `${path}/${pointerSegment(key)}` });
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      const keyPath = `${path}/${pointerSegment(key)}`;
+      if (value === undefined) {
+        continue;
+      }
+      if (before[key] !== undefined) {
+        diffValues(before[key], value, keyPath, operations);
+      } else {
+        operations.push({ op: "add", path: keyPath, value });
+      }
+    }
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    operations.push({ op: "replace", path, value: after });
+  }
+}
+
+/**
+ * Computes the JSON Patch (RFC 6902) that turns one JSON document into another. Array items
+ * are matched by id where they have one, so inserting a node adds it instead of rewriting
+ * every node after it.
+ */
+export function diffJson(before: unknown, after: unknown): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  diffValues(before, after, "", operations);
+  return operations;
+}
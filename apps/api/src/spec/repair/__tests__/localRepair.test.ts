@@ -0,0 +1,110 @@
+import { designSpecSchema } from "@eskiz/spec";
+import { describe, expect, it } from "vitest";
+import { closeTruncatedJson, parseModelJson, repairParsedSpec } from "../localRepair.js";
+
+describe("parseModelJson", () => {
+  it("parses plain JSON without fixes", () => {
+    expect(parseModelJson('{"page":"Home"}')).toEqual({ value: { page: "Home" }, fixes: [] });
+  });
+
+  it("strips markdown code fences", () => {
+    expect(parseModelJson('```json\n{"page":"Home"}\n```')).toEqual({
+      value: { page: "Home" },
+      fixes: ["strip_code_fences"],
+    });
+  });
+
+  it("closes truncated JSON", () => {
+    expect(parseModelJson('{"page":"Home","nodes":[{"type":"text","content":"Wel')).toEqual({
+      value: { page: "Home", nodes: [{ type: "text", content: "Wel" }] },
+      fixes: ["close_truncated_json"],
+    });
+  });
+
+  it("returns undefined for output that is not JSON", () => {
+    expect(parseModelJson("Sorry, I cannot help with that.")).toBeUndefined();
+  });
+});
+
+describe("closeTruncatedJson", () => {
+  it("drops a value that was cut off before it was complete", () => {
+    expect(closeTruncatedJson('{"nodes":[{"type":"text"},{"ty')).toBe(
+      '{"nodes":[{"type":"text"}]}',
+    );
+    expect(closeTruncatedJson('{"page":"Home","gap":')).toBe('{"page":"Home"}');
+  });
+
+  it("ignores brackets inside strings", () => {
+    expect(closeTruncatedJson('{"content":"a [b] {c","next":[')).toBe(
+      '{"content":"a [b] {c","next":[]}',
+    );
+  });
+
+  it("returns undefined for complete documents", () => {
+    expect(closeTruncatedJson('{"page":"Home"}')).toBeUndefined();
+  });
+});
+
+describe("repairParsedSpec", () => {
+  const frame = { name: "Main", width: 400, layout: "vertical", gap: 16, padding: 24 };
+  const validate = (value: unknown) => designSpecSchema.safeParse(value);
+
+  it("coerces numeric strings where the schema expects numbers", () => {
+    const { result, fixes } = repairParsedSpec(
+      {
+        page: "Home",
+        frame: { ...frame, width: "400", gap: "16px" },
+        nodes: [{ type: "text", content: "42", fontSize: "24" }],
+      },
+      validate,
+    );
+
+    expect(fixes).toEqual(["coerce_numeric_strings"]);
+    expect(result.success && result.data.frame).toMatchObject({ width: 400, gap: 16 });
+    // Strings the schema expects stay strings
+    expect(result.success && result.data.nodes[0]).toEqual({
+      type: "text",
+      content: "42",
+      fontSize: 24,
+    });
+  });
+
+  it("drops nodes with unknown types from their lists", () => {
+    const { result, fixes } = repairParsedSpec(
+      {
+        page: "Home",
+        frame,
+        nodes: [
+          { type: "carousel" },
+          {
+            type: "container",
+            layout: "vertical",
+            gap: 8,
+            padding: 0,
+            children: [{ type: "video" }, { type: "text", content: "Hi" }, { type: "map" }],
+          },
+          { type: "chart" },
+        ],
+      },
+      validate,
+    );
+
+    expect(fixes).toEqual(["drop_unknown_node_types"]);
+    expect(result.success && result.data.nodes).toEqual([
+      {
+        type: "container",
+        layout: "vertical",
+        gap: 8,
+        padding: 0,
+        children: [{ type: "text", content: "Hi" }],
+      },
+    ]);
+  });
+
+  it("returns the validation error when no local fix applies", () => {
+    const { result, fixes } = repairParsedSpec({ page: "Home", frame, nodes: [] }, validate);
+
+    expect(fixes).toEqual([]);
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,212 @@
+import type { SafeParseReturnType, ZodIssue } from "zod";
+
+/**
+ * Local fixes applied to model output before asking the model for a correction
+ */
+export type LocalFix =
+  | "strip_code_fences"
+  | "close_truncated_json"
+  | "coerce_numeric_strings"
+  | "drop_unknown_node_types";
+
+/**
+ * Schema validation passes run at most this many times, since fixing one issue can reveal
+ * issues that were hidden behind it
+ */
+const MAX_FIX_PASSES = 5;
+
+const CODE_FENCE = /^\s*```[a-z]*\s*\n?([\s\S]*?)\n?\s*```\s*$/i;
+// "16", "-4", "1.5" and "16px"
+const NUMERIC_STRING = /^\s*(-?\d+(?:\.\d+)?)(?:px)?\s*$/;
+
+type PathSegment = string | number;
+
+/**
+ * Completes JSON that was cut off mid-document, e.g. when the model hit its token limit.
+ * First closes the open string and brackets as they are; if that is not valid JSON, drops
+ * everything after the last complete value and closes the brackets open at that point.
+ */
+export function closeTruncatedJson(text: string): string | undefined {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Last position where the document can be cut and closed, with the brackets open there
+  let cut = { index: -1, stack: [] as string[] };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      // An empty list is a complete value; an empty object usually lacks required fields
+      if (char === "[" || stack.length === 0) {
+        cut = { index: index + 1, stack: [...stack, char === "{" ? "}" : "]"] };
+      }
+      stack.push(char === "{" ? "}" : "]");
+    } else if (char === "}" || char === "]") {
+      stack.pop();
+      cut = { index: index + 1, stack: [...stack] };
+    } else if (char === ",") {
+      cut = { index, stack: [...stack] };
+    }
+  }
+
+  if (stack.length === 0) {
+    return undefined;
+  }
+  const candidates = [`${text.trimEnd()}${inString ? '"' : ""}${[...stack].reverse().join("")}`];
+  if (cut.index >= 0) {
+    candidates.push(`${text.slice(0, cut.index)}${[...cut.stack].reverse().join("")}`);
+  }
+  return candidates.find((candidate) => {
+    try {
+      JSON.parse(candidate);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Parses model output as JSON. When plain parsing fails, strips markdown code fences and
+ * closes truncated JSON. Returns undefined if the output is not JSON even then.
+ */
+export function parseModelJson(content: string): { value: unknown; fixes: LocalFix[] } | undefined {
+  const fixes: LocalFix[] = [];
+  let text = content;
+
+  const fenced = CODE_FENCE.exec(text);
+  if (fenced) {
+    text = fenced[1];
+    fixes.push("strip_code_fences");
+  }
+
+  try {
+    return { value: JSON.parse(text), fixes };
+  } catch {
+    const closed = closeTruncatedJson(text);
+    if (closed === undefined) {
+      return undefined;
+    }
+    return { value: JSON.parse(closed), fixes: [...fixes, "close_truncated_json"] };
+  }
+}
+
+/**
+ * Lists the issues of a validation error, including the issues of every union member
+ */
+function flattenIssues(issues: ZodIssue[]): ZodIssue[] {
+  return issues.flatMap((issue) =>
+    issue.code === "invalid_union"
+      ? [issue, ...flattenIssues(issue.unionErrors.flatMap((error) => error.issues))]
+      : [issue],
+  );
+}
+
+function getAt(value: unknown, path: PathSegment[]): unknown {
+  return path.reduce<unknown>(
+    (current, segment) =>
+      typeof current === "object" && current !== null
+        ? (current as Record<PathSegment, unknown>)[segment]
+        : undefined,
+    value,
+  );
+}
+
+/**
+ * Orders paths so that removing array elements in this order never shifts a later path:
+ * deeper and later elements come first
+ */
+function compareRemovalOrder(a: PathSegment[], b: PathSegment[]): number {
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    if (a[index] !== b[index]) {
+      return typeof a[index] === "number" && typeof b[index] === "number"
+        ? (b[index] as number) - (a[index] as number)
+        : String(b[index]).localeCompare(String(a[index]));
+    }
+  }
+  return b.length - a.length;
+}
+
+/**
+ * Applies the fixes the issues call for to a copy of the value: numeric strings where the
+ * schema expects a number become numbers, and nodes with an unknown type are removed from
+ * their list
+ */
+function fixIssues(value: unknown, issues: ZodIssue[]): { value: unknown; fixes: LocalFix[] } {
+  const copy: unknown = structuredClone(value);
+  const fixes = new Set<LocalFix>();
+  const removals: PathSegment[][] = [];
+
+  for (const issue of flattenIssues(issues)) {
+    if (
+      issue.code === "invalid_type" &&
+      issue.expected === "number" &&
+      issue.received === "string"
+    ) {
+      const parent = getAt(copy, issue.path.slice(0, -1));
+      const key = issue.path[issue.path.length - 1];
+      const match = NUMERIC_STRING.exec(String(getAt(copy, issue.path)));
+      if (match && typeof parent === "object" && parent !== null && key !== undefined) {
+        (parent as Record<PathSegment, unknown>)[key] = Number(match[1]);
+        fixes.add("coerce_numeric_strings");
+      }
+    }
+
+    if (issue.code === "invalid_union_discriminator" && issue.path.at(-1) === "type") {
+      const nodePath = issue.path.slice(0, -1);
+      if (Array.isArray(getAt(copy, nodePath.slice(0, -1)))) {
+        removals.push(nodePath);
+      }
+    }
+  }
+
+  // Union members can report the same node more than once
+  const uniqueRemovals = [...new Map(removals.map((path) => [path.join("."), path])).values()];
+  for (const path of uniqueRemovals.sort(compareRemovalOrder)) {
+    const list = getAt(copy, path.slice(0, -1)) as unknown[];
+    list.splice(path[path.length - 1] as number, 1);
+    fixes.add("drop_unknown_node_types");
+  }
+
+  return { value: copy, fixes: [...fixes] };
+}
+
+/**
+ * Validates a parsed document and, while validation fails, coerces numeric strings and
+ * drops nodes with unknown types that the schema rejects. Returns the last validation result
+ * with the fixes that were applied.
+ */
+export function repairParsedSpec<T>(
+  value: unknown,
+  validate: (value: unknown) => SafeParseReturnType<unknown, T>,
+): { result: SafeParseReturnType<unknown, T>; fixes: LocalFix[] } {
+  const fixes = new Set<LocalFix>();
+  let current = value;
+  let result = validate(current);
+
+  for (let pass = 0; pass < MAX_FIX_PASSES && !result.success; pass++) {
+    const fixed = fixIssues(current, result.error.issues);
+    if (fixed.fixes.length === 0) {
+      break;
+    }
+    for (const fix of fixed.fixes) {
+      fixes.add(fix);
+    }
+    current = fixed.value;
+    result = validate(current);
+  }
+
+  return { result, fixes: [...fixes] };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+import { createNodeStream, parsePartialNodes } from "../partialNodes.js";
+
+const SPEC = JSON.stringify({
+  page: "Login",
+  frame: { name: "Login", width: 400, layout: "vertical", gap: 16, padding: 24 },
+  nodes: [
+    { type: "text", content: "Welcome back" },
+    { type: "input", label: "Email" },
+    { type: "button", label: "Sign in" },
+  ],
+});
+
+describe("parsePartialNodes", () => {
+  it("returns every node of a complete response", () => {
+    expect(parsePartialNodes(SPEC).map((node) => node.type)).toEqual(["text", "input", "button"]);
+  });
+
+  it("leaves out the last node while the response is incomplete", () => {
+    const cut = SPEC.indexOf('"Sign');
+
+    expect(parsePartialNodes(SPEC.slice(0, cut)).map((node) => node.type)).toEqual([
+      "text",
+      "input",
+    ]);
+  });
+
+  it("reads responses inside an unclosed code fence", () => {
+    const fenced = `\`\`\`json\n${SPEC.slice(0, SPEC.indexOf('{"type":"button"'))}`;
+
+    expect(parsePartialNodes(fenced)).toEqual([{ type: "text", content: "Welcome back" }]);
+  });
+
+  it("returns no nodes before the nodes array starts", () => {
+    expect(parsePartialNodes('{"page":"Login","frame":{"name":"Lo')).toEqual([]);
+    expect(parsePartialNodes("")).toEqual([]);
+  });
+});
+
+describe("createNodeStream", () => {
+  it("reports the nodes each time another one is complete", () => {
+    const onNodes = vi.fn();
+    const push = createNodeStream(onNodes);
+
+    for (let end = 1; end <= SPEC.length; end++) {
+      push(SPEC.slice(0, end));
+    }
+
+    expect(onNodes.mock.calls.map(([nodes]) => nodes.length)).toEqual([1, 2, 3]);
+  });
+});
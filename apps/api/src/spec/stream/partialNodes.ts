@@ -0,0 +1,52 @@
+import type { Node } from "@eskiz/spec";
+import { parseModelJson } from "../repair/localRepair.js";
+
+// A code fence whose closing fence has not arrived yet
+const OPENING_CODE_FENCE = /^\s*```[a-z]*\s*\n/i;
+
+function isNodeLike(value: unknown): value is Node {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { type?: unknown }).type === "string"
+  );
+}
+
+/**
+ * Extracts the top-level nodes of a DesignSpec response that is still arriving. Until the
+ * response is complete its last node may be cut off, so it is left out. The nodes are not
+ * validated yet.
+ */
+export function parsePartialNodes(content: string): Node[] {
+  const parsed = parseModelJson(content) ?? parseModelJson(content.replace(OPENING_CODE_FENCE, ""));
+  const nodes = (parsed?.value as { nodes?: unknown } | undefined)?.nodes;
+  if (!parsed || !Array.isArray(nodes)) {
+    return [];
+  }
+  const complete = nodes.filter(isNodeLike);
+  return parsed.fixes.includes("close_truncated_json") ? complete.slice(0, -1) : complete;
+}
+
+/**
+ * Follows a streaming DesignSpec response and calls onNodes with the top-level nodes
+ * whenever another one is complete
+ */
+export function createNodeStream(onNodes: (nodes: Node[]) => void): (content: string) => void {
+  let count = 0;
+  let parsedLength = 0;
+
+  return (content) => {
+    // A node can only be complete once another object or array has closed
+    const received = content.slice(parsedLength);
+    parsedLength = content.length;
+    if (!received.includes("}") && !received.includes("]")) {
+      return;
+    }
+
+    const nodes = parsePartialNodes(content);
+    if (nodes.length > count) {
+      count = nodes.length;
+      onNodes(nodes);
+    }
+  };
+}
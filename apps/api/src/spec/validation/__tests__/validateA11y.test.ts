@@ -0,0 +1,122 @@
+import type { DesignSpec, Node } from "@eskiz/spec";
+import { describe, expect, it } from "vitest";
+import { validateA11y } from "../validateA11y.js";
+
+describe("validateA11y", () => {
+  const frame = { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+
+  function specWith(nodes: Node[]): DesignSpec {
+    return { page: "Test", frame, nodes };
+  }
+
+  it("returns no warnings for labelled controls and ordered headings", () => {
+    const spec = specWith([
+      { type: "text", content: "Sign in", headingLevel: 1 },
+      { type: "text", content: "Account", headingLevel: 2 },
+      { type: "input", label: "Email" },
+      { type: "text", content: "Password", labelFor: "password-input" },
+      { type: "input", id: "password-input", inputType: "password" },
+      { type: "select", options: ["EN", "DE"], ariaLabel: "Language" },
+      { type: "button", label: "×", ariaLabel: "Close" },
+      { type: "button", label: "Sign in" },
+    ]);
+
+    expect(validateA11y(spec)).toEqual([]);
+  });
+
+  it("detects form controls without an accessible name", () => {
+    const spec = specWith([
+      {
+        type: "container",
+        layout: "vertical",
+        gap: 8,
+        padding: 0,
+        children: [
+          { type: "input", placeholder: "Search" },
+          { type: "select", id: "country", options: ["DE", "FR"] },
+        ],
+      },
+      { type: "text", content: "Country", labelFor: "region" },
+    ]);
+
+    const warnings = validateA11y(spec);
+    expect(warnings.map(({ type, path }) => ({ type, path }))).toEqual([
+      { type: "missing_label", path: "nodes[0].children[0]" },
+      { type: "missing_label", path: "nodes[0].children[1]" },
+      { type: "missing_label", path: "nodes[1]" },
+    ]);
+    expect(warnings[0].reason).toContain("placeholder is not a label");
+    expect(warnings[2].reason).toContain('"region"');
+  });
+
+  it("detects skipped heading levels, counting a navBar as level 1", () => {
+    const spec = specWith([
+      { type: "navBar", title: "Settings" },
+      { type: "text", content: "Account", headingLevel: 2 },
+      { type: "text", content: "Email", headingLevel: 4 },
+    ]);
+    const withoutTitle = specWith([{ type: "text", content: "Account", headingLevel: 2 }]);
+
+    expect(validateA11y(spec)).toEqual([
+      {
+        type: "skipped_heading_level",
+        path: "nodes[2]",
+        reason: "Heading level 4 follows level 2; levels must not be skipped.",
+      },
+    ]);
+    expect(validateA11y(withoutTitle)).toEqual([
+      expect.objectContaining({ type: "skipped_heading_level", path: "nodes[0]" }),
+    ]);
+  });
+
+  it("detects icon buttons without an ariaLabel", () => {
+    const spec = specWith([
+      { type: "button", label: "⋮" },
+      { type: "icon", name: "search", tabIndex: 0 },
+      { type: "icon", name: "star" },
+      {
+        type: "container",
+        role: "secondary-action",
+        layout: "horizontal",
+        gap: 0,
+        padding: 8,
+        children: [{ type: "icon", name: "close" }],
+      },
+    ]);
+
+    expect(validateA11y(spec).map(({ type, path }) => ({ type, path }))).toEqual([
+      { type: "unlabeled_icon_button", path: "nodes[0]" },
+      { type: "unlabeled_icon_button", path: "nodes[1]" },
+      { type: "unlabeled_icon_button", path: "nodes[3]" },
+    ]);
+  });
+
+  it("resolves labels across overlays and checks components separately", () => {
+    const spec: DesignSpec = {
+      page: "Test",
+      components: {
+        field: { node: { type: "input", placeholder: "Value" } },
+      },
+      frame: {
+        ...frame,
+        overlays: [
+          {
+            name: "Dialog",
+            nodes: [
+              { type: "text", content: "Rename", headingLevel: 2 },
+              { type: "input", id: "name-input" },
+            ],
+          },
+        ],
+      },
+      nodes: [
+        { type: "text", content: "Files", headingLevel: 1 },
+        { type: "text", content: "Name", labelFor: "name-input" },
+      ],
+    };
+
+    expect(validateA11y(spec).map(({ type, path }) => ({ type, path }))).toEqual([
+      { type: "missing_label", path: "components.field" },
+    ]);
+  });
+});
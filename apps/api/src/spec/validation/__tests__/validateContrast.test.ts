@@ -0,0 +1,129 @@
+import type { DesignSpec, Node } from "@eskiz/spec";
+import { describe, expect, it } from "vitest";
+import { validateContrast } from "../validateContrast.js";
+
+describe("validateContrast", () => {
+  const frame = { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+
+  function specWith(nodes: Node[], background?: DesignSpec["frame"]["background"]): DesignSpec {
+    return { page: "Test", frame: { ...frame, background }, nodes };
+  }
+
+  it("returns no warnings for readable text and buttons", () => {
+    const spec = specWith([
+      { type: "text", content: "Welcome" },
+      { type: "text", content: "Muted", color: "#6B7280" },
+      { type: "button", label: "Continue", background: "#2563EB", textColor: "#FFFFFF" },
+      {
+        type: "button",
+        label: "Later",
+        state: "disabled",
+        background: "#F3F4F6",
+        textColor: "#9CA3AF",
+      },
+    ]);
+
+    expect(validateContrast(spec)).toEqual([]);
+  });
+
+  it("detects light text on the frame background", () => {
+    const spec = specWith([{ type: "text", content: "Hint", color: "#D1D5DB" }], "#FFFFFF");
+
+    expect(validateContrast(spec)).toEqual([
+      {
+        type: "low_contrast",
+        path: "nodes[0]",
+        reason:
+          'Text "Hint" (#D1D5DB on #FFFFFF) has a contrast ratio of 1.47:1. WCAG AA requires 4.5:1 for normal text.',
+      },
+    ]);
+  });
+
+  it("uses the nearest container background and resolves color tokens", () => {
+    const spec: DesignSpec = {
+      ...specWith(
+        [
+          {
+            type: "container",
+            layout: "vertical",
+            gap: 8,
+            padding: 16,
+            background: { $token: "color.brand" },
+            children: [
+              {
+                type: "container",
+                layout: "vertical",
+                gap: 8,
+                padding: 0,
+                children: [
+                  { type: "text", content: "On brand", color: "#111111" },
+                  { type: "text", content: "Title", color: "#FFFFFF", fontSize: 28 },
+                ],
+              },
+            ],
+          },
+        ],
+        "#FFFFFF",
+      ),
+      tokens: { color: { brand: "#1D4ED8" } },
+    };
+
+    expect(validateContrast(spec).map(({ path }) => path)).toEqual([
+      "nodes[0].children[0].children[0]",
+    ]);
+  });
+
+  it("applies the large text threshold", () => {
+    const spec = specWith([
+      { type: "text", content: "Large", color: "#949494", fontSize: 24 },
+      { type: "text", content: "Bold", color: "#949494", fontSize: 19, fontWeight: 700 },
+      { type: "text", content: "Small", color: "#949494", fontSize: 19 },
+    ]);
+
+    expect(validateContrast(spec).map(({ path }) => path)).toEqual(["nodes[2]"]);
+  });
+
+  it("checks button labels against their own background and every gradient stop", () => {
+    const spec = specWith(
+      [
+        { type: "button", label: "Save", background: "#93C5FD", textColor: "#FFFFFF" },
+        { type: "button", label: "Skip", variant: "ghost", textColor: "#FFFFFF" },
+        { type: "text", content: "Hello", color: "#111111" },
+      ],
+      {
+        type: "linear-gradient",
+        stops: [
+          { position: 0, color: "#FFFFFF" },
+          { position: 1, color: "#1F2937" },
+        ],
+      },
+    );
+
+    expect(validateContrast(spec).map(({ path }) => path)).toEqual([
+      "nodes[0]",
+      "nodes[1]",
+      "nodes[2]",
+    ]);
+  });
+
+  it("blends overlay backdrops over the frame", () => {
+    const spec: DesignSpec = {
+      page: "Test",
+      frame: {
+        ...frame,
+        background: "#FFFFFF",
+        overlays: [
+          {
+            name: "Dim",
+            backdrop: "#000000",
+            backdropOpacity: 0.8,
+            nodes: [{ type: "text", content: "Loading", color: "#111111" }],
+          },
+        ],
+      },
+      nodes: [],
+    };
+
+    expect(validateContrast(spec).map(({ path }) => path)).toEqual(["frame.overlays[0].nodes[0]"]);
+  });
+});
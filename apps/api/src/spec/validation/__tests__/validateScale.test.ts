@@ -0,0 +1,94 @@
+import type { DesignSpec } from "@eskiz/spec";
+import { describe, expect, it } from "vitest";
+import type { ScaleRule } from "../../prompt/types.js";
+import { snapToScale, validateScale } from "../validateScale.js";
+
+describe("validateScale", () => {
+  const scale: ScaleRule = {
+    name: "scale",
+    description: "Test scale",
+    spacingGrid: 4,
+    radiusGrid: 4,
+    pillRadius: 999,
+    fontSizes: [12, 14, 16, 20, 24],
+  };
+
+  const spec: DesignSpec = {
+    page: "Test",
+    tokens: { spacing: { odd: 10 } },
+    frame: {
+      name: "Main",
+      width: 400,
+      layout: "vertical",
+      gap: 16,
+      padding: { top: 24, right: 18, bottom: 24, left: 18 },
+      overlays: [{ name: "Sheet", placement: "bottom", padding: 6, nodes: [] }],
+    },
+    components: {
+      chip: { node: { type: "button", label: "Chip", borderRadius: 9999 } },
+    },
+    nodes: [
+      { type: "text", content: "Title", fontSize: 22 },
+      {
+        type: "container",
+        layout: "vertical",
+        gap: { $token: "spacing.odd" },
+        padding: 16,
+        borderRadius: { topLeft: 12, topRight: 12, bottomRight: 0, bottomLeft: 3 },
+        children: [
+          { type: "input", label: "Email", borderRadius: 6 },
+          { type: "spacer", size: 30 },
+          { type: "text", content: "Hint", fontSize: 13 },
+        ],
+      },
+    ],
+  };
+
+  it("returns no warnings for values on the scale", () => {
+    const onScale: DesignSpec = {
+      page: "Test",
+      frame: { name: "Main", width: 400, layout: "vertical", gap: 12, padding: 24 },
+      nodes: [
+        { type: "text", content: "Title", fontSize: 24 },
+        { type: "button", label: "Go", borderRadius: 8 },
+      ],
+    };
+
+    expect(validateScale(onScale, scale)).toEqual([]);
+  });
+
+  it("reports every off-scale value with its node path", () => {
+    const warnings = validateScale(spec, scale);
+
+    expect(
+      warnings.map(({ path, property, value, expected }) => [path, property, value, expected]),
+    ).toEqual([
+      ["frame", "padding.right", 18, 20],
+      ["frame", "padding.left", 18, 20],
+      ["frame.overlays[0]", "padding", 6, 8],
+      ["nodes[0]", "fontSize", 22, 24],
+      ["nodes[1]", "borderRadius.bottomLeft", 3, 4],
+      ["nodes[1].children[0]", "borderRadius", 6, 8],
+      ["nodes[1].children[1]", "size", 30, 32],
+      ["nodes[1].children[2]", "fontSize", 13, 14],
+    ]);
+    expect(warnings[3].reason).toBe(
+      "fontSize 22 is off the type scale (12, 14, 16, 20, 24); the nearest value on it is 24.",
+    );
+  });
+
+  it("snaps off-scale values to the nearest value on the scale", () => {
+    const snapped = snapToScale(spec, scale);
+
+    expect(validateScale(snapped, scale)).toEqual([]);
+    expect(snapped.frame.padding).toEqual({ top: 24, right: 20, bottom: 24, left: 20 });
+    expect(snapped.nodes[1]).toMatchObject({
+      gap: { $token: "spacing.odd" },
+      borderRadius: { topLeft: 12, topRight: 12, bottomRight: 0, bottomLeft: 4 },
+      children: [{ borderRadius: 8 }, { size: 32 }, { fontSize: 14 }],
+    });
+    expect(snapped.components?.chip.node).toMatchObject({ borderRadius: 9999 });
+    // The input spec is left untouched
+    expect(spec.nodes[0]).toMatchObject({ fontSize: 22 });
+  });
+});
@@ -0,0 +1,153 @@
+import type { DesignSpec, Node } from "@eskiz/spec";
+import { describe, expect, it } from "vitest";
+import { validateTouchTargets } from "../validateTouchTargets.js";
+
+describe("validateTouchTargets", () => {
+  const frame = { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+
+  function specWith(nodes: Node[]): DesignSpec {
+    return { page: "Test", frame, nodes };
+  }
+
+  it("returns no warnings for full-width buttons of touch height", () => {
+    const spec = specWith([
+      { type: "button", label: "Continue", width: "fill", height: 44 },
+      { type: "button", label: "Create account", height: 48 },
+      { type: "icon", name: "star", size: 16 },
+    ]);
+
+    expect(validateTouchTargets(spec)).toEqual([]);
+  });
+
+  it("detects hugging and fixed-size buttons below 44x44", () => {
+    const spec = specWith([
+      { type: "button", label: "Continue" },
+      { type: "button", label: "×", ariaLabel: "Close", height: 44 },
+      { type: "button", label: "Go", width: 120, height: 32 },
+    ]);
+
+    const warnings = validateTouchTargets(spec);
+    expect(warnings.map(({ type, path }) => ({ type, path }))).toEqual([
+      { type: "small_touch_target", path: "nodes[0]" },
+      { type: "small_touch_target", path: "nodes[1]" },
+      { type: "small_touch_target", path: "nodes[2]" },
+    ]);
+    expect(warnings[0].reason).toContain("Set height to at least 44.");
+    expect(warnings[1].reason).toContain("renders at about 33x44px");
+    expect(warnings[1].reason).toContain("Set width to at least 44.");
+  });
+
+  it("detects selection controls and icon buttons inside containers and overlays", () => {
+    const spec: DesignSpec = {
+      page: "Test",
+      frame: {
+        ...frame,
+        overlays: [
+          {
+            name: "Toast",
+            nodes: [{ type: "icon", name: "close", tabIndex: 0, ariaLabel: "Close" }],
+          },
+        ],
+      },
+      nodes: [
+        {
+          type: "container",
+          layout: "vertical",
+          gap: 8,
+          padding: 0,
+          children: [
+            { type: "checkbox", label: "Remember me" },
+            {
+              type: "container",
+              role: "secondary-action",
+              layout: "horizontal",
+              gap: 0,
+              padding: 8,
+              ariaLabel: "Search",
+              children: [{ type: "icon", name: "search" }],
+            },
+            {
+              type: "container",
+              role: "secondary-action",
+              layout: "horizontal",
+              gap: 0,
+              padding: 12,
+              ariaLabel: "Settings",
+              children: [{ type: "icon", name: "settings" }],
+            },
+          ],
+        },
+      ],
+    };
+
+    const warnings = validateTouchTargets(spec);
+    expect(warnings.map(({ path }) => path)).toEqual([
+      "nodes[0].children[0]",
+      "nodes[0].children[1]",
+      "frame.overlays[0].nodes[0]",
+    ]);
+    expect(warnings[0].reason).toContain("listItem");
+  });
+
+  it("measures selection controls with the row around them", () => {
+    const row = (padding: number, control: Node): Node => ({
+      type: "container",
+      layout: "horizontal",
+      gap: 8,
+      padding,
+      children: [control],
+    });
+    const spec = specWith([
+      row(12, { type: "checkbox", label: "Remember me" }),
+      row(4, { type: "radio", label: "Monthly" }),
+      {
+        type: "container",
+        layout: "vertical",
+        gap: 0,
+        padding: 0,
+        height: 48,
+        children: [{ type: "toggle", label: "Notifications" }],
+      },
+    ]);
+
+    const warnings = validateTouchTargets(spec);
+    expect(warnings.map(({ path }) => path)).toEqual(["nodes[1].children[0]"]);
+    expect(warnings[0].reason).toContain("renders at about 98x28px");
+  });
+
+  it("checks nav bar actions, tabs and list rows", () => {
+    const spec = specWith([
+      { type: "navBar", title: "Inbox", leadingIcon: "menu", actions: ["search", "filter"] },
+      {
+        type: "list",
+        width: 40,
+        items: [
+          { type: "listItem", title: "Wi-Fi", control: "toggle" },
+          { type: "listItem", title: "Version" },
+        ],
+      },
+      {
+        type: "list",
+        items: [{ type: "listItem", title: "Privacy", trailingIcon: "chevron-right" }],
+      },
+      { type: "tabBar", tabs: [{ label: "Home" }, { label: "Profile" }] },
+      {
+        type: "tabBar",
+        tabs: [
+          { label: "Home", icon: "home" },
+          { label: "Profile", icon: "user" },
+        ],
+      },
+    ]);
+
+    const warnings = validateTouchTargets(spec);
+    expect(warnings.map(({ path }) => path)).toEqual([
+      "nodes[0].actions[0]",
+      "nodes[1].items[0]",
+      "nodes[3].tabs[0]",
+      "nodes[3].tabs[1]",
+    ]);
+    expect(warnings[0].reason).toContain("renders at about 36x48px");
+    expect(warnings[2].reason).toContain("Give the tabs icons.");
+  });
+});
@@ -1,6 +1,6 @@
 import type { DesignSpec } from "@eskiz/spec";
 import { describe, expect, it } from "vitest";
-import { validateVisualUsage } from "../validateVisualUsage.js";
+import { stripLayoutStyling, validateVisualUsage } from "../validateVisualUsage.js";
 
 describe("validateVisualUsage", () => {
   it("returns no warnings for spec without visual styling on layout containers", () => {
@@ -111,7 +111,10 @@ describe("validateVisualUsage", () => {
           padding: 12,
           background: "#FFFFFF",
           border: { color: "#D1D5DB", width: 1 },
-          children: [{ type: "text", content: "Enter your email" }],
+          children: [
+            { type: "icon", name: "search" },
+            { type: "input", placeholder: "Search" },
+          ],
         },
       ],
     };
@@ -120,7 +123,7 @@ describe("validateVisualUsage", () => {
     expect(warnings).toHaveLength(0);
   });
 
-  it("does not flag card-like containers", () => {
+  it("flags bordered containers that only fake an input with placeholder text", () => {
     const spec: DesignSpec = {
       page: "Test",
       frame: {
@@ -134,6 +137,34 @@ describe("validateVisualUsage", () => {
         {
           type: "container",
           layout: "vertical",
+          gap: 0,
+          padding: 12,
+          border: { color: "#D1D5DB", width: 1 },
+          children: [{ type: "text", content: "Enter your email" }],
+        },
+      ],
+    };
+
+    const warnings = validateVisualUsage(spec);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].properties).toContain("border");
+  });
+
+  it("does not flag containers with a surface role", () => {
+    const spec: DesignSpec = {
+      page: "Test",
+      frame: {
+        name: "Test Frame",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        {
+          type: "container",
+          role: "card",
+          layout: "vertical",
           gap: 24,
           padding: 24,
           background: "#FFFFFF",
@@ -170,6 +201,7 @@ describe("validateVisualUsage", () => {
       nodes: [
         {
           type: "container",
+          role: "form-card",
           layout: "vertical",
           gap: 24,
           padding: 24,
@@ -270,4 +302,191 @@ describe("validateVisualUsage", () => {
     expect(warnings[0].properties).toContain("borderRadius=12");
     expect(warnings[0].properties).toContain("border");
   });
+
+  it("flags padded styled containers without a surface role", () => {
+    const spec: DesignSpec = {
+      page: "Test",
+      tokens: { color: { surface: "#FFFFFF" }, spacing: { lg: 16 }, radius: { lg: 12 } },
+      frame: {
+        name: "Test Frame",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        {
+          type: "container",
+          layout: "vertical",
+          gap: 8,
+          padding: { $token: "spacing.lg" },
+          background: { $token: "color.surface" },
+          borderRadius: { $token: "radius.lg" },
+          children: [{ type: "text", content: "Card content" }],
+        },
+        {
+          type: "container",
+          role: "field-group",
+          layout: "vertical",
+          gap: 8,
+          padding: 24,
+          background: "#FFFFFF",
+          children: [{ type: "input", placeholder: "Email" }],
+        },
+      ],
+    };
+
+    const warnings = validateVisualUsage(spec);
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0].properties).toEqual([
+      'background="{$token:color.surface}"',
+      "borderRadius={$token:radius.lg}",
+    ]);
+    expect(warnings[1].reason).toContain('Container with role "field-group"');
+    expect(warnings[1].reason).toContain("layout-only");
+  });
+
+  it("reports gradients, per-corner radii and shadows on layout containers", () => {
+    const spec: DesignSpec = {
+      page: "Test",
+      frame: {
+        name: "Test Frame",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        {
+          type: "container",
+          role: "actions",
+          layout: "horizontal",
+          gap: 8,
+          padding: { top: 16, right: 0, bottom: 0, left: 0 },
+          background: {
+            type: "linear-gradient",
+            stops: [
+              { position: 0, color: "#FFFFFF" },
+              { position: 1, color: "#F3F4F6" },
+            ],
+          },
+          borderRadius: { topLeft: 12, topRight: 12, bottomRight: 0, bottomLeft: 0 },
+          shadows: [{ x: 0, y: 1, blur: 3, color: "#000000", opacity: 0.1 }],
+          children: [{ type: "button", label: "Save" }],
+        },
+      ],
+    };
+
+    const warnings = validateVisualUsage(spec);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].properties).toEqual([
+      'background="{"type":"linear-gradient","stops":[{"position":0,"color":"#FFFFFF"},{"position":1,"color":"#F3F4F6"}]}"',
+      'borderRadius={"topLeft":12,"topRight":12,"bottomRight":0,"bottomLeft":0}',
+      "shadows",
+    ]);
+  });
+
+  it("validates component definitions with component paths", () => {
+    const spec: DesignSpec = {
+      page: "Test",
+      components: {
+        "field-row": {
+          node: {
+            type: "container",
+            layout: "horizontal",
+            gap: 8,
+            padding: 0,
+            background: "#FFFFFF",
+            borderRadius: 8,
+            children: [{ type: "text", content: "Row" }],
+          },
+        },
+      },
+      frame: {
+        name: "Test Frame",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [{ type: "instance", component: "field-row" }],
+    };
+
+    const warnings = validateVisualUsage(spec);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]?.path).toBe("components.field-row");
+  });
+
+  it("validates overlay nodes with overlay paths", () => {
+    const spec: DesignSpec = {
+      page: "Test",
+      frame: {
+        name: "Test Frame",
+        width: 400,
+        layout: "vertical",
+        gap: 16,
+        padding: 24,
+        overlays: [
+          {
+            name: "Confirm",
+            backdrop: "#000000",
+            nodes: [
+              { type: "text", content: "Delete?" },
+              {
+                type: "container",
+                role: "actions",
+                layout: "horizontal",
+                gap: 8,
+                padding: 0,
+                background: "#F3F4F6",
+                children: [{ type: "button", label: "Delete" }],
+              },
+            ],
+          },
+        ],
+      },
+      nodes: [{ type: "text", content: "Settings" }],
+    };
+
+    const warnings = validateVisualUsage(spec);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]?.path).toBe("frame.overlays[0].nodes[1]");
+  });
+
+  it("strips visual styling from layout containers only", () => {
+    const card = {
+      type: "container" as const,
+      role: "card" as const,
+      layout: "vertical" as const,
+      background: "#FFFFFF",
+      borderRadius: 8,
+      children: [],
+    };
+    const spec: DesignSpec = {
+      page: "Test",
+      frame: { name: "Test Frame", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [
+        {
+          type: "container",
+          layout: "horizontal",
+          gap: 8,
+          background: "#F3F4F6",
+          borderRadius: 12,
+          border: { color: "#E5E7EB", width: 1 },
+          shadows: [{ type: "drop", color: "#0000001A", offsetX: 0, offsetY: 2, blur: 4 }],
+          children: [card],
+        },
+      ],
+    };
+
+    const fixed = stripLayoutStyling(spec);
+
+    expect(validateVisualUsage(fixed)).toHaveLength(0);
+    expect(fixed.nodes[0]).toEqual({
+      type: "container",
+      layout: "horizontal",
+      gap: 8,
+      children: [card],
+    });
+  });
 });
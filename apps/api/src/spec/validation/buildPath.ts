@@ -0,0 +1,22 @@
+/**
+ * Builds a path string for a node (e.g., "nodes[0].children[2]" or "frame.overlays[0].nodes[1]")
+ */
+export function buildPath(segments: (string | number)[]): string {
+  const parts: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (typeof segment === "number") {
+      const prev = segments[i - 1];
+      if (prev === "nodes" || prev === "children") {
+        parts.push(`${prev}[${segment}]`);
+      } else if (parts.length > 0) {
+        parts[parts.length - 1] += `[${segment}]`;
+      } else {
+        parts.push(`[${segment}]`);
+      }
+    } else if (segment !== "nodes" && segment !== "children") {
+      parts.push(segment);
+    }
+  }
+  return parts.join(".");
+}
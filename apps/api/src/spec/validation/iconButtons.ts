@@ -0,0 +1,31 @@
+import type { Node } from "@eskiz/spec";
+
+/**
+ * Checks if a visible label is readable text rather than a glyph such as "×" or "⋮"
+ */
+function hasReadableText(label: string): boolean {
+  return /[\p{L}\p{N}]/u.test(label);
+}
+
+/**
+ * Checks if a node is an icon-only button: a button whose label is a glyph, a focusable
+ * icon, or an action container holding nothing but icons
+ */
+export function isIconButton(node: Node): boolean {
+  if (node.type === "button") {
+    return !hasReadableText(node.label);
+  }
+  const isFocusable = node.tabIndex !== undefined && node.tabIndex >= 0;
+  if (node.type === "icon") {
+    return isFocusable;
+  }
+  if (node.type === "container") {
+    const isAction = node.role === "primary-action" || node.role === "secondary-action";
+    return (
+      (isFocusable || isAction) &&
+      node.children.length > 0 &&
+      node.children.every((child) => child.type === "icon")
+    );
+  }
+  return false;
+}
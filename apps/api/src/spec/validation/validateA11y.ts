@@ -0,0 +1,158 @@
+import type { DesignSpec, Node, TargetLayout } from "@eskiz/spec";
+import { buildPath } from "./buildPath.js";
+import { isIconButton } from "./iconButtons.js";
+import { validateContrast } from "./validateContrast.js";
+import { validateTouchTargets } from "./validateTouchTargets.js";
+
+export type A11yWarningType =
+  | "missing_label"
+  | "skipped_heading_level"
+  | "unlabeled_icon_button"
+  | "low_contrast"
+  | "small_touch_target";
+
+/**
+ * Accessibility finding for a single node
+ */
+export interface A11yWarning {
+  type: A11yWarningType;
+  /**
+   * Path to the problematic node (e.g., "nodes[0].children[2]")
+   */
+  path: string;
+  /**
+   * What is missing and how to fix it
+   */
+  reason: string;
+}
+
+interface VisitedNode {
+  node: Node;
+  pathSegments: (string | number)[];
+}
+
+/**
+ * Lists a node tree depth-first in reading order, including container children and list rows
+ */
+function collectNodes(nodes: Node[], pathSegments: (string | number)[]): VisitedNode[] {
+  return nodes.flatMap((node, index) => {
+    const nodeSegments = [...pathSegments, index];
+    const visited: VisitedNode[] = [{ node, pathSegments: nodeSegments }];
+    if (node.type === "container") {
+      visited.push(...collectNodes(node.children, [...nodeSegments, "children"]));
+    } else if (node.type === "list") {
+      visited.push(...collectNodes(node.items, [...nodeSegments, "items"]));
+    }
+    return visited;
+  });
+}
+
+/**
+ * Checks one node tree (a screen with its overlays, or a component definition).
+ * Ids and labelFor references resolve within the tree; heading levels are checked in
+ * reading order, with a navBar title counting as level 1.
+ */
+function validateTree(visited: VisitedNode[], checkHeadings: boolean): A11yWarning[] {
+  const warnings: A11yWarning[] = [];
+  const ids = new Set<string>();
+  const labelledIds = new Set<string>();
+  for (const { node } of visited) {
+    if (node.id) {
+      ids.add(node.id);
+    }
+    if (node.type === "text" && node.labelFor) {
+      labelledIds.add(node.labelFor);
+    }
+  }
+
+  let previousLevel = 0;
+  for (const { node, pathSegments } of visited) {
+    const path = buildPath(pathSegments);
+
+    if (node.type === "text" && node.labelFor && !ids.has(node.labelFor)) {
+      warnings.push({
+        type: "missing_label",
+        path,
+        reason: `Text labels "${node.labelFor}", but no node in this tree has that id.`,
+      });
+    }
+
+    if (
+      (node.type === "input" || node.type === "select") &&
+      !node.label &&
+      !node.ariaLabel &&
+      !(node.id && labelledIds.has(node.id))
+    ) {
+      warnings.push({
+        type: "missing_label",
+        path,
+        reason: [
+          `${node.type === "input" ? "Input" : "Select"} has no accessible name.`,
+          "Add a label, an ariaLabel or a text with labelFor set to its id; a placeholder is not a label.",
+        ].join(" "),
+      });
+    }
+
+    if (isIconButton(node) && !node.ariaLabel) {
+      const subject = node.type === "button" ? `Button "${node.label}"` : `Focusable ${node.type}`;
+      warnings.push({
+        type: "unlabeled_icon_button",
+        path,
+        reason: `${subject} has no readable text. Add an ariaLabel naming the action, e.g. "Close".`,
+      });
+    }
+
+    if (!checkHeadings) {
+      continue;
+    }
+    const level = node.type === "navBar" ? 1 : node.type === "text" ? node.headingLevel : undefined;
+    if (level === undefined) {
+      continue;
+    }
+    if (level > previousLevel + 1) {
+      warnings.push({
+        type: "skipped_heading_level",
+        path,
+        reason:
+          previousLevel === 0
+            ? `First heading has level ${level}; the screen title should be level 1.`
+            : `Heading level ${level} follows level ${previousLevel}; levels must not be skipped.`,
+      });
+    }
+    previousLevel = level;
+  }
+
+  return warnings;
+}
+
+/**
+ * Traverses a DesignSpec and reports form controls without labels, skipped heading levels,
+ * icon buttons without an accessible name and text below WCAG AA contrast. On mobile,
+ * buttons and controls smaller than a touch target are reported as well.
+ */
+export function validateA11y(spec: DesignSpec, targetLayout?: TargetLayout): A11yWarning[] {
+  // Overlays are read after the screen content and share its id namespace
+  const screenNodes = [
+    ...collectNodes(spec.nodes, ["nodes"]),
+    ...(spec.frame.overlays ?? []).flatMap((overlay, overlayIndex) =>
+      collectNodes(overlay.nodes, ["frame", "overlays", overlayIndex, "nodes"]),
+    ),
+  ];
+  const warnings = validateTree(screenNodes, true);
+
+  // A component's headings depend on where it is placed, so only labels are checked
+  for (const [name, definition] of Object.entries(spec.components ?? {})) {
+    const definitionNodes = collectNodes([definition.node], ["components"]).map((visited) => ({
+      ...visited,
+      pathSegments: ["components", name, ...visited.pathSegments.slice(2)],
+    }));
+    warnings.push(...validateTree(definitionNodes, false));
+  }
+
+  warnings.push(...validateContrast(spec));
+  if (targetLayout === "mobile") {
+    warnings.push(...validateTouchTargets(spec));
+  }
+
+  return warnings;
+}
@@ -0,0 +1,235 @@
+import { isTokenRef, resolveColor } from "@eskiz/spec";
+import type { ColorValue, DesignSpec, DesignTokens, FillValue, Node } from "@eskiz/spec";
+import { buildPath } from "./buildPath.js";
+import type { A11yWarning } from "./validateA11y.js";
+
+/**
+ * WCAG AA minimum contrast ratios for normal and large text
+ */
+const AA_NORMAL_TEXT_RATIO = 4.5;
+const AA_LARGE_TEXT_RATIO = 3;
+
+/**
+ * Large text is at least 24px, or at least 18.66px (14pt) when bold
+ */
+const LARGE_TEXT_SIZE = 24;
+const LARGE_BOLD_TEXT_SIZE = 18.66;
+const BOLD_FONT_WEIGHT = 700;
+
+/**
+ * What the Figma plugin renders when a spec leaves these unset
+ */
+const DEFAULT_BACKGROUND = "#FFFFFF";
+const DEFAULT_TEXT_COLOR = "#111111";
+const DEFAULT_FONT_SIZE = 16;
+const DEFAULT_FONT_WEIGHT = 400;
+const NAV_BAR_TITLE_SIZE = 18;
+const NAV_BAR_TITLE_WEIGHT = 600;
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Parses "#RGB" or "#RRGGBB" into 0-255 channels; an alpha suffix is ignored, as in the plugin
+ */
+function parseHex(value: string): Rgb | undefined {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6}(?:[0-9a-f]{2})?)$/i.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const hex =
+    match[1].length === 3
+      ? [...match[1]].map((digit) => digit + digit).join("")
+      : match[1].slice(0, 6);
+  return {
+    r: Number.parseInt(hex.slice(0, 2), 16),
+    g: Number.parseInt(hex.slice(2, 4), 16),
+    b: Number.parseInt(hex.slice(4, 6), 16),
+  };
+}
+
+function toHex({ r, g, b }: Rgb): string {
+  return `#${[r, g, b]
+    .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase()}`;
+}
+
+/**
+ * Relative luminance as defined by WCAG 2
+ */
+function luminance({ r, g, b }: Rgb): number {
+  const [red, green, blue] = [r, g, b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+function contrastRatio(foreground: Rgb, background: Rgb): number {
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Mixes a color over another at the given opacity
+ */
+function blend(color: Rgb, behind: Rgb, opacity: number): Rgb {
+  return {
+    r: color.r * opacity + behind.r * (1 - opacity),
+    g: color.g * opacity + behind.g * (1 - opacity),
+    b: color.b * opacity + behind.b * (1 - opacity),
+  };
+}
+
+function parseColor(
+  value: ColorValue | undefined,
+  tokens: DesignTokens | undefined,
+): Rgb | undefined {
+  const resolved = resolveColor(value, tokens);
+  return resolved === undefined ? undefined : parseHex(resolved);
+}
+
+/**
+ * Resolves the colors a fill shows: one for a solid color, every stop for a gradient.
+ * Without a fill, or with a color that cannot be resolved, the colors behind show through.
+ */
+function resolveFill(
+  fill: FillValue | undefined,
+  tokens: DesignTokens | undefined,
+  behind: Rgb[],
+): Rgb[] {
+  if (fill === undefined) {
+    return behind;
+  }
+  if (typeof fill === "object" && !isTokenRef(fill)) {
+    const stops = fill.stops
+      .map((stop) => parseColor(stop.color, tokens))
+      .filter((color): color is Rgb => color !== undefined);
+    return stops.length > 0 ? stops : behind;
+  }
+  const color = parseColor(fill, tokens);
+  return color ? [color] : behind;
+}
+
+/**
+ * Checks if text at this size and weight counts as large text for WCAG
+ */
+function isLargeText(fontSize: number, fontWeight: number): boolean {
+  return (
+    fontSize >= LARGE_TEXT_SIZE ||
+    (fontSize >= LARGE_BOLD_TEXT_SIZE && fontWeight >= BOLD_FONT_WEIGHT)
+  );
+}
+
+/**
+ * Traverses a DesignSpec and reports text whose contrast against the background behind it
+ * is below WCAG AA. The background is found by walking up the containers to the frame;
+ * for gradients the stop with the lowest contrast counts.
+ */
+export function validateContrast(spec: DesignSpec): A11yWarning[] {
+  const warnings: A11yWarning[] = [];
+  const tokens = spec.tokens;
+
+  function checkText(
+    subject: string,
+    color: ColorValue | undefined,
+    backgrounds: Rgb[],
+    fontSize: number,
+    fontWeight: number,
+    pathSegments: (string | number)[],
+  ): void {
+    const foreground = parseColor(color ?? DEFAULT_TEXT_COLOR, tokens);
+    if (!foreground || backgrounds.length === 0) {
+      return;
+    }
+    const worst = backgrounds
+      .map((background) => ({ background, ratio: contrastRatio(foreground, background) }))
+      .reduce((lowest, entry) => (entry.ratio < lowest.ratio ? entry : lowest));
+    const isLarge = isLargeText(fontSize, fontWeight);
+    const required = isLarge ? AA_LARGE_TEXT_RATIO : AA_NORMAL_TEXT_RATIO;
+    if (worst.ratio >= required) {
+      return;
+    }
+    warnings.push({
+      type: "low_contrast",
+      path: buildPath(pathSegments),
+      reason: [
+        `${subject} (${toHex(foreground)} on ${toHex(worst.background)}) has a contrast ratio of ${worst.ratio.toFixed(2)}:1.`,
+        `WCAG AA requires ${required}:1 for ${isLarge ? "large" : "normal"} text.`,
+      ].join(" "),
+    });
+  }
+
+  function traverseNode(node: Node, backgrounds: Rgb[], pathSegments: (string | number)[]): void {
+    if (node.type === "text") {
+      const typography = node.variant ? tokens?.typography?.[node.variant] : undefined;
+      checkText(
+        `Text "${node.content}"`,
+        node.color,
+        backgrounds,
+        node.fontSize ?? typography?.fontSize ?? DEFAULT_FONT_SIZE,
+        node.fontWeight ?? typography?.fontWeight ?? DEFAULT_FONT_WEIGHT,
+        pathSegments,
+      );
+      return;
+    }
+
+    // Disabled controls are exempt; unset button colors come from the plugin's variant styles
+    if (node.type === "button") {
+      const hasOwnColors =
+        node.textColor !== undefined && (node.background !== undefined || node.variant === "ghost");
+      if (node.state !== "disabled" && hasOwnColors) {
+        checkText(
+          `Button "${node.label}"`,
+          node.textColor,
+          resolveFill(node.background, tokens, backgrounds),
+          DEFAULT_FONT_SIZE,
+          DEFAULT_FONT_WEIGHT,
+          pathSegments,
+        );
+      }
+      return;
+    }
+
+    if (node.type === "navBar") {
+      checkText(
+        `Navigation bar title "${node.title}"`,
+        node.color,
+        resolveFill(node.background ?? DEFAULT_BACKGROUND, tokens, backgrounds),
+        NAV_BAR_TITLE_SIZE,
+        NAV_BAR_TITLE_WEIGHT,
+        pathSegments,
+      );
+      return;
+    }
+
+    if (node.type === "container") {
+      const containerBackgrounds = resolveFill(node.background, tokens, backgrounds);
+      node.children.forEach((child, index) => {
+        traverseNode(child, containerBackgrounds, [...pathSegments, "children", index]);
+      });
+    }
+  }
+
+  const frameBackgrounds = resolveFill(spec.frame.background ?? DEFAULT_BACKGROUND, tokens, []);
+  spec.nodes.forEach((node, index) => {
+    traverseNode(node, frameBackgrounds, ["nodes", index]);
+  });
+
+  // Overlay nodes sit on the backdrop, drawn over the frame at backdropOpacity
+  spec.frame.overlays?.forEach((overlay, overlayIndex) => {
+    const backdrop = parseColor(overlay.backdrop, tokens);
+    const overlayBackgrounds = backdrop
+      ? frameBackgrounds.map((behind) => blend(backdrop, behind, overlay.backdropOpacity ?? 1))
+      : frameBackgrounds;
+    overlay.nodes.forEach((node, index) => {
+      traverseNode(node, overlayBackgrounds, ["frame", "overlays", overlayIndex, "nodes", index]);
+    });
+  });
+
+  return warnings;
+}
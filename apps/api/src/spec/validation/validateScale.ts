@@ -0,0 +1,213 @@
+import { isTokenRef } from "@eskiz/spec";
+import type { CornerRadiusValue, DesignSpec, Node, PaddingValue, SpacingValue } from "@eskiz/spec";
+import type { ScaleRule } from "../prompt/types.js";
+import { buildPath } from "./buildPath.js";
+
+/**
+ * A gap, padding, spacer size, font size or corner radius off the configured scale
+ */
+export interface ScaleWarning {
+  /**
+   * Path to the node (e.g., "nodes[0].children[2]", or "frame" for the root frame)
+   */
+  path: string;
+  /**
+   * Offending property, with the side or corner for per-side values (e.g., "padding.top")
+   */
+  property: string;
+  value: number;
+  /**
+   * Nearest value on the scale; the auto-snap fixer replaces the value with it
+   */
+  expected: number;
+  reason: string;
+}
+
+/**
+ * Rounds to the nearest multiple of the grid
+ */
+function snapToGrid(value: number, grid: number): number {
+  return Math.round(value / grid) * grid;
+}
+
+/**
+ * Picks the nearest allowed font size, the larger one on ties
+ */
+function snapToFontSize(value: number, fontSizes: number[]): number {
+  return fontSizes.reduce((nearest, size) => {
+    const distance = Math.abs(size - value);
+    const nearestDistance = Math.abs(nearest - value);
+    return distance < nearestDistance || (distance === nearestDistance && size > nearest)
+      ? size
+      : nearest;
+  });
+}
+
+/**
+ * Checks every scale value of a spec and, when `snap` is set, returns a copy with the
+ * off-scale values replaced by the nearest value on the scale. Token references are on
+ * the scale by definition and are left alone.
+ */
+function applyScale(
+  spec: DesignSpec,
+  scale: ScaleRule,
+  snap: boolean,
+): { spec: DesignSpec; warnings: ScaleWarning[] } {
+  const warnings: ScaleWarning[] = [];
+
+  function check(
+    value: number,
+    expected: number,
+    pathSegments: (string | number)[],
+    property: string,
+    scaleName: string,
+  ): number {
+    if (value === expected) {
+      return value;
+    }
+    warnings.push({
+      path: buildPath(pathSegments),
+      property,
+      value,
+      expected,
+      reason: `${property} ${value} is off the ${scaleName}; the nearest value on it is ${expected}.`,
+    });
+    return snap ? expected : value;
+  }
+
+  function checkSpacing<T extends SpacingValue | undefined>(
+    value: T,
+    pathSegments: (string | number)[],
+    property: string,
+  ): T {
+    if (typeof value !== "number") {
+      return value;
+    }
+    const expected = snapToGrid(value, scale.spacingGrid);
+    const spacingGrid = `${scale.spacingGrid}px spacing grid`;
+    return check(value, expected, pathSegments, property, spacingGrid) as T;
+  }
+
+  function checkPadding<T extends PaddingValue | undefined>(
+    value: T,
+    pathSegments: (string | number)[],
+  ): T {
+    if (value === undefined || typeof value === "number" || isTokenRef(value)) {
+      return checkSpacing(value as SpacingValue | undefined, pathSegments, "padding") as T;
+    }
+    return {
+      top: checkSpacing(value.top, pathSegments, "padding.top"),
+      right: checkSpacing(value.right, pathSegments, "padding.right"),
+      bottom: checkSpacing(value.bottom, pathSegments, "padding.bottom"),
+      left: checkSpacing(value.left, pathSegments, "padding.left"),
+    } as T;
+  }
+
+  function checkRadius<T extends CornerRadiusValue | undefined>(
+    value: T,
+    pathSegments: (string | number)[],
+    property = "borderRadius",
+  ): T {
+    if (value === undefined || isTokenRef(value)) {
+      return value;
+    }
+    if (typeof value === "object") {
+      return {
+        topLeft: checkRadius(value.topLeft, pathSegments, "borderRadius.topLeft"),
+        topRight: checkRadius(value.topRight, pathSegments, "borderRadius.topRight"),
+        bottomRight: checkRadius(value.bottomRight, pathSegments, "borderRadius.bottomRight"),
+        bottomLeft: checkRadius(value.bottomLeft, pathSegments, "borderRadius.bottomLeft"),
+      } as T;
+    }
+    // Pill radii round the whole side, whatever their exact value
+    if (typeof value !== "number" || value >= scale.pillRadius) {
+      return value;
+    }
+    const expected = snapToGrid(value, scale.radiusGrid);
+    const radiusGrid = `${scale.radiusGrid}px radius grid`;
+    return check(value, expected, pathSegments, property, radiusGrid) as T;
+  }
+
+  function checkFontSize(
+    value: number | undefined,
+    pathSegments: (string | number)[],
+  ): number | undefined {
+    if (value === undefined) {
+      return value;
+    }
+    const expected = snapToFontSize(value, scale.fontSizes);
+    const typeScale = `type scale (${scale.fontSizes.join(", ")})`;
+    return check(value, expected, pathSegments, "fontSize", typeScale);
+  }
+
+  function checkNode(node: Node, pathSegments: (string | number)[]): Node {
+    switch (node.type) {
+      case "text":
+        return { ...node, fontSize: checkFontSize(node.fontSize, pathSegments) };
+      case "button":
+      case "image":
+      case "input":
+      case "select":
+      case "list":
+        return { ...node, borderRadius: checkRadius(node.borderRadius, pathSegments) };
+      case "spacer":
+        return { ...node, size: checkSpacing(node.size, pathSegments, "size") };
+      case "container":
+        return {
+          ...node,
+          gap: checkSpacing(node.gap, pathSegments, "gap"),
+          padding: checkPadding(node.padding, pathSegments),
+          borderRadius: checkRadius(node.borderRadius, pathSegments),
+          children: node.children.map((child, index) =>
+            checkNode(child, [...pathSegments, "children", index]),
+          ),
+        };
+      default:
+        return node;
+    }
+  }
+
+  const frame: DesignSpec["frame"] = {
+    ...spec.frame,
+    gap: checkSpacing(spec.frame.gap, ["frame"], "gap"),
+    padding: checkPadding(spec.frame.padding, ["frame"]),
+    borderRadius: checkRadius(spec.frame.borderRadius, ["frame"]),
+    overlays: spec.frame.overlays?.map((overlay, overlayIndex) => {
+      const overlaySegments = ["frame", "overlays", overlayIndex];
+      return {
+        ...overlay,
+        padding: checkPadding(overlay.padding, overlaySegments),
+        nodes: overlay.nodes.map((node, index) =>
+          checkNode(node, [...overlaySegments, "nodes", index]),
+        ),
+      };
+    }),
+  };
+  const nodes = spec.nodes.map((node, index) => checkNode(node, ["nodes", index]));
+  const components =
+    spec.components &&
+    Object.fromEntries(
+      Object.entries(spec.components).map(([name, definition]) => [
+        name,
+        { ...definition, node: checkNode(definition.node, ["components", name]) },
+      ]),
+    );
+
+  return { spec: snap ? { ...spec, components, frame, nodes } : spec, warnings };
+}
+
+/**
+ * Traverses a DesignSpec and reports every gap, padding, spacer size, fontSize and
+ * borderRadius that is off the spacing, radius or type scale
+ */
+export function validateScale(spec: DesignSpec, scale: ScaleRule): ScaleWarning[] {
+  return applyScale(spec, scale, false).warnings;
+}
+
+/**
+ * Auto-snap fixer: returns a copy of the spec with every off-scale value replaced by the
+ * nearest value on the scale
+ */
+export function snapToScale(spec: DesignSpec, scale: ScaleRule): DesignSpec {
+  return applyScale(spec, scale, true).spec;
+}
@@ -0,0 +1,284 @@
+import { resolveNumber, resolvePadding } from "@eskiz/spec";
+import type { DesignSpec, Node, Sizing } from "@eskiz/spec";
+import { buildPath } from "./buildPath.js";
+import { isIconButton } from "./iconButtons.js";
+import type { A11yWarning } from "./validateA11y.js";
+
+/**
+ * Minimum touch target on mobile in px (Apple HIG, WCAG 2.5.5)
+ */
+export const MIN_TOUCH_TARGET = 44;
+
+/**
+ * Sizes the Figma plugin renders with, used to estimate hugging controls
+ */
+const FONT_SIZE = 16;
+const LINE_HEIGHT_RATIO = 1.2;
+// Average glyph width of Inter relative to the font size
+const CHAR_WIDTH_RATIO = 0.55;
+const BUTTON_PADDING = 12;
+const ICON_SIZE = 24;
+const CONTROL_SIZE = 20;
+const CONTROL_GAP = 8;
+const TOGGLE_WIDTH = 40;
+const TOGGLE_HEIGHT = 24;
+const BAR_PADDING = { top: 12, right: 16, bottom: 12, left: 16 };
+const BAR_GAP = 12;
+const NAV_BAR_TITLE_SIZE = 18;
+const TAB_BAR_PADDING = 8;
+const TAB_GAP = 4;
+const TAB_LABEL_SIZE = 12;
+
+interface Size {
+  width?: number;
+  height?: number;
+}
+
+/**
+ * A tappable part of a node, such as a nav bar icon, checked on its own
+ */
+interface PartTarget {
+  segments: (string | number)[];
+  description: string;
+  size: Size;
+  fix: string;
+}
+
+/**
+ * Estimated width of a single line of text
+ */
+function textWidth(text: string): number {
+  return text.length * FONT_SIZE * CHAR_WIDTH_RATIO;
+}
+
+function lineHeight(fontSize: number): number {
+  return fontSize * LINE_HEIGHT_RATIO;
+}
+
+type SelectionControl = Extract<Node, { type: "checkbox" | "radio" | "toggle" }>;
+
+function isSelectionControl(node: Node): node is SelectionControl {
+  return node.type === "checkbox" || node.type === "radio" || node.type === "toggle";
+}
+
+/**
+ * Picks a fixed size, or the estimated hug size; "fill" sizes depend on the parent and
+ * are not checked
+ */
+function sizeAlong(sizing: Sizing | undefined, hugSize: number): number | undefined {
+  if (typeof sizing === "number") {
+    return sizing;
+  }
+  return sizing === "fill" ? undefined : hugSize;
+}
+
+/**
+ * Estimates the row of a selection control: the indicator and its label, or the container
+ * around them when it holds only the control or lays it out in a row, since tapping
+ * anywhere in the row toggles the control
+ */
+function estimateControlRow(
+  node: SelectionControl,
+  parent: Node | undefined,
+  spec: DesignSpec,
+): Size {
+  const indicator =
+    node.type === "toggle"
+      ? { width: TOGGLE_WIDTH, height: TOGGLE_HEIGHT }
+      : { width: CONTROL_SIZE, height: CONTROL_SIZE };
+  const labelRow = {
+    width: indicator.width + CONTROL_GAP + textWidth(node.label),
+    height: Math.max(indicator.height, lineHeight(FONT_SIZE)),
+  };
+  if (
+    parent?.type !== "container" ||
+    (parent.layout !== "horizontal" && parent.children.length > 1)
+  ) {
+    return labelRow;
+  }
+
+  const padding = resolvePadding(parent.padding, spec.tokens);
+  return {
+    width: sizeAlong(parent.width, labelRow.width + padding.left + padding.right),
+    height: sizeAlong(parent.height, labelRow.height + padding.top + padding.bottom),
+  };
+}
+
+/**
+ * Estimates the rendered size of a tappable node, or returns undefined for other nodes
+ */
+function estimateTargetSize(
+  node: Node,
+  parent: Node | undefined,
+  spec: DesignSpec,
+): Size | undefined {
+  if (node.type === "button") {
+    return {
+      width: sizeAlong(node.width, textWidth(node.label) + BUTTON_PADDING * 2),
+      height: sizeAlong(node.height, lineHeight(FONT_SIZE) + BUTTON_PADDING * 2),
+    };
+  }
+
+  if (isSelectionControl(node)) {
+    return estimateControlRow(node, parent, spec);
+  }
+
+  if (!isIconButton(node)) {
+    return undefined;
+  }
+  if (node.type === "icon") {
+    const size = node.size ?? ICON_SIZE;
+    return { width: size, height: size };
+  }
+  if (node.type === "container") {
+    const padding = resolvePadding(node.padding, spec.tokens);
+    const gap = resolveNumber(node.gap, spec.tokens) ?? 0;
+    const iconSizes = node.children.map((child) =>
+      child.type === "icon" ? (child.size ?? ICON_SIZE) : ICON_SIZE,
+    );
+    const along = iconSizes.reduce((sum, size) => sum + size, 0) + gap * (iconSizes.length - 1);
+    const across = Math.max(...iconSizes);
+    const [hugWidth, hugHeight] = node.layout === "horizontal" ? [along, across] : [across, along];
+    return {
+      width: sizeAlong(node.width, hugWidth + padding.left + padding.right),
+      height: sizeAlong(node.height, hugHeight + padding.top + padding.bottom),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Tappable parts of bars and lists: nav bar actions, whose target spans the bar's height
+ * and reaches halfway to their neighbours, the tabs of a tab bar, which span its height,
+ * and list rows that navigate or hold a control. The plugin renders list rows at least
+ * 44px tall, so only a fixed list width can make them too small.
+ */
+function estimatePartTargets(node: Node): PartTarget[] {
+  if (node.type === "navBar") {
+    const height =
+      Math.max(ICON_SIZE, lineHeight(NAV_BAR_TITLE_SIZE)) + BAR_PADDING.top + BAR_PADDING.bottom;
+    const actions = node.actions ?? [];
+    return actions.map((name, index) => ({
+      segments: ["actions", index],
+      description: `Nav bar action "${name}"`,
+      size: {
+        width:
+          BAR_GAP / 2 +
+          ICON_SIZE +
+          (index === actions.length - 1 ? BAR_PADDING.right : BAR_GAP / 2),
+        height,
+      },
+      fix: "Keep one action in the nav bar and move the others into a menu.",
+    }));
+  }
+
+  if (node.type === "tabBar") {
+    const withIcons = node.tabs.some((tab) => tab.icon);
+    const height =
+      TAB_BAR_PADDING * 2 + (withIcons ? ICON_SIZE + TAB_GAP : 0) + lineHeight(TAB_LABEL_SIZE);
+    return node.tabs.map((tab, index) => ({
+      segments: ["tabs", index],
+      description: `Tab "${tab.label}"`,
+      size: { height },
+      fix: "Give the tabs icons.",
+    }));
+  }
+
+  if (node.type === "list") {
+    return node.items.flatMap((item, index) =>
+      item.control || item.trailingIcon
+        ? [
+            {
+              segments: ["items", index],
+              description: `List row "${item.title}"`,
+              size: {
+                width: typeof node.width === "number" ? node.width : undefined,
+                height: MIN_TOUCH_TARGET,
+              },
+              fix: `Set the list width to at least ${MIN_TOUCH_TARGET}.`,
+            },
+          ]
+        : [],
+    );
+  }
+
+  return [];
+}
+
+function describeNode(node: Node): string {
+  if (node.type === "button") {
+    return `Button "${node.label}"`;
+  }
+  if (isSelectionControl(node)) {
+    return `${node.type[0].toUpperCase()}${node.type.slice(1)} "${node.label}"`;
+  }
+  return node.type === "icon" ? `Icon button "${node.name}"` : "Icon button";
+}
+
+/**
+ * Traverses a DesignSpec and reports buttons, controls, icon buttons, nav bar icons, tabs
+ * and list rows whose estimated rendered size is below 44x44px. Only applies to mobile
+ * layouts.
+ */
+export function validateTouchTargets(spec: DesignSpec): A11yWarning[] {
+  const warnings: A11yWarning[] = [];
+
+  function report(
+    segments: (string | number)[],
+    description: string,
+    size: Size,
+    fix: (dimensions: string[]) => string,
+  ): void {
+    const tooNarrow = size.width !== undefined && size.width < MIN_TOUCH_TARGET;
+    const tooShort = size.height !== undefined && size.height < MIN_TOUCH_TARGET;
+    if (!tooNarrow && !tooShort) {
+      return;
+    }
+    const rendered = [size.width, size.height]
+      .map((value) => (value === undefined ? "?" : Math.round(value)))
+      .join("x");
+    const dimensions = [tooNarrow && "width", tooShort && "height"].filter(
+      (dimension): dimension is string => Boolean(dimension),
+    );
+    warnings.push({
+      type: "small_touch_target",
+      path: buildPath(segments),
+      reason: `${description} renders at about ${rendered}px; mobile touch targets need at least ${MIN_TOUCH_TARGET}x${MIN_TOUCH_TARGET}px. ${fix(dimensions)}`,
+    });
+  }
+
+  function traverseNode(
+    node: Node,
+    pathSegments: (string | number)[],
+    parent: Node | undefined,
+  ): void {
+    const size = estimateTargetSize(node, parent, spec);
+    if (size) {
+      report(pathSegments, describeNode(node), size, (dimensions) =>
+        isSelectionControl(node)
+          ? `Give its row a height of at least ${MIN_TOUCH_TARGET}, or use a listItem with a control.`
+          : `Set ${dimensions.join(" and ")} to at least ${MIN_TOUCH_TARGET}.`,
+      );
+    }
+    for (const part of estimatePartTargets(node)) {
+      report([...pathSegments, ...part.segments], part.description, part.size, () => part.fix);
+    }
+
+    if (node.type === "container") {
+      node.children.forEach((child, index) => {
+        traverseNode(child, [...pathSegments, "children", index], node);
+      });
+    }
+  }
+
+  spec.nodes.forEach((node, index) => {
+    traverseNode(node, ["nodes", index], undefined);
+  });
+  spec.frame.overlays?.forEach((overlay, overlayIndex) => {
+    overlay.nodes.forEach((node, index) => {
+      traverseNode(node, ["frame", "overlays", overlayIndex, "nodes", index], undefined);
+    });
+  });
+
+  return warnings;
+}
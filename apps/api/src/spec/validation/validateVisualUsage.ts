@@ -1,4 +1,6 @@
-import type { ContainerNode, DesignSpec, Node } from "@eskiz/spec";
+import { FORM_CONTROL_TYPES, SURFACE_ROLES, isTokenRef } from "@eskiz/spec";
+import type { ContainerNode, CornerRadiusValue, DesignSpec, FillValue, Node } from "@eskiz/spec";
+import { buildPath } from "./buildPath.js";
 
 /**
  * Warning about visual styling applied to a layout container
@@ -19,76 +21,53 @@ export interface VisualUsageWarning {
 }
 
 /**
- * Checks if a container appears to be an input-like container
- * (has border and contains placeholder-like text)
+ * Checks if a container is an input-like surface
+ * (has border and wraps a form control node, e.g. a search bar with an icon)
  */
 function isInputLikeContainer(node: ContainerNode): boolean {
   if (!node.border) {
     return false;
   }
-  // Check if container has placeholder-like text children
-  const hasPlaceholderText = node.children.some(
-    (child: Node) =>
-      child.type === "text" &&
-      (child.content.toLowerCase().includes("enter") ||
-        child.content.toLowerCase().includes("placeholder") ||
-        child.content.toLowerCase().includes("hint")),
+  return node.children.some((child: Node) =>
+    (FORM_CONTROL_TYPES as readonly string[]).includes(child.type),
   );
-  return hasPlaceholderText;
 }
 
 /**
- * Checks if a container appears to be a card-like container
- * (has background + borderRadius and contains substantial content)
+ * Checks if a container is a surface by role (a card or a form card)
  */
-function isCardLikeContainer(node: ContainerNode): boolean {
-  if (!node.background || !node.borderRadius) {
-    return false;
-  }
-  // Card-like containers typically have padding (form cards, content cards)
-  if (node.padding >= 16) {
-    return true;
-  }
-  // Or contain multiple children (indicating it's a content container)
-  // But only if it has some padding (even small)
-  if (node.padding > 0 && node.children.length >= 2) {
-    return true;
-  }
-  // Containers with no padding and few children are likely layout containers
-  return false;
+function isSurfaceContainer(node: ContainerNode): boolean {
+  return !!node.role && SURFACE_ROLES.includes(node.role);
 }
 
 /**
  * Checks if a container has visual styling
  */
 function hasVisualStyling(node: ContainerNode): boolean {
-  return !!(node.background || node.borderRadius || node.border);
+  return !!(node.background || node.borderRadius || node.border || node.shadows?.length);
 }
 
 /**
- * Builds a path string for a node (e.g., "nodes[0].children[2]")
+ * Checks if a container is a layout container with visual styling
  */
-function buildPath(segments: (string | number)[]): string {
-  const parts: string[] = [];
-  for (let i = 0; i < segments.length; i++) {
-    const segment = segments[i];
-    if (typeof segment === "number") {
-      const prev = segments[i - 1];
-      if (prev === "nodes" || prev === "children") {
-        parts.push(`${prev}[${segment}]`);
-      } else {
-        parts.push(`[${segment}]`);
-      }
-    } else if (segment !== "nodes" && segment !== "children") {
-      parts.push(segment);
-    }
+function isStyledLayoutContainer(node: ContainerNode): boolean {
+  return hasVisualStyling(node) && !isInputLikeContainer(node) && !isSurfaceContainer(node);
+}
+
+/**
+ * Formats a property value for warnings; token references keep their token path,
+ * gradients and per-corner radii are written as JSON
+ */
+function formatValue(value: FillValue | CornerRadiusValue): string {
+  if (isTokenRef(value)) {
+    return `{$token:${value.$token}}`;
   }
-  return parts.join(".");
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
 }
 
 /**
  * Traverses a DesignSpec and detects containers with visual styling
- * that appear to be layout-only containers
+ * that are neither surfaces by role nor input wrappers
  */
 export function validateVisualUsage(spec: DesignSpec): VisualUsageWarning[] {
   const warnings: VisualUsageWarning[] = [];
@@ -110,27 +89,29 @@ export function validateVisualUsage(spec: DesignSpec): VisualUsageWarning[] {
     }
 
     // Container has visual styling - check if it's legitimate
-    const isInput = isInputLikeContainer(container);
-    const isCard = isCardLikeContainer(container);
-
-    if (!isInput && !isCard) {
+    if (isStyledLayoutContainer(container)) {
       // This appears to be a layout container with visual styling
       const properties: string[] = [];
       if (container.background) {
-        properties.push(`background="${container.background}"`);
+        properties.push(`background="${formatValue(container.background)}"`);
       }
       if (container.borderRadius !== undefined) {
-        properties.push(`borderRadius=${container.borderRadius}`);
+        properties.push(`borderRadius=${formatValue(container.borderRadius)}`);
       }
       if (container.border) {
         properties.push("border");
       }
+      if (container.shadows?.length) {
+        properties.push("shadows");
+      }
 
       const path = buildPath(pathSegments);
-      const reason =
-        "Container appears to be layout-only (grouping/alignment) but has visual styling. " +
-        "Layout containers should not have background, borderRadius, or border properties. " +
-        "Only surface containers (cards, inputs) should have visual styling.";
+      const subject = container.role ? `Container with role "${container.role}"` : "Container";
+      const reason = [
+        `${subject} appears to be layout-only (grouping/alignment) but has visual styling.`,
+        "Layout containers should not have background, borderRadius, border or shadows properties.",
+        'Only surface containers (role "card" or "form-card", inputs) should have visual styling.',
+      ].join(" ");
 
       warnings.push({
         path,
@@ -150,5 +131,61 @@ export function validateVisualUsage(spec: DesignSpec): VisualUsageWarning[] {
     traverseNode(node, ["nodes", index]);
   });
 
+  // Traverse overlay nodes (e.g. "frame.overlays[0].nodes[1]")
+  spec.frame.overlays?.forEach((overlay, overlayIndex) => {
+    overlay.nodes.forEach((node: Node, index: number) => {
+      traverseNode(node, ["frame", "overlays", overlayIndex, "nodes", index]);
+    });
+  });
+
+  // Traverse component definitions (e.g. "components.card")
+  for (const [name, definition] of Object.entries(spec.components ?? {})) {
+    traverseNode(definition.node, ["components", name]);
+  }
+
   return warnings;
 }
+
+/**
+ * Fixer for the visual usage warnings: returns a copy of the spec with background,
+ * borderRadius, border and shadows removed from layout containers
+ */
+export function stripLayoutStyling(spec: DesignSpec): DesignSpec {
+  function stripNode(node: Node): Node {
+    if (node.type !== "container") {
+      return node;
+    }
+    const children = node.children.map(stripNode);
+    if (!isStyledLayoutContainer(node)) {
+      return { ...node, children };
+    }
+    const {
+      background: _background,
+      borderRadius: _borderRadius,
+      border: _border,
+      shadows: _shadows,
+      ...layout
+    } = node;
+    return { ...layout, children };
+  }
+
+  return {
+    ...spec,
+    components:
+      spec.components &&
+      Object.fromEntries(
+        Object.entries(spec.components).map(([name, definition]) => [
+          name,
+          { ...definition, node: stripNode(definition.node) },
+        ]),
+      ),
+    frame: {
+      ...spec.frame,
+      overlays: spec.frame.overlays?.map((overlay) => ({
+        ...overlay,
+        nodes: overlay.nodes.map(stripNode),
+      })),
+    },
+    nodes: spec.nodes.map(stripNode),
+  };
+}
@@ -107,6 +107,48 @@ describe("checkBudgetAlerts", () => {
     );
   });
 
+  it("uses the budget of the model from models.json over the env thresholds", () => {
+    const context = createTracingContext();
+    const metrics = {
+      total_tokens: 10000,
+      prompt_tokens: 5000,
+      completion_tokens: 5000,
+      duration_ms: 20000,
+    };
+    runWithTracingContext(context, () => {
+      checkBudgetAlerts({ ...metrics, model: "gpt-5" });
+    });
+
+    expect(logger.warn).not.toHaveBeenCalled();
+
+    runWithTracingContext(context, () => {
+      checkBudgetAlerts({ ...metrics, model: "gpt-5-nano" });
+    });
+
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("checks against the thresholds it is given", () => {
+    const context = createTracingContext();
+    runWithTracingContext(context, () => {
+      checkBudgetAlerts(
+        {
+          total_tokens: 1000,
+          prompt_tokens: 500,
+          completion_tokens: 500,
+          duration_ms: 1000,
+          model: "gpt-4",
+        },
+        { maxTokens: 500, maxDurationMs: 8000, maxCompletionRatio: 3.0 },
+      );
+    });
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ event: "budget.alert.tokens", budget_max_tokens: 500 }),
+      "Budget alert: token limit exceeded",
+    );
+  });
+
   it("does not log alerts when context is missing", () => {
     // No context set
     checkBudgetAlerts({
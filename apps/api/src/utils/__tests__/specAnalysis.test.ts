@@ -0,0 +1,48 @@
+import type { DesignSpec } from "@eskiz/spec";
+import { describe, expect, it } from "vitest";
+import { analyzeSpec } from "../specAnalysis.js";
+
+describe("analyzeSpec", () => {
+  const frame = { name: "Main", width: 400, layout: "vertical" as const, gap: 0, padding: 0 };
+
+  it("counts bars, lists, rows and tables as surface nodes but not dividers and spacers", () => {
+    const spec: DesignSpec = {
+      page: "Settings",
+      frame,
+      nodes: [
+        { type: "navBar", title: "Settings" },
+        {
+          type: "list",
+          items: [
+            { type: "listItem", title: "Notifications", control: "toggle" },
+            { type: "listItem", title: "Language", trailingText: "English" },
+          ],
+        },
+        { type: "divider" },
+        { type: "table", columns: [{ header: "Device" }], rows: [["Phone"]] },
+        { type: "spacer" },
+        {
+          type: "tabBar",
+          tabs: [{ label: "Home" }, { label: "Settings" }],
+        },
+      ],
+    };
+
+    expect(analyzeSpec(spec)).toEqual({ nodes_count: 8, depth: 2, surface_nodes_count: 6 });
+  });
+
+  it("includes overlay nodes", () => {
+    const spec: DesignSpec = {
+      page: "Home",
+      frame: {
+        ...frame,
+        overlays: [
+          { name: "Toast", placement: "top", nodes: [{ type: "text", content: "Saved" }] },
+        ],
+      },
+      nodes: [{ type: "text", content: "Welcome" }],
+    };
+
+    expect(analyzeSpec(spec)).toEqual({ nodes_count: 2, depth: 1, surface_nodes_count: 2 });
+  });
+});
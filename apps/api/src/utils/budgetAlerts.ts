@@ -1,5 +1,7 @@
 import { getEnv } from "../config/env.js";
 import { getTracingContext } from "../context/tracing.js";
+import { getModelCapabilities } from "../llm/models.js";
+import type { ModelBudget } from "../llm/types.js";
 import { logger } from "../logger.js";
 
 export interface BudgetMetrics {
@@ -12,20 +14,39 @@ export interface BudgetMetrics {
   spec_hash?: string;
 }
 
+export type BudgetThresholds = Required<ModelBudget>;
+
 /**
- * Checks budget limits and logs alerts if exceeded
+ * Budget thresholds of a model: its budget in spec-rules/models.json, with the BUDGET_* env
+ * for any threshold it leaves unset
  */
-export function checkBudgetAlerts(metrics: BudgetMetrics): void {
+export function getBudgetThresholds(model: string): BudgetThresholds {
+  const env = getEnv();
+  const budget = getModelCapabilities(model).budget;
+  return {
+    maxTokens: budget?.maxTokens ?? env.BUDGET_MAX_TOKENS,
+    maxDurationMs: budget?.maxDurationMs ?? env.BUDGET_MAX_DURATION_MS,
+    maxCompletionRatio: budget?.maxCompletionRatio ?? env.BUDGET_MAX_COMPLETION_RATIO,
+  };
+}
+
+/**
+ * Checks budget limits and logs alerts if exceeded. The thresholds default to those of
+ * the model in the metrics.
+ */
+export function checkBudgetAlerts(
+  metrics: BudgetMetrics,
+  thresholds: BudgetThresholds = getBudgetThresholds(metrics.model),
+): void {
   const context = getTracingContext();
   if (!context) {
     return; // No context, skip alerts
   }
 
-  const env = getEnv();
   const { traceId, spanId, projectId, userId } = context;
 
   // Check token budget
-  if (metrics.total_tokens > env.BUDGET_MAX_TOKENS) {
+  if (metrics.total_tokens > thresholds.maxTokens) {
     logger.warn(
       {
         traceId,
@@ -37,7 +58,7 @@ export function checkBudgetAlerts(metrics: BudgetMetrics): void {
         total_tokens: metrics.total_tokens,
         prompt_tokens: metrics.prompt_tokens,
         completion_tokens: metrics.completion_tokens,
-        budget_max_tokens: env.BUDGET_MAX_TOKENS,
+        budget_max_tokens: thresholds.maxTokens,
         prompt_hash: metrics.prompt_hash,
         spec_hash: metrics.spec_hash,
       },
@@ -46,7 +67,7 @@ export function checkBudgetAlerts(metrics: BudgetMetrics): void {
   }
 
   // Check duration budget
-  if (metrics.duration_ms > env.BUDGET_MAX_DURATION_MS) {
+  if (metrics.duration_ms > thresholds.maxDurationMs) {
     logger.warn(
       {
         traceId,
@@ -56,7 +77,7 @@ export function checkBudgetAlerts(metrics: BudgetMetrics): void {
         event: "budget.alert.duration",
         model: metrics.model,
         duration_ms: metrics.duration_ms,
-        budget_max_duration_ms: env.BUDGET_MAX_DURATION_MS,
+        budget_max_duration_ms: thresholds.maxDurationMs,
         prompt_hash: metrics.prompt_hash,
         spec_hash: metrics.spec_hash,
       },
@@ -67,7 +88,7 @@ export function checkBudgetAlerts(metrics: BudgetMetrics): void {
   // Check completion ratio budget
   if (metrics.prompt_tokens > 0) {
     const completionRatio = metrics.completion_tokens / metrics.prompt_tokens;
-    if (completionRatio > env.BUDGET_MAX_COMPLETION_RATIO) {
+    if (completionRatio > thresholds.maxCompletionRatio) {
       logger.warn(
         {
           traceId,
@@ -79,7 +100,7 @@ export function checkBudgetAlerts(metrics: BudgetMetrics): void {
           completion_ratio: completionRatio,
           prompt_tokens: metrics.prompt_tokens,
           completion_tokens: metrics.completion_tokens,
-          budget_max_completion_ratio: env.BUDGET_MAX_COMPLETION_RATIO,
+          budget_max_completion_ratio: thresholds.maxCompletionRatio,
           prompt_hash: metrics.prompt_hash,
           spec_hash: metrics.spec_hash,
         },
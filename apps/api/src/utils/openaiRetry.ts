@@ -1,26 +1,41 @@
-import type OpenAI from "openai";
-import type { ChatCompletionCreateParams } from "openai/resources/chat/completions";
 import { getEnv } from "../config/env.js";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  CompletionOptions,
+  LlmProvider,
+} from "../llm/index.js";
+import { getBudgetThresholds } from "./budgetAlerts.js";
 
 const env = getEnv();
 
 /**
- * Outcome of an OpenAI request
+ * How far past its duration budget a call may run before it times out, so that slow calls
+ * still finish and raise the budget alert
  */
-export type RequestOutcome = "success" | "timeout" | "error";
-
-import type { ChatCompletion } from "openai/resources/chat/completions";
+const OVER_BUDGET_FACTOR = 2;
 
 /**
- * Result of an OpenAI request with retry information
+ * Outcome of a model request
  */
-export interface RetryResult {
-  completion: ChatCompletion;
+export type RequestOutcome = "success" | "timeout" | "error" | "cancelled";
+
+interface RetryInfo {
   retryCount: number;
-  outcome: RequestOutcome;
   openaiRequestId: string | null;
+  /**
+   * Message of the last error when the request failed
+   */
+  errorMessage: string | null;
 }
 
+/**
+ * Result of a model request with retry information: the response on success, none otherwise
+ */
+export type RetryResult =
+  | (RetryInfo & { outcome: "success"; response: ChatCompletionResponse })
+  | (RetryInfo & { outcome: Exclude<RequestOutcome, "success">; response: null });
+
 /**
  * Checks if an error is retryable
  */
@@ -29,7 +44,7 @@ function isRetryableError(error: unknown): boolean {
     return false;
   }
 
-  // Check for OpenAI API error with status
+  // Check for API error with status
   if ("status" in error && typeof error.status === "number") {
     const status = error.status;
     // 429 (rate limit), 500, 502, 503, 504 are retryable
@@ -54,14 +69,33 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+function getErrorMessage(error: unknown): string | null {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return error === undefined ? null : String(error);
+}
+
+/**
+ * Per-call timeout for a model: OPENAI_TIMEOUT_MS, raised for models whose duration budget
+ * leaves too little room under it
+ */
+function getRequestTimeoutMs(model: string): number {
+  return Math.max(
+    env.OPENAI_TIMEOUT_MS,
+    getBudgetThresholds(model).maxDurationMs * OVER_BUDGET_FACTOR,
+  );
+}
+
 /**
- * Makes an OpenAI request with retry logic and timeout
+ * Makes a model request through the provider with retry logic and timeout
  */
 export async function makeOpenAIRequestWithRetry(
-  client: OpenAI,
-  params: ChatCompletionCreateParams,
+  provider: LlmProvider,
+  request: ChatCompletionRequest,
+  options: CompletionOptions = {},
 ): Promise<RetryResult> {
-  const timeoutMs = env.OPENAI_TIMEOUT_MS;
+  const timeoutMs = getRequestTimeoutMs(request.model);
   const maxRetries = env.OPENAI_RETRY_MAX;
   const baseRetryMs = env.OPENAI_RETRY_BASE_MS;
 
@@ -69,66 +103,44 @@ export async function makeOpenAIRequestWithRetry(
   let retryCount = 0;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    // The timeout aborts the request itself, so a timed-out stream stops calling back
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(new Error("Request timeout")), timeoutMs);
+    const signal = options.signal
+      ? AbortSignal.any([options.signal, timeout.signal])
+      : timeout.signal;
+
     try {
-      // Create timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error("Request timeout"));
-        }, timeoutMs);
-      });
-
-      // Make request with timeout using Promise.race
-      const completion = (await Promise.race([
-        client.chat.completions.create(params),
-        timeoutPromise,
-      ])) as ChatCompletion;
-
-      // Extract request_id from response
-      let openaiRequestId: string | null = null;
-      if (completion && typeof completion === "object") {
-        // Try to get request_id from response headers or metadata
-        // OpenAI SDK v4+ may expose this in different ways
-        const response = (
-          completion as unknown as {
-            _response?: { headers?: Headers | Record<string, string> };
-          }
-        )._response;
-
-        if (response?.headers) {
-          if (response.headers instanceof Headers) {
-            openaiRequestId = response.headers.get("openai-request-id") ?? null;
-          } else if (typeof response.headers === "object") {
-            openaiRequestId =
-              (response.headers as Record<string, string>)["openai-request-id"] ?? null;
-          }
-        }
-
-        // Also try to get from response object directly
-        if (!openaiRequestId && "id" in completion) {
-          openaiRequestId = String(completion.id) ?? null;
-        }
-      }
+      const response = await provider.complete(request, { ...options, signal });
 
       return {
-        completion,
+        response,
         retryCount,
         outcome: "success",
-        openaiRequestId,
+        openaiRequestId: response.requestId,
+        errorMessage: null,
       };
     } catch (error: unknown) {
       lastError = error;
 
-      // Check if it's a timeout
-      const isTimeout =
-        error instanceof Error &&
-        (error.message.includes("timeout") || error.message === "Request timeout");
+      // A cancelled request is not retried
+      if (options.signal?.aborted) {
+        return {
+          response: null,
+          retryCount,
+          outcome: "cancelled",
+          openaiRequestId: null,
+          errorMessage: getErrorMessage(error),
+        };
+      }
 
-      if (isTimeout) {
+      if (timeout.signal.aborted) {
         return {
-          completion: null as unknown as ChatCompletion,
+          response: null,
           retryCount,
           outcome: "timeout",
           openaiRequestId: null,
+          errorMessage: getErrorMessage(timeout.signal.reason),
         };
       }
 
@@ -137,21 +149,22 @@ export async function makeOpenAIRequestWithRetry(
         break;
       }
 
-      // Calculate exponential backoff delay
-      const delayMs = baseRetryMs * 2 ** attempt;
       retryCount++;
-
-      // Wait before retry
-      await sleep(delayMs);
+    } finally {
+      clearTimeout(timer);
     }
+
+    // Wait before retry with exponential backoff
+    await sleep(baseRetryMs * 2 ** attempt);
   }
 
   // All retries exhausted or non-retryable error
   return {
-    completion: null as unknown as ChatCompletion,
+    response: null,
     retryCount,
     outcome:
       lastError instanceof Error && lastError.message.includes("timeout") ? "timeout" : "error",
     openaiRequestId: null,
+    errorMessage: getErrorMessage(lastError),
   };
 }
@@ -1,4 +1,5 @@
-import type { ContainerNode, DesignSpec, Node } from "@eskiz/spec";
+import { FORM_CONTROL_TYPES } from "@eskiz/spec";
+import type { ContainerNode, DesignSpec, FlowSpec, Node } from "@eskiz/spec";
 
 export interface SpecAnalysis {
   nodes_count: number;
@@ -6,12 +7,50 @@ export interface SpecAnalysis {
   surface_nodes_count: number;
 }
 
+export interface FlowSpecAnalysis extends SpecAnalysis {
+  screens_count: number;
+  edges_count: number;
+}
+
+/**
+ * Determines if a node renders visible content on its own (text, buttons, images, icons,
+ * form controls, component instances, app and tab bars, lists and their rows, tables).
+ * Dividers and spacers only separate content.
+ */
+function isContentNode(node: Node): boolean {
+  return (
+    node.type === "text" ||
+    node.type === "button" ||
+    node.type === "image" ||
+    node.type === "icon" ||
+    node.type === "instance" ||
+    node.type === "navBar" ||
+    node.type === "tabBar" ||
+    node.type === "list" ||
+    node.type === "listItem" ||
+    node.type === "table" ||
+    (FORM_CONTROL_TYPES as readonly string[]).includes(node.type)
+  );
+}
+
+/**
+ * Determines if a container has visual styling (background, border, borderRadius, shadows)
+ */
+function hasSurfaceStyling(container: ContainerNode): boolean {
+  return !!(
+    container.background ||
+    container.borderRadius ||
+    container.border ||
+    container.shadows?.length
+  );
+}
+
 /**
  * Determines if a node is "layout-only" (not a surface node)
  * A node is layout-only if:
  * - type is "container"
  * - has layout properties (layout/gap/padding)
- * - lacks visual styling (background/border/borderRadius)
+ * - lacks visual styling (background/border/borderRadius/shadows)
  * - lacks text content or interactive elements
  */
 function isLayoutOnlyNode(node: Node): boolean {
@@ -25,12 +64,10 @@ function isLayoutOnlyNode(node: Node): boolean {
   const hasLayoutProperties = container.layout !== undefined && container.gap !== undefined;
 
   // Must NOT have visual styling
-  const hasVisualStyling = !!(container.background || container.borderRadius || container.border);
+  const hasVisualStyling = hasSurfaceStyling(container);
 
   // Check if has text content or interactive elements
-  const hasTextOrInteractive = container.children.some(
-    (child) => child.type === "text" || child.type === "button",
-  );
+  const hasTextOrInteractive = container.children.some(isContentNode);
 
   // Layout-only: has layout properties, no visual styling, no text/interactive
   return hasLayoutProperties && !hasVisualStyling && !hasTextOrInteractive;
@@ -39,18 +76,17 @@ function isLayoutOnlyNode(node: Node): boolean {
 /**
  * Determines if a node is a "surface" node
  * A node is surface if:
- * - It has visual styling (background, border, borderRadius)
+ * - It has visual styling (background, border, borderRadius, shadows)
  * - AND it's not layout-only
  */
 function isSurfaceNode(node: Node): boolean {
   if (node.type === "container") {
     const container = node as ContainerNode;
-    const hasVisualStyling = !!(container.background || container.borderRadius || container.border);
-    return hasVisualStyling && !isLayoutOnlyNode(node);
+    return hasSurfaceStyling(container) && !isLayoutOnlyNode(node);
   }
 
-  // Text and button nodes are always surface nodes
-  return node.type === "text" || node.type === "button";
+  // Content nodes are always surface nodes
+  return isContentNode(node);
 }
 
 /**
@@ -75,6 +111,11 @@ export function analyzeSpec(spec: DesignSpec): SpecAnalysis {
         traverseNode(child, currentDepth + 1);
       }
     }
+    if (node.type === "list") {
+      for (const item of node.items) {
+        traverseNode(item, currentDepth + 1);
+      }
+    }
   }
 
   // Traverse all root nodes
@@ -82,9 +123,38 @@ export function analyzeSpec(spec: DesignSpec): SpecAnalysis {
     traverseNode(node, 1);
   }
 
+  // Overlay nodes are root nodes of their own layer
+  for (const overlay of spec.frame.overlays ?? []) {
+    for (const node of overlay.nodes) {
+      traverseNode(node, 1);
+    }
+  }
+
   return {
     nodes_count: nodesCount,
     depth: maxDepth,
     surface_nodes_count: surfaceNodesCount,
   };
 }
+
+/**
+ * Analyzes a FlowSpec: node metrics summed over screens (depth is the maximum)
+ */
+export function analyzeFlowSpec(flow: FlowSpec): FlowSpecAnalysis {
+  const result: FlowSpecAnalysis = {
+    nodes_count: 0,
+    depth: 0,
+    surface_nodes_count: 0,
+    screens_count: flow.screens.length,
+    edges_count: flow.edges.length,
+  };
+
+  for (const screen of flow.screens) {
+    const analysis = analyzeSpec({ page: flow.page, frame: screen.frame, nodes: screen.nodes });
+    result.nodes_count += analysis.nodes_count;
+    result.depth = Math.max(result.depth, analysis.depth);
+    result.surface_nodes_count += analysis.surface_nodes_count;
+  }
+
+  return result;
+}
@@ -1,4 +1,4 @@
-import type { VisualUsageWarning } from "../spec/validation/validateVisualUsage.js";
+import type { LintFinding } from "../spec/lint/types.js";
 
 export interface AggregatedWarnings {
   warnings_count: number;
@@ -7,25 +7,16 @@ export interface AggregatedWarnings {
 }
 
 /**
- * Aggregates warnings into summary metrics
+ * Aggregates lint findings into summary metrics
  */
 export function aggregateWarnings(
-  warnings: VisualUsageWarning[],
+  warnings: LintFinding[],
   pathsSampleSize = 3,
 ): AggregatedWarnings {
   const warningsCount = warnings.length;
 
   // Extract unique warning types
-  const typeSet = new Set<string>();
-  for (const warning of warnings) {
-    // Use reason as type identifier (normalized)
-    const type = warning.reason.includes("layout-only")
-      ? "visual_styling_on_layout_container"
-      : "unknown_warning";
-    typeSet.add(type);
-  }
-
-  const warningsTypes = Array.from(typeSet);
+  const warningsTypes = Array.from(new Set(warnings.map((warning) => warning.type)));
 
   // Sample paths (first N)
   const warningsPathsSample = warnings.slice(0, pathsSampleSize).map((warning) => warning.path);
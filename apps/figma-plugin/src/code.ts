@@ -1,57 +1,361 @@
 // Type definitions (inline to avoid module system)
 type DesignSpecLayout = "vertical" | "horizontal";
+type DesignSpecSizing = "fill" | "hug" | number;
+type DesignSpecPrimaryAxisAlign = "start" | "center" | "end" | "space-between";
+type DesignSpecCounterAxisAlign = "start" | "center" | "end";
+
+interface DesignSpecTokenRef {
+  $token: string;
+}
+type DesignSpecColor = string | DesignSpecTokenRef;
+type DesignSpecNumber = number | DesignSpecTokenRef;
+
+interface DesignSpecTypographyToken {
+  fontSize: number;
+  fontWeight?: number;
+  lineHeight?: number;
+  fontFamily?: string;
+}
+
+interface DesignSpecTokens {
+  color?: Record<string, string>;
+  spacing?: Record<string, number>;
+  radius?: Record<string, number>;
+  typography?: Record<string, DesignSpecTypographyToken>;
+}
 
 interface DesignSpecBorder {
-  color: string;
+  color: DesignSpecColor;
   width: number;
 }
 
-interface DesignSpecFrame {
+interface DesignSpecShadow {
+  x: number;
+  y: number;
+  blur: number;
+  spread?: number;
+  color: DesignSpecColor;
+  opacity?: number;
+}
+
+interface DesignSpecLinearGradient {
+  type: "linear-gradient";
+  angle?: number;
+  stops: { position: number; color: DesignSpecColor }[];
+}
+
+type DesignSpecFill = DesignSpecColor | DesignSpecLinearGradient;
+
+type DesignSpecPadding =
+  | DesignSpecNumber
+  | {
+      top: DesignSpecNumber;
+      right: DesignSpecNumber;
+      bottom: DesignSpecNumber;
+      left: DesignSpecNumber;
+    };
+
+type DesignSpecCornerRadius =
+  | DesignSpecNumber
+  | {
+      topLeft: DesignSpecNumber;
+      topRight: DesignSpecNumber;
+      bottomRight: DesignSpecNumber;
+      bottomLeft: DesignSpecNumber;
+    };
+
+interface DesignSpecSurfaceStyle {
+  background?: DesignSpecFill;
+  borderRadius?: DesignSpecCornerRadius;
+  border?: DesignSpecBorder;
+  shadows?: DesignSpecShadow[];
+  opacity?: number;
+}
+
+interface DesignSpecFrame extends DesignSpecSurfaceStyle {
   name: string;
   width: number;
   height?: number;
   layout: DesignSpecLayout;
-  gap: number;
-  padding: number;
-  background?: string;
-  borderRadius?: number;
-  border?: DesignSpecBorder;
+  gap: DesignSpecNumber;
+  padding: DesignSpecPadding;
+  primaryAxisAlign?: DesignSpecPrimaryAxisAlign;
+  counterAxisAlign?: DesignSpecCounterAxisAlign;
+  overlays?: DesignSpecOverlay[];
 }
 
-interface DesignSpecTextNode {
+type DesignSpecOverlayPlacement = "center" | "top" | "bottom";
+
+interface DesignSpecOverlay {
+  name: string;
+  backdrop?: DesignSpecColor;
+  backdropOpacity?: number;
+  placement?: DesignSpecOverlayPlacement;
+  padding?: DesignSpecPadding;
+  nodes: DesignSpecNode[];
+}
+
+type DesignSpecHorizontalConstraint = "left" | "right" | "center" | "left-right" | "scale";
+type DesignSpecVerticalConstraint = "top" | "bottom" | "center" | "top-bottom" | "scale";
+
+interface DesignSpecAbsolutePosition {
+  x: number;
+  y: number;
+  constraints?: {
+    horizontal?: DesignSpecHorizontalConstraint;
+    vertical?: DesignSpecVerticalConstraint;
+  };
+}
+
+interface DesignSpecTypography {
+  variant?: "heading" | "body" | "caption" | "label";
+  fontWeight?: number;
+  fontFamily?: string;
+  lineHeight?: number;
+  letterSpacing?: number;
+  textAlign?: "left" | "center" | "right" | "justify";
+  textDecoration?: "none" | "underline" | "strikethrough";
+}
+
+type DesignSpecNodeRole =
+  | "title"
+  | "subtitle"
+  | "header"
+  | "footer"
+  | "section"
+  | "card"
+  | "form-card"
+  | "field-group"
+  | "actions"
+  | "primary-action"
+  | "secondary-action";
+
+interface DesignSpecNodeIdentity {
+  id?: string;
+  role?: DesignSpecNodeRole;
+  absolute?: DesignSpecAbsolutePosition;
+  ariaLabel?: string;
+  tabIndex?: number;
+}
+
+interface DesignSpecTextNode extends DesignSpecTypography, DesignSpecNodeIdentity {
   type: "text";
   content: string;
   fontSize?: number;
-  color?: string;
+  color?: DesignSpecColor;
+  width?: DesignSpecSizing;
+  headingLevel?: number;
+  labelFor?: string;
 }
 
-interface DesignSpecButtonNode {
+type DesignSpecButtonVariant = "primary" | "secondary" | "ghost" | "destructive";
+type DesignSpecButtonState = "default" | "hover" | "pressed" | "focus" | "disabled";
+type DesignSpecInputState = "default" | "hover" | "focus" | "disabled" | "error";
+
+interface DesignSpecButtonNode extends DesignSpecNodeIdentity {
   type: "button";
   label: string;
-  background?: string;
-  textColor?: string;
-  borderRadius?: number;
+  variant?: DesignSpecButtonVariant;
+  state?: DesignSpecButtonState;
+  background?: DesignSpecColor;
+  textColor?: DesignSpecColor;
+  borderRadius?: DesignSpecNumber;
+  border?: DesignSpecBorder;
+  width?: DesignSpecSizing;
+  height?: DesignSpecSizing;
+  primaryAxisAlign?: DesignSpecPrimaryAxisAlign;
+  counterAxisAlign?: DesignSpecCounterAxisAlign;
+}
+
+interface DesignSpecImageNode extends DesignSpecNodeIdentity {
+  type: "image";
+  alt: string;
+  width?: number;
+  aspectRatio?: number;
+  fit?: "fill" | "fit" | "crop";
+  background?: DesignSpecColor;
+  borderRadius?: DesignSpecNumber;
 }
 
-interface DesignSpecContainerNode {
+interface DesignSpecIconNode extends DesignSpecNodeIdentity {
+  type: "icon";
+  name: string;
+  size?: number;
+  color?: DesignSpecColor;
+}
+
+interface DesignSpecInputNode extends DesignSpecNodeIdentity {
+  type: "input";
+  label?: string;
+  placeholder?: string;
+  value?: string;
+  inputType?: "text" | "email" | "password" | "number" | "search";
+  helperText?: string;
+  error?: string;
+  state?: DesignSpecInputState;
+  background?: DesignSpecColor;
+  borderRadius?: DesignSpecNumber;
+  border?: DesignSpecBorder;
+  width?: DesignSpecSizing;
+}
+
+interface DesignSpecSelectionNode extends DesignSpecNodeIdentity {
+  type: "checkbox" | "radio" | "toggle";
+  label: string;
+  group?: string;
+  checked?: boolean;
+  color?: DesignSpecColor;
+}
+
+interface DesignSpecSelectNode extends DesignSpecNodeIdentity {
+  type: "select";
+  label?: string;
+  placeholder?: string;
+  value?: string;
+  options: string[];
+  helperText?: string;
+  error?: string;
+  state?: DesignSpecInputState;
+  background?: DesignSpecColor;
+  borderRadius?: DesignSpecNumber;
+  border?: DesignSpecBorder;
+  width?: DesignSpecSizing;
+}
+
+interface DesignSpecContainerNode extends DesignSpecNodeIdentity, DesignSpecSurfaceStyle {
   type: "container";
   layout: DesignSpecLayout;
-  gap: number;
-  padding: number;
+  gap: DesignSpecNumber;
+  padding: DesignSpecPadding;
   children: DesignSpecNode[];
-  background?: string;
-  borderRadius?: number;
-  border?: DesignSpecBorder;
+  width?: DesignSpecSizing;
+  height?: DesignSpecSizing;
+  primaryAxisAlign?: DesignSpecPrimaryAxisAlign;
+  counterAxisAlign?: DesignSpecCounterAxisAlign;
+}
+
+interface DesignSpecInstanceNode extends DesignSpecNodeIdentity {
+  type: "instance";
+  component: string;
+  overrides?: Record<string, string>;
+  width?: DesignSpecSizing;
+}
+
+interface DesignSpecComponentDefinition {
+  params?: Record<string, string>;
+  node: DesignSpecNode;
+}
+
+interface DesignSpecNavBarNode extends DesignSpecNodeIdentity {
+  type: "navBar";
+  title: string;
+  leadingIcon?: string;
+  actions?: string[];
+  background?: DesignSpecColor;
+  color?: DesignSpecColor;
+}
+
+interface DesignSpecTabBarNode extends DesignSpecNodeIdentity {
+  type: "tabBar";
+  tabs: { label: string; icon?: string }[];
+  activeIndex?: number;
+  background?: DesignSpecColor;
+  color?: DesignSpecColor;
+  activeColor?: DesignSpecColor;
+}
+
+interface DesignSpecListItemNode extends DesignSpecNodeIdentity {
+  type: "listItem";
+  title: string;
+  subtitle?: string;
+  leadingIcon?: string;
+  trailingText?: string;
+  trailingIcon?: string;
+  control?: "toggle" | "checkbox";
+  checked?: boolean;
+}
+
+interface DesignSpecListNode extends DesignSpecNodeIdentity {
+  type: "list";
+  items: DesignSpecListItemNode[];
+  dividers?: boolean;
+  background?: DesignSpecColor;
+  borderRadius?: DesignSpecNumber;
+  width?: DesignSpecSizing;
+}
+
+type DesignSpecTableAlign = "left" | "center" | "right";
+
+interface DesignSpecTableNode extends DesignSpecNodeIdentity {
+  type: "table";
+  columns: { header: string; width?: DesignSpecSizing; align?: DesignSpecTableAlign }[];
+  rows: string[][];
+  striped?: boolean;
+  background?: DesignSpecColor;
+  borderColor?: DesignSpecColor;
+  width?: DesignSpecSizing;
+}
+
+interface DesignSpecDividerNode extends DesignSpecNodeIdentity {
+  type: "divider";
+  orientation?: DesignSpecLayout;
+  color?: DesignSpecColor;
+  thickness?: number;
 }
 
-type DesignSpecNode = DesignSpecTextNode | DesignSpecButtonNode | DesignSpecContainerNode;
+interface DesignSpecSpacerNode extends DesignSpecNodeIdentity {
+  type: "spacer";
+  size?: DesignSpecNumber;
+}
+
+type DesignSpecNode =
+  | DesignSpecTextNode
+  | DesignSpecButtonNode
+  | DesignSpecImageNode
+  | DesignSpecIconNode
+  | DesignSpecInputNode
+  | DesignSpecSelectionNode
+  | DesignSpecSelectNode
+  | DesignSpecInstanceNode
+  | DesignSpecNavBarNode
+  | DesignSpecTabBarNode
+  | DesignSpecListNode
+  | DesignSpecListItemNode
+  | DesignSpecTableNode
+  | DesignSpecDividerNode
+  | DesignSpecSpacerNode
+  | DesignSpecContainerNode;
 
 interface DesignSpec {
+  specVersion?: number;
   page: string;
+  tokens?: DesignSpecTokens;
+  components?: Record<string, DesignSpecComponentDefinition>;
+  frame: DesignSpecFrame;
+  nodes: DesignSpecNode[];
+}
+
+interface DesignSpecFlowScreen {
+  id: string;
   frame: DesignSpecFrame;
   nodes: DesignSpecNode[];
 }
 
+interface DesignSpecFlowEdge {
+  from: string;
+  trigger: string;
+  to: string;
+}
+
+interface DesignSpecFlow {
+  specVersion?: number;
+  page: string;
+  tokens?: DesignSpecTokens;
+  components?: Record<string, DesignSpecComponentDefinition>;
+  screens: DesignSpecFlowScreen[];
+  edges: DesignSpecFlowEdge[];
+}
+
 const pluginHtml = `<!DOCTYPE html>
 <html>
   <head>
@@ -137,14 +441,30 @@ const pluginHtml = `<!DOCTYPE html>
       .error.visible {
         display: block;
       }
+
+      .checkbox {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 0;
+        font-weight: 400;
+      }
     </style>
   </head>
   <body>
     <div class="container">
       <div>
-        <label for="spec-input">DesignSpec JSON:</label>
+        <label for="spec-input">DesignSpec or FlowSpec JSON:</label>
         <textarea id="spec-input" placeholder='{"page": "Login", "frame": {...}, "nodes": [...]}'></textarea>
       </div>
+      <label class="checkbox">
+        <input type="checkbox" id="wire-prototype" checked />
+        Wire prototype links (flows only)
+      </label>
+      <label class="checkbox">
+        <input type="checkbox" id="state-variants" />
+        Build state variants for buttons and fields
+      </label>
       <button id="apply-btn">Apply</button>
       <div id="error" class="error"></div>
     </div>
@@ -152,6 +472,8 @@ const pluginHtml = `<!DOCTYPE html>
     <script>
       const specInput = document.getElementById("spec-input");
       const applyBtn = document.getElementById("apply-btn");
+      const wirePrototypeInput = document.getElementById("wire-prototype");
+      const stateVariantsInput = document.getElementById("state-variants");
       const errorDiv = document.getElementById("error");
 
       function showError(message) {
@@ -183,7 +505,17 @@ const pluginHtml = `<!DOCTYPE html>
         applyBtn.disabled = true;
         applyBtn.textContent = "Applying...";
 
-        parent.postMessage({ pluginMessage: { type: "apply", spec } }, "*");
+        parent.postMessage(
+          {
+            pluginMessage: {
+              type: "apply",
+              spec,
+              wirePrototype: wirePrototypeInput.checked,
+              stateVariants: stateVariantsInput.checked,
+            },
+          },
+          "*",
+        );
       });
 
       window.onmessage = (event) => {
@@ -202,6 +534,50 @@ const pluginHtml = `<!DOCTYPE html>
 
 const DEFAULT_FONT = { family: "Inter", style: "Regular" };
 const DEFAULT_FONT_SIZE = 16;
+const DEFAULT_FONT_WEIGHT = 400;
+
+// Figma style names for numeric font weights
+const FONT_WEIGHT_STYLES: Record<number, string> = {
+  100: "Thin",
+  200: "Extra Light",
+  300: "Light",
+  400: "Regular",
+  500: "Medium",
+  600: "Semi Bold",
+  700: "Bold",
+  800: "Extra Bold",
+  900: "Black",
+};
+
+// Typography per semantic variant, used when the spec omits explicit values
+const TEXT_VARIANT_STYLES: Record<
+  NonNullable<DesignSpecTypography["variant"]>,
+  { fontSize: number; fontWeight: number }
+> = {
+  heading: { fontSize: 24, fontWeight: 600 },
+  body: { fontSize: 16, fontWeight: 400 },
+  caption: { fontSize: 12, fontWeight: 400 },
+  label: { fontSize: 14, fontWeight: 500 },
+};
+
+const TEXT_ALIGN: Record<
+  NonNullable<DesignSpecTypography["textAlign"]>,
+  TextNode["textAlignHorizontal"]
+> = {
+  left: "LEFT",
+  center: "CENTER",
+  right: "RIGHT",
+  justify: "JUSTIFIED",
+};
+
+const TEXT_DECORATION: Record<
+  NonNullable<DesignSpecTypography["textDecoration"]>,
+  TextNode["textDecoration"]
+> = {
+  none: "NONE",
+  underline: "UNDERLINE",
+  strikethrough: "STRIKETHROUGH",
+};
 
 // Visual defaults for readability - MUST use fills property
 const TEXT_COLOR_DEFAULT = { r: 0.07, g: 0.07, b: 0.07 }; // Dark text color
@@ -211,6 +587,84 @@ const BUTTON_PADDING = 12;
 const BUTTON_CORNER_RADIUS = 8;
 const CONTAINER_BACKGROUND = { r: 1, g: 1, b: 1 }; // White container background
 const CONTAINER_CORNER_RADIUS = 12;
+// Roles of containers that are visual surfaces; other roles mark transparent layout containers
+const SURFACE_ROLES: DesignSpecNodeRole[] = ["card", "form-card"];
+const SHADOW_OPACITY = 0.1;
+const IMAGE_PLACEHOLDER_BACKGROUND = { r: 0.898, g: 0.906, b: 0.922 }; // Light grey placeholder
+const IMAGE_DEFAULT_WIDTH = 320;
+const IMAGE_DEFAULT_ASPECT_RATIO = 16 / 9;
+const ICON_DEFAULT_SIZE = 24;
+const ICON_STROKE_WEIGHT = 2;
+const FIELD_PADDING = 12;
+const FIELD_GAP = 6;
+const FIELD_CORNER_RADIUS = 8;
+const FIELD_BACKGROUND = { r: 1, g: 1, b: 1 }; // White field background
+const FIELD_BORDER = { color: "#D1D5DB", width: 1 };
+const FIELD_LABEL_FONT_SIZE = 14;
+const FIELD_HINT_FONT_SIZE = 12;
+const PLACEHOLDER_TEXT_COLOR = "#6B7280";
+const ERROR_COLOR = "#DC2626";
+const CONTROL_ACCENT_COLOR = "#2563EB";
+const CONTROL_OFF_COLOR = { r: 0.82, g: 0.835, b: 0.859 }; // Grey track / box border
+const CONTROL_SIZE = 20;
+const CONTROL_GAP = 8;
+const TOGGLE_WIDTH = 40;
+const TOGGLE_HEIGHT = 24;
+const BAR_PADDING = { top: 12, right: 16, bottom: 12, left: 16 };
+const BAR_GAP = 12;
+const NAV_BAR_TITLE_SIZE = 18;
+const TAB_BAR_PADDING = 8;
+const TAB_GAP = 4;
+const TAB_LABEL_SIZE = 12;
+const LIST_ITEM_TEXT_GAP = 2;
+const LIST_ITEM_MIN_HEIGHT = 44; // Mobile touch target, so rows can hold a small control
+const TABLE_CELL_PADDING = 12;
+const TABLE_HEADER_BACKGROUND = "#F9FAFB";
+const TABLE_STRIPE_BACKGROUND = "#F9FAFB";
+const MIN_SIZE = 0.01; // Figma rejects zero sizes
+const FOCUS_RING_COLOR = "#93C5FD";
+const FOCUS_RING_WIDTH = 2;
+const DISABLED_BACKGROUND = "#F3F4F6";
+const DISABLED_TEXT_COLOR = "#9CA3AF";
+const BUTTON_STATES: DesignSpecButtonState[] = ["default", "hover", "pressed", "focus", "disabled"];
+const INPUT_STATES: DesignSpecInputState[] = ["default", "hover", "focus", "disabled", "error"];
+
+interface ButtonStyle {
+  background?: string;
+  textColor: string;
+  border?: DesignSpecBorder;
+}
+
+// Button colors per variant with the hover and pressed backgrounds, as in the generator defaults
+const BUTTON_VARIANT_STYLES: Record<
+  DesignSpecButtonVariant,
+  ButtonStyle & { hover: string; pressed: string }
+> = {
+  primary: { background: "#2563EB", textColor: "#FFFFFF", hover: "#1D4ED8", pressed: "#1E40AF" },
+  secondary: {
+    background: "#FFFFFF",
+    textColor: "#2563EB",
+    border: { color: "#2563EB", width: 1 },
+    hover: "#F3F4F6",
+    pressed: "#E5E7EB",
+  },
+  ghost: { textColor: "#2563EB", hover: "#F3F4F6", pressed: "#E5E7EB" },
+  destructive: {
+    background: "#DC2626",
+    textColor: "#FFFFFF",
+    hover: "#B91C1C",
+    pressed: "#991B1B",
+  },
+};
+
+// Field borders per state; disabled fields also get a grey background
+const INPUT_STATE_BORDERS: Record<DesignSpecInputState, DesignSpecBorder> = {
+  default: FIELD_BORDER,
+  hover: { color: PLACEHOLDER_TEXT_COLOR, width: 1 },
+  focus: { color: CONTROL_ACCENT_COLOR, width: FOCUS_RING_WIDTH },
+  disabled: FIELD_BORDER,
+  error: { color: ERROR_COLOR, width: 1 },
+};
 
 /**
  * Converts hex color string to RGB color object.
@@ -232,102 +686,1235 @@ function hexToRgb(hex: string): { r: number; g: number; b: number } {
   return { r, g, b };
 }
 
+/**
+ * Tokens of the spec being executed and the Figma Variables created for them
+ */
+let activeTokens: DesignSpecTokens = {};
+const tokenVariables = new Map<string, Variable>();
+
+function isTokenRef(value: unknown): value is DesignSpecTokenRef {
+  return typeof value === "object" && value !== null && "$token" in value;
+}
+
+/**
+ * Looks up a "category.name" token path in the active tokens
+ */
+function lookupToken(path: string): unknown {
+  const [category, ...name] = path.split(".");
+  const group = activeTokens[category as keyof DesignSpecTokens] as
+    | Record<string, unknown>
+    | undefined;
+  const value = group?.[name.join(".")];
+  if (value === undefined) {
+    throw new Error(`Unknown token "${path}"`);
+  }
+  return value;
+}
+
+function resolveNumber(value: DesignSpecNumber): number {
+  return isTokenRef(value) ? (lookupToken(value.$token) as number) : value;
+}
+
+/**
+ * Creates a solid paint from a color literal or token; token colors are bound to their variable
+ */
+function solidPaint(value: DesignSpecColor | undefined, fallback: RGB): SolidPaint {
+  if (value === undefined) {
+    return { type: "SOLID", color: fallback };
+  }
+  if (!isTokenRef(value)) {
+    return { type: "SOLID", color: hexToRgb(value) };
+  }
+  const paint: SolidPaint = {
+    type: "SOLID",
+    color: hexToRgb(lookupToken(value.$token) as string),
+  };
+  const variable = tokenVariables.get(value.$token);
+  return variable ? figma.variables.setBoundVariableForPaint(paint, "color", variable) : paint;
+}
+
+function resolveColor(value: DesignSpecColor): RGB {
+  return hexToRgb(isTokenRef(value) ? (lookupToken(value.$token) as string) : value);
+}
+
+/**
+ * Creates a linear gradient paint. The CSS angle (0 = up, 180 = down) becomes a
+ * gradient transform rotating Figma's default left-to-right gradient around the center.
+ */
+function gradientPaint(gradient: DesignSpecLinearGradient): GradientPaint {
+  const radians = (((gradient.angle ?? 180) - 90) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    type: "GRADIENT_LINEAR",
+    gradientTransform: [
+      [cos, sin, 0.5 - 0.5 * cos - 0.5 * sin],
+      [-sin, cos, 0.5 + 0.5 * sin - 0.5 * cos],
+    ],
+    gradientStops: gradient.stops.map((stop) => ({
+      position: stop.position,
+      color: { ...resolveColor(stop.color), a: 1 },
+    })),
+  };
+}
+
+/**
+ * Creates a solid or gradient paint for a background
+ */
+function fillPaint(value: DesignSpecFill | undefined, fallback: RGB): Paint {
+  if (typeof value === "object" && "type" in value) {
+    return gradientPaint(value);
+  }
+  return solidPaint(value, fallback);
+}
+
+/**
+ * Binds node fields to the variable of a token value (no-op for literals)
+ */
+function bindTokenVariable(
+  node: FrameNode | RectangleNode,
+  fields: VariableBindableNodeField[],
+  value: DesignSpecNumber | undefined,
+): void {
+  const variable = isTokenRef(value) ? tokenVariables.get(value.$token) : undefined;
+  if (!variable) return;
+  for (const field of fields) {
+    node.setBoundVariable(field, variable);
+  }
+}
+
+/**
+ * Applies a uniform or per-corner radius; token radii are bound to their variable
+ */
+function applyCornerRadius(
+  node: FrameNode | RectangleNode,
+  radius: DesignSpecCornerRadius | undefined,
+  fallback: number,
+): void {
+  if (typeof radius === "object" && !isTokenRef(radius)) {
+    node.topLeftRadius = resolveNumber(radius.topLeft);
+    node.topRightRadius = resolveNumber(radius.topRight);
+    node.bottomRightRadius = resolveNumber(radius.bottomRight);
+    node.bottomLeftRadius = resolveNumber(radius.bottomLeft);
+    bindTokenVariable(node, ["topLeftRadius"], radius.topLeft);
+    bindTokenVariable(node, ["topRightRadius"], radius.topRight);
+    bindTokenVariable(node, ["bottomRightRadius"], radius.bottomRight);
+    bindTokenVariable(node, ["bottomLeftRadius"], radius.bottomLeft);
+    return;
+  }
+  node.cornerRadius = radius === undefined ? fallback : resolveNumber(radius);
+  bindTokenVariable(
+    node,
+    ["topLeftRadius", "topRightRadius", "bottomLeftRadius", "bottomRightRadius"],
+    radius,
+  );
+}
+
+/**
+ * Applies Auto Layout gap and uniform or per-side padding
+ */
+function applySpacing(frame: FrameNode, gap: DesignSpecNumber, padding: DesignSpecPadding): void {
+  frame.itemSpacing = resolveNumber(gap);
+  bindTokenVariable(frame, ["itemSpacing"], gap);
+  const sides =
+    typeof padding === "object" && !isTokenRef(padding)
+      ? padding
+      : { top: padding, right: padding, bottom: padding, left: padding };
+  frame.paddingTop = resolveNumber(sides.top);
+  frame.paddingRight = resolveNumber(sides.right);
+  frame.paddingBottom = resolveNumber(sides.bottom);
+  frame.paddingLeft = resolveNumber(sides.left);
+  bindTokenVariable(frame, ["paddingTop"], sides.top);
+  bindTokenVariable(frame, ["paddingRight"], sides.right);
+  bindTokenVariable(frame, ["paddingBottom"], sides.bottom);
+  bindTokenVariable(frame, ["paddingLeft"], sides.left);
+}
+
+/**
+ * Activates the spec tokens and creates a Figma Variable collection for them.
+ * Colors become COLOR variables, spacing and radii FLOAT variables (e.g. "color/primary").
+ */
+function createTokenVariables(tokens: DesignSpecTokens | undefined, name: string): void {
+  activeTokens = tokens ?? {};
+  tokenVariables.clear();
+
+  const colors = Object.entries(activeTokens.color ?? {});
+  const numbers: [string, string, number][] = [
+    ...Object.entries(activeTokens.spacing ?? {}).map(([key, value]): [string, string, number] => [
+      "spacing",
+      key,
+      value,
+    ]),
+    ...Object.entries(activeTokens.radius ?? {}).map(([key, value]): [string, string, number] => [
+      "radius",
+      key,
+      value,
+    ]),
+  ];
+  if (colors.length === 0 && numbers.length === 0) {
+    return;
+  }
+
+  const collection = figma.variables.createVariableCollection(`${name} tokens`);
+  const modeId = collection.modes[0].modeId;
+
+  for (const [key, value] of colors) {
+    const variable = figma.variables.createVariable(`color/${key}`, collection, "COLOR");
+    variable.setValueForMode(modeId, hexToRgb(value));
+    tokenVariables.set(`color.${key}`, variable);
+  }
+  for (const [category, key, value] of numbers) {
+    const variable = figma.variables.createVariable(`${category}/${key}`, collection, "FLOAT");
+    variable.setValueForMode(modeId, value);
+    variable.scopes = category === "spacing" ? ["GAP"] : ["CORNER_RADIUS"];
+    tokenVariables.set(`${category}.${key}`, variable);
+  }
+}
+
+/**
+ * Figma components created for the spec, with the TEXT property id of each param
+ */
+const executedComponents = new Map<
+  string,
+  { component: ComponentNode; propertyIds: Record<string, string> }
+>();
+
+/**
+ * Collects text nodes created for "{{param}}" slots while a component definition is built
+ */
+let slotCollector: {
+  params: Record<string, string>;
+  slots: { param: string; node: TextNode }[];
+} | null = null;
+
+const SLOT_PATTERN = /^\{\{([A-Za-z0-9_-]+)\}\}$/;
+const COMPONENT_GAP = 120;
+
+/**
+ * Creates every component definition once as a Figma component on the page.
+ * Each param becomes a TEXT component property bound to its slot text nodes.
+ */
+async function createComponents(
+  components: Record<string, DesignSpecComponentDefinition> | undefined,
+  page: PageNode,
+): Promise<void> {
+  executedComponents.clear();
+  let y = 0;
+  for (const [name, definition] of Object.entries(components ?? {})) {
+    const params = definition.params ?? {};
+    const collector = { params, slots: [] as { param: string; node: TextNode }[] };
+    slotCollector = collector;
+    let node: SceneNode;
+    try {
+      node = await createNode(definition.node);
+    } finally {
+      slotCollector = null;
+    }
+
+    const component = figma.createComponentFromNode(node);
+    component.name = name;
+    page.appendChild(component);
+    component.y = y;
+    y += component.height + COMPONENT_GAP;
+
+    const propertyIds: Record<string, string> = {};
+    for (const [param, defaultValue] of Object.entries(params)) {
+      propertyIds[param] = component.addComponentProperty(param, "TEXT", defaultValue);
+    }
+    for (const slot of collector.slots) {
+      slot.node.componentPropertyReferences = { characters: propertyIds[slot.param] };
+    }
+    executedComponents.set(name, { component, propertyIds });
+  }
+}
+
+const executedStateSets: ComponentSetNode[] = [];
+const STATE_SET_SPACING = 16;
+
+type StatefulNode = DesignSpecButtonNode | DesignSpecInputNode | DesignSpecSelectNode;
+
+/**
+ * Collects the first button of each variant and the first input and select of the trees,
+ * keyed by the component set name (e.g. "Button/primary", "Input")
+ */
+function collectStateSamples(
+  nodes: DesignSpecNode[],
+  samples: Map<string, StatefulNode> = new Map(),
+): Map<string, StatefulNode> {
+  for (const node of nodes) {
+    const key =
+      node.type === "button"
+        ? `Button/${node.variant ?? "primary"}`
+        : node.type === "input"
+          ? "Input"
+          : node.type === "select"
+            ? "Select"
+            : undefined;
+    if (key && !samples.has(key)) {
+      samples.set(key, node as StatefulNode);
+    }
+    if (node.type === "container") {
+      collectStateSamples(node.children, samples);
+    }
+  }
+  return samples;
+}
+
+/**
+ * The sample in a given state with its explicit colors dropped, so every variant shows
+ * the default styling of its state
+ */
+function stateSample(
+  sample: StatefulNode,
+  state: DesignSpecButtonState | DesignSpecInputState,
+): StatefulNode {
+  if (sample.type === "button") {
+    return {
+      type: "button",
+      label: sample.label,
+      variant: sample.variant,
+      borderRadius: sample.borderRadius,
+      state: state as DesignSpecButtonState,
+    };
+  }
+  return {
+    ...sample,
+    id: undefined,
+    role: undefined,
+    absolute: undefined,
+    width: undefined,
+    background: undefined,
+    border: undefined,
+    error: state === "error" ? sample.error : undefined,
+    state: state as DesignSpecInputState,
+  };
+}
+
+/**
+ * Builds a component set with one variant per state (property "State") for each button
+ * variant and field type used on the screens
+ */
+async function createStateComponentSets(nodes: DesignSpecNode[], page: PageNode): Promise<void> {
+  executedStateSets.length = 0;
+  for (const [name, sample] of collectStateSamples(nodes)) {
+    const states = sample.type === "button" ? BUTTON_STATES : INPUT_STATES;
+    const components: ComponentNode[] = [];
+    for (const state of states) {
+      const component = figma.createComponentFromNode(
+        await createNodeOfType(stateSample(sample, state)),
+      );
+      component.name = `State=${state}`;
+      components.push(component);
+    }
+    const componentSet = figma.combineAsVariants(components, page);
+    componentSet.name = name;
+    componentSet.layoutMode = "HORIZONTAL";
+    componentSet.primaryAxisSizingMode = "AUTO";
+    componentSet.counterAxisSizingMode = "AUTO";
+    componentSet.itemSpacing = STATE_SET_SPACING;
+    componentSet.paddingTop = STATE_SET_SPACING;
+    componentSet.paddingRight = STATE_SET_SPACING;
+    componentSet.paddingBottom = STATE_SET_SPACING;
+    componentSet.paddingLeft = STATE_SET_SPACING;
+    executedStateSets.push(componentSet);
+  }
+}
+
+/**
+ * Moves the created components, then the state component sets, next to the screens,
+ * starting at x
+ */
+function positionComponents(x: number): void {
+  let y = 0;
+  for (const { component } of executedComponents.values()) {
+    component.x = x;
+    y = Math.max(y, component.y + component.height + COMPONENT_GAP);
+  }
+  for (const componentSet of executedStateSets) {
+    componentSet.x = x;
+    componentSet.y = y;
+    y += componentSet.height + COMPONENT_GAP;
+  }
+}
+
+function createInstanceNode(instance: DesignSpecInstanceNode): InstanceNode {
+  const executed = executedComponents.get(instance.component);
+  if (!executed) {
+    throw new Error(`Unknown component: ${instance.component}`);
+  }
+  const node = executed.component.createInstance();
+  const properties: Record<string, string> = {};
+  for (const [param, value] of Object.entries(instance.overrides ?? {})) {
+    const propertyId = executed.propertyIds[param];
+    if (propertyId) {
+      properties[propertyId] = value;
+    }
+  }
+  if (Object.keys(properties).length > 0) {
+    node.setProperties(properties);
+  }
+  return node;
+}
+
 /**
  * Applies border to a frame using correct Figma API: strokes, strokeWeight, strokeAlign
  */
 function applyBorder(frame: FrameNode, border: DesignSpecBorder): void {
-  const rgb = hexToRgb(border.color);
-  frame.strokes = [{ type: "SOLID", color: rgb }];
+  frame.strokes = [solidPaint(border.color, CONTROL_OFF_COLOR)];
   frame.strokeWeight = border.width;
   frame.strokeAlign = "INSIDE"; // Standard for input borders
 }
 
+/**
+ * Maps the spec's drop shadows to Figma effects and applies the layer opacity
+ */
+function applyEffects(frame: FrameNode, style: DesignSpecSurfaceStyle): void {
+  if (style.shadows) {
+    frame.effects = style.shadows.map(
+      (shadow): DropShadowEffect => ({
+        type: "DROP_SHADOW",
+        color: { ...resolveColor(shadow.color), a: shadow.opacity ?? SHADOW_OPACITY },
+        offset: { x: shadow.x, y: shadow.y },
+        radius: shadow.blur,
+        spread: shadow.spread ?? 0,
+        visible: true,
+        blendMode: "NORMAL",
+      }),
+    );
+  }
+  if (style.opacity !== undefined) {
+    frame.opacity = style.opacity;
+  }
+}
+
+const PRIMARY_AXIS_ALIGN: Record<DesignSpecPrimaryAxisAlign, FrameNode["primaryAxisAlignItems"]> = {
+  start: "MIN",
+  center: "CENTER",
+  end: "MAX",
+  "space-between": "SPACE_BETWEEN",
+};
+
+const COUNTER_AXIS_ALIGN: Record<DesignSpecCounterAxisAlign, FrameNode["counterAxisAlignItems"]> = {
+  start: "MIN",
+  center: "CENTER",
+  end: "MAX",
+};
+
+/**
+ * Applies spec alignment to an auto-layout frame using primaryAxisAlignItems/counterAxisAlignItems
+ */
+function applyAlignment(
+  frame: FrameNode,
+  primaryAxisAlign?: DesignSpecPrimaryAxisAlign,
+  counterAxisAlign?: DesignSpecCounterAxisAlign,
+): void {
+  if (primaryAxisAlign) {
+    frame.primaryAxisAlignItems = PRIMARY_AXIS_ALIGN[primaryAxisAlign];
+  }
+  if (counterAxisAlign) {
+    frame.counterAxisAlignItems = COUNTER_AXIS_ALIGN[counterAxisAlign];
+  }
+}
+
+/**
+ * Maps spec sizing to layoutSizingHorizontal/Vertical.
+ * Must run after the node is appended to its auto-layout parent: FILL requires one.
+ */
+function applySizing(node: SceneNode, width?: DesignSpecSizing, height?: DesignSpecSizing): void {
+  if (!("layoutSizingHorizontal" in node)) {
+    return;
+  }
+  if (typeof width === "number") {
+    node.resize(width, node.height);
+    node.layoutSizingHorizontal = "FIXED";
+  } else if (width === "fill") {
+    node.layoutSizingHorizontal = "FILL";
+  } else if (width === "hug") {
+    node.layoutSizingHorizontal = "HUG";
+  }
+  if (typeof height === "number") {
+    node.resize(node.width, height);
+    node.layoutSizingVertical = "FIXED";
+  } else if (height === "fill") {
+    node.layoutSizingVertical = "FILL";
+  } else if (height === "hug") {
+    node.layoutSizingVertical = "HUG";
+  }
+}
+
+const HORIZONTAL_CONSTRAINTS: Record<DesignSpecHorizontalConstraint, ConstraintType> = {
+  left: "MIN",
+  right: "MAX",
+  center: "CENTER",
+  "left-right": "STRETCH",
+  scale: "SCALE",
+};
+
+const VERTICAL_CONSTRAINTS: Record<DesignSpecVerticalConstraint, ConstraintType> = {
+  top: "MIN",
+  bottom: "MAX",
+  center: "CENTER",
+  "top-bottom": "STRETCH",
+  scale: "SCALE",
+};
+
+/**
+ * Takes an appended node out of the auto-layout flow and pins it at x/y.
+ * Constraints default to the top-left corner, as in Figma.
+ */
+function applyAbsolutePosition(node: SceneNode, position: DesignSpecAbsolutePosition): void {
+  if (!("layoutPositioning" in node) || !("constraints" in node)) {
+    return;
+  }
+  node.layoutPositioning = "ABSOLUTE";
+  node.x = position.x;
+  node.y = position.y;
+  node.constraints = {
+    horizontal: HORIZONTAL_CONSTRAINTS[position.constraints?.horizontal ?? "left"],
+    vertical: VERTICAL_CONSTRAINTS[position.constraints?.vertical ?? "top"],
+  };
+}
+
+/**
+ * Sizes a spacer along its parent's layout direction; without a size it takes up the
+ * remaining space
+ */
+function applySpacerSize(parent: FrameNode, spacer: FrameNode, size?: DesignSpecNumber): void {
+  const length = Math.max(size === undefined ? 0 : resolveNumber(size), MIN_SIZE);
+  if (parent.layoutMode === "HORIZONTAL") {
+    spacer.resize(length, MIN_SIZE);
+  } else {
+    spacer.resize(MIN_SIZE, length);
+  }
+  if (size === undefined) {
+    spacer.layoutGrow = 1;
+  }
+}
+
+/**
+ * Appends a created node to its auto-layout parent and applies the spec sizing
+ * and absolute position
+ */
+function appendWithSizing(parent: FrameNode, child: SceneNode, nodeSpec: DesignSpecNode): void {
+  parent.appendChild(child);
+  if (nodeSpec.type === "spacer" && child.type === "FRAME") {
+    applySpacerSize(parent, child, nodeSpec.size);
+    return;
+  }
+  const width = "width" in nodeSpec && nodeSpec.type !== "image" ? nodeSpec.width : undefined;
+  const height = "height" in nodeSpec ? nodeSpec.height : undefined;
+  if (!nodeSpec.absolute) {
+    applySizing(child, width, height);
+    return;
+  }
+  applyAbsolutePosition(child, nodeSpec.absolute);
+  // FILL needs an auto-layout flow; absolute children keep their fixed or hugged size
+  applySizing(child, width === "fill" ? undefined : width, height === "fill" ? undefined : height);
+}
+
 async function loadFont(family: string, style: string): Promise<FontName> {
   const fontName: FontName = { family, style };
   await figma.loadFontAsync(fontName);
   return fontName;
 }
 
+/**
+ * Warnings collected while a spec is executed, shown when the plugin closes
+ */
+const executionWarnings: string[] = [];
+
+function addExecutionWarning(message: string): void {
+  if (!executionWarnings.includes(message)) {
+    executionWarnings.push(message);
+  }
+}
+
+/**
+ * Loads the requested font, falling back to the Regular style of the same family,
+ * then to the requested style of Inter, then to Inter Regular.
+ * A substituted font is reported in the execution warnings.
+ */
+async function loadFontWithFallback(family: string, style: string): Promise<FontName> {
+  const candidates: FontName[] = [
+    { family, style },
+    { family, style: DEFAULT_FONT.style },
+    { family: DEFAULT_FONT.family, style },
+    DEFAULT_FONT,
+  ];
+  for (const candidate of candidates) {
+    try {
+      const fontName = await loadFont(candidate.family, candidate.style);
+      if (candidate.family !== family || candidate.style !== style) {
+        addExecutionWarning(
+          `Font not available: ${family} ${style}, using ${fontName.family} ${fontName.style}`,
+        );
+      }
+      return fontName;
+    } catch {
+      // Try the next fallback
+    }
+  }
+  throw new Error(`Failed to load font: ${family} ${style}`);
+}
+
 async function createTextNode(
   content: string,
   fontSize?: number,
-  color?: string,
+  color?: DesignSpecColor,
+  typography: DesignSpecTypography = {},
 ): Promise<TextNode> {
-  const fontName = await loadFont(DEFAULT_FONT.family, DEFAULT_FONT.style);
+  // Typography tokens take precedence over the built-in variant styles
+  const variantStyle: DesignSpecTypographyToken | undefined = typography.variant
+    ? (activeTokens.typography?.[typography.variant] ?? TEXT_VARIANT_STYLES[typography.variant])
+    : undefined;
+  const fontWeight = typography.fontWeight ?? variantStyle?.fontWeight ?? DEFAULT_FONT_WEIGHT;
+  const fontName = await loadFontWithFallback(
+    typography.fontFamily ?? variantStyle?.fontFamily ?? DEFAULT_FONT.family,
+    FONT_WEIGHT_STYLES[fontWeight] ?? DEFAULT_FONT.style,
+  );
   const textNode = figma.createText();
   textNode.fontName = fontName;
-  textNode.fontSize = fontSize ?? DEFAULT_FONT_SIZE;
-  textNode.characters = content;
+  textNode.fontSize = fontSize ?? variantStyle?.fontSize ?? DEFAULT_FONT_SIZE;
+  // Inside a component definition, "{{param}}" slots show the param default
+  const slot = slotCollector ? SLOT_PATTERN.exec(content)?.[1] : undefined;
+  if (slotCollector && slot !== undefined) {
+    textNode.characters = slotCollector.params[slot] ?? content;
+    slotCollector.slots.push({ param: slot, node: textNode });
+  } else {
+    textNode.characters = content;
+  }
+  const lineHeight = typography.lineHeight ?? variantStyle?.lineHeight;
+  if (lineHeight !== undefined) {
+    textNode.lineHeight = { value: lineHeight, unit: "PIXELS" };
+  }
+  if (typography.letterSpacing !== undefined) {
+    textNode.letterSpacing = { value: typography.letterSpacing, unit: "PIXELS" };
+  }
+  if (typography.textAlign) {
+    textNode.textAlignHorizontal = TEXT_ALIGN[typography.textAlign];
+  }
+  if (typography.textDecoration) {
+    textNode.textDecoration = TEXT_DECORATION[typography.textDecoration];
+  }
   // Apply text color from spec or default - MUST use fills property
-  const textColor = color ? hexToRgb(color) : TEXT_COLOR_DEFAULT;
-  textNode.fills = [{ type: "SOLID", color: textColor }];
+  textNode.fills = [solidPaint(color, TEXT_COLOR_DEFAULT)];
   return textNode;
 }
 
-async function createButtonNode(
-  label: string,
-  background?: string,
-  textColor?: string,
-  borderRadius?: number,
-): Promise<FrameNode> {
+/**
+ * Default button look for a variant in a state: hover and pressed darken the background,
+ * focus adds a focus ring and disabled greys the button out
+ */
+function buttonStateStyle(
+  variant: DesignSpecButtonVariant,
+  state: DesignSpecButtonState,
+): ButtonStyle {
+  const style = BUTTON_VARIANT_STYLES[variant];
+  if (state === "hover" || state === "pressed") {
+    return { ...style, background: style[state] };
+  }
+  if (state === "focus") {
+    return { ...style, border: { color: FOCUS_RING_COLOR, width: FOCUS_RING_WIDTH } };
+  }
+  if (state === "disabled") {
+    return {
+      background: style.background && DISABLED_BACKGROUND,
+      textColor: DISABLED_TEXT_COLOR,
+      border: style.border && FIELD_BORDER,
+    };
+  }
+  return style;
+}
+
+async function createButtonNode(button: DesignSpecButtonNode): Promise<FrameNode> {
+  const { label, textColor, borderRadius } = button;
+  const style = buttonStateStyle(button.variant ?? "primary", button.state ?? "default");
+  const background = button.background ?? style.background;
+  const border = button.border ?? style.border;
   const buttonFrame = figma.createFrame();
   buttonFrame.name = label;
+  buttonFrame.setPluginData("variant", button.variant ?? "primary");
+  buttonFrame.setPluginData("state", button.state ?? "default");
   buttonFrame.layoutMode = "HORIZONTAL";
   buttonFrame.primaryAxisSizingMode = "AUTO";
   buttonFrame.counterAxisSizingMode = "AUTO";
+  // Keep the label centered when the button is stretched to full width
+  applyAlignment(
+    buttonFrame,
+    button.primaryAxisAlign ?? "center",
+    button.counterAxisAlign ?? "center",
+  );
   buttonFrame.paddingLeft = BUTTON_PADDING;
   buttonFrame.paddingRight = BUTTON_PADDING;
   buttonFrame.paddingTop = BUTTON_PADDING;
   buttonFrame.paddingBottom = BUTTON_PADDING;
-  buttonFrame.cornerRadius = borderRadius ?? BUTTON_CORNER_RADIUS;
-  // Apply background fill from spec or default - MUST use fills property
-  const bgColor = background ? hexToRgb(background) : BUTTON_BACKGROUND;
-  buttonFrame.fills = [{ type: "SOLID", color: bgColor }];
+  applyCornerRadius(buttonFrame, borderRadius, BUTTON_CORNER_RADIUS);
+  // Apply background fill from spec or variant default - MUST use fills property; ghost buttons have none
+  buttonFrame.fills = background === undefined ? [] : [solidPaint(background, BUTTON_BACKGROUND)];
+  if (border) {
+    applyBorder(buttonFrame, border);
+  }
 
-  const btnTextColor = textColor ? hexToRgb(textColor) : BUTTON_TEXT_COLOR;
   const textNode = await createTextNode(label, undefined, textColor);
   // Apply button text color - MUST use fills property
-  textNode.fills = [{ type: "SOLID", color: btnTextColor }];
+  textNode.fills = [solidPaint(textColor ?? style.textColor, BUTTON_TEXT_COLOR)];
   buttonFrame.appendChild(textNode);
 
   return buttonFrame;
 }
 
+/**
+ * Creates an image placeholder as a rectangle sized from width and aspect ratio.
+ * The fit mode is stored as plugin data so a real image fill can reuse it later.
+ */
+function createImageNode(image: DesignSpecImageNode): RectangleNode {
+  const width = image.width ?? IMAGE_DEFAULT_WIDTH;
+  const aspectRatio = image.aspectRatio ?? IMAGE_DEFAULT_ASPECT_RATIO;
+  const rect = figma.createRectangle();
+  rect.name = `Image: ${image.alt}`;
+  rect.resize(width, Math.max(1, Math.round(width / aspectRatio)));
+  applyCornerRadius(rect, image.borderRadius, 0);
+  // Apply placeholder fill from spec or default - MUST use fills property
+  rect.fills = [solidPaint(image.background, IMAGE_PLACEHOLDER_BACKGROUND)];
+  rect.setPluginData("alt", image.alt);
+  rect.setPluginData("fit", image.fit ?? "fill");
+  // Without an explicit width the placeholder stretches across its auto-layout parent
+  if (image.width === undefined) {
+    rect.layoutAlign = "STRETCH";
+  }
+  return rect;
+}
+
+/**
+ * Creates an icon placeholder as a stroked square vector named after the glyph.
+ * Designers swap it for the real icon from their library.
+ */
+function createIconNode(icon: DesignSpecIconNode): VectorNode {
+  const size = icon.size ?? ICON_DEFAULT_SIZE;
+  const inset = ICON_STROKE_WEIGHT;
+  const vector = figma.createVector();
+  vector.name = `Icon/${icon.name}`;
+  vector.vectorPaths = [
+    {
+      windingRule: "NONZERO",
+      data: `M ${inset} ${inset} L ${size - inset} ${inset} L ${size - inset} ${size - inset} L ${inset} ${size - inset} Z`,
+    },
+  ];
+  vector.resize(size, size);
+  vector.fills = [];
+  // Apply icon color from spec or default - MUST use strokes property
+  vector.strokes = [solidPaint(icon.color, TEXT_COLOR_DEFAULT)];
+  vector.strokeWeight = ICON_STROKE_WEIGHT;
+  return vector;
+}
+
+/**
+ * Creates a labelled field (input or select): label, bordered box and helper or error text.
+ * The error message replaces the helper text and turns the border red; the state picks
+ * the default border, and disabled fields get a grey box and text.
+ */
+async function createFieldNode(
+  field: DesignSpecInputNode | DesignSpecSelectNode,
+  content: string,
+  isPlaceholder: boolean,
+  trailingIcon?: string,
+): Promise<FrameNode> {
+  const fieldFrame = figma.createFrame();
+  fieldFrame.name = field.label ?? (field.type === "select" ? "Select" : "Input");
+  fieldFrame.layoutMode = "VERTICAL";
+  fieldFrame.primaryAxisSizingMode = "AUTO";
+  fieldFrame.counterAxisSizingMode = "AUTO";
+  fieldFrame.itemSpacing = FIELD_GAP;
+  fieldFrame.fills = [];
+
+  if (field.label) {
+    fieldFrame.appendChild(
+      await createTextNode(field.label, FIELD_LABEL_FONT_SIZE, undefined, { variant: "label" }),
+    );
+  }
+
+  const box = figma.createFrame();
+  box.name = "Field";
+  box.layoutMode = "HORIZONTAL";
+  box.primaryAxisSizingMode = "AUTO";
+  box.counterAxisSizingMode = "AUTO";
+  box.counterAxisAlignItems = "CENTER";
+  box.itemSpacing = CONTROL_GAP;
+  box.paddingLeft = FIELD_PADDING;
+  box.paddingRight = FIELD_PADDING;
+  box.paddingTop = FIELD_PADDING;
+  box.paddingBottom = FIELD_PADDING;
+  const state = field.state ?? (field.error ? "error" : "default");
+  const isDisabled = state === "disabled";
+  fieldFrame.setPluginData("state", state);
+  applyCornerRadius(box, field.borderRadius, FIELD_CORNER_RADIUS);
+  box.fills = [
+    solidPaint(
+      field.background ?? (isDisabled ? DISABLED_BACKGROUND : undefined),
+      FIELD_BACKGROUND,
+    ),
+  ];
+  const border = field.border ?? INPUT_STATE_BORDERS[state];
+  applyBorder(box, field.error ? { ...border, color: ERROR_COLOR } : border);
+  box.appendChild(
+    await createTextNode(
+      content,
+      FIELD_LABEL_FONT_SIZE,
+      isDisabled ? DISABLED_TEXT_COLOR : isPlaceholder ? PLACEHOLDER_TEXT_COLOR : undefined,
+    ),
+  );
+  if (trailingIcon) {
+    box.appendChild(createIconNode({ type: "icon", name: trailingIcon, size: 16 }));
+  }
+  fieldFrame.appendChild(box);
+  box.layoutAlign = "STRETCH";
+
+  const hint = field.error ?? field.helperText;
+  if (hint) {
+    const hintColor = field.error ? ERROR_COLOR : PLACEHOLDER_TEXT_COLOR;
+    fieldFrame.appendChild(
+      await createTextNode(hint, FIELD_HINT_FONT_SIZE, hintColor, { variant: "caption" }),
+    );
+  }
+
+  return fieldFrame;
+}
+
+async function createInputNode(input: DesignSpecInputNode): Promise<FrameNode> {
+  const hasValue = !!input.value;
+  let content = input.value ?? input.placeholder ?? " ";
+  if (hasValue && input.inputType === "password") {
+    content = "•".repeat(content.length);
+  }
+  const field = await createFieldNode(
+    input,
+    content,
+    !hasValue,
+    input.inputType === "search" ? "search" : undefined,
+  );
+  field.setPluginData("inputType", input.inputType ?? "text");
+  return field;
+}
+
+async function createSelectNode(select: DesignSpecSelectNode): Promise<FrameNode> {
+  const hasValue = !!select.value;
+  const content = select.value ?? select.placeholder ?? select.options[0];
+  const field = await createFieldNode(select, content, !hasValue, "chevron-down");
+  field.setPluginData("options", JSON.stringify(select.options));
+  return field;
+}
+
+/**
+ * Creates the visual indicator of a checkbox (rounded square), radio (circle) or toggle (track + knob)
+ */
+function createSelectionIndicator(control: DesignSpecSelectionNode): SceneNode {
+  const accent = solidPaint(control.color, hexToRgb(CONTROL_ACCENT_COLOR));
+  const off: SolidPaint = { type: "SOLID", color: CONTROL_OFF_COLOR };
+  const checked = control.checked ?? false;
+
+  if (control.type === "toggle") {
+    const track = figma.createFrame();
+    track.name = checked ? "Toggle/On" : "Toggle/Off";
+    track.resize(TOGGLE_WIDTH, TOGGLE_HEIGHT);
+    track.cornerRadius = TOGGLE_HEIGHT / 2;
+    track.fills = [checked ? accent : off];
+    const knobSize = TOGGLE_HEIGHT - 4;
+    const knob = figma.createEllipse();
+    knob.name = "Knob";
+    knob.resize(knobSize, knobSize);
+    knob.x = checked ? TOGGLE_WIDTH - knobSize - 2 : 2;
+    knob.y = 2;
+    knob.fills = [{ type: "SOLID", color: { r: 1, g: 1, b: 1 } }];
+    track.appendChild(knob);
+    return track;
+  }
+
+  if (control.type === "radio") {
+    const radio = figma.createFrame();
+    radio.name = checked ? "Radio/Checked" : "Radio/Unchecked";
+    radio.resize(CONTROL_SIZE, CONTROL_SIZE);
+    radio.cornerRadius = CONTROL_SIZE / 2;
+    radio.fills = [{ type: "SOLID", color: { r: 1, g: 1, b: 1 } }];
+    radio.strokes = [checked ? accent : off];
+    radio.strokeWeight = 2;
+    radio.strokeAlign = "INSIDE";
+    if (checked) {
+      const dotSize = CONTROL_SIZE / 2;
+      const dot = figma.createEllipse();
+      dot.name = "Dot";
+      dot.resize(dotSize, dotSize);
+      dot.x = (CONTROL_SIZE - dotSize) / 2;
+      dot.y = (CONTROL_SIZE - dotSize) / 2;
+      dot.fills = [accent];
+      radio.appendChild(dot);
+    }
+    return radio;
+  }
+
+  const box = figma.createFrame();
+  box.name = checked ? "Checkbox/Checked" : "Checkbox/Unchecked";
+  box.resize(CONTROL_SIZE, CONTROL_SIZE);
+  box.cornerRadius = 4;
+  if (checked) {
+    box.fills = [accent];
+    const tick = figma.createVector();
+    tick.name = "Check";
+    tick.vectorPaths = [{ windingRule: "NONE", data: "M 5 10 L 8.5 13.5 L 15 7" }];
+    tick.fills = [];
+    tick.strokes = [{ type: "SOLID", color: { r: 1, g: 1, b: 1 } }];
+    tick.strokeWeight = 2;
+    box.appendChild(tick);
+  } else {
+    box.fills = [{ type: "SOLID", color: { r: 1, g: 1, b: 1 } }];
+    box.strokes = [off];
+    box.strokeWeight = 2;
+    box.strokeAlign = "INSIDE";
+  }
+  return box;
+}
+
+async function createSelectionNode(control: DesignSpecSelectionNode): Promise<FrameNode> {
+  const row = figma.createFrame();
+  row.name = control.label;
+  row.layoutMode = "HORIZONTAL";
+  row.primaryAxisSizingMode = "AUTO";
+  row.counterAxisSizingMode = "AUTO";
+  row.counterAxisAlignItems = "CENTER";
+  row.itemSpacing = CONTROL_GAP;
+  row.fills = [];
+  row.appendChild(createSelectionIndicator(control));
+  row.appendChild(await createTextNode(control.label, FIELD_LABEL_FONT_SIZE));
+  if (control.group) {
+    row.setPluginData("group", control.group);
+  }
+  return row;
+}
+
+/**
+ * Creates a transparent Auto Layout frame that hugs its content
+ */
+function createAutoLayoutFrame(name: string, layoutMode: "HORIZONTAL" | "VERTICAL"): FrameNode {
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.layoutMode = layoutMode;
+  frame.primaryAxisSizingMode = "AUTO";
+  frame.counterAxisSizingMode = "AUTO";
+  frame.fills = [];
+  return frame;
+}
+
+/**
+ * Creates a top app bar stretched across its parent: leading icon, title and icon actions
+ */
+async function createNavBarNode(navBar: DesignSpecNavBarNode): Promise<FrameNode> {
+  const bar = createAutoLayoutFrame(navBar.title, "HORIZONTAL");
+  bar.counterAxisAlignItems = "CENTER";
+  applySpacing(bar, BAR_GAP, BAR_PADDING);
+  bar.fills = [solidPaint(navBar.background, CONTAINER_BACKGROUND)];
+
+  if (navBar.leadingIcon) {
+    bar.appendChild(
+      createIconNode({ type: "icon", name: navBar.leadingIcon, color: navBar.color }),
+    );
+  }
+  const title = await createTextNode(navBar.title, NAV_BAR_TITLE_SIZE, navBar.color, {
+    fontWeight: 600,
+  });
+  bar.appendChild(title);
+  title.layoutGrow = 1;
+  for (const action of navBar.actions ?? []) {
+    bar.appendChild(createIconNode({ type: "icon", name: action, color: navBar.color }));
+  }
+
+  bar.layoutAlign = "STRETCH";
+  return bar;
+}
+
+/**
+ * Creates a tab bar with equally wide tabs (icon above label) and a top border;
+ * the active tab uses the accent color
+ */
+async function createTabBarNode(tabBar: DesignSpecTabBarNode): Promise<FrameNode> {
+  const bar = createAutoLayoutFrame("Tab bar", "HORIZONTAL");
+  applySpacing(bar, 0, TAB_BAR_PADDING);
+  bar.fills = [solidPaint(tabBar.background, CONTAINER_BACKGROUND)];
+  bar.strokes = [{ type: "SOLID", color: CONTROL_OFF_COLOR }];
+  bar.strokeWeight = 0;
+  bar.strokeTopWeight = 1;
+
+  const activeIndex = tabBar.activeIndex ?? 0;
+  for (const [index, tab] of tabBar.tabs.entries()) {
+    const isActive = index === activeIndex;
+    const color = isActive
+      ? (tabBar.activeColor ?? CONTROL_ACCENT_COLOR)
+      : (tabBar.color ?? PLACEHOLDER_TEXT_COLOR);
+    const item = createAutoLayoutFrame(tab.label, "VERTICAL");
+    item.counterAxisAlignItems = "CENTER";
+    item.itemSpacing = TAB_GAP;
+    if (tab.icon) {
+      item.appendChild(createIconNode({ type: "icon", name: tab.icon, color }));
+    }
+    item.appendChild(
+      await createTextNode(tab.label, TAB_LABEL_SIZE, color, { fontWeight: isActive ? 600 : 400 }),
+    );
+    item.setPluginData("active", String(isActive));
+    bar.appendChild(item);
+    item.layoutGrow = 1;
+  }
+
+  bar.layoutAlign = "STRETCH";
+  return bar;
+}
+
+/**
+ * Creates a list row: leading icon, title and subtitle, then trailing text, control and icon
+ */
+async function createListItemNode(item: DesignSpecListItemNode): Promise<FrameNode> {
+  const row = createAutoLayoutFrame(item.title, "HORIZONTAL");
+  row.counterAxisAlignItems = "CENTER";
+  applySpacing(row, BAR_GAP, BAR_PADDING);
+  row.minHeight = LIST_ITEM_MIN_HEIGHT;
+
+  if (item.leadingIcon) {
+    row.appendChild(createIconNode({ type: "icon", name: item.leadingIcon }));
+  }
+  const text = createAutoLayoutFrame("Text", "VERTICAL");
+  text.itemSpacing = LIST_ITEM_TEXT_GAP;
+  text.appendChild(await createTextNode(item.title));
+  if (item.subtitle) {
+    text.appendChild(
+      await createTextNode(item.subtitle, FIELD_HINT_FONT_SIZE, PLACEHOLDER_TEXT_COLOR, {
+        variant: "caption",
+      }),
+    );
+  }
+  row.appendChild(text);
+  text.layoutGrow = 1;
+
+  if (item.trailingText) {
+    row.appendChild(
+      await createTextNode(item.trailingText, FIELD_LABEL_FONT_SIZE, PLACEHOLDER_TEXT_COLOR),
+    );
+  }
+  if (item.control) {
+    row.appendChild(
+      createSelectionIndicator({ type: item.control, label: item.title, checked: item.checked }),
+    );
+  }
+  if (item.trailingIcon) {
+    row.appendChild(
+      createIconNode({ type: "icon", name: item.trailingIcon, color: PLACEHOLDER_TEXT_COLOR }),
+    );
+  }
+
+  row.layoutAlign = "STRETCH";
+  return row;
+}
+
+/**
+ * Creates a list surface with its rows, separated by dividers unless disabled
+ */
+async function createListNode(list: DesignSpecListNode): Promise<FrameNode> {
+  const frame = createAutoLayoutFrame("List", "VERTICAL");
+  frame.fills = [solidPaint(list.background, CONTAINER_BACKGROUND)];
+  applyCornerRadius(frame, list.borderRadius, CONTAINER_CORNER_RADIUS);
+  frame.clipsContent = true;
+
+  for (const [index, item] of list.items.entries()) {
+    if (index > 0 && list.dividers !== false) {
+      frame.appendChild(createDividerNode({ type: "divider" }));
+    }
+    frame.appendChild(await createNode(item));
+  }
+  return frame;
+}
+
+const TABLE_ALIGN: Record<DesignSpecTableAlign, FrameNode["primaryAxisAlignItems"]> = {
+  left: "MIN",
+  center: "CENTER",
+  right: "MAX",
+};
+
+/**
+ * Creates a bordered table: a header row and the data rows, each a row of cells sized
+ * by the column widths (columns without a width share the remaining space)
+ */
+async function createTableNode(table: DesignSpecTableNode): Promise<FrameNode> {
+  const frame = createAutoLayoutFrame("Table", "VERTICAL");
+  frame.fills = [solidPaint(table.background, CONTAINER_BACKGROUND)];
+  applyBorder(frame, { color: table.borderColor ?? FIELD_BORDER.color, width: 1 });
+  applyCornerRadius(frame, undefined, FIELD_CORNER_RADIUS);
+  frame.clipsContent = true;
+
+  const rows = [table.columns.map((column) => column.header), ...table.rows];
+  for (const [rowIndex, cells] of rows.entries()) {
+    const isHeader = rowIndex === 0;
+    const row = createAutoLayoutFrame(isHeader ? "Header" : `Row ${rowIndex}`, "HORIZONTAL");
+    if (isHeader) {
+      row.fills = [solidPaint(TABLE_HEADER_BACKGROUND, CONTAINER_BACKGROUND)];
+    } else if (table.striped && rowIndex % 2 === 0) {
+      row.fills = [solidPaint(TABLE_STRIPE_BACKGROUND, CONTAINER_BACKGROUND)];
+    }
+    if (rowIndex < rows.length - 1) {
+      row.strokes = [solidPaint(table.borderColor, CONTROL_OFF_COLOR)];
+      row.strokeWeight = 0;
+      row.strokeBottomWeight = 1;
+    }
+    frame.appendChild(row);
+    row.layoutAlign = "STRETCH";
+
+    for (const [columnIndex, column] of table.columns.entries()) {
+      const cell = createAutoLayoutFrame(column.header, "HORIZONTAL");
+      applySpacing(cell, 0, TABLE_CELL_PADDING);
+      cell.primaryAxisAlignItems = TABLE_ALIGN[column.align ?? "left"];
+      cell.appendChild(
+        await createTextNode(
+          cells[columnIndex] || " ",
+          FIELD_LABEL_FONT_SIZE,
+          undefined,
+          isHeader ? { variant: "label" } : {},
+        ),
+      );
+      row.appendChild(cell);
+      applySizing(cell, column.width ?? "fill");
+    }
+  }
+  return frame;
+}
+
+/**
+ * Creates a divider line that stretches across its parent; vertical dividers separate
+ * items of a horizontal row
+ */
+function createDividerNode(divider: DesignSpecDividerNode): RectangleNode {
+  const thickness = divider.thickness ?? 1;
+  const rect = figma.createRectangle();
+  rect.name = "Divider";
+  rect.fills = [solidPaint(divider.color, CONTROL_OFF_COLOR)];
+  if (divider.orientation === "vertical") {
+    rect.resize(thickness, MIN_SIZE);
+  } else {
+    rect.resize(MIN_SIZE, thickness);
+  }
+  rect.layoutAlign = "STRETCH";
+  return rect;
+}
+
+/**
+ * Creates an empty frame; its size along the parent layout is set when it is appended
+ */
+function createSpacerNode(): FrameNode {
+  const spacer = figma.createFrame();
+  spacer.name = "Spacer";
+  spacer.fills = [];
+  return spacer;
+}
+
 async function createContainerNode(container: DesignSpecContainerNode): Promise<FrameNode> {
   const containerFrame = figma.createFrame();
-  containerFrame.name = "Container";
+  containerFrame.name = container.id ?? "Container";
   containerFrame.layoutMode = container.layout === "vertical" ? "VERTICAL" : "HORIZONTAL";
   containerFrame.primaryAxisSizingMode = "AUTO";
   containerFrame.counterAxisSizingMode = "AUTO";
-  containerFrame.itemSpacing = container.gap;
-  containerFrame.paddingLeft = container.padding;
-  containerFrame.paddingRight = container.padding;
-  containerFrame.paddingTop = container.padding;
-  containerFrame.paddingBottom = container.padding;
-  containerFrame.cornerRadius = container.borderRadius ?? CONTAINER_CORNER_RADIUS;
+  applySpacing(containerFrame, container.gap, container.padding);
+  // Layout roles (field-group, actions, ...) get no default background or radius
+  const isLayoutRole = !!container.role && !SURFACE_ROLES.includes(container.role);
+  applyCornerRadius(
+    containerFrame,
+    container.borderRadius,
+    isLayoutRole ? 0 : CONTAINER_CORNER_RADIUS,
+  );
   // Apply background fill from spec or default - MUST use fills property
-  const bgColor = container.background ? hexToRgb(container.background) : CONTAINER_BACKGROUND;
-  containerFrame.fills = [{ type: "SOLID", color: bgColor }];
+  containerFrame.fills =
+    isLayoutRole && container.background === undefined
+      ? []
+      : [fillPaint(container.background, CONTAINER_BACKGROUND)];
 
   // Apply border using correct Figma API: strokes, strokeWeight, strokeAlign
   if (container.border) {
     applyBorder(containerFrame, container.border);
   }
+  applyEffects(containerFrame, container);
+  applyAlignment(containerFrame, container.primaryAxisAlign, container.counterAxisAlign);
 
   for (const childNode of container.children) {
     const node = await createNode(childNode);
-    containerFrame.appendChild(node);
+    appendWithSizing(containerFrame, node, childNode);
   }
 
   return containerFrame;
 }
 
 async function createNode(node: DesignSpecNode): Promise<SceneNode> {
+  const sceneNode = await createNodeOfType(node);
+  // Spec ids and roles identify layers across regenerations; flow edges find triggers by id
+  if (node.id) {
+    sceneNode.setPluginData("id", node.id);
+  }
+  if (node.role) {
+    sceneNode.setPluginData("role", node.role);
+  }
+  // Accessibility metadata has no Figma equivalent; it is kept for handoff
+  if (node.ariaLabel) {
+    sceneNode.setPluginData("ariaLabel", node.ariaLabel);
+  }
+  if (node.tabIndex !== undefined) {
+    sceneNode.setPluginData("tabIndex", String(node.tabIndex));
+  }
+  if (node.type === "text" && node.headingLevel !== undefined) {
+    sceneNode.setPluginData("headingLevel", String(node.headingLevel));
+  }
+  if (node.type === "text" && node.labelFor) {
+    sceneNode.setPluginData("labelFor", node.labelFor);
+  }
+  return sceneNode;
+}
+
+async function createNodeOfType(node: DesignSpecNode): Promise<SceneNode> {
   if (node.type === "text") {
-    return await createTextNode(node.content, node.fontSize, node.color);
+    return await createTextNode(node.content, node.fontSize, node.color, node);
   }
   if (node.type === "button") {
-    return await createButtonNode(node.label, node.background, node.textColor, node.borderRadius);
+    return await createButtonNode(node);
+  }
+  if (node.type === "image") {
+    return createImageNode(node);
+  }
+  if (node.type === "icon") {
+    return createIconNode(node);
+  }
+  if (node.type === "input") {
+    return await createInputNode(node);
+  }
+  if (node.type === "select") {
+    return await createSelectNode(node);
+  }
+  if (node.type === "checkbox" || node.type === "radio" || node.type === "toggle") {
+    return await createSelectionNode(node);
+  }
+  if (node.type === "instance") {
+    return createInstanceNode(node);
+  }
+  if (node.type === "navBar") {
+    return await createNavBarNode(node);
+  }
+  if (node.type === "tabBar") {
+    return await createTabBarNode(node);
+  }
+  if (node.type === "list") {
+    return await createListNode(node);
+  }
+  if (node.type === "listItem") {
+    return await createListItemNode(node);
+  }
+  if (node.type === "table") {
+    return await createTableNode(node);
+  }
+  if (node.type === "divider") {
+    return createDividerNode(node);
+  }
+  if (node.type === "spacer") {
+    return createSpacerNode();
   }
   if (node.type === "container") {
     return await createContainerNode(node);
@@ -335,61 +1922,213 @@ async function createNode(node: DesignSpecNode): Promise<SceneNode> {
   throw new Error(`Unknown node type: ${(node as DesignSpecNode).type}`);
 }
 
-async function executeSpec(spec: DesignSpec): Promise<void> {
+const OVERLAY_PLACEMENT_ALIGN: Record<
+  DesignSpecOverlayPlacement,
+  FrameNode["primaryAxisAlignItems"]
+> = {
+  top: "MIN",
+  center: "CENTER",
+  bottom: "MAX",
+};
+
+/**
+ * Creates an overlay layer (modal, sheet, toast) stretched over the whole root frame:
+ * an optional backdrop fill with its content stacked at the overlay placement
+ */
+async function createOverlayLayer(root: FrameNode, overlay: DesignSpecOverlay): Promise<void> {
+  const layer = figma.createFrame();
+  layer.name = overlay.name;
+  layer.layoutMode = "VERTICAL";
+  layer.primaryAxisSizingMode = "FIXED";
+  layer.counterAxisSizingMode = "FIXED";
+  layer.primaryAxisAlignItems = OVERLAY_PLACEMENT_ALIGN[overlay.placement ?? "center"];
+  layer.counterAxisAlignItems = "CENTER";
+  applySpacing(layer, 0, overlay.padding ?? 0);
+  layer.fills =
+    overlay.backdrop === undefined
+      ? []
+      : [
+          {
+            ...solidPaint(overlay.backdrop, CONTAINER_BACKGROUND),
+            opacity: overlay.backdropOpacity ?? 1,
+          },
+        ];
+
+  // Overlays sit above the content in layer order and follow the frame when it resizes
+  root.appendChild(layer);
+  layer.layoutPositioning = "ABSOLUTE";
+  layer.resize(root.width, root.height);
+  layer.x = 0;
+  layer.y = 0;
+  layer.constraints = { horizontal: "STRETCH", vertical: "STRETCH" };
+
+  for (const nodeSpec of overlay.nodes) {
+    const node = await createNode(nodeSpec);
+    appendWithSizing(layer, node, nodeSpec);
+  }
+}
+
+/**
+ * Creates the root Auto Layout frame of a screen with all of its child nodes and overlays
+ */
+async function createRootFrame(
+  frameSpec: DesignSpecFrame,
+  nodes: DesignSpecNode[],
+): Promise<FrameNode> {
+  const frame = figma.createFrame();
+  frame.name = frameSpec.name;
+  frame.layoutMode = frameSpec.layout === "vertical" ? "VERTICAL" : "HORIZONTAL";
+
+  // Set sizing modes based on whether height is specified
+  const hasFixedHeight = frameSpec.height !== undefined;
+  if (frameSpec.layout === "vertical") {
+    // Vertical layout: primary axis is vertical
+    frame.primaryAxisSizingMode = hasFixedHeight ? "FIXED" : "AUTO";
+    frame.counterAxisSizingMode = "FIXED"; // Width is always fixed
+  } else {
+    // Horizontal layout: primary axis is horizontal
+    frame.primaryAxisSizingMode = "FIXED"; // Width is always fixed
+    frame.counterAxisSizingMode = hasFixedHeight ? "FIXED" : "AUTO";
+  }
+
+  // Set dimensions using resize() - required when using FIXED sizing modes
+  const frameHeight = frameSpec.height ?? 0; // 0 means auto-calculate
+  frame.resize(frameSpec.width, frameHeight);
+
+  applySpacing(frame, frameSpec.gap, frameSpec.padding);
+  applyCornerRadius(frame, frameSpec.borderRadius, CONTAINER_CORNER_RADIUS);
+
+  // Apply background fill from spec or default - MUST use fills property
+  frame.fills = [fillPaint(frameSpec.background, CONTAINER_BACKGROUND)];
+
+  // Apply border using correct Figma API: strokes, strokeWeight, strokeAlign
+  if (frameSpec.border) {
+    applyBorder(frame, frameSpec.border);
+  }
+  applyEffects(frame, frameSpec);
+  applyAlignment(frame, frameSpec.primaryAxisAlign, frameSpec.counterAxisAlign);
+
+  // Create child nodes
+  for (const nodeSpec of nodes) {
+    const node = await createNode(nodeSpec);
+    appendWithSizing(frame, node, nodeSpec);
+  }
+
+  for (const overlay of frameSpec.overlays ?? []) {
+    await createOverlayLayer(frame, overlay);
+  }
+
+  return frame;
+}
+
+/**
+ * Screen nodes together with the nodes of the frame overlays
+ */
+function screenNodes(frame: DesignSpecFrame, nodes: DesignSpecNode[]): DesignSpecNode[] {
+  return [...nodes, ...(frame.overlays ?? []).flatMap((overlay) => overlay.nodes)];
+}
+
+async function executeSpec(spec: DesignSpec, stateVariants: boolean): Promise<void> {
   try {
     // Create page
     const page = figma.createPage();
     page.name = spec.page;
+    createTokenVariables(spec.tokens, spec.page);
+    await createComponents(spec.components, page);
+    await createStateComponentSets(stateVariants ? screenNodes(spec.frame, spec.nodes) : [], page);
+
+    // Create root frame and add it to page
+    const frame = await createRootFrame(spec.frame, spec.nodes);
+    page.appendChild(frame);
+    positionComponents(frame.width + COMPONENT_GAP);
 
-    // Create root frame
-    const frame = figma.createFrame();
-    frame.name = spec.frame.name;
-    frame.layoutMode = spec.frame.layout === "vertical" ? "VERTICAL" : "HORIZONTAL";
-
-    // Set sizing modes based on whether height is specified
-    const hasFixedHeight = spec.frame.height !== undefined;
-    if (spec.frame.layout === "vertical") {
-      // Vertical layout: primary axis is vertical
-      frame.primaryAxisSizingMode = hasFixedHeight ? "FIXED" : "AUTO";
-      frame.counterAxisSizingMode = "FIXED"; // Width is always fixed
-    } else {
-      // Horizontal layout: primary axis is horizontal
-      frame.primaryAxisSizingMode = "FIXED"; // Width is always fixed
-      frame.counterAxisSizingMode = hasFixedHeight ? "FIXED" : "AUTO";
+    // Set as current page and scroll to frame
+    figma.currentPage = page;
+    figma.viewport.scrollAndZoomIntoView([frame]);
+  } catch (error) {
+    // Re-throw with context for better error messages
+    if (error instanceof Error) {
+      throw new Error(`Execution failed: ${error.message}`);
     }
+    throw error;
+  }
+}
 
-    // Set dimensions using resize() - required when using FIXED sizing modes
-    const frameHeight = spec.frame.height ?? 0; // 0 means auto-calculate
-    frame.resize(spec.frame.width, frameHeight);
+const FLOW_SCREEN_GAP = 120;
 
-    frame.itemSpacing = spec.frame.gap;
-    frame.paddingLeft = spec.frame.padding;
-    frame.paddingRight = spec.frame.padding;
-    frame.paddingTop = spec.frame.padding;
-    frame.paddingBottom = spec.frame.padding;
-    frame.cornerRadius = spec.frame.borderRadius ?? CONTAINER_CORNER_RADIUS;
+/**
+ * Adds an on-click navigation reaction from the trigger button to the target screen frame
+ */
+async function wireFlowEdge(
+  edge: DesignSpecFlowEdge,
+  screenFrames: Map<string, FrameNode>,
+): Promise<void> {
+  const source = screenFrames.get(edge.from);
+  const target = screenFrames.get(edge.to);
+  if (!source || !target) {
+    throw new Error(`Flow edge references unknown screen: ${edge.from} -> ${edge.to}`);
+  }
 
-    // Apply background fill from spec or default - MUST use fills property
-    const bgColor = spec.frame.background ? hexToRgb(spec.frame.background) : CONTAINER_BACKGROUND;
-    frame.fills = [{ type: "SOLID", color: bgColor }];
+  const trigger = source.findOne((node) => node.getPluginData("id") === edge.trigger);
+  if (!trigger || !("setReactionsAsync" in trigger)) {
+    throw new Error(`Trigger button '${edge.trigger}' not found on screen '${edge.from}'`);
+  }
 
-    // Apply border using correct Figma API: strokes, strokeWeight, strokeAlign
-    if (spec.frame.border) {
-      applyBorder(frame, spec.frame.border);
-    }
+  await trigger.setReactionsAsync([
+    {
+      trigger: { type: "ON_CLICK" },
+      actions: [
+        { type: "NODE", destinationId: target.id, navigation: "NAVIGATE", transition: null },
+      ],
+    },
+  ]);
+}
 
-    // Create child nodes
-    for (const nodeSpec of spec.nodes) {
-      const node = await createNode(nodeSpec);
-      frame.appendChild(node);
+/**
+ * Renders every screen of a flow side by side on one page.
+ * When wirePrototype is set, edges become prototype links between the frames.
+ */
+async function executeFlowSpec(
+  flow: DesignSpecFlow,
+  wirePrototype: boolean,
+  stateVariants: boolean,
+): Promise<void> {
+  try {
+    const page = figma.createPage();
+    page.name = flow.page;
+    createTokenVariables(flow.tokens, flow.page);
+    await createComponents(flow.components, page);
+    await createStateComponentSets(
+      stateVariants
+        ? flow.screens.flatMap((screen) => screenNodes(screen.frame, screen.nodes))
+        : [],
+      page,
+    );
+
+    const screenFrames = new Map<string, FrameNode>();
+    let x = 0;
+    for (const screen of flow.screens) {
+      const frame = await createRootFrame(screen.frame, screen.nodes);
+      frame.x = x;
+      frame.y = 0;
+      x += frame.width + FLOW_SCREEN_GAP;
+      page.appendChild(frame);
+      screenFrames.set(screen.id, frame);
     }
+    positionComponents(x);
 
-    // Add frame to page
-    page.appendChild(frame);
+    if (wirePrototype) {
+      for (const edge of flow.edges) {
+        await wireFlowEdge(edge, screenFrames);
+      }
+      const firstFrame = screenFrames.get(flow.screens[0].id);
+      if (firstFrame) {
+        page.flowStartingPoints = [{ nodeId: firstFrame.id, name: flow.page }];
+      }
+    }
 
-    // Set as current page and scroll to frame
     figma.currentPage = page;
-    figma.viewport.scrollAndZoomIntoView([frame]);
+    figma.viewport.scrollAndZoomIntoView(Array.from(screenFrames.values()));
   } catch (error) {
     // Re-throw with context for better error messages
     if (error instanceof Error) {
@@ -425,6 +2164,110 @@ if (checkReadOnlyMode()) {
   figma.showUI(pluginHtml, { width: 400, height: 400 });
 }
 
+// Mirrors CURRENT_SPEC_VERSION and SPEC_MIGRATIONS in @eskiz/spec.
+// Documents without specVersion predate versioning and are version 0.
+const CURRENT_SPEC_VERSION = 1;
+
+type SpecDocument = Record<string, unknown>;
+
+function isRecord(value: unknown): value is SpecDocument {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mapDocumentNodes(
+  document: SpecDocument,
+  transform: (node: SpecDocument) => SpecDocument,
+): SpecDocument {
+  const mapNode = (node: unknown): unknown => {
+    if (!isRecord(node)) return node;
+    const next = transform(node);
+    return Array.isArray(next.children) ? { ...next, children: next.children.map(mapNode) } : next;
+  };
+  const mapNodes = (nodes: unknown): unknown => (Array.isArray(nodes) ? nodes.map(mapNode) : nodes);
+
+  const result: SpecDocument = { ...document };
+  if ("nodes" in document) {
+    result.nodes = mapNodes(document.nodes);
+  }
+  if (Array.isArray(document.screens)) {
+    result.screens = document.screens.map((screen) =>
+      isRecord(screen) ? { ...screen, nodes: mapNodes(screen.nodes) } : screen,
+    );
+  }
+  if (isRecord(document.components)) {
+    const components: SpecDocument = {};
+    for (const [name, definition] of Object.entries(document.components)) {
+      components[name] = isRecord(definition)
+        ? { ...definition, node: mapNode(definition.node) }
+        : definition;
+    }
+    result.components = components;
+  }
+  return result;
+}
+
+// Version 0 generators gave placeholder text this grey, and wrote placeholders
+// as "Enter ..." or "Placeholder"
+const LEGACY_PLACEHOLDER_COLOR = "#6b7280";
+const LEGACY_PLACEHOLDER_CONTENT = /^enter\b|\bplaceholder\b/i;
+
+function isLegacyPlaceholder(node: SpecDocument): boolean {
+  if (node.type !== "text" || typeof node.content !== "string") {
+    return false;
+  }
+  if (typeof node.color === "string") {
+    return node.color.toLowerCase() === LEGACY_PLACEHOLDER_COLOR;
+  }
+  return LEGACY_PLACEHOLDER_CONTENT.test(node.content);
+}
+
+// Version 0 built inputs from a bordered container holding the placeholder text.
+// Other bordered containers with one text child, such as notices, are left alone.
+function convertLegacyInput(node: SpecDocument): SpecDocument {
+  if (node.type !== "container" || !node.border || !Array.isArray(node.children)) {
+    return node;
+  }
+  const [child] = node.children;
+  if (node.children.length !== 1 || !isRecord(child) || !isLegacyPlaceholder(child)) {
+    return node;
+  }
+
+  const input: SpecDocument = { type: "input", placeholder: child.content };
+  for (const key of ["background", "borderRadius", "border", "width"]) {
+    if (node[key] !== undefined) {
+      input[key] = node[key];
+    }
+  }
+  return input;
+}
+
+// Step migrations keyed by the version they upgrade from
+const SPEC_MIGRATIONS: Record<number, (document: SpecDocument) => SpecDocument> = {
+  0: (document) => mapDocumentNodes(document, convertLegacyInput),
+};
+
+function migrateSpecDocument(spec: unknown): { spec: unknown; fromVersion: number } {
+  if (!isRecord(spec)) {
+    return { spec, fromVersion: CURRENT_SPEC_VERSION };
+  }
+
+  const fromVersion = spec.specVersion ?? 0;
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion) || fromVersion < 0) {
+    throw new Error(`Invalid specVersion: ${JSON.stringify(fromVersion)}`);
+  }
+  if (fromVersion > CURRENT_SPEC_VERSION) {
+    throw new Error(
+      `specVersion ${fromVersion} is newer than this plugin supports (${CURRENT_SPEC_VERSION}). Update the plugin.`,
+    );
+  }
+
+  let migrated = spec;
+  for (let version = fromVersion; version < CURRENT_SPEC_VERSION; version++) {
+    migrated = SPEC_MIGRATIONS[version](migrated);
+  }
+  return { spec: { ...migrated, specVersion: CURRENT_SPEC_VERSION }, fromVersion };
+}
+
 function validateSpecStructure(spec: unknown): spec is DesignSpec {
   if (typeof spec !== "object" || spec === null) {
     throw new Error("Invalid DesignSpec: must be an object");
@@ -447,21 +2290,70 @@ function validateSpecStructure(spec: unknown): spec is DesignSpec {
   return true;
 }
 
-figma.ui.onmessage = async (msg) => {
-  if (msg.type === "apply") {
-    try {
-      const spec = msg.spec as unknown;
+function isFlowSpec(spec: unknown): boolean {
+  return typeof spec === "object" && spec !== null && "screens" in spec;
+}
+
+function validateFlowStructure(flow: unknown): flow is DesignSpecFlow {
+  if (typeof flow !== "object" || flow === null) {
+    throw new Error("Invalid FlowSpec: must be an object");
+  }
 
-      // Structural validation
-      validateSpecStructure(spec);
+  const f = flow as Record<string, unknown>;
 
-      // Type assertion after validation
-      const validatedSpec = spec as DesignSpec;
+  if (typeof f.page !== "string" || f.page.length === 0) {
+    throw new Error("Invalid FlowSpec: missing or invalid 'page' field");
+  }
+
+  if (!Array.isArray(f.screens) || f.screens.length === 0) {
+    throw new Error("Invalid FlowSpec: 'screens' must be a non-empty array");
+  }
+
+  for (const screen of f.screens as Record<string, unknown>[]) {
+    if (typeof screen?.id !== "string") {
+      throw new Error("Invalid FlowSpec: every screen needs an 'id'");
+    }
+    validateSpecStructure({ page: f.page, frame: screen.frame, nodes: screen.nodes });
+  }
+
+  if (!Array.isArray(f.edges)) {
+    throw new Error("Invalid FlowSpec: 'edges' must be an array");
+  }
 
-      // Execute with error handling
-      await executeSpec(validatedSpec);
-      figma.ui.postMessage({ type: "success" });
-      figma.closePlugin();
+  return true;
+}
+
+figma.ui.onmessage = async (msg) => {
+  if (msg.type === "apply") {
+    executionWarnings.length = 0;
+    try {
+      const { spec, fromVersion } = migrateSpecDocument(msg.spec);
+
+      if (isFlowSpec(spec)) {
+        validateFlowStructure(spec);
+        await executeFlowSpec(
+          spec as DesignSpecFlow,
+          msg.wirePrototype !== false,
+          msg.stateVariants === true,
+        );
+      } else {
+        // Structural validation
+        validateSpecStructure(spec);
+
+        // Type assertion after validation
+        const validatedSpec = spec as DesignSpec;
+
+        // Execute with error handling
+        await executeSpec(validatedSpec, msg.stateVariants === true);
+      }
+      figma.ui.postMessage({ type: "success", warnings: executionWarnings });
+      const notices = [
+        ...(fromVersion < CURRENT_SPEC_VERSION
+          ? [`Spec upgraded from specVersion ${fromVersion} to ${CURRENT_SPEC_VERSION}`]
+          : []),
+        ...executionWarnings,
+      ];
+      figma.closePlugin(notices.length > 0 ? notices.join("\n") : undefined);
     } catch (error) {
       console.error("Plugin error:", error);
       const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
@@ -1,11 +1,15 @@
-import { render, screen, waitFor } from "@testing-library/react";
+import type { DesignSpec } from "@eskiz/spec";
+import { render, screen, waitFor, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { BrowserRouter } from "react-router-dom";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { Home } from "../app/routes/Home";
 
 vi.mock("../lib/api", () => ({
-  generateSpec: vi.fn(),
+  streamSpec: vi.fn(),
+  importSpec: vi.fn(),
+  refineSpec: vi.fn(),
+  generateCandidates: vi.fn(),
 }));
 
 vi.mock("../lib/clipboard", () => ({
@@ -20,10 +24,28 @@ import * as apiModule from "../lib/api";
 import * as clipboardModule from "../lib/clipboard";
 import * as downloadModule from "../lib/download";
 
-const mockGenerateSpec = vi.mocked(apiModule.generateSpec);
+const mockStreamSpec = vi.mocked(apiModule.streamSpec);
+const mockImportSpec = vi.mocked(apiModule.importSpec);
+const mockRefineSpec = vi.mocked(apiModule.refineSpec);
+const mockGenerateCandidates = vi.mocked(apiModule.generateCandidates);
 const mockCopySpecToClipboard = vi.mocked(clipboardModule.copySpecToClipboard);
 const mockDownloadSpec = vi.mocked(downloadModule.downloadSpec);
 
+/**
+ * Wraps a spec in the response envelope of POST /spec
+ */
+const generated = (spec: DesignSpec, warnings: apiModule.SpecWarning[] = []) => ({
+  spec,
+  warnings,
+  analysis: { nodes_count: spec.nodes.length },
+  usage: {
+    tokens: { prompt: 100, completion: 50, total: 150 },
+    model: "gpt-5-nano",
+    durationMs: 900,
+  },
+  traceId: "trace-1",
+});
+
 const renderHome = (width = 1024) => {
   Object.defineProperty(window, "innerWidth", {
     writable: true,
@@ -77,7 +99,7 @@ describe("Home", () => {
       nodes: [{ type: "text" as const, content: "Test" }],
     };
 
-    mockGenerateSpec.mockResolvedValue(mockSpec);
+    mockStreamSpec.mockResolvedValue(generated(mockSpec));
     renderHome();
 
     const textarea = screen.getByPlaceholderText(/Enter your design prompt/);
@@ -88,7 +110,7 @@ describe("Home", () => {
     });
     await user.click(generateButton);
 
-    expect(mockGenerateSpec).toHaveBeenCalledWith(
+    expect(mockStreamSpec).toHaveBeenCalledWith(
       "Create a login form",
       expect.objectContaining({
         targetLayout: "mobile",
@@ -99,6 +121,8 @@ describe("Home", () => {
           helperText: false,
         }),
       }),
+      expect.any(Object),
+      expect.any(AbortSignal),
     );
   });
 
@@ -116,12 +140,12 @@ describe("Home", () => {
       nodes: [{ type: "text" as const, content: "Test" }],
     };
 
-    let resolvePromise: ((value: typeof mockSpec) => void) | undefined;
-    const promise = new Promise<typeof mockSpec>((resolve) => {
+    let resolvePromise: ((value: apiModule.GeneratedSpec) => void) | undefined;
+    const promise = new Promise<apiModule.GeneratedSpec>((resolve) => {
       resolvePromise = resolve;
     });
 
-    mockGenerateSpec.mockReturnValue(promise);
+    mockStreamSpec.mockReturnValue(promise);
     renderHome();
 
     const textarea = screen.getByPlaceholderText(/Enter your design prompt/);
@@ -135,12 +159,151 @@ describe("Home", () => {
     expect(screen.getByText(/Generating/i)).toBeInTheDocument();
     expect(generateButton).toBeDisabled();
 
-    if (resolvePromise) resolvePromise(mockSpec);
+    if (resolvePromise) resolvePromise(generated(mockSpec));
     await waitFor(() => {
       expect(screen.queryByText(/Generating/i)).not.toBeInTheDocument();
     });
   });
 
+  it("lists the nodes as they arrive and cancels the generation", async () => {
+    const user = userEvent.setup();
+    let signal: AbortSignal | undefined;
+    mockStreamSpec.mockImplementation((_prompt, _context, handlers, abortSignal) => {
+      signal = abortSignal;
+      handlers?.onProgress?.({ stage: "requesting" });
+      handlers?.onPartial?.({
+        round: 0,
+        nodes: [
+          { type: "text", content: "Welcome back" },
+          { type: "button", label: "Sign in" },
+        ],
+      });
+      return new Promise((_resolve, reject) => {
+        abortSignal?.addEventListener("abort", () => reject(new Error("aborted")));
+      });
+    });
+    renderHome();
+
+    await user.type(screen.getByPlaceholderText(/Enter your design prompt/), "Login form");
+    await user.click(screen.getByRole("button", { name: /Generate Spec/i }));
+
+    const progress = screen.getByRole("region", { name: "Generation progress" });
+    expect(progress).toHaveTextContent("Waiting for the model...");
+    expect(progress).toHaveTextContent("Welcome back");
+    expect(progress).toHaveTextContent("Sign in");
+
+    await user.click(screen.getByRole("button", { name: /Cancel/i }));
+
+    expect(signal?.aborted).toBe(true);
+    await waitFor(() => {
+      expect(screen.queryByRole("region", { name: "Generation progress" })).not.toBeInTheDocument();
+    });
+    expect(screen.queryByText(/Error:/i)).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /Generate Spec/i })).toBeEnabled();
+  });
+
+  it("refines the generated spec and lists the changes of each instruction", async () => {
+    const user = userEvent.setup();
+    const mockSpec: DesignSpec = {
+      page: "Login",
+      frame: { name: "Login", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [{ type: "button", id: "sign-in", label: "Sign in", variant: "primary" }],
+    };
+    const refined: DesignSpec = {
+      ...mockSpec,
+      page: "Refined login",
+      nodes: [{ type: "button", id: "sign-in", label: "Sign in", variant: "secondary" }],
+    };
+    mockStreamSpec.mockResolvedValue(generated(mockSpec));
+    mockRefineSpec.mockResolvedValue({
+      ...generated(refined),
+      patch: [
+        { op: "replace", path: "/page", value: "Refined login" },
+        { op: "replace", path: "/nodes/0/variant", value: "secondary" },
+      ],
+      migration: { migrated: false, fromVersion: 1, toVersion: 1, applied: [] },
+    });
+    renderHome();
+
+    await user.type(screen.getByPlaceholderText(/Enter your design prompt/), "Login form");
+    await user.click(screen.getByRole("button", { name: /Generate Spec/i }));
+    const instruction = await screen.findByRole("textbox", { name: "Refine instruction" });
+    await user.type(instruction, "Make the button secondary");
+    await user.click(screen.getByRole("button", { name: /Refine/i }));
+
+    const refine = screen.getByRole("region", { name: "Refine spec" });
+    await waitFor(() => {
+      expect(refine).toHaveTextContent("Make the button secondary");
+    });
+    expect(refine).toHaveTextContent("2 changes");
+    expect(refine).toHaveTextContent("/nodes/0/variant");
+    expect(screen.getByText(/Refined login/)).toBeInTheDocument();
+    expect(instruction).toHaveValue("");
+    expect(mockRefineSpec).toHaveBeenCalledWith(
+      mockSpec,
+      "Make the button secondary",
+      expect.objectContaining({ targetLayout: "mobile" }),
+    );
+  });
+
+  it("shows ranked candidates side by side and switches to the one picked", async () => {
+    const user = userEvent.setup();
+    const candidate = (page: string, rank: number, total: number) => {
+      const { traceId: _traceId, ...result } = generated({
+        page,
+        frame: { name: page, width: 400, layout: "vertical", gap: 16, padding: 24 },
+        nodes: [{ type: "text", content: `${page} title` }],
+      });
+      return {
+        ...result,
+        rank,
+        score: { total, penalties: { findings: 100 - total, rules: 0, structure: 0 } },
+      };
+    };
+    const best = candidate("Compact login", 1, 95);
+    const second = candidate("Spacious login", 2, 80);
+    mockGenerateCandidates.mockResolvedValue({
+      candidates: [best, second],
+      usage: best.usage,
+      traceId: "trace-1",
+    });
+    renderHome();
+
+    await user.type(screen.getByPlaceholderText(/Enter your design prompt/), "Login form");
+    await user.click(screen.getByRole("button", { name: /Advanced settings/i }));
+    await user.selectOptions(screen.getByLabelText("Candidates"), "2");
+    await user.click(screen.getByRole("button", { name: /Generate Spec/i }));
+
+    const first = await screen.findByRole("article", { name: "Candidate 1" });
+    expect(first).toHaveTextContent("95 / 100");
+    expect(within(first).getByRole("button", { name: /Selected/i })).toBeDisabled();
+    expect(mockGenerateCandidates).toHaveBeenCalledWith(
+      "Login form",
+      expect.objectContaining({ targetLayout: "mobile" }),
+      2,
+    );
+    expect(mockStreamSpec).not.toHaveBeenCalled();
+
+    const other = screen.getByRole("article", { name: "Candidate 2" });
+    await user.click(within(other).getByRole("button", { name: /Use this spec/i }));
+
+    expect(within(other).getByRole("button", { name: /Selected/i })).toBeDisabled();
+    expect(screen.getByText(/"Spacious login"/)).toBeInTheDocument();
+
+    mockRefineSpec.mockResolvedValue({
+      ...generated({ ...second.spec, page: "Refined login" }),
+      patch: [{ op: "replace", path: "/page", value: "Refined login" }],
+      migration: { migrated: false, fromVersion: 1, toVersion: 1, applied: [] },
+    });
+    await user.type(screen.getByRole("textbox", { name: "Refine instruction" }), "Rename the page");
+    await user.click(screen.getByRole("button", { name: /Refine/i }));
+
+    await waitFor(() => {
+      expect(screen.queryByRole("region", { name: "Candidates" })).not.toBeInTheDocument();
+    });
+    expect(screen.getByText(/"Refined login"/)).toBeInTheDocument();
+  });
+
   it("renders JSON result after generation", async () => {
     const user = userEvent.setup();
     const mockSpec = {
@@ -155,7 +318,7 @@ describe("Home", () => {
       nodes: [{ type: "text" as const, content: "Test content" }],
     };
 
-    mockGenerateSpec.mockResolvedValue(mockSpec);
+    mockStreamSpec.mockResolvedValue(generated(mockSpec));
     renderHome();
 
     const textarea = screen.getByPlaceholderText(/Enter your design prompt/);
@@ -174,6 +337,44 @@ describe("Home", () => {
     expect(jsonOutput).toBeInTheDocument();
   });
 
+  it("lists the quality issues reported with the spec", async () => {
+    const user = userEvent.setup();
+    const mockSpec: DesignSpec = {
+      page: "Search",
+      frame: { name: "Main", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [{ type: "input", placeholder: "Search" }],
+    };
+
+    mockStreamSpec.mockResolvedValue(
+      generated(mockSpec, [
+        {
+          ruleId: "scale",
+          severity: "info",
+          type: "off_scale_gap",
+          path: "frame",
+          message: "gap 15 is off the 4px spacing grid; the nearest value on it is 16.",
+        },
+        {
+          ruleId: "a11y",
+          severity: "warn",
+          type: "a11y_missing_label",
+          path: "nodes[0]",
+          message: "Input has no accessible name.",
+        },
+      ]),
+    );
+    renderHome();
+
+    await user.type(screen.getByPlaceholderText(/Enter your design prompt/), "Search page");
+    await user.click(screen.getByRole("button", { name: /Generate Spec/i }));
+
+    const issues = await screen.findByRole("region", { name: "Quality issues" });
+    expect(issues).toHaveTextContent("2 quality issues");
+    const items = screen.getAllByRole("listitem");
+    expect(items[0]).toHaveTextContent("Input has no accessible name.");
+    expect(items[1]).toHaveTextContent("off the 4px spacing grid");
+  });
+
   it("calls copy utility when copy button is clicked", async () => {
     const user = userEvent.setup();
     const mockSpec = {
@@ -188,7 +389,7 @@ describe("Home", () => {
       nodes: [{ type: "text" as const, content: "Test" }],
     };
 
-    mockGenerateSpec.mockResolvedValue(mockSpec);
+    mockStreamSpec.mockResolvedValue(generated(mockSpec));
     mockCopySpecToClipboard.mockResolvedValue(undefined);
     renderHome();
 
@@ -229,7 +430,7 @@ describe("Home", () => {
       nodes: [{ type: "text" as const, content: "Test" }],
     };
 
-    mockGenerateSpec.mockResolvedValue(mockSpec);
+    mockStreamSpec.mockResolvedValue(generated(mockSpec));
     renderHome();
 
     const textarea = screen.getByPlaceholderText(/Enter your design prompt/);
@@ -258,6 +459,47 @@ describe("Home", () => {
     expect(mockDownloadSpec).toHaveBeenCalledWith(mockSpec);
   });
 
+  it("opens a saved spec and reports the migration", async () => {
+    const user = userEvent.setup();
+    const savedSpec = {
+      page: "Saved Page",
+      frame: { name: "Saved", width: 400, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [{ type: "text", content: "Saved" }],
+    };
+    mockImportSpec.mockResolvedValue({
+      spec: { ...savedSpec, specVersion: 1 } as DesignSpec,
+      migration: {
+        migrated: true,
+        fromVersion: 0,
+        toVersion: 1,
+        applied: ["Convert bordered placeholder containers into input nodes"],
+      },
+    });
+    renderHome();
+
+    const file = new File([JSON.stringify(savedSpec)], "spec.json", { type: "application/json" });
+    await user.upload(screen.getByLabelText("Spec file"), file);
+
+    await waitFor(() => {
+      expect(screen.getByText("Generated DesignSpec")).toBeInTheDocument();
+    });
+    expect(mockImportSpec).toHaveBeenCalledWith(savedSpec);
+    expect(screen.getByText(/Upgraded spec.json from specVersion 0 to 1/)).toBeInTheDocument();
+  });
+
+  it("shows an error for files that are not JSON", async () => {
+    const user = userEvent.setup();
+    renderHome();
+
+    const file = new File(["not json"], "spec.json", { type: "application/json" });
+    await user.upload(screen.getByLabelText("Spec file"), file);
+
+    await waitFor(() => {
+      expect(screen.getByText(/Error:/i)).toBeInTheDocument();
+    });
+    expect(mockImportSpec).not.toHaveBeenCalled();
+  });
+
   describe("mobile layout", () => {
     it("renders at mobile width without errors", () => {
       renderHome(360);
@@ -301,7 +543,7 @@ describe("Home", () => {
         nodes: [{ type: "text" as const, content: "Test" }],
       };
 
-      mockGenerateSpec.mockResolvedValue(mockSpec);
+      mockStreamSpec.mockResolvedValue(generated(mockSpec));
       renderHome(360);
 
       const textarea = screen.getByPlaceholderText(/Enter your design prompt/);
@@ -321,7 +563,7 @@ describe("Home", () => {
 
     it("shows error message when API call fails", async () => {
       const user = userEvent.setup();
-      mockGenerateSpec.mockRejectedValue(new Error("API error occurred"));
+      mockStreamSpec.mockRejectedValue(new Error("API error occurred"));
 
       renderHome();
 
@@ -353,8 +595,8 @@ describe("Home", () => {
         nodes: [{ type: "text" as const, content: "Test" }],
       };
 
-      mockGenerateSpec.mockRejectedValueOnce(new Error("First error"));
-      mockGenerateSpec.mockResolvedValueOnce(mockSpec);
+      mockStreamSpec.mockRejectedValueOnce(new Error("First error"));
+      mockStreamSpec.mockResolvedValueOnce(generated(mockSpec));
 
       renderHome();
 
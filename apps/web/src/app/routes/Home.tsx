@@ -1,25 +1,75 @@
 import type { DesignSpec, GenerationContext } from "@eskiz/spec";
-import { useState } from "react";
+import { FileUp } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { GenerationProgress } from "../../components/GenerationProgress";
 import { PromptForm } from "../../components/PromptForm";
+import { SpecCandidates } from "../../components/SpecCandidates";
+import { SpecRefine } from "../../components/SpecRefine";
+import type { RefineTurn } from "../../components/SpecRefine";
 import { SpecViewer } from "../../components/SpecViewer";
-import { generateSpec } from "../../lib/api";
+import { SpecWarnings } from "../../components/SpecWarnings";
+import { generateCandidates, importSpec, refineSpec, streamSpec } from "../../lib/api";
+import type {
+  PartialNodes,
+  GenerationProgress as Progress,
+  RankedCandidate,
+  SpecWarning,
+} from "../../lib/api";
+import { readSpecFile } from "../../lib/upload";
 import "./Home.css";
 
 export function Home() {
   const [loading, setLoading] = useState(false);
   const [spec, setSpec] = useState<DesignSpec | null>(null);
+  const [warnings, setWarnings] = useState<SpecWarning[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [migrationNotice, setMigrationNotice] = useState<string | null>(null);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [partial, setPartial] = useState<PartialNodes | null>(null);
+  // Set while a generation streams, to cancel it
+  const [generation, setGeneration] = useState<AbortController | null>(null);
+  // Settings of the last generation, reused to refine its spec
+  const [generationContext, setGenerationContext] = useState<GenerationContext>();
+  const [refineHistory, setRefineHistory] = useState<RefineTurn[]>([]);
+  const [refining, setRefining] = useState(false);
+  const [candidates, setCandidates] = useState<RankedCandidate[]>([]);
+  const [selectedCandidate, setSelectedCandidate] = useState<RankedCandidate | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextRefineTurnId = useRef(0);
 
-  const handleGenerate = async (prompt: string, generationContext: GenerationContext) => {
+  // Leaving the page cancels a running generation
+  useEffect(() => () => generation?.abort(), [generation]);
+
+  const selectCandidate = (candidate: RankedCandidate) => {
+    setSelectedCandidate(candidate);
+    setSpec(candidate.spec);
+    setWarnings(candidate.warnings);
+    setRefineHistory([]);
+  };
+
+  const handleGenerateCandidates = async (
+    prompt: string,
+    context: GenerationContext,
+    count: number,
+  ) => {
+    setGenerationContext(context);
     setLoading(true);
     setError(null);
     setSpec(null);
+    setWarnings([]);
+    setRefineHistory([]);
+    setCandidates([]);
+    setSelectedCandidate(null);
     setCopySuccess(false);
+    setMigrationNotice(null);
 
     try {
-      const result = await generateSpec(prompt, generationContext);
-      setSpec(result);
+      const result = await generateCandidates(prompt, context, count);
+      setCandidates(result.candidates);
+      if (result.candidates.length > 0) {
+        selectCandidate(result.candidates[0]);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
@@ -27,6 +77,106 @@ export function Home() {
     }
   };
 
+  const handleGenerate = async (prompt: string, context: GenerationContext, count = 1) => {
+    if (count > 1) {
+      await handleGenerateCandidates(prompt, context, count);
+      return;
+    }
+
+    const controller = new AbortController();
+    setGeneration(controller);
+    setGenerationContext(context);
+    setLoading(true);
+    setError(null);
+    setSpec(null);
+    setWarnings([]);
+    setRefineHistory([]);
+    setCandidates([]);
+    setSelectedCandidate(null);
+    setProgress(null);
+    setPartial(null);
+    setCopySuccess(false);
+    setMigrationNotice(null);
+
+    try {
+      const result = await streamSpec(
+        prompt,
+        context,
+        { onProgress: setProgress, onPartial: setPartial },
+        controller.signal,
+      );
+      setSpec(result.spec);
+      setWarnings(result.warnings);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      }
+    } finally {
+      setGeneration(null);
+      setLoading(false);
+    }
+  };
+
+  const handleOpenFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+    setSpec(null);
+    setWarnings([]);
+    setRefineHistory([]);
+    setCandidates([]);
+    setSelectedCandidate(null);
+    setGenerationContext(undefined);
+    setCopySuccess(false);
+    setMigrationNotice(null);
+
+    try {
+      const document = await readSpecFile(file);
+      if (typeof document === "object" && document !== null && "screens" in document) {
+        throw new Error("Flow specs can only be opened in the Figma plugin");
+      }
+      const { spec: imported, migration } = await importSpec(document);
+      setSpec(imported);
+      if (migration.migrated) {
+        setMigrationNotice(
+          `Upgraded ${file.name} from specVersion ${migration.fromVersion} to ${migration.toVersion}: ${migration.applied.join("; ")}`,
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not open spec");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefine = async (instruction: string): Promise<boolean> => {
+    if (!spec) return false;
+
+    setRefining(true);
+    setError(null);
+    setCopySuccess(false);
+
+    try {
+      const result = await refineSpec(spec, instruction, generationContext);
+      setSpec(result.spec);
+      setWarnings(result.warnings);
+      // The refined spec replaces the picked candidate, so picking another one would discard it
+      setCandidates([]);
+      setSelectedCandidate(null);
+      const id = nextRefineTurnId.current++;
+      setRefineHistory((history) => [...history, { id, instruction, patch: result.patch }]);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not refine spec");
+      return false;
+    } finally {
+      setRefining(false);
+    }
+  };
+
   const handleCopy = () => {
     setCopySuccess(true);
     setTimeout(() => setCopySuccess(false), 2000);
@@ -43,7 +193,27 @@ export function Home() {
           </p>
         </div>
 
-        <PromptForm onSubmit={handleGenerate} loading={loading} />
+        <PromptForm onSubmit={handleGenerate} loading={loading || refining} />
+
+        <div className="home-open">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={loading || refining}
+            className="home-open-button"
+          >
+            <FileUp size={16} />
+            Open spec.json
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            aria-label="Spec file"
+            onChange={handleOpenFile}
+            hidden
+          />
+        </div>
 
         {error && (
           <div className="error-message">
@@ -51,9 +221,31 @@ export function Home() {
           </div>
         )}
 
+        {migrationNotice && <div className="info-message">{migrationNotice}</div>}
+
         {copySuccess && <div className="success-message">Copied to clipboard</div>}
 
+        {generation && (
+          <GenerationProgress
+            progress={progress}
+            partial={partial}
+            onCancel={() => generation.abort()}
+          />
+        )}
+
+        {candidates.length > 0 && (
+          <SpecCandidates
+            candidates={candidates}
+            selected={selectedCandidate}
+            onSelect={selectCandidate}
+          />
+        )}
+
+        {spec && warnings.length > 0 && <SpecWarnings warnings={warnings} />}
+
         {spec && <SpecViewer spec={spec} onCopy={handleCopy} />}
+
+        {spec && <SpecRefine history={refineHistory} loading={refining} onSubmit={handleRefine} />}
       </div>
     </div>
   );
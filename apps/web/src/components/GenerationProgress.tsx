@@ -0,0 +1,50 @@
+import { Loader2, X } from "lucide-react";
+import type { PartialNodes, GenerationProgress as Progress } from "../lib/api";
+import { describeNode } from "../lib/nodes";
+import "./GenerationProgress.css";
+
+interface GenerationProgressProps {
+  progress: Progress | null;
+  partial: PartialNodes | null;
+  onCancel: () => void;
+}
+
+function describeStage(progress: Progress | null): string {
+  switch (progress?.stage) {
+    case "repairing":
+      return `Correcting the spec (round ${progress.round})...`;
+    case "linting":
+      return "Checking quality...";
+    default:
+      return "Waiting for the model...";
+  }
+}
+
+/**
+ * Shows the step of a streamed generation and the nodes the model has written so far
+ */
+export function GenerationProgress({ progress, partial, onCancel }: GenerationProgressProps) {
+  return (
+    <section className="generation-progress" aria-label="Generation progress">
+      <div className="generation-progress-header">
+        <p className="generation-progress-stage" aria-live="polite">
+          <Loader2 className="icon-spin" size={16} />
+          {describeStage(progress)}
+        </p>
+        <button type="button" onClick={onCancel} className="button">
+          <X size={16} />
+          Cancel
+        </button>
+      </div>
+      {partial && partial.nodes.length > 0 && (
+        <ol className="generation-progress-nodes">
+          {partial.nodes.map((node, index) => (
+            <li key={`${partial.round}-${index}`} className="generation-progress-node">
+              <code>{node.type}</code> {describeNode(node)}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -1,10 +1,14 @@
+import { MAX_CANDIDATES } from "@eskiz/spec";
 import type { GenerationContext } from "@eskiz/spec";
 import { ChevronDown, ChevronUp, Loader2, Sparkles } from "lucide-react";
 import { useState } from "react";
 import "./PromptForm.css";
 
 interface PromptFormProps {
-  onSubmit: (prompt: string, generationContext: GenerationContext) => void;
+  /**
+   * `candidates` is how many specs to generate and rank, 1 for a single streamed spec
+   */
+  onSubmit: (prompt: string, generationContext: GenerationContext, candidates: number) => void;
   loading: boolean;
 }
 
@@ -26,11 +30,12 @@ export function PromptForm({ onSubmit, loading }: PromptFormProps) {
   const [generationContext, setGenerationContext] = useState<GenerationContext>(
     DEFAULT_GENERATION_CONTEXT,
   );
+  const [candidates, setCandidates] = useState(1);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (prompt.trim() && !loading) {
-      onSubmit(prompt.trim(), generationContext);
+      onSubmit(prompt.trim(), generationContext, candidates);
     }
   };
 
@@ -105,6 +110,25 @@ export function PromptForm({ onSubmit, loading }: PromptFormProps) {
               </select>
             </div>
 
+            <div className="advanced-field">
+              <label htmlFor="candidates" className="advanced-label">
+                Candidates
+              </label>
+              <select
+                id="candidates"
+                value={candidates}
+                onChange={(e) => setCandidates(Number(e.target.value))}
+                disabled={loading}
+                className="advanced-select"
+              >
+                {Array.from({ length: MAX_CANDIDATES }, (_, index) => index + 1).map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? "1 (streamed)" : `${count}, ranked`}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="advanced-field">
               <div className="advanced-label">UX patterns</div>
               <div className="advanced-checkboxes">
@@ -200,6 +224,24 @@ export function PromptForm({ onSubmit, loading }: PromptFormProps) {
                 Strict layout mode
               </label>
             </div>
+
+            <div className="advanced-field">
+              <label className="advanced-checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={generationContext.snapToScale ?? false}
+                  onChange={(e) =>
+                    setGenerationContext({
+                      ...generationContext,
+                      snapToScale: e.target.checked,
+                    })
+                  }
+                  disabled={loading}
+                  className="advanced-checkbox"
+                />
+                Snap spacing and type to the scale
+              </label>
+            </div>
           </div>
         )}
       </div>
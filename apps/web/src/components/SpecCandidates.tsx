@@ -0,0 +1,75 @@
+import { Check } from "lucide-react";
+import type { RankedCandidate } from "../lib/api";
+import { describeNode } from "../lib/nodes";
+import "./SpecCandidates.css";
+
+interface SpecCandidatesProps {
+  candidates: RankedCandidate[];
+  selected: RankedCandidate | null;
+  onSelect: (candidate: RankedCandidate) => void;
+}
+
+/**
+ * Shows the ranked candidates of a generation side by side, with their scores, to pick one
+ */
+export function SpecCandidates({ candidates, selected, onSelect }: SpecCandidatesProps) {
+  return (
+    <section className="spec-candidates" aria-label="Candidates">
+      <h2>{candidates.length} candidates, best first</h2>
+      <div className="spec-candidates-grid">
+        {candidates.map((candidate) => {
+          const isSelected = candidate === selected;
+          const { penalties } = candidate.score;
+          return (
+            <article
+              key={candidate.rank}
+              className={`spec-candidate${isSelected ? " selected" : ""}`}
+              aria-label={`Candidate ${candidate.rank}`}
+            >
+              <header className="spec-candidate-header">
+                <span className="spec-candidate-rank">#{candidate.rank}</span>
+                <span className="spec-candidate-score">{candidate.score.total} / 100</span>
+              </header>
+              <p className="spec-candidate-page">{candidate.spec.page}</p>
+              <p className="spec-candidate-stats">
+                {candidate.analysis.nodes_count} nodes, {candidate.warnings.length}{" "}
+                {candidate.warnings.length === 1 ? "issue" : "issues"}
+              </p>
+              <dl className="spec-candidate-penalties">
+                <dt>Lint</dt>
+                <dd>-{penalties.findings}</dd>
+                <dt>Rules</dt>
+                <dd>-{penalties.rules}</dd>
+                <dt>Structure</dt>
+                <dd>-{penalties.structure}</dd>
+              </dl>
+              <ol className="spec-candidate-nodes">
+                {candidate.spec.nodes.map((node, index) => (
+                  <li key={node.id ?? index}>
+                    <code>{node.type}</code> {describeNode(node)}
+                  </li>
+                ))}
+              </ol>
+              <button
+                type="button"
+                onClick={() => onSelect(candidate)}
+                disabled={isSelected}
+                aria-pressed={isSelected}
+                className={`button${isSelected ? "" : " primary"} spec-candidate-select`}
+              >
+                {isSelected ? (
+                  <>
+                    <Check size={16} />
+                    Selected
+                  </>
+                ) : (
+                  "Use this spec"
+                )}
+              </button>
+            </article>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
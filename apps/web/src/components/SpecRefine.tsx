@@ -0,0 +1,97 @@
+import type { JsonPatchOperation } from "@eskiz/spec";
+import { Loader2, Send } from "lucide-react";
+import { useState } from "react";
+import "./SpecRefine.css";
+
+/**
+ * One refinement of the spec: what was asked and what changed
+ */
+export interface RefineTurn {
+  /**
+   * Assigned when the turn is appended; keys the turn in the history
+   */
+  id: number;
+  instruction: string;
+  patch: JsonPatchOperation[];
+}
+
+interface SpecRefineProps {
+  history: RefineTurn[];
+  loading: boolean;
+  /**
+   * Resolves true once the spec has been refined, which clears the instruction
+   */
+  onSubmit: (instruction: string) => Promise<boolean>;
+}
+
+/**
+ * Follow-up instructions that change the current spec, with the changes each one made
+ */
+export function SpecRefine({ history, loading, onSubmit }: SpecRefineProps) {
+  const [instruction, setInstruction] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (instruction.trim() && !loading && (await onSubmit(instruction.trim()))) {
+      setInstruction("");
+    }
+  };
+
+  return (
+    <section className="spec-refine" aria-label="Refine spec">
+      <h2>Refine</h2>
+      {history.length > 0 && (
+        <ol className="spec-refine-history">
+          {history.map((turn) => (
+            <li key={turn.id} className="spec-refine-turn">
+              <p className="spec-refine-instruction">{turn.instruction}</p>
+              <p className="spec-refine-summary">
+                {turn.patch.length === 0
+                  ? "No changes"
+                  : `${turn.patch.length} ${turn.patch.length === 1 ? "change" : "changes"}`}
+              </p>
+              {turn.patch.length > 0 && (
+                <ul className="spec-refine-changes">
+                  {turn.patch.map((operation, opIndex) => (
+                    <li key={`${operation.op}-${operation.path}-${opIndex}`}>
+                      <span className={`spec-refine-op ${operation.op}`}>{operation.op}</span>
+                      <code>{operation.path || "/"}</code>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+      <form onSubmit={handleSubmit} className="spec-refine-form">
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder="Describe a change... (e.g., 'Make the button secondary and add a forgot-password link')"
+          aria-label="Refine instruction"
+          rows={2}
+          disabled={loading}
+          className="spec-refine-input"
+        />
+        <button
+          type="submit"
+          disabled={!instruction.trim() || loading}
+          className="button primary spec-refine-button"
+        >
+          {loading ? (
+            <>
+              <Loader2 className="icon-spin" size={16} />
+              Refining...
+            </>
+          ) : (
+            <>
+              <Send size={16} />
+              Refine
+            </>
+          )}
+        </button>
+      </form>
+    </section>
+  );
+}
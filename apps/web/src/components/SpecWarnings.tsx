@@ -0,0 +1,33 @@
+import type { SpecWarning } from "../lib/api";
+import "./SpecWarnings.css";
+
+interface SpecWarningsProps {
+  warnings: SpecWarning[];
+}
+
+/**
+ * Lists the quality issues the API found in a generated spec, most severe first
+ */
+export function SpecWarnings({ warnings }: SpecWarningsProps) {
+  const severityOrder: SpecWarning["severity"][] = ["error", "warn", "info"];
+  const sorted = [...warnings].sort(
+    (a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity),
+  );
+
+  return (
+    <section className="spec-warnings" aria-label="Quality issues">
+      <h2>
+        {warnings.length} quality {warnings.length === 1 ? "issue" : "issues"}
+      </h2>
+      <ul className="spec-warnings-list">
+        {sorted.map((warning, index) => (
+          <li key={`${warning.path}-${warning.type}-${index}`} className="spec-warning">
+            <span className={`spec-warning-severity ${warning.severity}`}>{warning.severity}</span>
+            <code className="spec-warning-path">{warning.path}</code>
+            <span className="spec-warning-message">{warning.message}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
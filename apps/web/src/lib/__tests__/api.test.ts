@@ -1,6 +1,6 @@
 import type { DesignSpec, GenerationContext } from "@eskiz/spec";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { generateSpec } from "../api.js";
+import { generateCandidates, importSpec, refineSpec, streamSpec } from "../api.js";
 
 const DEFAULT_CONTEXT: GenerationContext = {
   targetLayout: "mobile",
@@ -12,72 +12,78 @@ const DEFAULT_CONTEXT: GenerationContext = {
   },
 };
 
-describe("generateSpec", () => {
+/**
+ * A streaming response whose body delivers the chunks one read at a time
+ */
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const read = vi.fn(async () => {
+    const chunk = chunks.shift();
+    return chunk === undefined
+      ? { done: true, value: undefined }
+      : { done: false, value: encoder.encode(chunk) };
+  });
+  return { ok: true, body: { getReader: () => ({ read }) } } as unknown as Response;
+}
+
+describe("streamSpec", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     global.fetch = vi.fn();
   });
 
-  it("calls API with correct parameters", async () => {
-    const mockSpec: DesignSpec = {
-      page: "Test",
-      frame: {
-        name: "Test Frame",
-        width: 400,
-        layout: "vertical",
-        gap: 16,
-        padding: 24,
-      },
-      nodes: [{ type: "text", content: "Test" }],
+  it("reports events as they arrive and returns the final spec", async () => {
+    const envelope = {
+      spec: { page: "Test", frame: {}, nodes: [{ type: "text", content: "Hi" }] },
+      warnings: [],
+      traceId: "trace-1",
     };
-
-    vi.mocked(global.fetch).mockResolvedValue({
-      ok: true,
-      json: async () => mockSpec,
-    } as Response);
-
-    const result = await generateSpec("Test prompt", DEFAULT_CONTEXT);
+    vi.mocked(global.fetch).mockResolvedValue(
+      streamResponse([
+        'event: progress\ndata: {"stage":"requesting","round":1}\n\nevent: par',
+        'tial\ndata: {"round":1,"nodes":[{"type":"text","content":"Hi"}]}\n\n',
+        "event: warnings\ndata: []\n\n",
+        `event: spec\ndata: ${JSON.stringify(envelope)}\n\n`,
+      ]),
+    );
+    const onProgress = vi.fn();
+    const onPartial = vi.fn();
+    const onWarnings = vi.fn();
+    const controller = new AbortController();
+
+    const result = await streamSpec(
+      "Test",
+      DEFAULT_CONTEXT,
+      { onProgress, onPartial, onWarnings },
+      controller.signal,
+    );
 
     expect(global.fetch).toHaveBeenCalledWith(
-      expect.stringContaining("/api/spec"),
-      expect.objectContaining({
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          prompt: "Test prompt",
-          generationContext: DEFAULT_CONTEXT,
-        }),
-      }),
+      expect.stringContaining("/api/spec/stream"),
+      expect.objectContaining({ method: "POST", signal: controller.signal }),
     );
-    expect(result).toEqual(mockSpec);
-  });
-
-  it("adds dryRun query parameter when dryRun is true", async () => {
-    const mockSpec: DesignSpec = {
-      page: "Test",
-      frame: {
-        name: "Test Frame",
-        width: 400,
-        layout: "vertical",
-        gap: 16,
-        padding: 24,
-      },
-      nodes: [{ type: "text", content: "Test" }],
-    };
+    expect(onProgress).toHaveBeenCalledWith({ stage: "requesting", round: 1 });
+    expect(onPartial).toHaveBeenCalledWith({ round: 1, nodes: [{ type: "text", content: "Hi" }] });
+    expect(onWarnings).toHaveBeenCalledWith([]);
+    expect(result).toEqual(envelope);
+  });
 
-    vi.mocked(global.fetch).mockResolvedValue({
-      ok: true,
-      json: async () => mockSpec,
-    } as Response);
+  it("throws the message of an error event", async () => {
+    vi.mocked(global.fetch).mockResolvedValue(
+      streamResponse([
+        'event: error\ndata: {"error":"Internal server error","message":"Model timed out"}\n\n',
+      ]),
+    );
 
-    await generateSpec("Test prompt", DEFAULT_CONTEXT, true);
+    await expect(streamSpec("Test", DEFAULT_CONTEXT)).rejects.toThrow("Model timed out");
+  });
 
-    expect(global.fetch).toHaveBeenCalledWith(
-      expect.stringContaining("dryRun=true"),
-      expect.any(Object),
+  it("throws when the stream ends without a spec", async () => {
+    vi.mocked(global.fetch).mockResolvedValue(
+      streamResponse(['event: progress\ndata: {"stage":"requesting"}\n\n']),
     );
+
+    await expect(streamSpec("Test", DEFAULT_CONTEXT)).rejects.toThrow("ended before the spec");
   });
 
   it("throws error when API returns error response", async () => {
@@ -90,13 +96,13 @@ describe("generateSpec", () => {
       }),
     } as Response);
 
-    await expect(generateSpec("", DEFAULT_CONTEXT)).rejects.toThrow("Prompt is required");
+    await expect(streamSpec("", DEFAULT_CONTEXT)).rejects.toThrow("Prompt is required");
   });
 
   it("handles network errors", async () => {
     vi.mocked(global.fetch).mockRejectedValue(new Error("Network error"));
 
-    await expect(generateSpec("Test", DEFAULT_CONTEXT)).rejects.toThrow("Network error");
+    await expect(streamSpec("Test", DEFAULT_CONTEXT)).rejects.toThrow("Network error");
   });
 
   it("handles invalid JSON response", async () => {
@@ -108,6 +114,122 @@ describe("generateSpec", () => {
       },
     } as unknown as Response);
 
-    await expect(generateSpec("Test", DEFAULT_CONTEXT)).rejects.toThrow("HTTP 500");
+    await expect(streamSpec("Test", DEFAULT_CONTEXT)).rejects.toThrow("HTTP 500");
+  });
+});
+
+describe("generateCandidates", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = vi.fn();
+  });
+
+  it("asks the spec endpoint for several candidates", async () => {
+    const ranked = { candidates: [], usage: {}, traceId: "trace-1" };
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ranked,
+    } as Response);
+
+    const result = await generateCandidates("Test", DEFAULT_CONTEXT, 3);
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringMatching(/\/api\/spec\?envelope=true$/),
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ prompt: "Test", generationContext: DEFAULT_CONTEXT, candidates: 3 }),
+      }),
+    );
+    expect(result).toEqual(ranked);
+  });
+});
+
+describe("refineSpec", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = vi.fn();
+  });
+
+  const spec: DesignSpec = {
+    page: "Login",
+    frame: { name: "Login", width: 400, layout: "vertical", gap: 16, padding: 24 },
+    nodes: [{ type: "button", label: "Sign in" }],
+  };
+
+  it("posts the spec and instruction to the refine endpoint", async () => {
+    const refined = {
+      spec: { ...spec, nodes: [{ type: "button", label: "Log in" }] },
+      patch: [{ op: "replace", path: "/nodes/0/label", value: "Log in" }],
+    };
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => refined,
+    } as Response);
+
+    const result = await refineSpec(spec, "Rename the button to Log in", DEFAULT_CONTEXT);
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining("/api/spec/refine"),
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({
+          spec,
+          instruction: "Rename the button to Log in",
+          generationContext: DEFAULT_CONTEXT,
+        }),
+      }),
+    );
+    expect(result).toEqual(refined);
+  });
+
+  it("throws the API message when refinement fails", async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 500,
+      json: async () => ({ error: "Internal server error", message: "Invalid DesignSpec" }),
+    } as Response);
+
+    await expect(refineSpec(spec, "Add a link")).rejects.toThrow("Invalid DesignSpec");
+  });
+});
+
+describe("importSpec", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = vi.fn();
+  });
+
+  it("posts the document to the migrate endpoint", async () => {
+    const document = { page: "Test", frame: {}, nodes: [] };
+    const imported = {
+      spec: { ...document, specVersion: 1 },
+      migration: { migrated: true, fromVersion: 0, toVersion: 1, applied: ["Upgrade"] },
+    };
+
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => imported,
+    } as Response);
+
+    const result = await importSpec(document);
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining("/api/spec/migrate"),
+      expect.objectContaining({ method: "POST", body: JSON.stringify(document) }),
+    );
+    expect(result).toEqual(imported);
+  });
+
+  it("throws the API message for unsupported versions", async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: async () => ({
+        error: "Unsupported spec version",
+        message: "specVersion 9 is newer than the supported version 1",
+      }),
+    } as Response);
+
+    await expect(importSpec({ specVersion: 9 })).rejects.toThrow("newer than the supported");
   });
 });
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { readSpecFile } from "../upload.js";
+
+describe("readSpecFile", () => {
+  it("parses the file contents as JSON", async () => {
+    const file = new File([JSON.stringify({ page: "Test" })], "spec.json");
+
+    await expect(readSpecFile(file)).resolves.toEqual({ page: "Test" });
+  });
+
+  it("rejects files that are not JSON", async () => {
+    const file = new File(["not json"], "spec.json");
+
+    await expect(readSpecFile(file)).rejects.toThrow("spec.json is not valid JSON");
+  });
+});
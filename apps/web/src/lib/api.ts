@@ -1,4 +1,11 @@
-import type { DesignSpec, GenerationContext, PromptRequest } from "@eskiz/spec";
+import type {
+  DesignSpec,
+  GenerationContext,
+  JsonPatchOperation,
+  Node,
+  PromptRequest,
+  RefineRequest,
+} from "@eskiz/spec";
 
 export interface ApiError {
   error: string;
@@ -6,16 +13,148 @@ export interface ApiError {
   details?: unknown;
 }
 
-export async function generateSpec(
+export interface SpecMigrationInfo {
+  migrated: boolean;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+/**
+ * Lint finding reported by the API for a generated spec
+ */
+export interface SpecWarning {
+  ruleId: string;
+  severity: "error" | "warn" | "info";
+  type: string;
+  path: string;
+  message: string;
+}
+
+export interface GenerationUsage {
+  tokens: { prompt: number; completion: number; total: number };
+  model: string;
+  durationMs: number;
+}
+
+/**
+ * Response envelope of POST /spec?envelope=true
+ */
+export interface GeneratedSpec {
+  spec: DesignSpec;
+  warnings: SpecWarning[];
+  analysis: Record<string, number>;
+  usage: GenerationUsage;
+  traceId: string | null;
+}
+
+/**
+ * Score of a candidate out of 100, with the points it lost to lint findings, to findings
+ * of weighted rules such as visual-usage, and to its structure
+ */
+export interface CandidateScore {
+  total: number;
+  penalties: { findings: number; rules: number; structure: number };
+}
+
+/**
+ * One of several specs generated for a prompt; rank 1 scored best
+ */
+export interface RankedCandidate extends Omit<GeneratedSpec, "traceId"> {
+  rank: number;
+  score: CandidateScore;
+}
+
+/**
+ * Response of POST /spec with `candidates`
+ */
+export interface GeneratedCandidates {
+  candidates: RankedCandidate[];
+  usage: GenerationUsage;
+  traceId: string | null;
+}
+
+/**
+ * Response of POST /spec/refine: the envelope of the refined spec, plus the JSON Patch that
+ * turns the previous spec into it
+ */
+export interface RefinedSpec extends GeneratedSpec {
+  patch: JsonPatchOperation[];
+  migration: SpecMigrationInfo;
+}
+
+/**
+ * Step of a streamed generation: a model request (round 0), a correction round, or linting
+ */
+export interface GenerationProgress {
+  stage: "requesting" | "repairing" | "linting";
+  round?: number;
+}
+
+/**
+ * Top-level nodes of the model's response so far, before validation. Each correction
+ * round starts over with its own nodes.
+ */
+export interface PartialNodes {
+  round: number;
+  nodes: Node[];
+}
+
+export interface SpecStreamHandlers {
+  onProgress?: (progress: GenerationProgress) => void;
+  onPartial?: (partial: PartialNodes) => void;
+  onWarnings?: (warnings: SpecWarning[]) => void;
+}
+
+export interface ImportedSpec {
+  spec: DesignSpec;
+  migration: SpecMigrationInfo;
+}
+
+/**
+ * Generates several specs for the prompt and returns them ranked, best first
+ */
+export async function generateCandidates(
   prompt: string,
   generationContext: GenerationContext,
-  dryRun = false,
-): Promise<DesignSpec> {
+  candidates: number,
+): Promise<GeneratedCandidates> {
   const url = new URL("/api/spec", window.location.origin);
-  if (dryRun) {
-    url.searchParams.set("dryRun", "true");
+  url.searchParams.set("envelope", "true");
+
+  const requestBody: PromptRequest = {
+    prompt,
+    generationContext,
+    candidates,
+  };
+
+  const response = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to generate spec");
   }
 
+  return response.json() as Promise<GeneratedCandidates>;
+}
+
+/**
+ * Generates a spec over POST /spec/stream, calling the handlers as its Server-Sent Events
+ * arrive, and resolves with the final envelope. Aborting the signal cancels generation.
+ */
+export async function streamSpec(
+  prompt: string,
+  generationContext: GenerationContext,
+  handlers: SpecStreamHandlers = {},
+  signal?: AbortSignal,
+): Promise<GeneratedSpec> {
+  const url = new URL("/api/spec/stream", window.location.origin);
+
   const requestBody: PromptRequest = {
     prompt,
     generationContext,
@@ -27,15 +166,116 @@ export async function generateSpec(
       "Content-Type": "application/json",
     },
     body: JSON.stringify(requestBody),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await toApiError(response, "Failed to generate spec");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+    for (const block of blocks) {
+      const { event, data } = parseEvent(block);
+      if (event === "progress") {
+        handlers.onProgress?.(data as GenerationProgress);
+      } else if (event === "partial") {
+        handlers.onPartial?.(data as PartialNodes);
+      } else if (event === "warnings") {
+        handlers.onWarnings?.(data as SpecWarning[]);
+      } else if (event === "spec") {
+        return data as GeneratedSpec;
+      } else if (event === "error") {
+        const errorData = data as ApiError;
+        throw new Error(errorData.message || errorData.error || "Failed to generate spec");
+      }
+    }
+  }
+
+  throw new Error("The spec stream ended before the spec arrived");
+}
+
+/**
+ * Reads the event name and JSON data of one Server-Sent Event
+ */
+function parseEvent(block: string): { event: string; data: unknown } {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice("event:".length).trim();
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice("data:".length).trimStart());
+    }
+  }
+  return { event, data: data.length > 0 ? JSON.parse(data.join("\n")) : null };
+}
+
+/**
+ * Asks the API to change a spec as the instruction says
+ */
+export async function refineSpec(
+  spec: DesignSpec,
+  instruction: string,
+  generationContext?: GenerationContext,
+): Promise<RefinedSpec> {
+  const url = new URL("/api/spec/refine", window.location.origin);
+
+  const requestBody: RefineRequest = {
+    spec,
+    instruction,
+    generationContext,
+  };
+
+  const response = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to refine spec");
+  }
+
+  return response.json() as Promise<RefinedSpec>;
+}
+
+/**
+ * Sends a saved spec.json to the API, which upgrades it to the current specVersion
+ */
+export async function importSpec(document: unknown): Promise<ImportedSpec> {
+  const url = new URL("/api/spec/migrate", window.location.origin);
+
+  const response = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(document),
   });
 
   if (!response.ok) {
-    const errorData: ApiError = await response.json().catch(() => ({
-      error: "Unknown error",
-      message: `HTTP ${response.status}`,
-    }));
-    throw new Error(errorData.message || errorData.error || "Failed to generate spec");
+    throw await toApiError(response, "Failed to open spec");
   }
 
-  return response.json() as Promise<DesignSpec>;
+  return response.json() as Promise<ImportedSpec>;
+}
+
+async function toApiError(response: Response, fallback: string): Promise<Error> {
+  const errorData: ApiError = await response.json().catch(() => ({
+    error: "Unknown error",
+    message: `HTTP ${response.status}`,
+  }));
+  return new Error(errorData.message || errorData.error || fallback);
 }
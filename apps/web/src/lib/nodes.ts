@@ -0,0 +1,12 @@
+import type { Node } from "@eskiz/spec";
+
+/**
+ * Text that identifies a node in a list, e.g. the label of a button
+ */
+export function describeNode(node: Node): string {
+  const fields = node as { content?: string; label?: string; title?: string; name?: string };
+  if (node.type === "container") {
+    return `${node.children.length} ${node.children.length === 1 ? "child" : "children"}`;
+  }
+  return fields.content ?? fields.label ?? fields.title ?? fields.name ?? "";
+}
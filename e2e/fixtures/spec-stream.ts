@@ -0,0 +1,36 @@
+/**
+ * Envelope fields the API sends with a generated spec
+ */
+export function envelope(spec: unknown) {
+  return {
+    spec,
+    warnings: [],
+    analysis: { nodes_count: 1, depth: 1, surface_nodes_count: 0 },
+    usage: {
+      tokens: { prompt: 100, completion: 50, total: 150 },
+      model: "gpt-5-nano",
+      durationMs: 900,
+    },
+    traceId: "trace-e2e",
+  };
+}
+
+/**
+ * Body of a POST /api/spec/stream response: one Server-Sent Event per entry
+ */
+export function specStream(events: [event: string, data: unknown][]): string {
+  return events
+    .map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    .join("");
+}
+
+/**
+ * A stream that reports the model request and ends with the spec in its envelope
+ */
+export function specStreamFor(spec: unknown): string {
+  return specStream([
+    ["progress", { stage: "requesting", round: 0 }],
+    ["warnings", []],
+    ["spec", envelope(spec)],
+  ]);
+}
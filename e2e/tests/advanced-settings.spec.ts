@@ -1,4 +1,5 @@
 import { expect, test } from "@playwright/test";
+import { specStreamFor } from "../fixtures/spec-stream";
 
 const mockSpec = {
   page: "Test Page",
@@ -15,13 +16,13 @@ const mockSpec = {
 test("advanced settings: toggle and change settings", async ({ page }) => {
   let requestBody: unknown = null;
 
-  await page.route("**/api/spec", async (route) => {
+  await page.route("**/api/spec/stream", async (route) => {
     const request = route.request();
     requestBody = JSON.parse(request.postData() || "{}");
     await route.fulfill({
       status: 200,
-      contentType: "application/json",
-      body: JSON.stringify(mockSpec),
+      contentType: "text/event-stream",
+      body: specStreamFor(mockSpec),
     });
   });
 
@@ -77,13 +78,13 @@ test("advanced settings: toggle and change settings", async ({ page }) => {
 test("advanced settings: default values are used when collapsed", async ({ page }) => {
   let requestBody: unknown = null;
 
-  await page.route("**/api/spec", async (route) => {
+  await page.route("**/api/spec/stream", async (route) => {
     const request = route.request();
     requestBody = JSON.parse(request.postData() || "{}");
     await route.fulfill({
       status: 200,
-      contentType: "application/json",
-      body: JSON.stringify(mockSpec),
+      contentType: "text/event-stream",
+      body: specStreamFor(mockSpec),
     });
   });
 
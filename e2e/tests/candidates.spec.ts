@@ -0,0 +1,52 @@
+import { expect, test } from "@playwright/test";
+import { envelope } from "../fixtures/spec-stream";
+
+function candidate(page: string, rank: number, total: number) {
+  const { traceId: _traceId, ...fields } = envelope({
+    page,
+    frame: { name: `${page} frame`, width: 400, layout: "vertical", gap: 16, padding: 24 },
+    nodes: [{ type: "text", content: `${page} title` }],
+  });
+  return {
+    ...fields,
+    rank,
+    score: { total, penalties: { findings: 100 - total, rules: 0, structure: 0 } },
+  };
+}
+
+test("candidates: pick another ranked candidate", async ({ page }) => {
+  let requestBody: unknown = null;
+  const best = candidate("Compact Login", 1, 95);
+  const second = candidate("Spacious Login", 2, 80);
+
+  await page.route("**/api/spec?envelope=true**", async (route) => {
+    requestBody = JSON.parse(route.request().postData() || "{}");
+    await route.fulfill({
+      status: 200,
+      contentType: "application/json",
+      body: JSON.stringify({ candidates: [best, second], usage: best.usage, traceId: "trace-e2e" }),
+    });
+  });
+
+  await page.goto("/");
+
+  await page.getByPlaceholder(/Enter your design prompt/i).fill("Create a login form");
+  await page.getByRole("button", { name: /Advanced settings/i }).click();
+  await page.getByLabel("Candidates").selectOption("2");
+  await page.getByRole("button", { name: /Generate Spec/i }).click();
+
+  const first = page.getByRole("article", { name: "Candidate 1" });
+  await expect(first).toContainText("95 / 100");
+  await expect(first.getByRole("button", { name: /Selected/i })).toBeDisabled();
+  const specViewer = page.locator(".spec-viewer-content");
+  await expect(specViewer.getByText('"Compact Login"')).toBeVisible();
+  expect(requestBody).toMatchObject({ prompt: "Create a login form", candidates: 2 });
+
+  const other = page.getByRole("article", { name: "Candidate 2" });
+  await other.getByRole("button", { name: /Use this spec/i }).click();
+
+  await expect(other.getByRole("button", { name: /Selected/i })).toBeDisabled();
+  await expect(first.getByRole("button", { name: /Use this spec/i })).toBeEnabled();
+  await expect(specViewer.getByText('"Spacious Login"')).toBeVisible();
+  await expect(specViewer.getByText('"Compact Login"')).toBeHidden();
+});
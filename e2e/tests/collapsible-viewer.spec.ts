@@ -1,4 +1,5 @@
 import { expect, test } from "@playwright/test";
+import { specStreamFor } from "../fixtures/spec-stream";
 
 const mockSpec = {
   page: "Test Page",
@@ -13,11 +14,11 @@ const mockSpec = {
 };
 
 test("collapsible viewer: expand and collapse", async ({ page }) => {
-  await page.route("**/api/spec", async (route) => {
+  await page.route("**/api/spec/stream", async (route) => {
     await route.fulfill({
       status: 200,
-      contentType: "application/json",
-      body: JSON.stringify(mockSpec),
+      contentType: "text/event-stream",
+      body: specStreamFor(mockSpec),
     });
   });
 
@@ -56,11 +57,11 @@ test("collapsible viewer: expand and collapse", async ({ page }) => {
 });
 
 test("collapsible viewer: copy and download buttons work", async ({ page }) => {
-  await page.route("**/api/spec", async (route) => {
+  await page.route("**/api/spec/stream", async (route) => {
     await route.fulfill({
       status: 200,
-      contentType: "application/json",
-      body: JSON.stringify(mockSpec),
+      contentType: "text/event-stream",
+      body: specStreamFor(mockSpec),
     });
   });
 
@@ -123,13 +124,13 @@ test("collapsible viewer: auto-expands on new generation", async ({ page }) => {
   };
 
   let requestCount = 0;
-  await page.route("**/api/spec", async (route) => {
+  await page.route("**/api/spec/stream", async (route) => {
     requestCount++;
     const spec = requestCount === 1 ? firstSpec : secondSpec;
     await route.fulfill({
       status: 200,
-      contentType: "application/json",
-      body: JSON.stringify(spec),
+      contentType: "text/event-stream",
+      body: specStreamFor(spec),
     });
   });
 
@@ -1,7 +1,8 @@
 import { expect, test } from "@playwright/test";
+import { specStream } from "../fixtures/spec-stream";
 
 test("error path: handle API error", async ({ page }) => {
-  await page.route("**/api/spec", async (route) => {
+  await page.route("**/api/spec/stream", async (route) => {
     await route.fulfill({
       status: 500,
       contentType: "application/json",
@@ -23,3 +24,25 @@ test("error path: handle API error", async ({ page }) => {
   await expect(page.getByText(/Error:/i)).toBeVisible();
   await expect(page.getByText(/OpenAI API error/i)).toBeVisible();
 });
+
+test("error path: handle an error event in the stream", async ({ page }) => {
+  await page.route("**/api/spec/stream", async (route) => {
+    await route.fulfill({
+      status: 200,
+      contentType: "text/event-stream",
+      body: specStream([
+        ["progress", { stage: "requesting", round: 0 }],
+        ["error", { error: "Internal server error", message: "Model timed out" }],
+      ]),
+    });
+  });
+
+  await page.goto("/");
+
+  await page.getByPlaceholder(/Enter your design prompt/i).fill("Create a login form");
+  await page.getByRole("button", { name: /Generate Spec/i }).click();
+
+  await expect(page.getByText(/Error:/i)).toBeVisible();
+  await expect(page.getByText(/Model timed out/i)).toBeVisible();
+  await expect(page.getByRole("region", { name: "Generation progress" })).toBeHidden();
+});
@@ -1,4 +1,5 @@
 import { expect, test } from "@playwright/test";
+import { specStreamFor } from "../fixtures/spec-stream";
 
 const mockSpec = {
   page: "Test Page",
@@ -16,11 +17,17 @@ const mockSpec = {
 };
 
 test("happy path: generate spec successfully", async ({ page }) => {
-  await page.route("**/api/spec", async (route) => {
+  // Holds the response back until the progress panel has been checked
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  await page.route("**/api/spec/stream", async (route) => {
+    await released;
     await route.fulfill({
       status: 200,
-      contentType: "application/json",
-      body: JSON.stringify(mockSpec),
+      contentType: "text/event-stream",
+      body: specStreamFor(mockSpec),
     });
   });
 
@@ -32,7 +39,13 @@ test("happy path: generate spec successfully", async ({ page }) => {
   const generateButton = page.getByRole("button", { name: /Generate Spec/i });
   await generateButton.click();
 
+  const progress = page.getByRole("region", { name: "Generation progress" });
+  await expect(progress).toBeVisible();
+  await expect(progress.getByText(/Waiting for the model/i)).toBeVisible();
+  release();
+
   await expect(page.getByText("Generated DesignSpec")).toBeVisible();
+  await expect(progress).toBeHidden();
 
   const specViewer = page.locator(".spec-viewer-content");
   await expect(specViewer).toBeVisible();
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SPEC_VERSION, type SpecMigration, migrateSpec } from "../migrations.js";
+import { designSpecSchema, flowSpecSchema } from "../schema.js";
+
+const legacyInput = {
+  type: "container",
+  layout: "vertical",
+  gap: 0,
+  padding: 12,
+  background: "#FFFFFF",
+  borderRadius: 8,
+  border: { color: "#D1D5DB", width: 1 },
+  width: "fill",
+  children: [{ type: "text", content: "Enter your email" }],
+};
+
+const legacySpec = {
+  page: "Login",
+  frame: { name: "Login", width: 375, height: 812, layout: "vertical", gap: 16, padding: 24 },
+  nodes: [
+    {
+      type: "container",
+      layout: "vertical",
+      gap: 8,
+      padding: 0,
+      children: [{ type: "text", content: "Email" }, legacyInput],
+    },
+    { type: "button", label: "Sign In" },
+  ],
+};
+
+describe("migrateSpec", () => {
+  it("upgrades unversioned documents and converts legacy input containers", () => {
+    const result = migrateSpec(legacySpec);
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(CURRENT_SPEC_VERSION);
+    expect(result.applied).toHaveLength(1);
+    expect(result.spec.specVersion).toBe(CURRENT_SPEC_VERSION);
+
+    const parsed = designSpecSchema.parse(result.spec);
+    const group = parsed.nodes[0];
+    expect(group.type === "container" && group.children[1]).toEqual({
+      type: "input",
+      placeholder: "Enter your email",
+      background: "#FFFFFF",
+      borderRadius: 8,
+      border: { color: "#D1D5DB", width: 1 },
+      width: "fill",
+    });
+  });
+
+  it("converts only containers whose text looks like a legacy placeholder", () => {
+    const notice = {
+      type: "container",
+      layout: "vertical",
+      gap: 0,
+      padding: 12,
+      border: { color: "#D1D5DB", width: 1 },
+      children: [{ type: "text", content: "Your trial ends in 3 days", color: "#111111" }],
+    };
+    const greyPlaceholder = {
+      ...legacyInput,
+      children: [{ type: "text", content: "Search", color: "#6B7280" }],
+    };
+
+    const result = migrateSpec({ ...legacySpec, nodes: [notice, greyPlaceholder] });
+
+    const parsed = designSpecSchema.parse(result.spec);
+    expect(parsed.nodes[0]).toEqual(notice);
+    expect(parsed.nodes[1]).toMatchObject({ type: "input", placeholder: "Search" });
+  });
+
+  it("migrates flow screens and component definitions", () => {
+    const result = migrateSpec({
+      page: "Onboarding",
+      components: { Field: { node: legacyInput } },
+      screens: [{ id: "start", frame: legacySpec.frame, nodes: [legacyInput] }],
+      edges: [],
+    });
+
+    const flow = flowSpecSchema.parse(result.spec);
+    expect(flow.screens[0].nodes[0].type).toBe("input");
+    expect(flow.components?.Field.node.type).toBe("input");
+  });
+
+  it("leaves current documents untouched", () => {
+    const current = { ...legacySpec, specVersion: CURRENT_SPEC_VERSION };
+    const result = migrateSpec(current);
+
+    expect(result.applied).toEqual([]);
+    expect(result.spec).toEqual(current);
+  });
+
+  it("runs registered migrations step by step", () => {
+    const migrations: SpecMigration[] = [
+      { from: 0, description: "a", migrate: (doc) => ({ ...doc, steps: ["a"] }) },
+      {
+        from: 1,
+        description: "b",
+        migrate: (doc) => ({ ...doc, steps: [...(doc.steps as string[]), "b"] }),
+      },
+    ];
+
+    const result = migrateSpec({ page: "P" }, migrations, 2);
+    expect(result.applied).toEqual(["a", "b"]);
+    expect(result.spec).toEqual({ page: "P", steps: ["a", "b"], specVersion: 2 });
+  });
+
+  it("rejects newer, invalid and unmigratable versions", () => {
+    expect(() => migrateSpec({ ...legacySpec, specVersion: CURRENT_SPEC_VERSION + 1 })).toThrow(
+      "newer than the supported version",
+    );
+    expect(() => migrateSpec({ ...legacySpec, specVersion: "1" })).toThrow("Invalid specVersion");
+    expect(() => migrateSpec([])).toThrow("must be a JSON object");
+    expect(() => migrateSpec({ page: "P" }, [], 1)).toThrow("No migration registered");
+  });
+
+  it("requires the current version in the schema", () => {
+    const result = designSpecSchema.safeParse({ ...legacySpec, specVersion: 0 });
+    expect(result.success).toBe(false);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, expect, it } from "vitest";
-import { designSpecSchema, promptRequestSchema } from "../schema.js";
+import {
+  designSpecJsonSchema,
+  designSpecSchema,
+  flowSpecJsonSchema,
+  flowSpecSchema,
+  promptRequestSchema,
+  refineRequestSchema,
+} from "../schema.js";
 
 describe("promptRequestSchema", () => {
   it("should validate a valid prompt request", () => {
@@ -125,6 +132,51 @@ describe("promptRequestSchema", () => {
     const result = promptRequestSchema.safeParse(invalid);
     expect(result.success).toBe(false);
   });
+
+  it("should accept a model and a quality tier, but no unknown tier", () => {
+    expect(
+      promptRequestSchema.safeParse({ prompt: "Create a form", model: "gpt-5-mini" }).success,
+    ).toBe(true);
+    expect(
+      promptRequestSchema.safeParse({ prompt: "Create a form", quality: "best" }).success,
+    ).toBe(true);
+    expect(
+      promptRequestSchema.safeParse({ prompt: "Create a form", quality: "ultra" }).success,
+    ).toBe(false);
+  });
+
+  it("should accept up to four candidates", () => {
+    expect(promptRequestSchema.safeParse({ prompt: "Create a form", candidates: 4 }).success).toBe(
+      true,
+    );
+    expect(promptRequestSchema.safeParse({ prompt: "Create a form", candidates: 5 }).success).toBe(
+      false,
+    );
+    expect(promptRequestSchema.safeParse({ prompt: "Create a form", candidates: 0 }).success).toBe(
+      false,
+    );
+  });
+});
+
+describe("refineRequestSchema", () => {
+  const spec = {
+    page: "Login",
+    frame: { name: "Login", width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+    nodes: [{ type: "button" as const, label: "Sign in" }],
+  };
+
+  it("should accept a spec with an instruction", () => {
+    expect(
+      refineRequestSchema.safeParse({ spec, instruction: "Make the button secondary" }).success,
+    ).toBe(true);
+  });
+
+  it("should reject an empty instruction or an invalid spec", () => {
+    expect(refineRequestSchema.safeParse({ spec, instruction: "" }).success).toBe(false);
+    expect(
+      refineRequestSchema.safeParse({ spec: { page: "Login" }, instruction: "Add a link" }).success,
+    ).toBe(false);
+  });
 });
 
 describe("designSpecSchema", () => {
@@ -245,4 +297,864 @@ describe("designSpecSchema", () => {
     const result = designSpecSchema.safeParse(invalid);
     expect(result.success).toBe(false);
   });
+
+  it("should validate image and icon nodes", () => {
+    const valid = {
+      page: "Profile",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        { type: "image" as const, alt: "User avatar", aspectRatio: 1, fit: "crop" as const },
+        { type: "icon" as const, name: "settings" as const, size: 24, color: "#111111" },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should reject image node without alt text", () => {
+    const invalid = {
+      page: "Home",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [{ type: "image" as const, aspectRatio: 1.5 }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject icon node with unknown name", () => {
+    const invalid = {
+      page: "Home",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [{ type: "icon" as const, name: "unicorn" }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+
+  it("should validate form control nodes", () => {
+    const valid = {
+      page: "Settings",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        {
+          type: "input" as const,
+          label: "Email",
+          placeholder: "Enter your email",
+          inputType: "email" as const,
+          error: "Email is required",
+        },
+        { type: "checkbox" as const, label: "Remember me", checked: true },
+        { type: "radio" as const, label: "Monthly", group: "billing", checked: false },
+        { type: "toggle" as const, label: "Notifications", checked: true },
+        { type: "select" as const, label: "Country", options: ["Germany", "France"] },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should reject select node without options", () => {
+    const invalid = {
+      page: "Home",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [{ type: "select" as const, label: "Country", options: [] }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject checkbox node without label", () => {
+    const invalid = {
+      page: "Home",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [{ type: "checkbox" as const, checked: true }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+
+  it("should validate sizing and alignment on frame, containers and buttons", () => {
+    const valid = {
+      page: "Home",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+        primaryAxisAlign: "center" as const,
+        counterAxisAlign: "center" as const,
+      },
+      nodes: [
+        {
+          type: "container" as const,
+          layout: "horizontal" as const,
+          gap: 8,
+          padding: 0,
+          width: "fill" as const,
+          height: 56,
+          primaryAxisAlign: "space-between" as const,
+          children: [{ type: "text" as const, content: "Title", width: "hug" as const }],
+        },
+        { type: "button" as const, label: "Continue", width: "fill" as const },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should reject unknown sizing modes", () => {
+    const invalid = {
+      page: "Home",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [{ type: "button" as const, label: "Continue", width: "auto" }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+
+  it("should validate text nodes with rich typography", () => {
+    const valid = {
+      page: "Home",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        {
+          type: "text" as const,
+          content: "Welcome back",
+          variant: "heading" as const,
+          fontSize: 24,
+          fontWeight: 600,
+          fontFamily: "Inter",
+          lineHeight: 32,
+          letterSpacing: -0.5,
+          textAlign: "center" as const,
+        },
+        {
+          type: "text" as const,
+          content: "Forgot password?",
+          variant: "label" as const,
+          textDecoration: "underline" as const,
+        },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should reject font weights that are not multiples of 100", () => {
+    const invalid = {
+      page: "Home",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [{ type: "text" as const, content: "Title", fontWeight: 550 }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+
+  it("should validate ids and roles on any node type", () => {
+    const valid = {
+      page: "Login",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+      },
+      nodes: [
+        { type: "text" as const, id: "title", role: "title" as const, content: "Sign in" },
+        {
+          type: "container" as const,
+          id: "login-card",
+          role: "form-card" as const,
+          layout: "vertical" as const,
+          gap: 16,
+          padding: 24,
+          children: [
+            { type: "input" as const, id: "email-input", placeholder: "Email" },
+            {
+              type: "button" as const,
+              id: "submit-button",
+              role: "primary-action" as const,
+              label: "Sign in",
+            },
+          ],
+        },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should validate gradients, shadows, opacity and per-side values", () => {
+    const valid = {
+      page: "Inbox",
+      frame: {
+        name: "Main",
+        width: 400,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: { top: 48, right: 16, bottom: 24, left: 16 },
+        background: {
+          type: "linear-gradient" as const,
+          angle: 180,
+          stops: [
+            { position: 0, color: "#FFFFFF" },
+            { position: 1, color: "#F3F4F6" },
+          ],
+        },
+      },
+      nodes: [
+        {
+          type: "container" as const,
+          layout: "vertical" as const,
+          gap: 8,
+          padding: 16,
+          borderRadius: { topLeft: 12, topRight: 12, bottomRight: 0, bottomLeft: 0 },
+          shadows: [{ x: 0, y: 2, blur: 8, color: "#000000", opacity: 0.1 }],
+          opacity: 0.9,
+          children: [{ type: "text" as const, content: "Message" }],
+        },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should reject single-stop gradients, partial padding and opacity above 1", () => {
+    const frame = { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+    const nodes = [{ type: "text" as const, content: "Hi" }];
+    const invalidFrames = [
+      {
+        ...frame,
+        background: { type: "linear-gradient", stops: [{ position: 0, color: "#FFFFFF" }] },
+      },
+      { ...frame, padding: { top: 16, bottom: 16 } },
+      { ...frame, opacity: 1.5 },
+    ];
+    for (const invalidFrame of invalidFrames) {
+      const result = designSpecSchema.safeParse({ page: "Home", frame: invalidFrame, nodes });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it("should reject unknown roles and empty ids", () => {
+    const frame = {
+      name: "Main",
+      width: 400,
+      layout: "vertical" as const,
+      gap: 16,
+      padding: 24,
+    };
+    const unknownRole = designSpecSchema.safeParse({
+      page: "Home",
+      frame,
+      nodes: [{ type: "text", content: "Hi", role: "hero" }],
+    });
+    const emptyId = designSpecSchema.safeParse({
+      page: "Home",
+      frame,
+      nodes: [{ type: "text", content: "Hi", id: "" }],
+    });
+    expect(unknownRole.success).toBe(false);
+    expect(emptyId.success).toBe(false);
+  });
+
+  it("should validate button variants and control states", () => {
+    const valid = {
+      page: "Form",
+      frame: { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+      nodes: [
+        { type: "input" as const, label: "Email", state: "focus" as const },
+        { type: "select" as const, options: ["Red", "Blue"], state: "disabled" as const },
+        { type: "button" as const, label: "Save", state: "disabled" as const },
+        {
+          type: "button" as const,
+          label: "Delete",
+          variant: "destructive" as const,
+          state: "hover" as const,
+          border: { color: "#B91C1C", width: 1 },
+        },
+        { type: "button" as const, label: "Cancel", variant: "ghost" as const },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should reject unknown variants and states that do not apply to the node type", () => {
+    const frame = { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+    const invalidNodes = [
+      { type: "button", label: "Go", variant: "link" },
+      { type: "button", label: "Go", state: "error" },
+      { type: "input", label: "Email", state: "pressed" },
+    ];
+    for (const node of invalidNodes) {
+      const result = designSpecSchema.safeParse({ page: "Home", frame, nodes: [node] });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it("should validate accessibility metadata", () => {
+    const valid = {
+      page: "Sign in",
+      frame: { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 },
+      nodes: [
+        { type: "text" as const, content: "Sign in", headingLevel: 1 as const },
+        { type: "text" as const, content: "Email", labelFor: "email-input" },
+        { type: "input" as const, id: "email-input", tabIndex: 0 },
+        { type: "button" as const, label: "×", ariaLabel: "Close", tabIndex: 1 },
+        { type: "image" as const, alt: "Logo", tabIndex: -1 },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should reject out-of-range heading levels and tab indexes", () => {
+    const frame = { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+    const invalidNodes = [
+      { type: "text", content: "Title", headingLevel: 7 },
+      { type: "text", content: "Title", headingLevel: 1.5 },
+      { type: "button", label: "Go", tabIndex: -2 },
+      { type: "icon", name: "close", ariaLabel: "" },
+    ];
+    for (const node of invalidNodes) {
+      const result = designSpecSchema.safeParse({ page: "Home", frame, nodes: [node] });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it("should validate navigation and structural nodes", () => {
+    const valid = {
+      page: "Settings",
+      frame: { name: "Main", width: 400, layout: "vertical" as const, gap: 0, padding: 0 },
+      nodes: [
+        {
+          type: "navBar" as const,
+          title: "Settings",
+          leadingIcon: "arrow-left" as const,
+          actions: ["search" as const],
+        },
+        {
+          type: "list" as const,
+          items: [
+            {
+              type: "listItem" as const,
+              title: "Notifications",
+              leadingIcon: "bell" as const,
+              control: "toggle" as const,
+              checked: true,
+            },
+            {
+              type: "listItem" as const,
+              title: "Language",
+              trailingText: "English",
+              trailingIcon: "chevron-right" as const,
+            },
+          ],
+        },
+        { type: "divider" as const },
+        {
+          type: "table" as const,
+          columns: [{ header: "Name" }, { header: "Role", width: 120, align: "right" as const }],
+          rows: [
+            ["Ada", "Admin"],
+            ["Linus", "Viewer"],
+          ],
+          striped: true,
+        },
+        { type: "spacer" as const },
+        {
+          type: "tabBar" as const,
+          tabs: [
+            { label: "Home", icon: "home" as const },
+            { label: "Settings", icon: "settings" as const },
+          ],
+          activeIndex: 1,
+        },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should reject table rows without one cell per column", () => {
+    const result = designSpecSchema.safeParse({
+      page: "Users",
+      frame: { name: "Main", width: 1200, layout: "vertical", gap: 16, padding: 24 },
+      nodes: [
+        {
+          type: "container",
+          layout: "vertical",
+          gap: 8,
+          padding: 0,
+          children: [
+            {
+              type: "table",
+              columns: [{ header: "Name" }, { header: "Email" }],
+              rows: [["Ada", "ada@example.com"], ["Linus"]],
+            },
+          ],
+        },
+      ],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.errors[0]?.path).toEqual(["nodes", 0, "children", 0, "rows", 1]);
+    }
+  });
+
+  it("should validate absolute positions and frame overlays", () => {
+    const valid = {
+      page: "Settings",
+      frame: {
+        name: "Main",
+        width: 400,
+        height: 800,
+        layout: "vertical" as const,
+        gap: 16,
+        padding: 24,
+        overlays: [
+          {
+            name: "Delete confirmation",
+            backdrop: "#000000",
+            backdropOpacity: 0.4,
+            placement: "center" as const,
+            padding: 24,
+            nodes: [
+              {
+                type: "container" as const,
+                role: "card" as const,
+                layout: "vertical" as const,
+                gap: 12,
+                padding: 24,
+                children: [
+                  { type: "text" as const, content: "Delete account?" },
+                  {
+                    type: "icon" as const,
+                    name: "close" as const,
+                    absolute: { x: 8, y: 8, constraints: { horizontal: "right" as const } },
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      nodes: [
+        {
+          type: "button" as const,
+          label: "Add",
+          absolute: {
+            x: 320,
+            y: 720,
+            constraints: { horizontal: "right" as const, vertical: "bottom" as const },
+          },
+        },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(valid);
+    }
+  });
+
+  it("should reject unknown constraints and empty overlays", () => {
+    const frame = { name: "Main", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+    const unknownConstraint = designSpecSchema.safeParse({
+      page: "Home",
+      frame,
+      nodes: [
+        {
+          type: "text",
+          content: "Hi",
+          absolute: { x: 0, y: 0, constraints: { vertical: "left" } },
+        },
+      ],
+    });
+    const emptyOverlay = designSpecSchema.safeParse({
+      page: "Home",
+      frame: { ...frame, overlays: [{ name: "Toast", nodes: [] }] },
+      nodes: [{ type: "text", content: "Hi" }],
+    });
+    expect(unknownConstraint.success).toBe(false);
+    expect(emptyOverlay.success).toBe(false);
+  });
+});
+
+describe("design tokens", () => {
+  const frame = {
+    name: "Screen",
+    width: 400,
+    layout: "vertical" as const,
+    gap: { $token: "spacing.md" },
+    padding: 24,
+    background: { $token: "color.surface" },
+  };
+  const tokens = {
+    color: { primary: "#2563EB", surface: "#FFFFFF" },
+    spacing: { md: 16 },
+    radius: { md: 8 },
+    typography: { heading: { fontSize: 24, fontWeight: 600 } },
+  };
+
+  it("should validate token references that resolve against spec tokens", () => {
+    const valid = {
+      page: "Themed",
+      tokens,
+      frame,
+      nodes: [
+        {
+          type: "button",
+          label: "Continue",
+          background: { $token: "color.primary" },
+          borderRadius: { $token: "radius.md" },
+        },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject unknown tokens with the path of the reference", () => {
+    const invalid = {
+      page: "Themed",
+      tokens,
+      frame,
+      nodes: [{ type: "text", content: "Hi", color: { $token: "color.missing" } }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.errors[0]?.path).toEqual(["nodes", 0, "color"]);
+      expect(result.error.errors[0]?.message).toContain("color.missing");
+    }
+  });
+
+  it("should reject token references when the spec has no tokens", () => {
+    const invalid = { page: "Themed", frame, nodes: [{ type: "text", content: "Hi" }] };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject a token from the wrong category", () => {
+    const invalid = {
+      page: "Themed",
+      tokens,
+      frame: { ...frame, gap: { $token: "color.primary" } },
+      nodes: [{ type: "text", content: "Hi" }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("components", () => {
+  const frame = { name: "Screen", width: 400, layout: "vertical" as const, gap: 16, padding: 24 };
+  const components = {
+    "field-group": {
+      params: { label: "Label", placeholder: "Enter value" },
+      node: {
+        type: "container",
+        layout: "vertical",
+        gap: 8,
+        padding: 0,
+        children: [
+          { type: "text", content: "{{label}}", variant: "label" },
+          { type: "input", placeholder: "{{placeholder}}" },
+        ],
+      },
+    },
+  };
+
+  it("should validate instances of defined components", () => {
+    const valid = {
+      page: "Form",
+      components,
+      frame,
+      nodes: [
+        { type: "instance", component: "field-group", overrides: { label: "Email" } },
+        { type: "instance", component: "field-group", width: "fill" },
+      ],
+    };
+    const result = designSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject instances of unknown components", () => {
+    const invalid = {
+      page: "Form",
+      components,
+      frame,
+      nodes: [{ type: "instance", component: "card" }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.errors[0]?.path).toEqual(["nodes", 0, "component"]);
+    }
+  });
+
+  it("should reject instances of unknown components inside overlays", () => {
+    const invalid = {
+      page: "Form",
+      components,
+      frame: {
+        ...frame,
+        overlays: [{ name: "Sheet", nodes: [{ type: "instance", component: "card" }] }],
+      },
+      nodes: [{ type: "instance", component: "field-group" }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.errors[0]?.path).toEqual([
+        "frame",
+        "overlays",
+        0,
+        "nodes",
+        0,
+        "component",
+      ]);
+    }
+  });
+
+  it("should reject overrides for undeclared params", () => {
+    const invalid = {
+      page: "Form",
+      components,
+      frame,
+      nodes: [{ type: "instance", component: "field-group", overrides: { title: "Email" } }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject definitions with undeclared slots or nested instances", () => {
+    const invalid = {
+      page: "Form",
+      components: {
+        card: {
+          node: {
+            type: "container",
+            layout: "vertical",
+            gap: 8,
+            padding: 16,
+            children: [
+              { type: "text", content: "{{title}}" },
+              { type: "instance", component: "card" },
+            ],
+          },
+        },
+      },
+      frame,
+      nodes: [{ type: "text", content: "Hi" }],
+    };
+    const result = designSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.errors.map((error) => error.path)).toEqual([
+        ["components", "card", "params"],
+        ["components", "card", "node", "children", 1],
+      ]);
+    }
+  });
+});
+
+describe("flowSpecSchema", () => {
+  const frame = {
+    name: "Screen",
+    width: 400,
+    height: 800,
+    layout: "vertical" as const,
+    gap: 16,
+    padding: 24,
+  };
+
+  const validFlow = {
+    page: "Signup flow",
+    screens: [
+      {
+        id: "signup",
+        frame: { ...frame, name: "Sign up" },
+        nodes: [{ type: "button" as const, id: "signup-submit", label: "Create account" }],
+      },
+      {
+        id: "verify",
+        frame: { ...frame, name: "Verify email" },
+        nodes: [{ type: "text" as const, content: "Check your inbox" }],
+      },
+    ],
+    edges: [{ from: "signup", trigger: "signup-submit", to: "verify" }],
+  };
+
+  it("should validate a flow with screens and edges", () => {
+    const result = flowSpecSchema.safeParse(validFlow);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(validFlow);
+    }
+  });
+
+  it("should reject duplicate screen ids", () => {
+    const invalid = {
+      ...validFlow,
+      screens: [validFlow.screens[0], { ...validFlow.screens[1], id: "signup" }],
+      edges: [],
+    };
+    const result = flowSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject edges pointing to unknown screens", () => {
+    const invalid = {
+      ...validFlow,
+      edges: [{ from: "signup", trigger: "signup-submit", to: "onboarding" }],
+    };
+    const result = flowSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.errors[0].path).toEqual(["edges", 0, "to"]);
+    }
+  });
+
+  it("should reject edges whose trigger button is not on the source screen", () => {
+    const invalid = {
+      ...validFlow,
+      edges: [{ from: "verify", trigger: "signup-submit", to: "signup" }],
+    };
+    const result = flowSpecSchema.safeParse(invalid);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.errors[0].path).toEqual(["edges", 0, "trigger"]);
+    }
+  });
+
+  it("should accept trigger buttons inside overlays of the source screen", () => {
+    const valid = {
+      ...validFlow,
+      screens: [
+        validFlow.screens[0],
+        {
+          ...validFlow.screens[1],
+          frame: {
+            ...validFlow.screens[1].frame,
+            overlays: [
+              {
+                name: "Resend",
+                placement: "bottom" as const,
+                nodes: [{ type: "button" as const, id: "resend-button", label: "Resend email" }],
+              },
+            ],
+          },
+        },
+      ],
+      edges: [...validFlow.edges, { from: "verify", trigger: "resend-button", to: "signup" }],
+    };
+    const result = flowSpecSchema.safeParse(valid);
+    expect(result.success).toBe(true);
+  });
+});
+
+describe("JSON Schema", () => {
+  const refs = (schema: unknown) =>
+    [...JSON.stringify(schema).matchAll(/"\$ref":"([^"]+)"/g)].map((match) => match[1]);
+
+  it("references only named definitions", () => {
+    for (const schema of [designSpecJsonSchema, flowSpecJsonSchema]) {
+      for (const ref of refs(schema)) {
+        expect(ref).toMatch(/^#\/\$defs\/[A-Za-z]+$/);
+      }
+    }
+  });
+
+  it("mirrors the zod schema", () => {
+    const node = (designSpecJsonSchema.$defs as Record<string, { anyOf: unknown[] }>).Node;
+    expect(designSpecJsonSchema.required).toEqual(["page", "frame", "nodes"]);
+    expect(node.anyOf).toHaveLength(18);
+    expect(JSON.stringify(node)).toContain("required on buttons that trigger a flow edge");
+  });
 });
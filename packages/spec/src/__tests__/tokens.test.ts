@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectTokenRefs,
+  mergeTokens,
+  resolveColor,
+  resolveNumber,
+  resolvePadding,
+} from "../tokens.js";
+
+describe("tokens", () => {
+  const tokens = {
+    color: { primary: "#2563EB" },
+    spacing: { md: 16 },
+  };
+
+  it("resolves literals and token references", () => {
+    expect(resolveColor("#111111", tokens)).toBe("#111111");
+    expect(resolveColor({ $token: "color.primary" }, tokens)).toBe("#2563EB");
+    expect(resolveNumber({ $token: "spacing.md" }, tokens)).toBe(16);
+    expect(resolveNumber({ $token: "spacing.xl" }, tokens)).toBeUndefined();
+  });
+
+  it("resolves uniform and per-side padding", () => {
+    expect(resolvePadding({ $token: "spacing.md" }, tokens)).toEqual({
+      top: 16,
+      right: 16,
+      bottom: 16,
+      left: 16,
+    });
+    expect(
+      resolvePadding({ top: 24, right: { $token: "spacing.md" }, bottom: 8, left: 16 }, tokens),
+    ).toEqual({ top: 24, right: 16, bottom: 8, left: 16 });
+  });
+
+  it("merges token sets with the override winning", () => {
+    const merged = mergeTokens(tokens, { color: { primary: "#7C3AED", accent: "#F59E0B" } });
+    expect(merged.color).toEqual({ primary: "#7C3AED", accent: "#F59E0B" });
+    expect(merged.spacing).toEqual({ md: 16 });
+  });
+
+  it("collects references outside the tokens section", () => {
+    const refs = collectTokenRefs({
+      tokens: { color: { primary: "#2563EB" } },
+      frame: { gap: { $token: "spacing.md" } },
+      nodes: [{ type: "text", color: { $token: "color.primary" } }],
+    });
+    expect(refs).toEqual([
+      { path: ["frame", "gap"], token: "spacing.md" },
+      { path: ["nodes", 0, "color"], token: "color.primary" },
+    ]);
+  });
+});
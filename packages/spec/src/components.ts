@@ -0,0 +1,54 @@
+import type { InstanceNode, Node } from "./types.js";
+
+/**
+ * A string field whose whole value is "{{param}}" is a parameter slot
+ */
+export const SLOT_PATTERN = /^\{\{([A-Za-z0-9_-]+)\}\}$/;
+
+/**
+ * Location of an instance node inside a spec, as a zod-style path
+ */
+export interface InstanceLocation {
+  path: (string | number)[];
+  node: InstanceNode;
+}
+
+/**
+ * Returns the parameter name if the value is a slot, e.g. "{{title}}" -> "title"
+ */
+export function getSlotName(value: string): string | undefined {
+  return SLOT_PATTERN.exec(value)?.[1];
+}
+
+/**
+ * Collects the names of all parameter slots used in a component definition
+ */
+export function collectSlots(value: unknown, slots: Set<string> = new Set()): Set<string> {
+  if (typeof value === "string") {
+    const slot = getSlotName(value);
+    if (slot) slots.add(slot);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectSlots(item, slots);
+  } else if (typeof value === "object" && value !== null) {
+    for (const child of Object.values(value)) collectSlots(child, slots);
+  }
+  return slots;
+}
+
+/**
+ * Collects instance nodes in a node tree
+ */
+export function collectInstances(
+  nodes: Node[],
+  path: (string | number)[] = [],
+): InstanceLocation[] {
+  return nodes.flatMap((node, index): InstanceLocation[] => {
+    if (node.type === "instance") {
+      return [{ path: [...path, index], node }];
+    }
+    if (node.type === "container") {
+      return collectInstances(node.children, [...path, index, "children"]);
+    }
+    return [];
+  });
+}
@@ -1,2 +1,5 @@
 export * from "./types.js";
 export * from "./schema.js";
+export * from "./tokens.js";
+export * from "./components.js";
+export * from "./migrations.js";
@@ -0,0 +1,164 @@
+/**
+ * Version written into `specVersion` by the current contract.
+ * Documents without `specVersion` predate versioning and are treated as version 0.
+ */
+export const CURRENT_SPEC_VERSION = 1;
+
+type SpecDocument = Record<string, unknown>;
+
+/**
+ * Upgrades a DesignSpec or FlowSpec document from `from` to `from + 1`
+ */
+export interface SpecMigration {
+  from: number;
+  description: string;
+  migrate: (document: SpecDocument) => SpecDocument;
+}
+
+export interface SpecMigrationResult {
+  spec: SpecDocument;
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the migrations that ran, oldest first */
+  applied: string[];
+}
+
+function isRecord(value: unknown): value is SpecDocument {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Applies `transform` to every node tree in a document: root nodes, flow screens and
+ * component definitions. Container children are visited after their parent is transformed.
+ */
+function mapDocumentNodes(
+  document: SpecDocument,
+  transform: (node: SpecDocument) => SpecDocument,
+): SpecDocument {
+  const mapNode = (node: unknown): unknown => {
+    if (!isRecord(node)) return node;
+    const next = transform(node);
+    return Array.isArray(next.children) ? { ...next, children: next.children.map(mapNode) } : next;
+  };
+  const mapNodes = (nodes: unknown): unknown => (Array.isArray(nodes) ? nodes.map(mapNode) : nodes);
+
+  const result: SpecDocument = { ...document };
+  if ("nodes" in document) {
+    result.nodes = mapNodes(document.nodes);
+  }
+  if (Array.isArray(document.screens)) {
+    result.screens = document.screens.map((screen) =>
+      isRecord(screen) ? { ...screen, nodes: mapNodes(screen.nodes) } : screen,
+    );
+  }
+  if (isRecord(document.components)) {
+    result.components = Object.fromEntries(
+      Object.entries(document.components).map(([name, definition]) => [
+        name,
+        isRecord(definition) ? { ...definition, node: mapNode(definition.node) } : definition,
+      ]),
+    );
+  }
+  return result;
+}
+
+/**
+ * Version 0 generators gave placeholder text this grey, and wrote placeholders
+ * as "Enter ..." or "Placeholder"
+ */
+const LEGACY_PLACEHOLDER_COLOR = "#6b7280";
+const LEGACY_PLACEHOLDER_CONTENT = /^enter\b|\bplaceholder\b/i;
+
+function isLegacyPlaceholder(node: SpecDocument): boolean {
+  if (node.type !== "text" || typeof node.content !== "string") {
+    return false;
+  }
+  if (typeof node.color === "string") {
+    return node.color.toLowerCase() === LEGACY_PLACEHOLDER_COLOR;
+  }
+  return LEGACY_PLACEHOLDER_CONTENT.test(node.content);
+}
+
+/**
+ * Version 0 built inputs from a bordered container holding the placeholder text.
+ * Such containers become input nodes, keeping their styling and width. Other bordered
+ * containers with one text child, such as notices, are left alone.
+ */
+function convertLegacyInput(node: SpecDocument): SpecDocument {
+  if (node.type !== "container" || !node.border || !Array.isArray(node.children)) {
+    return node;
+  }
+  const [child] = node.children;
+  if (node.children.length !== 1 || !isRecord(child) || !isLegacyPlaceholder(child)) {
+    return node;
+  }
+
+  const input: SpecDocument = { type: "input", placeholder: child.content };
+  for (const key of ["background", "borderRadius", "border", "width"]) {
+    if (node[key] !== undefined) {
+      input[key] = node[key];
+    }
+  }
+  return input;
+}
+
+/**
+ * Registry of step migrations, one per version. Append a migration whenever
+ * CURRENT_SPEC_VERSION is bumped.
+ */
+export const SPEC_MIGRATIONS: readonly SpecMigration[] = [
+  {
+    from: 0,
+    description: "Convert bordered placeholder containers into input nodes",
+    migrate: (document) => mapDocumentNodes(document, convertLegacyInput),
+  },
+];
+
+/**
+ * Reads the version of a document; a missing `specVersion` means version 0
+ */
+export function getSpecVersion(document: unknown): number {
+  if (!isRecord(document)) {
+    throw new Error("Spec document must be a JSON object");
+  }
+  const version = document.specVersion ?? 0;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid specVersion: ${JSON.stringify(version)}`);
+  }
+  return version;
+}
+
+/**
+ * Upgrades a DesignSpec or FlowSpec document to CURRENT_SPEC_VERSION one step at a time.
+ * The result still needs schema validation; migrations only reshape the document.
+ */
+export function migrateSpec(
+  document: unknown,
+  migrations: readonly SpecMigration[] = SPEC_MIGRATIONS,
+  targetVersion: number = CURRENT_SPEC_VERSION,
+): SpecMigrationResult {
+  const fromVersion = getSpecVersion(document);
+  if (fromVersion > targetVersion) {
+    throw new Error(
+      `specVersion ${fromVersion} is newer than the supported version ${targetVersion}`,
+    );
+  }
+
+  let spec = { ...(document as SpecDocument) };
+  const applied: string[] = [];
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const migration = migrations.find((candidate) => candidate.from === version);
+    if (!migration) {
+      throw new Error(`No migration registered from specVersion ${version}`);
+    }
+    spec = migration.migrate(spec);
+    applied.push(migration.description);
+  }
+
+  return {
+    spec: { ...spec, specVersion: targetVersion },
+    fromVersion,
+    toVersion: targetVersion,
+    applied,
+  };
+}
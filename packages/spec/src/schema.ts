@@ -1,38 +1,453 @@
 import { z } from "zod";
-import type { DesignSpec, Frame, Node } from "./types.js";
+import { ignoreOverride, zodToJsonSchema } from "zod-to-json-schema";
+import { collectInstances, collectSlots } from "./components.js";
+import { CURRENT_SPEC_VERSION } from "./migrations.js";
+import { collectTokenRefs, lookupToken } from "./tokens.js";
+import {
+  BUTTON_STATES,
+  BUTTON_VARIANTS,
+  ICON_NAMES,
+  INPUT_STATES,
+  MAX_CANDIDATES,
+  MODEL_QUALITIES,
+  NODE_ROLES,
+} from "./types.js";
+import type {
+  ComponentDefinition,
+  DesignSpec,
+  DesignTokens,
+  FlowSpec,
+  Frame,
+  Node,
+} from "./types.js";
 
 const layoutSchema = z.enum(["vertical", "horizontal"]);
 
+const sizingSchema = z
+  .union([z.enum(["fill", "hug"]), z.number().int().positive()])
+  .describe('"fill" = stretch to the parent, "hug" = shrink to content, number = fixed px');
+
+const primaryAxisAlignSchema = z.enum(["start", "center", "end", "space-between"]);
+
+const counterAxisAlignSchema = z.enum(["start", "center", "end"]);
+
+/**
+ * Token reference restricted to one category, e.g. { "$token": "color.primary" }
+ */
+function tokenRefSchema(category: "color" | "spacing" | "radius") {
+  return z
+    .object({
+      $token: z
+        .string()
+        .regex(new RegExp(`^${category}\\.[A-Za-z0-9_-]+$`), `Expected a "${category}.*" token`),
+    })
+    .strict();
+}
+
+const colorSchema = z
+  .union([z.string(), tokenRefSchema("color")])
+  .describe('hex color such as "#2563EB", or a color token reference');
+
+const spacingSchema = z
+  .union([z.number().int().nonnegative(), tokenRefSchema("spacing")])
+  .describe("px, or a spacing token reference");
+
+const radiusSchema = z
+  .union([z.number().int().nonnegative(), tokenRefSchema("radius")])
+  .describe("px, or a radius token reference");
+
+const typographyTokenSchema = z.object({
+  fontSize: z.number().int().positive(),
+  fontWeight: z.number().int().min(100).max(900).multipleOf(100).optional(),
+  lineHeight: z.number().positive().optional(),
+  fontFamily: z.string().min(1).optional(),
+});
+
+export const designTokensSchema: z.ZodType<DesignTokens> = z.object({
+  color: z.record(z.string()).optional(),
+  spacing: z.record(z.number().nonnegative()).optional(),
+  radius: z.record(z.number().nonnegative()).optional(),
+  typography: z.record(typographyTokenSchema).optional(),
+});
+
+/**
+ * Reports token references that do not resolve against the spec's own `tokens`
+ */
+function refineTokenRefs(spec: { tokens?: DesignTokens }, ctx: z.RefinementCtx): void {
+  for (const ref of collectTokenRefs(spec)) {
+    if (lookupToken(spec.tokens, ref.token) === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown token "${ref.token}"`,
+        path: ref.path,
+      });
+    }
+  }
+}
+
 const borderSchema = z.object({
-  color: z.string(),
+  color: colorSchema,
   width: z.number().int().nonnegative(),
 });
 
-const frameSchema: z.ZodType<Frame> = z.object({
-  name: z.string().min(1),
-  width: z.number().int().positive(),
-  height: z.number().int().positive().optional(),
-  layout: layoutSchema,
-  gap: z.number().int().nonnegative(),
-  padding: z.number().int().nonnegative(),
-  background: z.string().optional(),
-  borderRadius: z.number().int().nonnegative().optional(),
-  border: borderSchema.optional(),
+const opacitySchema = z.number().min(0).max(1);
+
+const shadowSchema = z.object({
+  x: z.number().describe("horizontal offset in px"),
+  y: z.number().describe("vertical offset in px, e.g. 2-8 for card elevation"),
+  blur: z.number().nonnegative().describe("blur radius in px"),
+  spread: z.number().optional().describe("default: 0"),
+  color: colorSchema.describe('usually "#000000"'),
+  opacity: opacitySchema.optional().describe("default: 0.1, keep shadows subtle (0.05-0.15)"),
 });
 
+const linearGradientSchema = z.object({
+  type: z.literal("linear-gradient"),
+  angle: z
+    .number()
+    .min(0)
+    .max(360)
+    .optional()
+    .describe("degrees as in CSS: 0 = up, 90 = right, default 180 = down"),
+  stops: z
+    .array(
+      z.object({
+        position: z.number().min(0).max(1).describe("0 = start, 1 = end"),
+        color: colorSchema,
+      }),
+    )
+    .min(2),
+});
+
+const fillSchema = z
+  .union([colorSchema, linearGradientSchema])
+  .describe("solid color, color token reference or linear gradient");
+
+const paddingSchema = z
+  .union([
+    spacingSchema,
+    z.object({
+      top: spacingSchema,
+      right: spacingSchema,
+      bottom: spacingSchema,
+      left: spacingSchema,
+    }),
+  ])
+  .describe("uniform padding, or { top, right, bottom, left } for asymmetric padding");
+
+const cornerRadiusSchema = z
+  .union([
+    radiusSchema,
+    z.object({
+      topLeft: radiusSchema,
+      topRight: radiusSchema,
+      bottomRight: radiusSchema,
+      bottomLeft: radiusSchema,
+    }),
+  ])
+  .describe("uniform radius, or { topLeft, topRight, bottomRight, bottomLeft }");
+
+/**
+ * Visual properties shared by frames and containers
+ */
+const surfaceStyleShape = {
+  shadows: z.array(shadowSchema).optional().describe("drop shadows, only for elevated surfaces"),
+  opacity: opacitySchema.optional().describe("layer opacity, default: 1"),
+};
+
+const nodeRoleSchema = z.enum(NODE_ROLES);
+
+const absolutePositionSchema = z.object({
+  x: z.number().describe("px from the parent's left edge"),
+  y: z.number().describe("px from the parent's top edge"),
+  constraints: z
+    .object({
+      horizontal: z
+        .enum(["left", "right", "center", "left-right", "scale"])
+        .optional()
+        .describe('default: "left"'),
+      vertical: z
+        .enum(["top", "bottom", "center", "top-bottom", "scale"])
+        .optional()
+        .describe('default: "top"'),
+    })
+    .optional()
+    .describe("parent edges the node stays pinned to when the parent resizes"),
+});
+
+/**
+ * Fields shared by every node type
+ */
+const nodeBaseShape = {
+  id: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'unique in the node tree, e.g. "submit-button"; required on buttons that trigger a flow edge',
+    ),
+  role: nodeRoleSchema
+    .optional()
+    .describe('semantic purpose, e.g. the card wrapping a form is "form-card"'),
+  absolute: absolutePositionSchema
+    .optional()
+    .describe("takes the node out of the parent auto layout, e.g. corner badges, floating buttons"),
+  ariaLabel: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('accessible name when the visible text is missing or unclear, e.g. "Close dialog"'),
+  tabIndex: z
+    .number()
+    .int()
+    .min(-1)
+    .optional()
+    .describe("keyboard focus order; -1 removes the node from it"),
+};
+
 const textNodeSchema = z.object({
   type: z.literal("text"),
-  content: z.string(),
-  fontSize: z.number().int().positive().optional(),
-  color: z.string().optional(),
+  ...nodeBaseShape,
+  content: z.string().describe("never empty"),
+  variant: z
+    .enum(["heading", "body", "caption", "label"])
+    .optional()
+    .describe("semantic role, sets the default fontSize/fontWeight from the typography tokens"),
+  fontSize: z.number().int().positive().optional().describe("typically 14-20"),
+  fontWeight: z
+    .number()
+    .int()
+    .min(100)
+    .max(900)
+    .multipleOf(100)
+    .optional()
+    .describe("400 regular, 500 medium, 600 semibold, 700 bold"),
+  fontFamily: z.string().min(1).optional().describe('default: "Inter"'),
+  lineHeight: z
+    .number()
+    .positive()
+    .optional()
+    .describe("in px, e.g. 1.4-1.5 × fontSize for body text"),
+  letterSpacing: z.number().optional().describe("in px, may be negative for large headings"),
+  textAlign: z.enum(["left", "center", "right", "justify"]).optional().describe('default: "left"'),
+  textDecoration: z
+    .enum(["none", "underline", "strikethrough"])
+    .optional()
+    .describe('use "underline" for text links'),
+  color: colorSchema.optional().describe('default: "#111111", "#6B7280" for placeholder text'),
+  width: sizingSchema.optional().describe('"fill" wraps long text to the parent width'),
+  headingLevel: z
+    .number()
+    .int()
+    .min(1)
+    .max(6)
+    .optional()
+    .describe("1 for the screen title, 2 for section titles; do not skip levels"),
+  labelFor: z.string().min(1).optional().describe("id of the input or select this text labels"),
 });
 
+const inputStateSchema = z
+  .enum(INPUT_STATES)
+  .optional()
+  .describe('only to show the field in a non-default state, e.g. "focus" or "disabled"');
+
 const buttonNodeSchema = z.object({
   type: z.literal("button"),
+  ...nodeBaseShape,
   label: z.string().min(1),
-  background: z.string().optional(),
-  textColor: z.string().optional(),
-  borderRadius: z.number().int().nonnegative().optional(),
+  variant: z
+    .enum(BUTTON_VARIANTS)
+    .optional()
+    .describe('default: "primary"; "ghost" for low-emphasis, "destructive" for deleting'),
+  state: z
+    .enum(BUTTON_STATES)
+    .optional()
+    .describe('only to show the button in a non-default state, e.g. "disabled"'),
+  background: colorSchema.optional().describe("default: from the variant and state"),
+  textColor: colorSchema.optional().describe("default: from the variant and state"),
+  borderRadius: radiusSchema.optional().describe("default: the radius.md token"),
+  border: borderSchema.optional().describe("default: from the variant and state"),
+  width: sizingSchema.optional().describe('default on mobile: "fill"'),
+  height: sizingSchema.optional().describe('default: "hug"'),
+  primaryAxisAlign: primaryAxisAlignSchema
+    .optional()
+    .describe('label alignment, default: "center"'),
+  counterAxisAlign: counterAxisAlignSchema
+    .optional()
+    .describe('label alignment, default: "center"'),
+});
+
+const imageNodeSchema = z.object({
+  type: z.literal("image"),
+  ...nodeBaseShape,
+  alt: z.string().min(1).describe('describes the image, e.g. "User avatar", "Company logo"'),
+  width: z.number().int().positive().optional().describe("omit to fill the container width"),
+  aspectRatio: z
+    .number()
+    .positive()
+    .optional()
+    .describe("width / height, default: 1.78 (16:9), use 1 for avatars and logos"),
+  fit: z.enum(["fill", "fit", "crop"]).optional().describe('default: "fill"'),
+  background: colorSchema.optional().describe("placeholder color"),
+  borderRadius: radiusSchema.optional().describe("use width / 2 for round avatars"),
+});
+
+const iconNameSchema = z.enum(ICON_NAMES);
+
+const iconNodeSchema = z.object({
+  type: z.literal("icon"),
+  ...nodeBaseShape,
+  name: iconNameSchema,
+  size: z.number().int().positive().optional().describe("default: 24"),
+  color: colorSchema.optional(),
+});
+
+const inputNodeSchema = z.object({
+  type: z.literal("input"),
+  ...nodeBaseShape,
+  label: z.string().min(1).optional().describe('rendered above the field, e.g. "Email"'),
+  placeholder: z.string().optional().describe('e.g. "Enter your email"'),
+  value: z.string().optional().describe("pre-filled value"),
+  inputType: z
+    .enum(["text", "email", "password", "number", "search"])
+    .optional()
+    .describe('default: "text"'),
+  helperText: z.string().optional().describe("hint below the field"),
+  error: z.string().optional().describe("error message below the field, renders the error state"),
+  state: inputStateSchema,
+  background: colorSchema.optional(),
+  borderRadius: radiusSchema.optional(),
+  border: borderSchema.optional(),
+  width: sizingSchema.optional().describe('default on mobile: "fill"'),
+});
+
+const checkboxNodeSchema = z.object({
+  type: z.literal("checkbox"),
+  ...nodeBaseShape,
+  label: z.string().min(1),
+  checked: z.boolean().optional(),
+  color: colorSchema.optional(),
+});
+
+const radioNodeSchema = z.object({
+  type: z.literal("radio"),
+  ...nodeBaseShape,
+  label: z.string().min(1),
+  group: z.string().optional().describe("radios with the same group are mutually exclusive"),
+  checked: z.boolean().optional(),
+  color: colorSchema.optional(),
+});
+
+const toggleNodeSchema = z.object({
+  type: z.literal("toggle"),
+  ...nodeBaseShape,
+  label: z.string().min(1),
+  checked: z.boolean().optional(),
+  color: colorSchema.optional(),
+});
+
+const selectNodeSchema = z.object({
+  type: z.literal("select"),
+  ...nodeBaseShape,
+  label: z.string().min(1).optional(),
+  placeholder: z.string().optional().describe('e.g. "Select a country"'),
+  value: z.string().optional().describe("currently selected option"),
+  options: z.array(z.string().min(1)).min(1),
+  helperText: z.string().optional(),
+  error: z.string().optional(),
+  state: inputStateSchema,
+  background: colorSchema.optional(),
+  borderRadius: radiusSchema.optional(),
+  border: borderSchema.optional(),
+  width: sizingSchema.optional(),
+});
+
+const instanceNodeSchema = z.object({
+  type: z.literal("instance"),
+  ...nodeBaseShape,
+  component: z.string().min(1).describe("name of a definition in components"),
+  overrides: z
+    .record(z.string())
+    .optional()
+    .describe("param → value, missing params use their defaults"),
+  width: sizingSchema.optional(),
+});
+
+const navBarNodeSchema = z.object({
+  type: z.literal("navBar"),
+  ...nodeBaseShape,
+  title: z.string().min(1).describe("screen title"),
+  leadingIcon: iconNameSchema.optional().describe('e.g. "arrow-left" for back, "menu"'),
+  actions: z.array(iconNameSchema).optional().describe('trailing icon buttons, e.g. ["search"]'),
+  background: colorSchema.optional().describe("default: the color.surface token"),
+  color: colorSchema.optional().describe("title and icon color, default: the color.text token"),
+});
+
+const tabBarNodeSchema = z.object({
+  type: z.literal("tabBar"),
+  ...nodeBaseShape,
+  tabs: z.array(z.object({ label: z.string().min(1), icon: iconNameSchema.optional() })).min(2),
+  activeIndex: z.number().int().nonnegative().optional().describe("selected tab, default: 0"),
+  background: colorSchema.optional().describe("default: the color.surface token"),
+  color: colorSchema.optional().describe("default: the color.text-muted token"),
+  activeColor: colorSchema.optional().describe("default: the color.primary token"),
+});
+
+const listItemNodeSchema = z.object({
+  type: z.literal("listItem"),
+  ...nodeBaseShape,
+  title: z.string().min(1),
+  subtitle: z.string().optional().describe("secondary line below the title"),
+  leadingIcon: iconNameSchema.optional(),
+  trailingText: z.string().optional().describe('e.g. a value such as "English"'),
+  trailingIcon: iconNameSchema.optional().describe('"chevron-right" for rows that navigate'),
+  control: z.enum(["toggle", "checkbox"]).optional().describe("trailing control of settings rows"),
+  checked: z.boolean().optional().describe("state of the control"),
+});
+
+const listNodeSchema = z.object({
+  type: z.literal("list"),
+  ...nodeBaseShape,
+  items: z.array(listItemNodeSchema).min(1),
+  dividers: z.boolean().optional().describe("divider between items, default: true"),
+  background: colorSchema.optional().describe("default: the color.surface token"),
+  borderRadius: radiusSchema.optional().describe("default: the radius.lg token"),
+  width: sizingSchema.optional().describe('default: "fill"'),
+});
+
+const tableNodeSchema = z.object({
+  type: z.literal("table"),
+  ...nodeBaseShape,
+  columns: z
+    .array(
+      z.object({
+        header: z.string().min(1),
+        width: sizingSchema.optional().describe('default: "fill" (columns share the width)'),
+        align: z.enum(["left", "center", "right"]).optional().describe('default: "left"'),
+      }),
+    )
+    .min(1),
+  rows: z.array(z.array(z.string())).describe("cell texts, one per column in every row"),
+  striped: z.boolean().optional().describe("alternating row background"),
+  background: colorSchema.optional().describe("default: the color.surface token"),
+  borderColor: colorSchema.optional().describe("default: the color.border token"),
+  width: sizingSchema.optional().describe('default: "fill"'),
+});
+
+const dividerNodeSchema = z.object({
+  type: z.literal("divider"),
+  ...nodeBaseShape,
+  orientation: layoutSchema
+    .optional()
+    .describe('default: "horizontal"; "vertical" between items of a horizontal row'),
+  color: colorSchema.optional().describe("default: the color.border token"),
+  thickness: z.number().int().positive().optional().describe("default: 1"),
+});
+
+const spacerNodeSchema = z.object({
+  type: z.literal("spacer"),
+  ...nodeBaseShape,
+  size: spacingSchema.optional().describe("omit to push the following nodes to the end"),
 });
 
 // Define nodeSchema recursively using z.lazy
@@ -40,25 +455,375 @@ const nodeSchema: z.ZodType<Node> = z.lazy(() =>
   z.discriminatedUnion("type", [
     textNodeSchema,
     buttonNodeSchema,
+    imageNodeSchema,
+    iconNodeSchema,
+    inputNodeSchema,
+    checkboxNodeSchema,
+    radioNodeSchema,
+    toggleNodeSchema,
+    selectNodeSchema,
+    instanceNodeSchema,
+    navBarNodeSchema,
+    tabBarNodeSchema,
+    listNodeSchema,
+    listItemNodeSchema,
+    tableNodeSchema,
+    dividerNodeSchema,
+    spacerNodeSchema,
     z.object({
       type: z.literal("container"),
+      ...nodeBaseShape,
       layout: layoutSchema,
-      gap: z.number().int().nonnegative(),
-      padding: z.number().int().nonnegative(),
+      gap: spacingSchema,
+      padding: paddingSchema,
       children: z.array(nodeSchema).min(1),
-      background: z.string().optional(),
-      borderRadius: z.number().int().nonnegative().optional(),
-      border: borderSchema.optional(),
+      background: fillSchema
+        .optional()
+        .describe('only for surfaces with role "card" or "form-card"'),
+      borderRadius: cornerRadiusSchema
+        .optional()
+        .describe('only for surfaces with role "card" or "form-card"'),
+      border: borderSchema
+        .optional()
+        .describe("only for bordered surfaces such as a search bar wrapping an input and an icon"),
+      ...surfaceStyleShape,
+      width: sizingSchema.optional().describe('default: "hug"'),
+      height: sizingSchema.optional().describe('default: "hug"'),
+      primaryAxisAlign: primaryAxisAlignSchema.optional(),
+      counterAxisAlign: counterAxisAlignSchema.optional(),
     }),
   ]),
 ) as z.ZodType<Node>;
 
-export const designSpecSchema: z.ZodType<DesignSpec> = z.object({
-  page: z.string().min(1),
+const overlaySchema = z.object({
+  name: z.string().min(1).describe('layer name, e.g. "Delete confirmation"'),
+  backdrop: colorSchema.optional().describe('covers the whole frame, e.g. "#000000" for modals'),
+  backdropOpacity: opacitySchema.optional().describe("default: 1, e.g. 0.4 for a dimmed backdrop"),
+  placement: z
+    .enum(["center", "top", "bottom"])
+    .optional()
+    .describe('"center" for modals (default), "bottom" for sheets, "top" for toasts'),
+  padding: paddingSchema.optional().describe("space between the frame edges and the content"),
+  nodes: z.array(nodeSchema).min(1),
+});
+
+const frameSchema: z.ZodType<Frame> = z.object({
+  name: z.string().min(1).describe("frame name"),
+  width: z.number().int().positive().describe("typically 360-400 for mobile-first"),
+  height: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("ALWAYS set it: 800 for mobile, 900 for tablet/desktop"),
+  layout: layoutSchema,
+  gap: spacingSchema.describe("spacing between nodes, typically 12-16"),
+  padding: paddingSchema.describe("internal padding, typically 16-24"),
+  background: fillSchema.optional(),
+  borderRadius: cornerRadiusSchema.optional(),
+  border: borderSchema.optional(),
+  ...surfaceStyleShape,
+  primaryAxisAlign: primaryAxisAlignSchema
+    .optional()
+    .describe('alignment along the layout direction, default: "start"'),
+  counterAxisAlign: counterAxisAlignSchema
+    .optional()
+    .describe('alignment across the layout direction, default: "start"'),
+  overlays: z
+    .array(overlaySchema)
+    .optional()
+    .describe("modals, sheets and toasts drawn above the frame content, last on top"),
+});
+
+const componentDefinitionSchema: z.ZodType<ComponentDefinition> = z.object({
+  params: z.record(z.string()).optional().describe("param → default value, one per slot"),
+  node: nodeSchema,
+});
+
+/**
+ * Checks that instances reference existing components with declared params,
+ * that definitions declare every slot they use and do not nest instances
+ */
+function refineComponents(
+  components: Record<string, ComponentDefinition> | undefined,
+  trees: { nodes: Node[]; path: (string | number)[] }[],
+  ctx: z.RefinementCtx,
+): void {
+  for (const [name, definition] of Object.entries(components ?? {})) {
+    const params = definition.params ?? {};
+    for (const slot of collectSlots(definition.node)) {
+      if (!(slot in params)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Component "${name}" uses undeclared param "${slot}"`,
+          path: ["components", name, "params"],
+        });
+      }
+    }
+    const nodePath = ["components", name, "node"];
+    const nestedPaths =
+      definition.node.type === "instance"
+        ? [nodePath]
+        : definition.node.type === "container"
+          ? collectInstances(definition.node.children, [...nodePath, "children"]).map(
+              (instance) => instance.path,
+            )
+          : [];
+    for (const path of nestedPaths) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Component definitions cannot contain instances",
+        path,
+      });
+    }
+  }
+
+  for (const tree of trees) {
+    for (const { path, node } of collectInstances(tree.nodes, tree.path)) {
+      const definition = components?.[node.component];
+      if (!definition) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown component "${node.component}"`,
+          path: [...path, "component"],
+        });
+        continue;
+      }
+      for (const param of Object.keys(node.overrides ?? {})) {
+        if (!(param in (definition.params ?? {}))) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Component "${node.component}" has no param "${param}"`,
+            path: [...path, "overrides", param],
+          });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Checks that every table row has one cell per column
+ */
+function refineTables(
+  components: Record<string, ComponentDefinition> | undefined,
+  trees: { nodes: Node[]; path: (string | number)[] }[],
+  ctx: z.RefinementCtx,
+): void {
+  const visit = (node: Node, path: (string | number)[]): void => {
+    if (node.type === "table") {
+      node.rows.forEach((row, index) => {
+        if (row.length !== node.columns.length) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Row has ${row.length} cells, expected one per column (${node.columns.length})`,
+            path: [...path, "rows", index],
+          });
+        }
+      });
+    }
+    if (node.type === "container") {
+      node.children.forEach((child, index) => visit(child, [...path, "children", index]));
+    }
+  };
+
+  for (const [name, definition] of Object.entries(components ?? {})) {
+    visit(definition.node, ["components", name, "node"]);
+  }
+  for (const tree of trees) {
+    tree.nodes.forEach((node, index) => visit(node, [...tree.path, index]));
+  }
+}
+
+/**
+ * Node trees of a frame's overlays, for checks that walk every tree of a screen
+ */
+function overlayTrees(
+  frame: Frame,
+  path: (string | number)[],
+): { nodes: Node[]; path: (string | number)[] }[] {
+  return (frame.overlays ?? []).map((overlay, index) => ({
+    nodes: overlay.nodes,
+    path: [...path, "overlays", index, "nodes"],
+  }));
+}
+
+/**
+ * Only the current version validates; older documents go through migrateSpec first
+ */
+const specVersionSchema = z.literal(CURRENT_SPEC_VERSION, {
+  errorMap: () => ({
+    message: `specVersion must be ${CURRENT_SPEC_VERSION}; migrate older documents with migrateSpec`,
+  }),
+});
+
+export const designSpecSchema: z.ZodType<DesignSpec> = z
+  .object({
+    specVersion: specVersionSchema.optional().describe("filled in by the generator, omit it"),
+    page: z.string().min(1).describe("page name"),
+    tokens: designTokensSchema
+      .optional()
+      .describe("overrides or extends the default design tokens"),
+    components: z
+      .record(componentDefinitionSchema)
+      .optional()
+      .describe("component name → reusable definition"),
+    frame: frameSchema,
+    nodes: z.array(nodeSchema).min(1),
+  })
+  .superRefine((spec, ctx) => {
+    const trees = [{ nodes: spec.nodes, path: ["nodes"] }, ...overlayTrees(spec.frame, ["frame"])];
+    refineTokenRefs(spec, ctx);
+    refineComponents(spec.components, trees, ctx);
+    refineTables(spec.components, trees, ctx);
+  });
+
+/**
+ * Collects ids of all button nodes in a tree
+ */
+function collectButtonIds(nodes: Node[], ids: Set<string> = new Set()): Set<string> {
+  for (const node of nodes) {
+    if (node.type === "button" && node.id) {
+      ids.add(node.id);
+    }
+    if (node.type === "container") {
+      collectButtonIds(node.children, ids);
+    }
+  }
+  return ids;
+}
+
+const flowScreenSchema = z.object({
+  id: z.string().min(1).describe('unique kebab-case screen id, e.g. "signup"'),
   frame: frameSchema,
   nodes: z.array(nodeSchema).min(1),
 });
 
+const flowEdgeSchema = z.object({
+  from: z.string().min(1).describe("source screen id"),
+  trigger: z.string().min(1).describe("id of a button on the source screen"),
+  to: z.string().min(1).describe("target screen id"),
+});
+
+export const flowSpecSchema: z.ZodType<FlowSpec> = z
+  .object({
+    specVersion: specVersionSchema.optional().describe("filled in by the generator, omit it"),
+    page: z.string().min(1).describe("page name for the whole flow"),
+    tokens: designTokensSchema
+      .optional()
+      .describe("overrides or extends the default design tokens"),
+    components: z
+      .record(componentDefinitionSchema)
+      .optional()
+      .describe("component name → reusable definition"),
+    screens: z.array(flowScreenSchema).min(1),
+    edges: z.array(flowEdgeSchema),
+  })
+  .superRefine((flow, ctx) => {
+    const trees = flow.screens.flatMap((screen, index) => [
+      { nodes: screen.nodes, path: ["screens", index, "nodes"] },
+      ...overlayTrees(screen.frame, ["screens", index, "frame"]),
+    ]);
+    refineTokenRefs(flow, ctx);
+    refineComponents(flow.components, trees, ctx);
+    refineTables(flow.components, trees, ctx);
+
+    const screenIds = new Set<string>();
+    flow.screens.forEach((screen, index) => {
+      if (screenIds.has(screen.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate screen id "${screen.id}"`,
+          path: ["screens", index, "id"],
+        });
+      }
+      screenIds.add(screen.id);
+    });
+
+    flow.edges.forEach((edge, index) => {
+      const source = flow.screens.find((screen) => screen.id === edge.from);
+      if (!source) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown source screen "${edge.from}"`,
+          path: ["edges", index, "from"],
+        });
+      } else if (
+        !collectButtonIds([
+          ...source.nodes,
+          ...(source.frame.overlays ?? []).flatMap((overlay) => overlay.nodes),
+        ]).has(edge.trigger)
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Screen "${edge.from}" has no button with id "${edge.trigger}"`,
+          path: ["edges", index, "trigger"],
+        });
+      }
+      if (!screenIds.has(edge.to)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown target screen "${edge.to}"`,
+          path: ["edges", index, "to"],
+        });
+      }
+    });
+  });
+
+/**
+ * Generated JSON Schema document (draft-07, shared definitions under `$defs`)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+// zod-to-json-schema types its input against "zod/v3"; casting avoids comparing the two
+// declaration copies of the same zod types, which exhausts the type checker
+type JsonSchemaInput = Parameters<typeof zodToJsonSchema>[0];
+
+/**
+ * Shared schemas emitted once under `$defs` and referenced by name
+ */
+const JSON_SCHEMA_DEFINITIONS = {
+  Frame: frameSchema,
+  Node: nodeSchema,
+  Border: borderSchema,
+  Role: nodeRoleSchema,
+  IconName: iconNameSchema,
+  Position: absolutePositionSchema,
+  Shadow: shadowSchema,
+  Fill: fillSchema,
+  Padding: paddingSchema,
+  CornerRadius: cornerRadiusSchema,
+  Color: colorSchema,
+  Spacing: spacingSchema,
+  Radius: radiusSchema,
+  Sizing: sizingSchema,
+} as unknown as Record<string, JsonSchemaInput>;
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  return zodToJsonSchema(schema as unknown as JsonSchemaInput, {
+    definitions: JSON_SCHEMA_DEFINITIONS,
+    definitionPath: "$defs",
+    // Reference only the named definitions and inline every other repeated schema,
+    // so each $ref points at an entry of $defs rather than into another definition
+    $refStrategy: "none",
+    override: (_def, _refs, seen, forceResolution) =>
+      seen && !forceResolution && seen.path.length === 3 && seen.path[1] === "$defs"
+        ? { $ref: seen.path.join("/") }
+        : ignoreOverride,
+  });
+}
+
+/**
+ * JSON Schema for DesignSpec, generated from designSpecSchema.
+ * Cross-field checks (token references, components) are only enforced by the zod schema.
+ */
+export const designSpecJsonSchema = toJsonSchema(designSpecSchema);
+
+/**
+ * JSON Schema for FlowSpec, generated from flowSpecSchema
+ */
+export const flowSpecJsonSchema = toJsonSchema(flowSpecSchema);
+
 const targetLayoutSchema = z.enum(["mobile", "tablet", "desktop"]);
 
 const uiStrictnessSchema = z.enum(["strict", "balanced"]);
@@ -75,11 +840,30 @@ const generationContextSchema = z.object({
   uxPatterns: uxPatternsSchema,
   visualBaseline: z.boolean().optional(),
   strictLayout: z.boolean().optional(),
+  snapToScale: z.boolean().optional(),
 });
 
 export const promptRequestSchema = z.object({
   prompt: z.string().min(1),
   generationContext: generationContextSchema.optional(),
+  // The API checks the model against its allowlist; a model takes precedence over a quality
+  model: z.string().min(1).max(100).optional(),
+  quality: z.enum(MODEL_QUALITIES).optional(),
+  // POST /spec generates this many specs and returns them ranked
+  candidates: z.number().int().min(1).max(MAX_CANDIDATES).optional(),
 });
 
 export type PromptRequest = z.infer<typeof promptRequestSchema>;
+
+/**
+ * An existing DesignSpec and an instruction for how to change it
+ */
+export const refineRequestSchema = z.object({
+  spec: designSpecSchema,
+  instruction: z.string().min(1),
+  generationContext: generationContextSchema.optional(),
+  model: z.string().min(1).max(100).optional(),
+  quality: z.enum(MODEL_QUALITIES).optional(),
+});
+
+export type RefineRequest = z.infer<typeof refineRequestSchema>;
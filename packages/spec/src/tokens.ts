@@ -0,0 +1,112 @@
+import type {
+  ColorValue,
+  DesignTokens,
+  PaddingSides,
+  PaddingValue,
+  RadiusValue,
+  SpacingValue,
+  TokenRef,
+} from "./types.js";
+
+/**
+ * Location of a token reference inside a spec, as a zod-style path
+ */
+export interface TokenRefLocation {
+  path: (string | number)[];
+  token: string;
+}
+
+export function isTokenRef(value: unknown): value is TokenRef {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Record<string, unknown>).$token === "string"
+  );
+}
+
+/**
+ * Looks up a "category.name" token path, e.g. "color.primary"
+ */
+export function lookupToken(tokens: DesignTokens | undefined, path: string): unknown {
+  const separator = path.indexOf(".");
+  if (separator === -1) return undefined;
+  const category = path.slice(0, separator) as keyof DesignTokens;
+  const group = tokens?.[category] as Record<string, unknown> | undefined;
+  return group?.[path.slice(separator + 1)];
+}
+
+/**
+ * Resolves a color literal or color token to a hex string
+ */
+export function resolveColor(
+  value: ColorValue | undefined,
+  tokens: DesignTokens | undefined,
+): string | undefined {
+  if (!isTokenRef(value)) return value;
+  const resolved = lookupToken(tokens, value.$token);
+  return typeof resolved === "string" ? resolved : undefined;
+}
+
+/**
+ * Resolves a spacing or radius literal or token to a number
+ */
+export function resolveNumber(
+  value: SpacingValue | RadiusValue | undefined,
+  tokens: DesignTokens | undefined,
+): number | undefined {
+  if (!isTokenRef(value)) return value;
+  const resolved = lookupToken(tokens, value.$token);
+  return typeof resolved === "number" ? resolved : undefined;
+}
+
+/**
+ * Resolves uniform or per-side padding to px for every side; unresolved tokens count as 0
+ */
+export function resolvePadding(
+  value: PaddingValue,
+  tokens: DesignTokens | undefined,
+): Record<keyof PaddingSides, number> {
+  const sides: PaddingSides =
+    typeof value === "number" || isTokenRef(value)
+      ? { top: value, right: value, bottom: value, left: value }
+      : value;
+  return {
+    top: resolveNumber(sides.top, tokens) ?? 0,
+    right: resolveNumber(sides.right, tokens) ?? 0,
+    bottom: resolveNumber(sides.bottom, tokens) ?? 0,
+    left: resolveNumber(sides.left, tokens) ?? 0,
+  };
+}
+
+/**
+ * Merges token sets category by category; values in `override` win
+ */
+export function mergeTokens(base: DesignTokens, override: DesignTokens = {}): DesignTokens {
+  return {
+    color: { ...base.color, ...override.color },
+    spacing: { ...base.spacing, ...override.spacing },
+    radius: { ...base.radius, ...override.radius },
+    typography: { ...base.typography, ...override.typography },
+  };
+}
+
+/**
+ * Collects every token reference in a value tree (the `tokens` section itself is skipped)
+ */
+export function collectTokenRefs(
+  value: unknown,
+  path: (string | number)[] = [],
+): TokenRefLocation[] {
+  if (isTokenRef(value)) {
+    return [{ path, token: value.$token }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectTokenRefs(item, [...path, index]));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      path.length === 0 && key === "tokens" ? [] : collectTokenRefs(child, [...path, key]),
+    );
+  }
+  return [];
+}
@@ -1,56 +1,590 @@
 export type Layout = "vertical" | "horizontal";
 
+/**
+ * "fill" stretches to the parent, "hug" shrinks to the content, a number is a fixed size in px
+ */
+export type Sizing = "fill" | "hug" | number;
+
+export type PrimaryAxisAlign = "start" | "center" | "end" | "space-between";
+
+export type CounterAxisAlign = "start" | "center" | "end";
+
+/**
+ * Reference to a design token by path, e.g. { "$token": "color.primary" }
+ */
+export interface TokenRef {
+  $token: string;
+}
+
+export type ColorValue = string | TokenRef;
+
+export type SpacingValue = number | TokenRef;
+
+export type RadiusValue = number | TokenRef;
+
+export interface TypographyToken {
+  fontSize: number;
+  fontWeight?: number;
+  lineHeight?: number;
+  fontFamily?: string;
+}
+
+/**
+ * Named design values a spec can reference instead of literals
+ */
+export interface DesignTokens {
+  color?: Record<string, string>;
+  spacing?: Record<string, number>;
+  radius?: Record<string, number>;
+  typography?: Record<string, TypographyToken>;
+}
+
 export interface Border {
-  color: string;
+  color: ColorValue;
   width: number;
 }
 
-export interface Frame {
+/**
+ * Drop shadow; offsets, blur and spread are in px
+ */
+export interface Shadow {
+  x: number;
+  y: number;
+  blur: number;
+  spread?: number;
+  color: ColorValue;
+  /**
+   * Opacity of the shadow color (0–1)
+   */
+  opacity?: number;
+}
+
+export interface GradientStop {
+  /**
+   * Position along the gradient line (0–1)
+   */
+  position: number;
+  color: ColorValue;
+}
+
+/**
+ * Linear gradient fill. `angle` follows CSS: 0 points up, 90 right, 180 (default) down.
+ */
+export interface LinearGradient {
+  type: "linear-gradient";
+  angle?: number;
+  stops: GradientStop[];
+}
+
+export type FillValue = ColorValue | LinearGradient;
+
+export interface PaddingSides {
+  top: SpacingValue;
+  right: SpacingValue;
+  bottom: SpacingValue;
+  left: SpacingValue;
+}
+
+/**
+ * Uniform padding, or one value per side
+ */
+export type PaddingValue = SpacingValue | PaddingSides;
+
+export interface CornerRadii {
+  topLeft: RadiusValue;
+  topRight: RadiusValue;
+  bottomRight: RadiusValue;
+  bottomLeft: RadiusValue;
+}
+
+/**
+ * Uniform corner radius, or one value per corner
+ */
+export type CornerRadiusValue = RadiusValue | CornerRadii;
+
+/**
+ * Visual properties shared by frames and containers
+ */
+export interface SurfaceStyle {
+  background?: FillValue;
+  borderRadius?: CornerRadiusValue;
+  border?: Border;
+  shadows?: Shadow[];
+  /**
+   * Layer opacity (0–1)
+   */
+  opacity?: number;
+}
+
+export interface Frame extends SurfaceStyle {
   name: string;
   width: number;
   height?: number;
   layout: Layout;
-  gap: number;
-  padding: number;
-  background?: string;
-  borderRadius?: number;
-  border?: Border;
+  gap: SpacingValue;
+  padding: PaddingValue;
+  primaryAxisAlign?: PrimaryAxisAlign;
+  counterAxisAlign?: CounterAxisAlign;
+  /**
+   * Layers drawn above the frame content, last on top
+   */
+  overlays?: FrameOverlay[];
 }
 
-export interface TextNode {
+export type OverlayPlacement = "center" | "top" | "bottom";
+
+/**
+ * Layer covering the whole frame above its auto-layout content, e.g. a modal over a
+ * dimmed backdrop, a bottom sheet or a toast
+ */
+export interface FrameOverlay {
+  name: string;
+  /**
+   * Fills the whole frame behind the overlay content
+   */
+  backdrop?: ColorValue;
+  /**
+   * Opacity of the backdrop (0–1, defaults to 1)
+   */
+  backdropOpacity?: number;
+  /**
+   * Where the content sits: centered (modal), at the top (toast) or at the bottom (sheet)
+   */
+  placement?: OverlayPlacement;
+  padding?: PaddingValue;
+  nodes: Node[];
+}
+
+export type HorizontalConstraint = "left" | "right" | "center" | "left-right" | "scale";
+
+export type VerticalConstraint = "top" | "bottom" | "center" | "top-bottom" | "scale";
+
+/**
+ * Takes a node out of its parent's auto layout and places it at x/y, in px from the
+ * parent's top-left corner. Constraints pin it to parent edges when the parent resizes.
+ */
+export interface AbsolutePosition {
+  x: number;
+  y: number;
+  constraints?: {
+    horizontal?: HorizontalConstraint;
+    vertical?: VerticalConstraint;
+  };
+}
+
+export const NODE_ROLES = [
+  "title",
+  "subtitle",
+  "header",
+  "footer",
+  "section",
+  "card",
+  "form-card",
+  "field-group",
+  "actions",
+  "primary-action",
+  "secondary-action",
+] as const;
+
+/**
+ * Semantic purpose of a node, independent of how it is styled
+ */
+export type NodeRole = (typeof NODE_ROLES)[number];
+
+/**
+ * Roles whose container is a visual surface and is expected to carry background and radius
+ */
+export const SURFACE_ROLES: readonly NodeRole[] = ["card", "form-card"];
+
+/**
+ * Identity and placement shared by every node type
+ */
+export interface NodeBase {
+  /**
+   * Stable identifier, unique within a node tree. Flow edges use it to wire triggers,
+   * and the Figma plugin stores it on the created layer.
+   */
+  id?: string;
+  role?: NodeRole;
+  absolute?: AbsolutePosition;
+  /**
+   * Accessible name when the visible text does not describe the node, e.g. an icon button
+   */
+  ariaLabel?: string;
+  /**
+   * Keyboard focus order: 0 and up are focused in that order, -1 removes the node from it
+   */
+  tabIndex?: number;
+}
+
+export type TextVariant = "heading" | "body" | "caption" | "label";
+
+export type TextAlign = "left" | "center" | "right" | "justify";
+
+export type TextDecoration = "none" | "underline" | "strikethrough";
+
+export const HEADING_LEVELS = [1, 2, 3, 4, 5, 6] as const;
+
+export type HeadingLevel = (typeof HEADING_LEVELS)[number];
+
+export interface TextNode extends NodeBase {
   type: "text";
   content: string;
+  variant?: TextVariant;
   fontSize?: number;
-  color?: string;
+  /**
+   * CSS-style numeric weight (100–900, multiples of 100)
+   */
+  fontWeight?: number;
+  fontFamily?: string;
+  /**
+   * Line height in px
+   */
+  lineHeight?: number;
+  /**
+   * Letter spacing in px (may be negative)
+   */
+  letterSpacing?: number;
+  textAlign?: TextAlign;
+  textDecoration?: TextDecoration;
+  color?: ColorValue;
+  width?: Sizing;
+  /**
+   * Marks the text as a heading of this level (1 is the screen title)
+   */
+  headingLevel?: HeadingLevel;
+  /**
+   * Id of the form control this text labels
+   */
+  labelFor?: string;
 }
 
-export interface ButtonNode {
+export const BUTTON_VARIANTS = ["primary", "secondary", "ghost", "destructive"] as const;
+
+export type ButtonVariant = (typeof BUTTON_VARIANTS)[number];
+
+export const BUTTON_STATES = ["default", "hover", "pressed", "focus", "disabled"] as const;
+
+export type ButtonState = (typeof BUTTON_STATES)[number];
+
+/**
+ * Interaction state of inputs and selects; "error" is implied when an error message is set
+ */
+export const INPUT_STATES = ["default", "hover", "focus", "disabled", "error"] as const;
+
+export type InputState = (typeof INPUT_STATES)[number];
+
+export interface ButtonNode extends NodeBase {
   type: "button";
   label: string;
-  background?: string;
-  textColor?: string;
-  borderRadius?: number;
+  variant?: ButtonVariant;
+  /**
+   * State the button is shown in; styling defaults follow the variant and state
+   */
+  state?: ButtonState;
+  background?: ColorValue;
+  textColor?: ColorValue;
+  borderRadius?: RadiusValue;
+  border?: Border;
+  width?: Sizing;
+  height?: Sizing;
+  primaryAxisAlign?: PrimaryAxisAlign;
+  counterAxisAlign?: CounterAxisAlign;
 }
 
-export interface ContainerNode {
+export interface ContainerNode extends NodeBase, SurfaceStyle {
   type: "container";
   layout: Layout;
-  gap: number;
-  padding: number;
+  gap: SpacingValue;
+  padding: PaddingValue;
   children: Node[];
-  background?: string;
-  borderRadius?: number;
+  width?: Sizing;
+  height?: Sizing;
+  primaryAxisAlign?: PrimaryAxisAlign;
+  counterAxisAlign?: CounterAxisAlign;
+}
+
+export type ImageFit = "fill" | "fit" | "crop";
+
+export interface ImageNode extends NodeBase {
+  type: "image";
+  alt: string;
+  width?: number;
+  aspectRatio?: number;
+  fit?: ImageFit;
+  background?: ColorValue;
+  borderRadius?: RadiusValue;
+}
+
+export const ICON_NAMES = [
+  "arrow-left",
+  "arrow-right",
+  "bell",
+  "calendar",
+  "check",
+  "chevron-down",
+  "chevron-left",
+  "chevron-right",
+  "close",
+  "edit",
+  "eye",
+  "eye-off",
+  "heart",
+  "home",
+  "info",
+  "lock",
+  "mail",
+  "menu",
+  "plus",
+  "search",
+  "settings",
+  "star",
+  "trash",
+  "user",
+  "warning",
+] as const;
+
+export type IconName = (typeof ICON_NAMES)[number];
+
+export interface IconNode extends NodeBase {
+  type: "icon";
+  name: IconName;
+  size?: number;
+  color?: ColorValue;
+}
+
+export type InputType = "text" | "email" | "password" | "number" | "search";
+
+export interface InputNode extends NodeBase {
+  type: "input";
+  label?: string;
+  placeholder?: string;
+  value?: string;
+  inputType?: InputType;
+  helperText?: string;
+  error?: string;
+  state?: InputState;
+  background?: ColorValue;
+  borderRadius?: RadiusValue;
   border?: Border;
+  width?: Sizing;
+}
+
+export interface CheckboxNode extends NodeBase {
+  type: "checkbox";
+  label: string;
+  checked?: boolean;
+  color?: ColorValue;
+}
+
+export interface RadioNode extends NodeBase {
+  type: "radio";
+  label: string;
+  group?: string;
+  checked?: boolean;
+  color?: ColorValue;
+}
+
+export interface ToggleNode extends NodeBase {
+  type: "toggle";
+  label: string;
+  checked?: boolean;
+  color?: ColorValue;
+}
+
+export interface SelectNode extends NodeBase {
+  type: "select";
+  label?: string;
+  placeholder?: string;
+  value?: string;
+  options: string[];
+  helperText?: string;
+  error?: string;
+  state?: InputState;
+  background?: ColorValue;
+  borderRadius?: RadiusValue;
+  border?: Border;
+  width?: Sizing;
+}
+
+export type FormControlNode = InputNode | CheckboxNode | RadioNode | ToggleNode | SelectNode;
+
+export const FORM_CONTROL_TYPES = ["input", "checkbox", "radio", "toggle", "select"] as const;
+
+/**
+ * Top app bar: optional leading icon (back, menu), the screen title and trailing icon actions
+ */
+export interface NavBarNode extends NodeBase {
+  type: "navBar";
+  title: string;
+  leadingIcon?: IconName;
+  actions?: IconName[];
+  background?: ColorValue;
+  color?: ColorValue;
+}
+
+export interface TabBarItem {
+  label: string;
+  icon?: IconName;
+}
+
+/**
+ * Row of tabs, e.g. the bottom navigation of a mobile app
+ */
+export interface TabBarNode extends NodeBase {
+  type: "tabBar";
+  tabs: TabBarItem[];
+  /**
+   * Index of the selected tab (default 0)
+   */
+  activeIndex?: number;
+  background?: ColorValue;
+  color?: ColorValue;
+  activeColor?: ColorValue;
+}
+
+export type ListItemControl = "toggle" | "checkbox";
+
+/**
+ * Row of a list: leading icon, title with optional subtitle, and trailing text, icon or control
+ */
+export interface ListItemNode extends NodeBase {
+  type: "listItem";
+  title: string;
+  subtitle?: string;
+  leadingIcon?: IconName;
+  trailingText?: string;
+  trailingIcon?: IconName;
+  control?: ListItemControl;
+  checked?: boolean;
+}
+
+export interface ListNode extends NodeBase {
+  type: "list";
+  items: ListItemNode[];
+  /**
+   * Draws a divider between items (default true)
+   */
+  dividers?: boolean;
+  background?: ColorValue;
+  borderRadius?: RadiusValue;
+  width?: Sizing;
+}
+
+export type TableAlign = "left" | "center" | "right";
+
+export interface TableColumn {
+  header: string;
+  width?: Sizing;
+  align?: TableAlign;
 }
 
-export type Node = TextNode | ButtonNode | ContainerNode;
+/**
+ * Data table with a header row; every row has one cell per column
+ */
+export interface TableNode extends NodeBase {
+  type: "table";
+  columns: TableColumn[];
+  rows: string[][];
+  /**
+   * Alternates the row background
+   */
+  striped?: boolean;
+  background?: ColorValue;
+  borderColor?: ColorValue;
+  width?: Sizing;
+}
+
+export interface DividerNode extends NodeBase {
+  type: "divider";
+  /**
+   * "horizontal" (default) separates stacked content, "vertical" separates items in a row
+   */
+  orientation?: Layout;
+  color?: ColorValue;
+  thickness?: number;
+}
+
+/**
+ * Empty space along the parent layout; without a size it takes up the remaining space
+ */
+export interface SpacerNode extends NodeBase {
+  type: "spacer";
+  size?: SpacingValue;
+}
+
+/**
+ * Placement of a component definition. `overrides` fill the definition's parameter slots.
+ */
+export interface InstanceNode extends NodeBase {
+  type: "instance";
+  component: string;
+  overrides?: Record<string, string>;
+  width?: Sizing;
+}
+
+export type Node =
+  | TextNode
+  | ButtonNode
+  | ImageNode
+  | IconNode
+  | FormControlNode
+  | InstanceNode
+  | NavBarNode
+  | TabBarNode
+  | ListNode
+  | ListItemNode
+  | TableNode
+  | DividerNode
+  | SpacerNode
+  | ContainerNode;
+
+/**
+ * Reusable node tree. String fields whose whole value is "{{param}}" are parameter slots;
+ * `params` declares every slot with its default value.
+ */
+export interface ComponentDefinition {
+  params?: Record<string, string>;
+  node: Node;
+}
 
 export interface DesignSpec {
+  /** Contract version, see CURRENT_SPEC_VERSION; absent on documents that predate versioning */
+  specVersion?: number;
   page: string;
+  tokens?: DesignTokens;
+  components?: Record<string, ComponentDefinition>;
   frame: Frame;
   nodes: Node[];
 }
 
+export interface FlowScreen {
+  id: string;
+  frame: Frame;
+  nodes: Node[];
+}
+
+/**
+ * Navigation edge: clicking the button `trigger` on screen `from` leads to screen `to`
+ */
+export interface FlowEdge {
+  from: string;
+  trigger: string;
+  to: string;
+}
+
+/**
+ * Multi-screen spec: several screens on one page plus the navigation graph between them
+ */
+export interface FlowSpec {
+  specVersion?: number;
+  page: string;
+  tokens?: DesignTokens;
+  components?: Record<string, ComponentDefinition>;
+  screens: FlowScreen[];
+  edges: FlowEdge[];
+}
+
 export type TargetLayout = "mobile" | "tablet" | "desktop";
 
 export type UIStrictness = "strict" | "balanced";
@@ -67,4 +601,28 @@ export interface GenerationContext {
   uxPatterns: UXPatterns;
   visualBaseline?: boolean;
   strictLayout?: boolean;
+  /**
+   * Snap off-scale gaps, paddings, font sizes and radii to the nearest value on the scale
+   */
+  snapToScale?: boolean;
 }
+
+/**
+ * Quality tiers of a generation; the API maps each tier to a model
+ */
+export const MODEL_QUALITIES = ["fast", "balanced", "best"] as const;
+
+export type ModelQuality = (typeof MODEL_QUALITIES)[number];
+
+/**
+ * Most candidate specs one request may ask for
+ */
+export const MAX_CANDIDATES = 4;
+
+/**
+ * One operation of a JSON Patch (RFC 6902); `path` is a JSON Pointer such as "/nodes/2/label"
+ */
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown };